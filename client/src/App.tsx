@@ -14,6 +14,11 @@ import Settings from "./pages/Settings";
 import Blacklist from "./pages/Blacklist";
 import NotificationHistory from "./pages/NotificationHistory";
 import Integrations from "./pages/Integrations";
+import Occupancy from "./pages/Occupancy";
+import Schedules from "./pages/Schedules";
+import Groups from "./pages/Groups";
+import ReviewQueue from "./pages/ReviewQueue";
+import Jobs from "./pages/Jobs";
 
 function Router() {
   return (
@@ -22,12 +27,17 @@ function Router() {
         <Route path="/" component={Dashboard} />
         <Route path="/barrier" component={BarrierControl} />
         <Route path="/vehicles" component={Vehicles} />
+        <Route path="/schedules" component={Schedules} />
+        <Route path="/groups" component={Groups} />
         <Route path="/blacklist" component={Blacklist} />
+        <Route path="/review" component={ReviewQueue} />
         <Route path="/passages" component={Passages} />
+        <Route path="/occupancy" component={Occupancy} />
         <Route path="/medical" component={MedicalRecords} />
         <Route path="/settings" component={Settings} />
         <Route path="/notifications" component={NotificationHistory} />
         <Route path="/integrations" component={Integrations} />
+        <Route path="/jobs" component={Jobs} />
         <Route path="/404" component={NotFound} />
         <Route component={NotFound} />
       </Switch>
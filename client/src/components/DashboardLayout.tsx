@@ -21,6 +21,7 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 import { getLoginUrl } from "@/const";
+import { trpc } from "@/lib/trpc";
 import { useIsMobile } from "@/hooks/useMobile";
 import { 
   LayoutDashboard, 
@@ -35,7 +36,12 @@ import {
   ChevronRight,
   ShieldBan,
   Bell,
-  Plug
+  Plug,
+  ParkingSquare,
+  CalendarClock,
+  Users,
+  ClipboardCheck,
+  Timer
 } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
@@ -47,10 +53,15 @@ const menuItems = [
   { icon: LayoutDashboard, label: "Dashboard", path: "/" },
   { icon: Camera, label: "Barrier Control", path: "/barrier" },
   { icon: Car, label: "Vehicles", path: "/vehicles" },
+  { icon: CalendarClock, label: "Schedules", path: "/schedules", adminOnly: true },
+  { icon: Users, label: "Groups", path: "/groups", adminOnly: true },
   { icon: ShieldBan, label: "Blacklist", path: "/blacklist", adminOnly: true },
+  { icon: ClipboardCheck, label: "Review Queue", path: "/review" },
   { icon: History, label: "Passages", path: "/passages" },
+  { icon: ParkingSquare, label: "Occupancy", path: "/occupancy" },
   { icon: Bell, label: "Notifications", path: "/notifications", adminOnly: true },
   { icon: Plug, label: "Integrations", path: "/integrations", adminOnly: true },
+  { icon: Timer, label: "Jobs", path: "/jobs", adminOnly: true },
   { icon: FileText, label: "Medical Records", path: "/medical", adminOnly: true },
   { icon: Settings, label: "Settings", path: "/settings", adminOnly: true },
 ];
@@ -144,6 +155,9 @@ function DashboardLayoutContent({
   const isAdmin = user?.role === "admin";
 
   const visibleMenuItems = menuItems.filter(item => !item.adminOnly || isAdmin);
+  const { data: pendingReviews } = trpc.review.pendingCount.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
 
   useEffect(() => {
     if (isCollapsed) {
@@ -225,6 +239,11 @@ function DashboardLayoutContent({
                         className={`h-4 w-4 ${isActive ? "text-primary" : ""}`}
                       />
                       <span>{item.label}</span>
+                      {item.path === "/review" && !!pendingReviews && (
+                        <Badge variant="destructive" className="ml-auto text-[10px] px-1.5 py-0">
+                          {pendingReviews}
+                        </Badge>
+                      )}
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                 );
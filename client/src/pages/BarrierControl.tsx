@@ -48,11 +48,14 @@ import {
   Star,
   StarOff,
   Wifi,
-  WifiOff
+  WifiOff,
+  Car
 } from "lucide-react";
 
 type ViewMode = "single" | "grid2x2" | "grid3x3";
 
+const BURST_SPACING_MS = 150;
+
 interface CameraFeed {
   id: number;
   name: string;
@@ -68,6 +71,7 @@ export default function BarrierControl() {
   const [cameraUrl, setCameraUrl] = useState("");
   const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
   const [autoOpen, setAutoOpen] = useState(true);
+  const [burstFrames, setBurstFrames] = useState("1");
   const [isScanning, setIsScanning] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("single");
   const [selectedCamera, setSelectedCamera] = useState<number | null>(null);
@@ -75,8 +79,16 @@ export default function BarrierControl() {
   const [lastResult, setLastResult] = useState<{
     plate: string | null;
     confidence: number;
+    provider: string | null;
+    latencyMs: number;
     isAllowed: boolean;
-    barrierOpened: boolean | undefined;
+    barrierOpened: boolean;
+    barrierError: string | null;
+    duplicate: boolean;
+    frameCount: number;
+    denialReason: string | null;
+    medicalStatus: string | null;
+    candidates: { frame: number; plate: string | null; confidence: number; error?: string }[] | null;
   } | null>(null);
   
   const videoRefs = useRef<Map<number, HTMLVideoElement>>(new Map());
@@ -84,6 +96,9 @@ export default function BarrierControl() {
 
   const { data: cameraSetting } = trpc.settings.get.useQuery({ key: "camera_url" });
   const { data: cameraIntegrations } = trpc.cameraIntegrations.list.useQuery();
+  const { data: presentVehicles } = trpc.passages.present.useQuery(undefined, {
+    refetchInterval: 5000,
+  });
   
   // Build camera list from integrations
   const cameras: CameraFeed[] = cameraIntegrations?.map(cam => ({
@@ -134,18 +149,35 @@ export default function BarrierControl() {
       setLastResult(result);
       setIsScanning(false);
       
-      if (result.isAllowed && result.barrierOpened) {
+      const medicalFailed = result.medicalStatus !== null && result.medicalStatus !== "valid";
+
+      if (result.duplicate) {
+        toast.info(`${result.plate} is still at the gate (frame ${result.frameCount})`);
+      } else if (!result.isAllowed && medicalFailed) {
+        toast.error(`Entry blocked for ${result.plate}: medical check ${result.medicalStatus}`);
+      } else if (result.guestPass && !result.barrierError) {
+        toast.success(`Guest pass accepted for ${result.plate} (${result.guestPass.maxEntries - result.guestPass.usedEntries} entries left)`);
+      } else if (result.isAllowed && result.barrierOpened) {
         toast.success(`Access granted for ${result.plate}`);
+      } else if (result.isAllowed && result.barrierError) {
+        toast.error(`Access granted for ${result.plate}, but barrier failed: ${result.barrierError}`);
       } else if (result.isAllowed) {
         toast.success(`Recognized: ${result.plate} (allowed)`);
+      } else if (result.plate && result.vehicle?.isActive) {
+        toast.warning(`Access denied for ${result.plate}: ${result.denialReason}`);
       } else if (result.plate) {
         toast.warning(`Unknown vehicle: ${result.plate}`);
       } else {
         toast.error("Could not recognize license plate");
       }
+
+      if (!result.duplicate && result.isAllowed && medicalFailed) {
+        toast.warning(`Medical check for ${result.plate}: ${result.medicalStatus}`);
+      }
       
       utils.passages.list.invalidate();
       utils.passages.stats.invalidate();
+      utils.passages.present.invalidate();
     },
     onError: (error) => {
       setIsScanning(false);
@@ -181,11 +213,22 @@ export default function BarrierControl() {
     const targetCameraId = cameraId ?? selectedCamera ?? primaryCamera?.id;
     const videoRef = targetCameraId !== undefined ? videoRefs.current.get(targetCameraId) : null;
 
-    // If video is available, capture from it
+    // If video is available, capture a burst from it
     if (videoRef && videoRef.readyState >= 2) {
       canvas.width = videoRef.videoWidth || 640;
       canvas.height = videoRef.videoHeight || 480;
-      ctx.drawImage(videoRef, 0, 0);
+      const frames: string[] = [];
+      for (let i = 0; i < parseInt(burstFrames, 10); i++) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, BURST_SPACING_MS));
+        ctx.drawImage(videoRef, 0, 0);
+        frames.push(canvas.toDataURL("image/jpeg", 0.8).split(",")[1]);
+      }
+      recognizeMutation.mutate({
+        frames,
+        autoOpen,
+        cameraId: targetCameraId ? targetCameraId : undefined,
+      });
+      return;
     } else {
       // Demo mode - create a placeholder image
       canvas.width = 640;
@@ -200,8 +243,13 @@ export default function BarrierControl() {
     }
 
     const imageBase64 = canvas.toDataURL("image/jpeg", 0.8).split(",")[1];
-    recognizeMutation.mutate({ imageBase64, autoOpen });
-  }, [autoOpen, recognizeMutation, selectedCamera, primaryCamera]);
+    // Camera id 0 is the legacy camera URL, which has no integration row
+    recognizeMutation.mutate({
+      imageBase64,
+      autoOpen,
+      cameraId: targetCameraId ? targetCameraId : undefined,
+    });
+  }, [autoOpen, burstFrames, recognizeMutation, selectedCamera, primaryCamera]);
 
   const handleManualOpen = () => {
     setIsOpenDialogOpen(true);
@@ -561,6 +609,14 @@ export default function BarrierControl() {
                       {lastResult.confidence}%
                     </Badge>
                   </div>
+                  {lastResult.provider && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Engine:</span>
+                      <span className="text-sm">
+                        {lastResult.provider} · {lastResult.latencyMs} ms
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Status:</span>
                     {lastResult.isAllowed ? (
@@ -577,10 +633,49 @@ export default function BarrierControl() {
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Barrier:</span>
-                    <Badge variant="outline">
-                      {lastResult.barrierOpened ? "Opened" : "Closed"}
-                    </Badge>
+                    {lastResult.barrierError ? (
+                      <Badge variant="destructive" className="flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Error
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">
+                        {lastResult.barrierOpened ? "Opened" : "Closed"}
+                      </Badge>
+                    )}
                   </div>
+                  {lastResult.barrierError && (
+                    <p className="text-xs text-destructive">{lastResult.barrierError}</p>
+                  )}
+                  {!lastResult.isAllowed && lastResult.denialReason && (
+                    <p className="text-xs text-muted-foreground">{lastResult.denialReason}</p>
+                  )}
+                  {lastResult.medicalStatus && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Medical:</span>
+                      <Badge variant={lastResult.medicalStatus === "valid" ? "outline" : "destructive"}>
+                        {lastResult.medicalStatus}
+                      </Badge>
+                    </div>
+                  )}
+                  {lastResult.duplicate && (
+                    <p className="text-xs text-muted-foreground">
+                      Same visit, frame {lastResult.frameCount}
+                    </p>
+                  )}
+                  {lastResult.candidates && (
+                    <div className="space-y-1 pt-2 border-t">
+                      <span className="text-xs text-muted-foreground">Frame reads:</span>
+                      {lastResult.candidates.map((candidate) => (
+                        <div key={candidate.frame} className="flex items-center justify-between text-xs">
+                          <span className="font-mono">
+                            #{candidate.frame + 1} {candidate.plate || (candidate.error ? "error" : "—")}
+                          </span>
+                          <span className="text-muted-foreground">{candidate.confidence}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-4 text-muted-foreground">
@@ -591,6 +686,32 @@ export default function BarrierControl() {
             </CardContent>
           </Card>
 
+          {/* Vehicles currently at the gate */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Car className="h-5 w-5" />
+                At the Gate
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {presentVehicles && presentVehicles.length > 0 ? (
+                <div className="space-y-2">
+                  {presentVehicles.map((visit) => (
+                    <div key={visit.id} className="flex items-center justify-between">
+                      <span className="font-mono font-bold">{visit.licensePlate}</span>
+                      <span className="text-xs text-muted-foreground">
+                        since {new Date(visit.timestamp).toLocaleTimeString("ru-RU")} · ×{visit.frameCount}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">No vehicles present</p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Auto-Open Setting */}
           <Card>
             <CardHeader>
@@ -613,6 +734,24 @@ export default function BarrierControl() {
                   onCheckedChange={setAutoOpen}
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Frames per scan</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Several frames vote on the plate
+                  </p>
+                </div>
+                <Select value={burstFrames} onValueChange={setBurstFrames}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["1", "3", "5"].map((count) => (
+                      <SelectItem key={count} value={count}>{count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               
               {user?.role === "admin" && allCameras.length === 0 && (
                 <div className="space-y-2 pt-4 border-t">
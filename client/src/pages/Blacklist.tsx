@@ -439,6 +439,12 @@ export default function Blacklist() {
                       </Card>
                     </div>
 
+                    {previewImportMutation.data.invalidPlates > 0 && (
+                      <p className="text-sm text-destructive">
+                        Неверный формат номера в {previewImportMutation.data.invalidPlates} строк(ах) — они не будут импортированы
+                      </p>
+                    )}
+
                     {previewImportMutation.data.sampleRows.length > 0 && (
                       <div>
                         <h4 className="font-medium mb-2">Предпросмотр данных:</h4>
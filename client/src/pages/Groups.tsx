@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Users, UserCog } from "lucide-react";
+
+type GroupType = "tenant" | "department" | "residents" | "staff";
+
+const GROUP_TYPES: { value: GroupType; label: string }[] = [
+  { value: "tenant", label: "Tenant" },
+  { value: "department", label: "Department" },
+  { value: "residents", label: "Residents" },
+  { value: "staff", label: "Staff" },
+];
+
+type GroupFormData = {
+  name: string;
+  type: GroupType;
+  description: string;
+  scheduleId: number | null;
+  allowedBarrierIds: number[];
+  allowedCameraIds: number[];
+  isActive: boolean;
+};
+
+const initialFormData: GroupFormData = {
+  name: "",
+  type: "tenant",
+  description: "",
+  scheduleId: null,
+  allowedBarrierIds: [],
+  allowedCameraIds: [],
+  isActive: true,
+};
+
+function toggleId(ids: number[], id: number) {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+}
+
+export default function Groups() {
+  const utils = trpc.useUtils();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<GroupFormData>(initialFormData);
+
+  const { data: groups, isLoading } = trpc.groups.list.useQuery();
+  const { data: users } = trpc.groups.users.useQuery();
+  const { data: schedules } = trpc.schedules.list.useQuery();
+  const { data: barriers } = trpc.barrierIntegrations.list.useQuery();
+  const { data: cameras } = trpc.cameraIntegrations.list.useQuery();
+
+  const namesOf = (ids: number[], items?: { id: number; name: string }[]) =>
+    ids.length > 0
+      ? ids.map((id) => items?.find((i) => i.id === id)?.name ?? `#${id}`).join(", ")
+      : "Any";
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.groups.list.invalidate();
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setFormData(initialFormData);
+  };
+
+  const createMutation = trpc.groups.create.useMutation({
+    onSuccess: () => onSaved("Group created"),
+    onError: (error) => toast.error(error.message || "Failed to create group"),
+  });
+
+  const updateMutation = trpc.groups.update.useMutation({
+    onSuccess: () => onSaved("Group updated"),
+    onError: (error) => toast.error(error.message || "Failed to update group"),
+  });
+
+  const deleteMutation = trpc.groups.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Group deleted");
+      utils.groups.list.invalidate();
+      utils.groups.users.invalidate();
+      utils.vehicles.list.invalidate();
+      setDeletingId(null);
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete group"),
+  });
+
+  const setAdminMutation = trpc.groups.setGroupAdmin.useMutation({
+    onSuccess: () => {
+      toast.success("Group admin updated");
+      utils.groups.users.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to update group admin"),
+  });
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setFormData(initialFormData);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (group: NonNullable<typeof groups>[number]) => {
+    setEditingId(group.id);
+    setFormData({
+      name: group.name,
+      type: group.type,
+      description: group.description || "",
+      scheduleId: group.scheduleId,
+      allowedBarrierIds: group.allowedBarrierIds,
+      allowedCameraIds: group.allowedCameraIds,
+      isActive: group.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = { ...formData, description: formData.description || undefined };
+
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Vehicle Groups</h1>
+          <p className="text-muted-foreground">Tenants, departments, residents and staff with a shared access policy</p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Group
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Groups
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : groups && groups.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Barriers</TableHead>
+                  <TableHead>Lanes</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.id}>
+                    <TableCell>
+                      <p className="font-medium">{group.name}</p>
+                      {group.description && (
+                        <p className="text-xs text-muted-foreground">{group.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {GROUP_TYPES.find((t) => t.value === group.type)?.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedules?.find((s) => s.id === group.scheduleId)?.name || (
+                        <span className="text-muted-foreground">Any time</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{namesOf(group.allowedBarrierIds, barriers)}</TableCell>
+                    <TableCell className="text-sm">{namesOf(group.allowedCameraIds, cameras)}</TableCell>
+                    <TableCell>
+                      <Badge variant={group.isActive ? "default" : "secondary"}>
+                        {group.isActive ? "Active" : "Disabled"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(group)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeletingId(group.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8">
+              <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No groups yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCog className="h-5 w-5" />
+            Group Admins
+          </CardTitle>
+          <CardDescription>
+            A group admin can add, edit and remove the vehicles of their own group only.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {users && users.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Manages Group</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((u) => (
+                  <TableRow key={u.id}>
+                    <TableCell>
+                      <p>{u.name || "-"}</p>
+                      {u.email && <p className="text-xs text-muted-foreground">{u.email}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={u.role === "admin" ? "default" : "secondary"}>{u.role}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={u.managedGroupId?.toString() ?? "none"}
+                        onValueChange={(v) => setAdminMutation.mutate({
+                          userId: u.id,
+                          groupId: v === "none" ? null : Number(v),
+                        })}
+                        disabled={u.role === "admin"}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {groups?.map((g) => (
+                            <SelectItem key={g.id} value={g.id.toString()}>
+                              {g.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center py-4 text-muted-foreground">No users</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Group" : "New Group"}</DialogTitle>
+            <DialogDescription>
+              Vehicles in this group use its schedule unless they have their own, and may only pass the selected barriers and lanes.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="group-name">Name *</Label>
+                <Input
+                  id="group-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Office 3"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(v) => setFormData({ ...formData, type: v as GroupType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GROUP_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-description">Description</Label>
+              <Input
+                id="group-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default Schedule</Label>
+              <Select
+                value={formData.scheduleId?.toString() ?? "none"}
+                onValueChange={(v) => setFormData({ ...formData, scheduleId: v === "none" ? null : Number(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any time</SelectItem>
+                  {schedules?.map((schedule) => (
+                    <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                      {schedule.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permitted Barriers</Label>
+              <div className="flex flex-wrap gap-2">
+                {barriers?.map((barrier) => (
+                  <Button
+                    key={barrier.id}
+                    type="button"
+                    size="sm"
+                    variant={formData.allowedBarrierIds.includes(barrier.id) ? "default" : "outline"}
+                    onClick={() => setFormData({
+                      ...formData,
+                      allowedBarrierIds: toggleId(formData.allowedBarrierIds, barrier.id),
+                    })}
+                  >
+                    {barrier.name}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected means any barrier</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permitted Lanes (cameras)</Label>
+              <div className="flex flex-wrap gap-2">
+                {cameras?.map((camera) => (
+                  <Button
+                    key={camera.id}
+                    type="button"
+                    size="sm"
+                    variant={formData.allowedCameraIds.includes(camera.id) ? "default" : "outline"}
+                    onClick={() => setFormData({
+                      ...formData,
+                      allowedCameraIds: toggleId(formData.allowedCameraIds, camera.id),
+                    })}
+                  >
+                    {camera.name}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected means any lane</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="group-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+              />
+              <Label htmlFor="group-active">Group may enter</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                {editingId ? "Save Changes" : "Create Group"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Group?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its vehicles stay registered without a group, and its group admins lose their access.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingId !== null && deleteMutation.mutate({ id: deletingId })}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
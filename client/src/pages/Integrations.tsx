@@ -17,6 +17,21 @@ import {
   RefreshCw, Play, Square, Eye
 } from "lucide-react";
 
+// Recognition engines in fallback order
+const RECOGNITION_PROVIDER_OPTIONS = [
+  { value: 'llm', label: 'LLM (облачное распознавание)' },
+  { value: 'local_http', label: 'Локальный ALPR-сервис' },
+  { value: 'local_http,llm', label: 'Локальный → LLM (резерв)' },
+  { value: 'llm,local_http', label: 'LLM → локальный (резерв)' },
+];
+
+// Lane a camera or barrier serves
+const LANE_OPTIONS = [
+  { value: 'both', label: 'Въезд и выезд' },
+  { value: 'entry', label: 'Въезд' },
+  { value: 'exit', label: 'Выезд' },
+];
+
 // Barrier integration types with icons and descriptions
 const BARRIER_TYPES = [
   { 
@@ -111,6 +126,7 @@ const CAMERA_TYPES = [
 
 type BarrierType = 'came' | 'nice' | 'bft' | 'doorhan' | 'gpio' | 'custom_http';
 type CameraType = 'hikvision' | 'dahua' | 'axis' | 'onvif' | 'custom_rtsp' | 'custom_http';
+type Lane = 'entry' | 'exit' | 'both';
 
 export default function Integrations() {
   const [activeTab, setActiveTab] = useState('barriers');
@@ -140,6 +156,7 @@ export default function Integrations() {
     gpioActiveHigh: true,
     openDuration: 5000,
     timeout: 10000,
+    lane: 'both' as Lane,
     isActive: true,
     isPrimary: false,
   });
@@ -158,6 +175,10 @@ export default function Integrations() {
     recognitionEnabled: true,
     recognitionInterval: 1000,
     recognitionConfidenceThreshold: 70,
+    recognitionBurstFrames: 1,
+    recognitionProviders: 'llm',
+    recognitionEndpoint: '',
+    lane: 'both' as Lane,
     isActive: true,
     isPrimary: false,
   });
@@ -165,6 +186,10 @@ export default function Integrations() {
   // Queries
   const { data: barriers, refetch: refetchBarriers } = trpc.barrierIntegrations.list.useQuery();
   const { data: cameras, refetch: refetchCameras } = trpc.cameraIntegrations.list.useQuery();
+  const { data: recognitionStatus, refetch: refetchRecognitionStatus } = trpc.cameraIntegrations.recognitionStatus.useQuery(
+    undefined,
+    { refetchInterval: 5000 }
+  );
 
   // Mutations
   const createBarrier = trpc.barrierIntegrations.create.useMutation({
@@ -272,6 +297,25 @@ export default function Integrations() {
     },
   });
 
+  const startRecognition = trpc.cameraIntegrations.startRecognition.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Распознавание запущено (камер: ${result.started.length})`);
+      refetchRecognitionStatus();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const stopRecognition = trpc.cameraIntegrations.stopRecognition.useMutation({
+    onSuccess: () => {
+      toast.success('Распознавание остановлено');
+      refetchRecognitionStatus();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const getCameraWorker = (cameraId: number) =>
+    recognitionStatus?.cameras.find(c => c.cameraId === cameraId);
+
   const resetBarrierForm = () => {
     setBarrierForm({
       name: '',
@@ -288,6 +332,7 @@ export default function Integrations() {
       gpioActiveHigh: true,
       openDuration: 5000,
       timeout: 10000,
+      lane: 'both',
       isActive: true,
       isPrimary: false,
     });
@@ -308,6 +353,10 @@ export default function Integrations() {
       recognitionEnabled: true,
       recognitionInterval: 1000,
       recognitionConfidenceThreshold: 70,
+      recognitionBurstFrames: 1,
+      recognitionProviders: 'llm',
+      recognitionEndpoint: '',
+      lane: 'both',
       isActive: true,
       isPrimary: false,
     });
@@ -360,6 +409,7 @@ export default function Integrations() {
       gpioActiveHigh: barrier.gpioActiveHigh ?? true,
       openDuration: barrier.openDuration || 5000,
       timeout: barrier.timeout || 10000,
+      lane: barrier.lane || 'both',
       isActive: barrier.isActive ?? true,
       isPrimary: barrier.isPrimary ?? false,
     });
@@ -382,6 +432,10 @@ export default function Integrations() {
       recognitionEnabled: camera.recognitionEnabled ?? true,
       recognitionInterval: camera.recognitionInterval || 1000,
       recognitionConfidenceThreshold: camera.recognitionConfidenceThreshold || 70,
+      recognitionBurstFrames: camera.recognitionBurstFrames || 1,
+      recognitionProviders: camera.recognitionProviders || 'llm',
+      recognitionEndpoint: camera.recognitionEndpoint || '',
+      lane: camera.lane || 'both',
       isActive: camera.isActive ?? true,
       isPrimary: camera.isPrimary ?? false,
     });
@@ -506,7 +560,7 @@ export default function Integrations() {
                                   )}
                                 </div>
                                 <p className="text-sm text-gray-400">
-                                  {typeInfo?.label} • {barrier.host}:{barrier.port}
+                                  {typeInfo?.label} • {barrier.host}:{barrier.port} • {LANE_OPTIONS.find(o => o.value === barrier.lane)?.label}
                                 </p>
                               </div>
                             </div>
@@ -612,6 +666,41 @@ export default function Integrations() {
               })}
             </div>
 
+            {/* Server-side Recognition */}
+            <Card className="bg-gray-800/50 border-gray-700">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Zap className={`w-5 h-5 ${recognitionStatus?.running ? 'text-green-400' : 'text-gray-500'}`} />
+                  <div>
+                    <h3 className="font-semibold text-white">Фоновое распознавание</h3>
+                    <p className="text-sm text-gray-400">
+                      {recognitionStatus?.running
+                        ? `Работает на ${recognitionStatus.cameras.length} камерах`
+                        : 'Остановлено — распознавание только по кнопке на странице шлагбаума'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startRecognition.mutate()}
+                    disabled={startRecognition.isPending}
+                  >
+                    <Play className="w-4 h-4 mr-1" /> Запустить все
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => stopRecognition.mutate()}
+                    disabled={stopRecognition.isPending || !recognitionStatus?.running}
+                  >
+                    <Square className="w-4 h-4 mr-1" /> Остановить все
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Existing Integrations */}
             <div className="space-y-4">
               <h2 className="text-lg font-semibold text-white">Настроенные интеграции</h2>
@@ -620,6 +709,7 @@ export default function Integrations() {
                   {cameras.map((camera: any) => {
                     const typeInfo = CAMERA_TYPES.find(t => t.value === camera.type);
                     const Icon = typeInfo?.icon || Camera;
+                    const worker = getCameraWorker(camera.id);
                     return (
                       <Card key={camera.id} className="bg-gray-800/50 border-gray-700">
                         <CardContent className="p-4">
@@ -642,15 +732,32 @@ export default function Integrations() {
                                       <Zap className="w-3 h-3 mr-1" /> Recognition
                                     </Badge>
                                   )}
+                                  {worker && (
+                                    <Badge className="bg-green-500/20 text-green-400 border-green-500/50">
+                                      <Play className="w-3 h-3 mr-1" /> Running
+                                    </Badge>
+                                  )}
                                 </div>
                                 <p className="text-sm text-gray-400">
-                                  {typeInfo?.label} • {camera.host}:{camera.port}
+                                  {typeInfo?.label} • {camera.host}:{camera.port} • {LANE_OPTIONS.find(o => o.value === camera.lane)?.label}
                                 </p>
                               </div>
                             </div>
                             <div className="flex items-center gap-4">
                               {getStatusBadge(camera.lastStatus)}
                               <div className="flex gap-2">
+                                {camera.recognitionEnabled && camera.isActive && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => worker
+                                      ? stopRecognition.mutate({ id: camera.id })
+                                      : startRecognition.mutate({ id: camera.id })}
+                                    disabled={startRecognition.isPending || stopRecognition.isPending}
+                                  >
+                                    {worker ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                  </Button>
+                                )}
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -691,6 +798,13 @@ export default function Integrations() {
                           {camera.lastError && (
                             <p className="text-sm text-red-400 mt-2">Ошибка: {camera.lastError}</p>
                           )}
+                          {worker && (
+                            <p className="text-sm text-gray-400 mt-2">
+                              Кадров: {worker.framesProcessed} • Проездов: {worker.passagesCreated} • Повторных: {worker.framesMerged} • На проверку (ниже порога): {worker.lowConfidenceQueued}
+                              {worker.lastPlate && ` • Последний номер: ${worker.lastPlate} (${worker.lastConfidence}%)`}
+                              {worker.lastError && <span className="text-red-400"> • {worker.lastError}</span>}
+                            </p>
+                          )}
                           {camera.lastSnapshot && (
                             <div className="mt-3">
                               <img 
@@ -898,6 +1012,25 @@ export default function Integrations() {
                 </div>
               )}
 
+              <div className="space-y-2">
+                <Label>Полоса движения</Label>
+                <Select
+                  value={barrierForm.lane}
+                  onValueChange={(value) => setBarrierForm(prev => ({ ...prev, lane: value as Lane }))}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Таймаут (мс)</Label>
@@ -1101,10 +1234,77 @@ export default function Integrations() {
                         className="bg-gray-800 border-gray-700"
                       />
                     </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label>Кадров на распознавание</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={cameraForm.recognitionBurstFrames}
+                        onChange={(e) => setCameraForm(prev => ({ ...prev, recognitionBurstFrames: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 10) }))}
+                        className="bg-gray-800 border-gray-700"
+                      />
+                      <p className="text-xs text-gray-500">
+                        Несколько снимков подряд голосуют за итоговый номер; 1 — один снимок
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {cameraForm.recognitionEnabled && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Движок распознавания</Label>
+                      <Select
+                        value={cameraForm.recognitionProviders}
+                        onValueChange={(value) => setCameraForm(prev => ({ ...prev, recognitionProviders: value }))}
+                      >
+                        <SelectTrigger className="bg-gray-800 border-gray-700">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RECOGNITION_PROVIDER_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {cameraForm.recognitionProviders.includes('local_http') && (
+                      <div className="space-y-2">
+                        <Label>URL локального сервиса распознавания</Label>
+                        <Input
+                          value={cameraForm.recognitionEndpoint}
+                          onChange={(e) => setCameraForm(prev => ({ ...prev, recognitionEndpoint: e.target.value }))}
+                          placeholder="http://192.168.1.50:8080/recognize"
+                          className="bg-gray-800 border-gray-700"
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
 
+              <div className="space-y-2">
+                <Label>Полоса движения</Label>
+                <Select
+                  value={cameraForm.lane}
+                  onValueChange={(value) => setCameraForm(prev => ({ ...prev, lane: value as Lane }))}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex items-center gap-4">
                 <div className="flex items-center gap-2">
                   <Switch
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Timer, Play, Save, History, AlertTriangle } from "lucide-react";
+import type { JobRun } from "../../../drizzle/schema";
+import type { JobState } from "../../../server/jobScheduler";
+
+const RUN_STATUS: Record<JobRun["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  running: { label: "Running", variant: "secondary" },
+  success: { label: "Succeeded", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+function formatTime(date: Date | string | null | undefined) {
+  return date ? new Date(date).toLocaleString() : "—";
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function RunStatusBadge({ status }: { status: JobRun["status"] }) {
+  const { label, variant } = RUN_STATUS[status];
+  return <Badge variant={variant}>{label}</Badge>;
+}
+
+function JobHistoryDialog({ job, onClose }: { job: JobState; onClose: () => void }) {
+  const { data: runs, isLoading } = trpc.jobs.history.useQuery({ name: job.name, limit: 50 });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{job.label} — run history</DialogTitle>
+          <DialogDescription>Latest 50 runs, scheduled and manual</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : runs && runs.length > 0 ? (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatTime(run.startedAt)}</TableCell>
+                    <TableCell className="text-sm capitalize">{run.trigger}</TableCell>
+                    <TableCell><RunStatusBadge status={run.status} /></TableCell>
+                    <TableCell className="text-sm">{formatDuration(run.durationMs)}</TableCell>
+                    <TableCell className={run.status === "failed" ? "text-sm text-red-600" : "text-sm text-muted-foreground"}>
+                      {run.errorMessage ?? run.result ?? "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-6 text-center">This job has not run yet</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function JobCard({ job, onShowHistory }: { job: JobState; onShowHistory: () => void }) {
+  const utils = trpc.useUtils();
+  const [cron, setCron] = useState(job.cron);
+  const [enabled, setEnabled] = useState(job.enabled);
+
+  const updateMutation = trpc.jobs.update.useMutation({
+    onSuccess: () => {
+      toast.success(`${job.label} schedule saved`);
+      utils.jobs.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const runMutation = trpc.jobs.run.useMutation({
+    onSuccess: (result) => {
+      if (result.status === "success") {
+        toast.success(`${job.label}: ${result.result}`);
+      } else {
+        toast.error(`${job.label} failed: ${result.errorMessage}`);
+      }
+      utils.jobs.list.invalidate();
+      utils.jobs.history.invalidate({ name: job.name });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleToggle = (value: boolean) => {
+    setEnabled(value);
+    updateMutation.mutate({ name: job.name, cron: job.cron, enabled: value });
+  };
+
+  const isRunning = job.running || runMutation.isPending;
+  const lastFailureIsCurrent = job.lastFailure && job.lastRun?.id === job.lastFailure.id;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            {job.label}
+            {isRunning ? (
+              <RunStatusBadge status="running" />
+            ) : job.lastRun ? (
+              <RunStatusBadge status={job.lastRun.status} />
+            ) : (
+              <Badge variant="outline">Never run</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>{job.description}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch checked={enabled} onCheckedChange={handleToggle} disabled={updateMutation.isPending} />
+          <span className="text-sm text-muted-foreground w-16">{enabled ? "Enabled" : "Paused"}</span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor={`cron-${job.name}`}>Schedule (cron)</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`cron-${job.name}`}
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className="font-mono"
+                placeholder="*/5 * * * *"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => updateMutation.mutate({ name: job.name, cron, enabled })}
+                disabled={updateMutation.isPending || cron.trim() === job.cron}
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+            {job.cronError && <p className="text-xs text-red-600">{job.cronError}</p>}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-muted-foreground">Next run</Label>
+            <p className="text-sm">{enabled ? formatTime(job.nextRunAt) : "Paused"}</p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-muted-foreground">Last run</Label>
+            <p className="text-sm">
+              {formatTime(job.lastRun?.startedAt)}
+              {job.lastRun && (
+                <span className="text-muted-foreground"> · {formatDuration(job.lastRun.durationMs)}</span>
+              )}
+            </p>
+            {job.lastRun?.result && (
+              <p className="text-xs text-muted-foreground">{job.lastRun.result}</p>
+            )}
+          </div>
+        </div>
+
+        {job.lastFailure && (
+          <div className={`flex items-start gap-2 rounded-md p-3 text-sm ${lastFailureIsCurrent ? "bg-red-50 dark:bg-red-950 text-red-600" : "bg-muted text-muted-foreground"}`}>
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium">Last error · {formatTime(job.lastFailure.startedAt)}</p>
+              <p>{job.lastFailure.errorMessage}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onShowHistory}>
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+          <Button onClick={() => runMutation.mutate({ name: job.name })} disabled={isRunning}>
+            <Play className="h-4 w-4 mr-2" />
+            {isRunning ? "Running..." : "Run now"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Jobs() {
+  const [historyJob, setHistoryJob] = useState<JobState | null>(null);
+  const { data: jobs, isLoading } = trpc.jobs.list.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+          <Timer className="h-6 w-6" />
+          Scheduled Jobs
+        </h1>
+        <p className="text-muted-foreground">
+          Background summaries and cleanup run on cron schedules in the time zone set for quiet hours
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {jobs?.map((job) => (
+            <JobCard
+              key={`${job.name}:${job.cron}:${job.enabled}`}
+              job={job}
+              onShowHistory={() => setHistoryJob(job)}
+            />
+          ))}
+        </div>
+      )}
+
+      {historyJob && <JobHistoryDialog job={historyJob} onClose={() => setHistoryJob(null)} />}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -42,7 +44,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { Plus, Pencil, Trash2, Search, FileText, UserCheck, UserX, Clock, HelpCircle } from "lucide-react";
+import { Plus, Pencil, Trash2, Search, FileText, UserCheck, UserX, Clock, HelpCircle, ClipboardCheck, AlarmClock, RefreshCw, ArrowLeftRight, KeyRound, Copy } from "lucide-react";
 import type { MedicalRecord } from "../../../drizzle/schema";
 
 type MedicalFormData = {
@@ -70,6 +72,234 @@ const statusConfig = {
   unknown: { label: "Unknown", icon: HelpCircle, color: "text-gray-500 bg-gray-500/10 border-gray-500/20" },
 };
 
+const SYNC_STATUS: Record<string, "default" | "secondary" | "destructive"> = {
+  success: "default",
+  partial: "secondary",
+  failed: "destructive",
+};
+
+function MedicalSync() {
+  const utils = trpc.useUtils();
+  const [sourceName, setSourceName] = useState("");
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+
+  const { data: sources } = trpc.medical.syncSources.useQuery();
+  const { data: runs, isLoading } = trpc.medical.syncHistory.useQuery({ limit: 50 });
+  const { data: selectedRun } = trpc.medical.syncRun.useQuery(
+    { id: selectedRunId ?? 0 },
+    { enabled: selectedRunId !== null }
+  );
+  const sourceNameById = (id: number | null) =>
+    id === null ? "Legacy key" : sources?.find((s) => s.id === id)?.name ?? `#${id}`;
+
+  const createSourceMutation = trpc.medical.createSyncSource.useMutation({
+    onSuccess: () => {
+      toast.success("Sync source created");
+      utils.medical.syncSources.invalidate();
+      setSourceName("");
+    },
+    onError: (error) => toast.error(error.message || "Failed to create sync source"),
+  });
+
+  const updateSourceMutation = trpc.medical.updateSyncSource.useMutation({
+    onSuccess: () => {
+      toast.success("Sync source updated");
+      utils.medical.syncSources.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to update sync source"),
+  });
+
+  const deleteSourceMutation = trpc.medical.deleteSyncSource.useMutation({
+    onSuccess: () => {
+      toast.success("Sync source deleted");
+      utils.medical.syncSources.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete sync source"),
+  });
+
+  const copyKey = (apiKey: string) => {
+    navigator.clipboard.writeText(apiKey);
+    toast.success("API key copied");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Sync Sources
+          </CardTitle>
+          <CardDescription>
+            Each external system gets its own API key for <code>POST /api/medical/sync</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createSourceMutation.mutate({ name: sourceName });
+            }}
+          >
+            <Input
+              value={sourceName}
+              onChange={(e) => setSourceName(e.target.value)}
+              placeholder="Clinic name"
+              className="max-w-xs"
+              required
+            />
+            <Button type="submit" disabled={createSourceMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Source
+            </Button>
+          </form>
+
+          {sources && sources.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>API Key</TableHead>
+                  <TableHead>Last Sync</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell className="font-medium">{source.name}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <span className="font-mono text-xs">{source.apiKey.slice(0, 12)}…</span>
+                        <Button variant="ghost" size="icon" onClick={() => copyKey(source.apiKey)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {source.lastSyncAt ? new Date(source.lastSyncAt).toLocaleString("ru-RU") : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={source.isActive}
+                        onCheckedChange={(checked) => updateSourceMutation.mutate({ id: source.id, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Regenerate key"
+                          onClick={() => updateSourceMutation.mutate({ id: source.id, regenerateKey: true })}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteSourceMutation.mutate({ id: source.id })}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Sync History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : runs && runs.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-center">Created</TableHead>
+                  <TableHead className="text-center">Updated</TableHead>
+                  <TableHead className="text-center">Removed</TableHead>
+                  <TableHead className="text-center">Unchanged</TableHead>
+                  <TableHead className="text-center">Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id} className="cursor-pointer" onClick={() => setSelectedRunId(run.id)}>
+                    <TableCell className="whitespace-nowrap">{new Date(run.createdAt).toLocaleString("ru-RU")}</TableCell>
+                    <TableCell>{sourceNameById(run.sourceId)}</TableCell>
+                    <TableCell>
+                      <Badge variant={SYNC_STATUS[run.status]}>{run.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-center">{run.created}</TableCell>
+                    <TableCell className="text-center">{run.updated}</TableCell>
+                    <TableCell className="text-center">{run.deleted}</TableCell>
+                    <TableCell className="text-center">{run.unchanged}</TableCell>
+                    <TableCell className={`text-center ${run.failed ? "text-destructive font-medium" : ""}`}>
+                      {run.failed}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No sync runs yet</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedRunId !== null} onOpenChange={(open) => !open && setSelectedRunId(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Sync Run #{selectedRunId}</DialogTitle>
+            <DialogDescription>
+              {selectedRun?.idempotencyKey ? `Idempotency key: ${selectedRun.idempotencyKey}` : "Changes per record"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>License Plate</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedRun?.changes.map((change, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="font-mono">{change.licensePlate || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={change.action === "error" ? "destructive" : "outline"}>{change.action}</Badge>
+                      {change.errors?.map((error) => (
+                        <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
 export default function MedicalRecords() {
   const { user } = useAuth();
   const isAdmin = user?.role === "admin";
@@ -85,11 +315,26 @@ export default function MedicalRecords() {
   const { data: records, isLoading } = trpc.medical.list.useQuery(undefined, {
     enabled: isAdmin,
   });
+  const { data: compliance } = trpc.medical.compliance.useQuery(undefined, {
+    enabled: isAdmin,
+  });
+
+  const expiryCheckMutation = trpc.medical.runExpiryCheck.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Expired: ${result.expired}, reminders sent: ${result.reminded}`);
+      utils.medical.list.invalidate();
+      utils.medical.compliance.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to run expiry check");
+    },
+  });
 
   const upsertMutation = trpc.medical.upsert.useMutation({
     onSuccess: () => {
       toast.success(selectedRecord ? "Record updated successfully" : "Record added successfully");
       utils.medical.list.invalidate();
+      utils.medical.compliance.invalidate();
       setIsAddDialogOpen(false);
       setIsEditDialogOpen(false);
       setSelectedRecord(null);
@@ -104,6 +349,7 @@ export default function MedicalRecords() {
     onSuccess: () => {
       toast.success("Record deleted successfully");
       utils.medical.list.invalidate();
+      utils.medical.compliance.invalidate();
       setIsDeleteDialogOpen(false);
       setSelectedRecord(null);
     },
@@ -268,6 +514,103 @@ export default function MedicalRecords() {
         </Dialog>
       </div>
 
+      <Tabs defaultValue="records">
+        <TabsList>
+          <TabsTrigger value="records">
+            <FileText className="h-4 w-4 mr-2" />
+            Records
+          </TabsTrigger>
+          <TabsTrigger value="sync">
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Sync
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="records" className="space-y-6">
+      {compliance && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Compliance Report
+                </CardTitle>
+                <CardDescription>
+                  Expiring means valid for less than {compliance.reminderDays} days
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => expiryCheckMutation.mutate()}
+                disabled={expiryCheckMutation.isPending}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${expiryCheckMutation.isPending ? "animate-spin" : ""}`} />
+                Run Expiry Check
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+              {([
+                { key: "valid", label: "Valid", icon: UserCheck, color: "text-green-500" },
+                { key: "expiring", label: "Expiring", icon: AlarmClock, color: "text-yellow-500" },
+                { key: "expired", label: "Expired", icon: Clock, color: "text-red-500" },
+                { key: "suspended", label: "Suspended", icon: UserX, color: "text-orange-500" },
+                { key: "unknown", label: "Unknown", icon: HelpCircle, color: "text-gray-500" },
+              ] as const).map(({ key, label, icon: Icon, color }) => (
+                <div key={key} className="rounded-lg border p-3">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Icon className={`h-4 w-4 ${color}`} />
+                    {label}
+                  </div>
+                  <div className="text-2xl font-bold">{compliance.totals[key]}</div>
+                </div>
+              ))}
+            </div>
+
+            {compliance.drivers.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Driver</TableHead>
+                    <TableHead>Plates</TableHead>
+                    <TableHead className="text-center">Valid</TableHead>
+                    <TableHead className="text-center">Expiring</TableHead>
+                    <TableHead className="text-center">Expired</TableHead>
+                    <TableHead className="text-center">Suspended / Unknown</TableHead>
+                    <TableHead>Next Expiration</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {compliance.drivers.map((driver) => (
+                    <TableRow key={driver.driverName}>
+                      <TableCell className="font-medium">{driver.driverName}</TableCell>
+                      <TableCell className="font-mono text-sm">{driver.licensePlates.join(", ")}</TableCell>
+                      <TableCell className="text-center">{driver.valid || "-"}</TableCell>
+                      <TableCell className={`text-center ${driver.expiring ? "text-yellow-500 font-medium" : ""}`}>
+                        {driver.expiring || "-"}
+                      </TableCell>
+                      <TableCell className={`text-center ${driver.expired ? "text-red-500 font-medium" : ""}`}>
+                        {driver.expired || "-"}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {driver.suspended + driver.unknown || "-"}
+                      </TableCell>
+                      <TableCell>
+                        {driver.nextExpiration
+                          ? new Date(driver.nextExpiration).toLocaleDateString("ru-RU")
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -356,6 +699,12 @@ export default function MedicalRecords() {
           )}
         </CardContent>
       </Card>
+        </TabsContent>
+
+        <TabsContent value="sync">
+          <MedicalSync />
+        </TabsContent>
+      </Tabs>
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { trpc } from "@/lib/trpc";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -45,13 +47,22 @@ import {
   Hand,
   FileText,
   Eye,
-  BarChart3
+  BarChart3,
+  Timer,
+  Stethoscope,
+  MinusCircle,
+  Webhook,
+  Archive,
+  RotateCw
 } from "lucide-react";
 import { toast } from "sonner";
 
-type NotificationType = 'unknown_vehicle' | 'blacklist_detected' | 'manual_open' | 'unauthorized_access' | 'daily_summary' | 'quiet_hours_summary';
-type NotificationStatus = 'sent' | 'failed' | 'pending';
-type NotificationChannel = 'email' | 'telegram' | 'both';
+type NotificationType = 'unknown_vehicle' | 'blacklist_detected' | 'manual_open' | 'unauthorized_access' | 'daily_summary' | 'quiet_hours_summary' | 'allowed_passage' | 'overstay' | 'medical_issue' | 'medical_expiring';
+type NotificationStatus = 'sent' | 'failed' | 'pending' | 'dead_letter' | 'skipped';
+type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+type NotificationChannel = 'email' | 'telegram' | 'both' | 'webhook';
+type NotificationDelivery = inferRouterOutputs<AppRouter>['notificationHistory']['list'][number]['deliveries'][number];
+type WebhookAttempt = inferRouterOutputs<AppRouter>['notificationHistory']['list'][number]['attempts'][number];
 
 export default function NotificationHistory() {
   const [typeFilter, setTypeFilter] = useState<string>("all");
@@ -73,6 +84,10 @@ export default function NotificationHistory() {
     onSuccess: (result) => {
       if (result.success) {
         toast.success("Уведомление успешно отправлено повторно");
+      } else if (result.status === 'dead_letter') {
+        toast.error(`Попытки исчерпаны: ${result.errorMessage}`);
+      } else if (result.status === 'skipped') {
+        toast.info("Все получатели в тихих часах, уведомление пропущено");
       } else {
         toast.error(`Ошибка отправки: ${result.errorMessage}`);
       }
@@ -117,6 +132,13 @@ export default function NotificationHistory() {
         return <Hand className="h-4 w-4" />;
       case 'unauthorized_access':
         return <AlertTriangle className="h-4 w-4" />;
+      case 'allowed_passage':
+        return <CheckCircle className="h-4 w-4" />;
+      case 'overstay':
+        return <Timer className="h-4 w-4" />;
+      case 'medical_issue':
+      case 'medical_expiring':
+        return <Stethoscope className="h-4 w-4" />;
       case 'daily_summary':
       case 'quiet_hours_summary':
         return <FileText className="h-4 w-4" />;
@@ -139,6 +161,14 @@ export default function NotificationHistory() {
         return 'Ежедневная сводка';
       case 'quiet_hours_summary':
         return 'Сводка тихих часов';
+      case 'allowed_passage':
+        return 'Разрешённый проезд';
+      case 'overstay':
+        return 'Превышение стоянки';
+      case 'medical_issue':
+        return 'Медосмотр';
+      case 'medical_expiring':
+        return 'Истекает медосмотр';
       default:
         return type;
     }
@@ -166,6 +196,10 @@ export default function NotificationHistory() {
         return <XCircle className="h-4 w-4 text-red-500" />;
       case 'pending':
         return <Clock className="h-4 w-4 text-yellow-500" />;
+      case 'dead_letter':
+        return <Archive className="h-4 w-4 text-red-700" />;
+      case 'skipped':
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
       default:
         return null;
     }
@@ -179,6 +213,36 @@ export default function NotificationHistory() {
         return 'Ошибка';
       case 'pending':
         return 'Ожидает';
+      case 'dead_letter':
+        return 'Попытки исчерпаны';
+      case 'skipped':
+        return 'Пропущено';
+      default:
+        return status;
+    }
+  };
+
+  const getDeliveryIcon = (status: DeliveryStatus) => {
+    switch (status) {
+      case 'sent':
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'skipped':
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+      default:
+        return null;
+    }
+  };
+
+  const getDeliveryLabel = (status: DeliveryStatus) => {
+    switch (status) {
+      case 'sent':
+        return 'Доставлено';
+      case 'failed':
+        return 'Ошибка';
+      case 'skipped':
+        return 'Тихие часы';
       default:
         return status;
     }
@@ -197,11 +261,28 @@ export default function NotificationHistory() {
             <MessageSquare className="h-4 w-4" />
           </div>
         );
+      case 'webhook':
+        return <Webhook className="h-4 w-4" />;
       default:
         return null;
     }
   };
 
+  const getChannelLabel = (channel: NotificationChannel) => {
+    switch (channel) {
+      case 'email':
+        return 'Email';
+      case 'telegram':
+        return 'Telegram';
+      case 'both':
+        return 'Email и Telegram';
+      case 'webhook':
+        return 'Вебхуки';
+      default:
+        return channel;
+    }
+  };
+
   const getSeverityBadge = (severity: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       low: 'secondary',
@@ -301,6 +382,44 @@ export default function NotificationHistory() {
           </Card>
         </div>
 
+        {/* Retry Queue */}
+        {statsData?.retries && statsData.retries.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <RotateCw className="h-5 w-5" />
+                Повторная отправка
+              </CardTitle>
+              <CardDescription>
+                Неотправленные уведомления повторяются автоматически с нарастающей паузой
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                {statsData.retries.map((item) => (
+                  <div key={item.channel} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+                    {getChannelIcon(item.channel)}
+                    <div>
+                      <p className="text-sm font-medium">{getChannelLabel(item.channel)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Ожидают повтора: <span className="text-yellow-600">{Number(item.waiting) || 0}</span>
+                      </p>
+                      {item.nextRetryAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Следующая попытка: {formatDate(item.nextRetryAt)}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Попытки исчерпаны: <span className="text-red-700">{Number(item.deadLetter) || 0}</span>
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* By Type Statistics */}
         {statsData?.byType && statsData.byType.length > 0 && (
           <Card>
@@ -349,6 +468,10 @@ export default function NotificationHistory() {
                     <SelectItem value="unauthorized_access">Несанкционированный доступ</SelectItem>
                     <SelectItem value="daily_summary">Ежедневная сводка</SelectItem>
                     <SelectItem value="quiet_hours_summary">Сводка тихих часов</SelectItem>
+                    <SelectItem value="allowed_passage">Разрешённый проезд</SelectItem>
+                    <SelectItem value="overstay">Превышение стоянки</SelectItem>
+                    <SelectItem value="medical_issue">Медосмотр</SelectItem>
+                    <SelectItem value="medical_expiring">Истекает медосмотр</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -363,6 +486,8 @@ export default function NotificationHistory() {
                     <SelectItem value="sent">Отправлено</SelectItem>
                     <SelectItem value="failed">Ошибка</SelectItem>
                     <SelectItem value="pending">Ожидает</SelectItem>
+                    <SelectItem value="dead_letter">Попытки исчерпаны</SelectItem>
+                    <SelectItem value="skipped">Пропущено</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -433,6 +558,16 @@ export default function NotificationHistory() {
                         <TableCell>
                           <div className="flex items-center gap-1">
                             {getChannelIcon(notification.channel)}
+                            {notification.deliveries.length > 0 && (
+                              <span className="text-xs text-muted-foreground ml-1">
+                                {notification.deliveries.filter((d: NotificationDelivery) => d.status === 'sent').length}/{notification.deliveries.length}
+                              </span>
+                            )}
+                            {notification.responseCode !== null && (
+                              <span className="text-xs font-mono text-muted-foreground ml-1">
+                                {notification.responseCode}
+                              </span>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -441,6 +576,8 @@ export default function NotificationHistory() {
                             <span className={
                               notification.status === 'sent' ? 'text-green-600' :
                               notification.status === 'failed' ? 'text-red-600' :
+                              notification.status === 'dead_letter' ? 'text-red-700' :
+                              notification.status === 'skipped' ? 'text-muted-foreground' :
                               'text-yellow-600'
                             }>
                               {getStatusLabel(notification.status)}
@@ -534,10 +671,28 @@ export default function NotificationHistory() {
                       </Badge>
                     </div>
                   )}
+                  {selectedNotification.channel === 'webhook' && (
+                    <div>
+                      <Label className="text-muted-foreground">Код ответа</Label>
+                      <p className="font-mono">{selectedNotification.responseCode ?? 'Нет ответа'}</p>
+                    </div>
+                  )}
                   <div>
                     <Label className="text-muted-foreground">Попыток отправки</Label>
                     <p>{selectedNotification.retryCount || 0}</p>
                   </div>
+                  {selectedNotification.passageId && (
+                    <div>
+                      <Label className="text-muted-foreground">Проезд</Label>
+                      <p className="font-mono">#{selectedNotification.passageId}</p>
+                    </div>
+                  )}
+                  {selectedNotification.durationMs !== null && (
+                    <div>
+                      <Label className="text-muted-foreground">Время отправки</Label>
+                      <p>{selectedNotification.durationMs} мс</p>
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -552,6 +707,46 @@ export default function NotificationHistory() {
                   </div>
                 </div>
 
+                {selectedNotification.deliveries?.length > 0 && (
+                  <div>
+                    <Label className="text-muted-foreground">Получатели Telegram</Label>
+                    <div className="mt-2 space-y-1">
+                      {selectedNotification.deliveries.map((delivery: NotificationDelivery) => (
+                        <div key={delivery.id} className="flex items-center gap-2 text-sm">
+                          {getDeliveryIcon(delivery.status)}
+                          <span className="font-medium">{delivery.recipientName || 'Чат по умолчанию'}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{delivery.chatId}</span>
+                          <span className="text-muted-foreground">— {getDeliveryLabel(delivery.status)}</span>
+                          {delivery.status === 'failed' && delivery.errorMessage && (
+                            <span className="text-red-600 text-xs truncate">{delivery.errorMessage}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedNotification.attempts?.length > 0 && (
+                  <div>
+                    <Label className="text-muted-foreground">Попытки отправки</Label>
+                    <div className="mt-2 space-y-1">
+                      {selectedNotification.attempts.map((attempt: WebhookAttempt) => (
+                        <div key={attempt.id} className="flex items-center gap-2 text-sm">
+                          {getDeliveryIcon(attempt.status)}
+                          <span className="font-medium">#{attempt.attempt}</span>
+                          <span className="text-muted-foreground">{formatDate(attempt.createdAt)}</span>
+                          <span className="font-mono text-xs">
+                            {attempt.responseCode !== null ? `HTTP ${attempt.responseCode}` : 'Нет ответа'}
+                          </span>
+                          {attempt.status === 'failed' && attempt.errorMessage && (
+                            <span className="text-red-600 text-xs truncate">{attempt.errorMessage}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {selectedNotification.errorMessage && (
                   <div>
                     <Label className="text-muted-foreground text-red-500">Ошибка</Label>
@@ -587,6 +782,12 @@ export default function NotificationHistory() {
                       <p>{formatDate(selectedNotification.lastRetryAt)}</p>
                     </div>
                   )}
+                  {selectedNotification.status === 'failed' && selectedNotification.nextRetryAt && (
+                    <div>
+                      <Label className="text-muted-foreground">Следующая попытка</Label>
+                      <p>{formatDate(selectedNotification.nextRetryAt)}</p>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex justify-end gap-2 pt-4">
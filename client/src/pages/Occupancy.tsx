@@ -0,0 +1,129 @@
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ParkingSquare, Clock, AlertTriangle } from "lucide-react";
+
+function formatDwell(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours} h ${rest} min` : `${rest} min`;
+}
+
+export default function Occupancy() {
+  const { data, isLoading } = trpc.passages.occupancy.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+
+  const vehicles = data?.vehicles ?? [];
+  const overstayed = vehicles.filter((v) => v.overstayed).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">On-site Occupancy</h1>
+        <p className="text-muted-foreground">Vehicles that entered and have not exited yet</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">On Site</CardTitle>
+            <ParkingSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{vehicles.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Maximum Stay</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {data?.maxStayMinutes ? formatDwell(data.maxStayMinutes) : "Off"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Overstayed</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${overstayed > 0 ? "text-destructive" : ""}`}>
+              {overstayed}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ParkingSquare className="h-5 w-5" />
+            Vehicles Inside
+          </CardTitle>
+          <CardDescription>
+            Based on entry and exit lanes of cameras. Longest stay first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : vehicles.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>License Plate</TableHead>
+                  <TableHead>Entered</TableHead>
+                  <TableHead>Dwell Time</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vehicles.map((vehicle) => (
+                  <TableRow key={vehicle.passageId}>
+                    <TableCell className="font-mono font-bold">{vehicle.licensePlate}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(vehicle.enteredAt).toLocaleString("ru-RU")}
+                    </TableCell>
+                    <TableCell>{formatDwell(vehicle.dwellMinutes)}</TableCell>
+                    <TableCell>
+                      {vehicle.overstayed ? (
+                        <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+                          <AlertTriangle className="h-3 w-3" />
+                          Overstay
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">On site</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <ParkingSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No vehicles on site</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
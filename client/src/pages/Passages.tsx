@@ -33,19 +33,54 @@ import {
   ShieldAlert, 
   Image as ImageIcon,
   Filter,
-  Download
+  Download,
+  LogIn,
+  LogOut
 } from "lucide-react";
 
+type CandidateRead = { frame: number; plate: string | null; confidence: number; error?: string };
+
+// Per-frame reads stored when a burst of frames was voted on
+function parseCandidateReads(value: string | null): CandidateRead[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function FrameVotes({ candidateReads, plate }: { candidateReads: string | null; plate: string | null }) {
+  const candidates = parseCandidateReads(candidateReads);
+  if (candidates.length === 0) return null;
+
+  const agreeing = candidates.filter(c => c.plate === plate).length;
+  return (
+    <div
+      className="text-xs font-sans text-muted-foreground mt-1 cursor-help"
+      title={candidates.map(c => `#${c.frame + 1}: ${c.plate || c.error || "—"} (${c.confidence}%)`).join("\n")}
+    >
+      {agreeing}/{candidates.length} frames agree
+    </div>
+  );
+}
+
 export default function Passages() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [directionFilter, setDirectionFilter] = useState<string>("all");
+  const [groupFilter, setGroupFilter] = useState<string>("all");
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [limit, setLimit] = useState(50);
 
   const { data: passages, isLoading } = trpc.passages.list.useQuery({
     limit,
     isAllowed: statusFilter === "all" ? undefined : statusFilter === "allowed",
+    direction: directionFilter === "entry" || directionFilter === "exit" ? directionFilter : undefined,
+    groupId: groupFilter === "all" ? undefined : Number(groupFilter),
   });
+  const { data: groups } = trpc.groups.list.useQuery();
 
   const filteredPassages = passages?.filter(
     (p) =>
@@ -56,7 +91,7 @@ export default function Passages() {
   const exportToCSV = () => {
     if (!filteredPassages) return;
     
-    const headers = ["Date/Time", "License Plate", "Recognized", "Confidence", "Status", "Manual"];
+    const headers = ["Date/Time", "License Plate", "Recognized", "Confidence", "Status", "Manual", "Direction"];
     const rows = filteredPassages.map((p) => [
       new Date(p.timestamp).toLocaleString("ru-RU"),
       p.licensePlate,
@@ -64,6 +99,7 @@ export default function Passages() {
       p.confidence ? `${p.confidence}%` : "-",
       p.isAllowed ? "Allowed" : "Denied",
       p.wasManualOpen ? "Yes" : "No",
+      p.direction || "-",
     ]);
     
     const csv = [headers.join(","), ...rows.map((r) => r.join(","))].join("\n");
@@ -116,6 +152,31 @@ export default function Passages() {
                   <SelectItem value="denied">Denied</SelectItem>
                 </SelectContent>
               </Select>
+              <Select value={directionFilter} onValueChange={setDirectionFilter}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="Direction" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any direction</SelectItem>
+                  <SelectItem value="entry">Entry</SelectItem>
+                  <SelectItem value="exit">Exit</SelectItem>
+                </SelectContent>
+              </Select>
+              {groups && groups.length > 0 && (
+                <Select value={groupFilter} onValueChange={setGroupFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All groups</SelectItem>
+                    {groups.map((g) => (
+                      <SelectItem key={g.id} value={g.id.toString()}>
+                        {g.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <Select value={limit.toString()} onValueChange={(v) => setLimit(Number(v))}>
                 <SelectTrigger className="w-24">
                   <SelectValue placeholder="Limit" />
@@ -148,6 +209,7 @@ export default function Passages() {
                     <TableHead>Confidence</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Type</TableHead>
+                    <TableHead>Direction</TableHead>
                     <TableHead>Photo</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -159,9 +221,24 @@ export default function Passages() {
                       </TableCell>
                       <TableCell className="font-mono font-bold">
                         {passage.licensePlate}
+                        {passage.plateRegion && (
+                          <Badge variant="outline" className="ml-2 font-sans font-normal">{passage.plateRegion}</Badge>
+                        )}
+                        {passage.frameCount > 1 && passage.lastSeenAt && (
+                          <div className="text-xs font-normal text-muted-foreground mt-1">
+                            ×{passage.frameCount} · до {new Date(passage.lastSeenAt).toLocaleTimeString("ru-RU")}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="font-mono">
                         {passage.recognizedPlate || "-"}
+                        <FrameVotes candidateReads={passage.candidateReads} plate={passage.recognizedPlate} />
+                        {passage.plateMatchType && passage.plateMatchType !== "exact" && (
+                          <div className="text-xs font-sans text-muted-foreground mt-1">
+                            ≈ {passage.plateMatchType}
+                            {passage.plateMatchDistance ? ` · ${passage.plateMatchDistance}` : ""}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {passage.confidence ? (
@@ -178,6 +255,12 @@ export default function Passages() {
                             {passage.confidence}%
                           </Badge>
                         ) : "-"}
+                        {passage.recognitionProvider && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {passage.recognitionProvider}
+                            {passage.recognitionLatency != null && ` · ${passage.recognitionLatency} ms`}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge 
@@ -191,12 +274,34 @@ export default function Passages() {
                           )}
                           {passage.isAllowed ? "Allowed" : "Denied"}
                         </Badge>
+                        {passage.denialReason && (
+                          <div className="text-xs text-muted-foreground mt-1">{passage.denialReason}</div>
+                        )}
+                        {passage.medicalStatus && passage.medicalStatus !== "valid" && (
+                          <Badge variant="outline" className="mt-1 text-amber-600 border-amber-600">
+                            Medical: {passage.medicalStatus}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">
                           {passage.wasManualOpen ? "Manual" : "Auto"}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        {passage.direction ? (
+                          <Badge variant="outline" className="flex items-center gap-1 w-fit">
+                            {passage.direction === "entry" ? (
+                              <LogIn className="h-3 w-3" />
+                            ) : (
+                              <LogOut className="h-3 w-3" />
+                            )}
+                            {passage.direction === "entry" ? "Entry" : "Exit"}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {passage.photoUrl ? (
                           <Button
@@ -219,7 +324,7 @@ export default function Passages() {
             <div className="text-center py-8">
               <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground">
-                {searchQuery || statusFilter !== "all"
+                {searchQuery || statusFilter !== "all" || directionFilter !== "all"
                   ? "No passages match your filters"
                   : "No passages recorded yet"}
               </p>
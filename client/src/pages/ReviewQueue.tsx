@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  ClipboardCheck,
+  Check,
+  X,
+  ShieldBan,
+  CarFront,
+  Image as ImageIcon,
+  History,
+} from "lucide-react";
+import type { Passage } from "../../../drizzle/schema";
+
+type Decision = {
+  decision: "approve" | "deny";
+  addTo?: "allowed" | "blacklist";
+};
+
+const REVIEW_ACTIONS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  correct_plate: { label: "Plate corrected", variant: "outline" },
+  approve: { label: "Approved", variant: "default" },
+  deny: { label: "Denied", variant: "destructive" },
+  add_allowed: { label: "Added to allowed", variant: "secondary" },
+  add_blacklist: { label: "Blacklisted", variant: "destructive" },
+};
+
+function ReviewCard({
+  passage,
+  canAddAllowed,
+  canBlacklist,
+}: {
+  passage: Passage;
+  canAddAllowed: boolean;
+  canBlacklist: boolean;
+}) {
+  const utils = trpc.useUtils();
+  const [plate, setPlate] = useState(passage.licensePlate === "UNKNOWN" ? "" : passage.licensePlate);
+  const [notes, setNotes] = useState("");
+
+  const decideMutation = trpc.review.decide.useMutation({
+    onSuccess: (result, variables) => {
+      if (variables.decision === "approve") {
+        toast.success(result.barrierOpened ? "Entry approved, barrier opened" : "Entry approved");
+      } else {
+        toast.success("Entry denied");
+      }
+      utils.review.queue.invalidate();
+      utils.review.pendingCount.invalidate();
+      utils.review.history.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save decision");
+    },
+  });
+
+  const decide = ({ decision, addTo }: Decision) => {
+    decideMutation.mutate({
+      passageId: passage.id,
+      decision,
+      addTo,
+      licensePlate: plate.trim() || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const hasPlate = plate.trim().length > 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+          <div className="aspect-video rounded-lg overflow-hidden bg-black flex items-center justify-center">
+            {passage.photoUrl ? (
+              <a href={passage.photoUrl} target="_blank" rel="noreferrer" className="w-full h-full">
+                <img src={passage.photoUrl} alt="Passage photo" className="w-full h-full object-contain" />
+              </a>
+            ) : (
+              <ImageIcon className="h-8 w-8 text-muted-foreground" />
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span>{new Date(passage.timestamp).toLocaleString("ru-RU")}</span>
+              <span>·</span>
+              <span>Read: <span className="font-mono">{passage.recognizedPlate || "—"}</span></span>
+              <Badge variant={passage.confidence !== null && passage.confidence >= 80 ? "outline" : "secondary"}>
+                {passage.confidence ?? 0}%
+              </Badge>
+              {passage.direction && (
+                <Badge variant="outline">{passage.direction === "entry" ? "Entry" : "Exit"}</Badge>
+              )}
+              {passage.barrierOpened && <Badge variant="default">Barrier opened</Badge>}
+            </div>
+            {passage.denialReason && (
+              <p className="text-sm text-destructive">{passage.denialReason}</p>
+            )}
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Input
+                value={plate}
+                onChange={(e) => setPlate(e.target.value.toUpperCase())}
+                placeholder="License plate"
+                className="font-mono font-bold"
+              />
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Note (optional)"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => decide({ decision: "approve" })} disabled={decideMutation.isPending}>
+                <Check className="h-4 w-4 mr-1" />
+                {passage.barrierOpened ? "Approve" : "Approve & Open"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => decide({ decision: "deny" })}
+                disabled={decideMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Deny
+              </Button>
+              {canAddAllowed && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => decide({ decision: "approve", addTo: "allowed" })}
+                  disabled={decideMutation.isPending || !hasPlate}
+                >
+                  <CarFront className="h-4 w-4 mr-1" />
+                  Approve & Add to Allowed
+                </Button>
+              )}
+              {canBlacklist && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => decide({ decision: "deny", addTo: "blacklist" })}
+                  disabled={decideMutation.isPending || !hasPlate}
+                >
+                  <ShieldBan className="h-4 w-4 mr-1" />
+                  Deny & Blacklist
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ReviewQueue() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const canAddAllowed = isAdmin || (user?.managedGroupId ?? null) !== null;
+
+  const { data: queue, isLoading } = trpc.review.queue.useQuery(undefined, {
+    refetchInterval: 10000,
+  });
+  const { data: history, isLoading: historyLoading } = trpc.review.history.useQuery({ limit: 50 });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Review Queue</h1>
+        <p className="text-muted-foreground">
+          Unknown and low-confidence reads waiting for an operator decision
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : queue && queue.length > 0 ? (
+        <div className="space-y-4">
+          {queue.map((passage) => (
+            <ReviewCard
+              key={passage.id}
+              passage={passage}
+              canAddAllowed={canAddAllowed}
+              canBlacklist={isAdmin}
+            />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No reads waiting for review</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Audit Trail
+          </CardTitle>
+          <CardDescription>Latest operator decisions on reviewed passages</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : history && history.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Passage</TableHead>
+                  <TableHead>Operator</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Plate</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((review) => {
+                  const action = REVIEW_ACTIONS[review.action];
+                  return (
+                    <TableRow key={review.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(review.createdAt).toLocaleString("ru-RU")}
+                      </TableCell>
+                      <TableCell>#{review.passageId}</TableCell>
+                      <TableCell>{review.userName || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={action.variant}>{action.label}</Badge>
+                        {review.barrierOpened && (
+                          <span className="text-xs text-muted-foreground ml-2">barrier opened</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {review.previousPlate ? `${review.previousPlate} → ${review.newPlate}` : review.newPlate || "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{review.notes || "—"}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">No decisions recorded yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
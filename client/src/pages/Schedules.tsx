@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, CalendarClock, X } from "lucide-react";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+type TimeWindow = { days: number[]; start: string; end: string };
+
+type ScheduleFormData = {
+  name: string;
+  description: string;
+  timeWindows: TimeWindow[];
+  validFrom: string;
+  validUntil: string;
+  holidays: string;
+  isActive: boolean;
+};
+
+const initialFormData: ScheduleFormData = {
+  name: "",
+  description: "",
+  timeWindows: [{ days: [1, 2, 3, 4, 5], start: "07:00", end: "19:00" }],
+  validFrom: "",
+  validUntil: "",
+  holidays: "",
+  isActive: true,
+};
+
+function toDateInput(value: Date | string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatWindow(window: TimeWindow) {
+  const days = WEEKDAYS.filter((d) => window.days.includes(d.value)).map((d) => d.label).join(", ");
+  return `${days} ${window.start}–${window.end}`;
+}
+
+export default function Schedules() {
+  const utils = trpc.useUtils();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<ScheduleFormData>(initialFormData);
+
+  const { data: schedules, isLoading } = trpc.schedules.list.useQuery();
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.schedules.list.invalidate();
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setFormData(initialFormData);
+  };
+
+  const createMutation = trpc.schedules.create.useMutation({
+    onSuccess: () => onSaved("Schedule created"),
+    onError: (error) => toast.error(error.message || "Failed to create schedule"),
+  });
+
+  const updateMutation = trpc.schedules.update.useMutation({
+    onSuccess: () => onSaved("Schedule updated"),
+    onError: (error) => toast.error(error.message || "Failed to update schedule"),
+  });
+
+  const deleteMutation = trpc.schedules.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Schedule deleted");
+      utils.schedules.list.invalidate();
+      utils.vehicles.list.invalidate();
+      setDeletingId(null);
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete schedule"),
+  });
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setFormData(initialFormData);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (schedule: NonNullable<typeof schedules>[number]) => {
+    setEditingId(schedule.id);
+    setFormData({
+      name: schedule.name,
+      description: schedule.description || "",
+      timeWindows: schedule.timeWindows,
+      validFrom: toDateInput(schedule.validFrom),
+      validUntil: toDateInput(schedule.validUntil),
+      holidays: schedule.holidays.join("\n"),
+      isActive: schedule.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateWindow = (index: number, patch: Partial<TimeWindow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      timeWindows: prev.timeWindows.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+    }));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const window = formData.timeWindows[index];
+    const days = window.days.includes(day) ? window.days.filter((d) => d !== day) : [...window.days, day];
+    updateWindow(index, { days });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.timeWindows.some((w) => w.days.length === 0)) {
+      toast.error("Every time window needs at least one weekday");
+      return;
+    }
+
+    const payload = {
+      name: formData.name,
+      description: formData.description || undefined,
+      timeWindows: formData.timeWindows,
+      validFrom: formData.validFrom ? new Date(`${formData.validFrom}T00:00:00`) : null,
+      validUntil: formData.validUntil ? new Date(`${formData.validUntil}T23:59:59`) : null,
+      holidays: formData.holidays.split(/[\s,]+/).filter(Boolean),
+      isActive: formData.isActive,
+    };
+
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Access Schedules</h1>
+          <p className="text-muted-foreground">Limit when registered vehicles may enter</p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Schedule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Schedules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : schedules && schedules.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Time Windows</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Holidays</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      <p className="font-medium">{schedule.name}</p>
+                      {schedule.description && (
+                        <p className="text-xs text-muted-foreground">{schedule.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {schedule.timeWindows.length > 0
+                        ? schedule.timeWindows.map((w, i) => <p key={i} className="text-sm">{formatWindow(w)}</p>)
+                        : <span className="text-sm text-muted-foreground">Any time</span>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {schedule.validFrom || schedule.validUntil
+                        ? `${toDateInput(schedule.validFrom) || "…"} → ${toDateInput(schedule.validUntil) || "…"}`
+                        : "Always"}
+                    </TableCell>
+                    <TableCell className="text-sm">{schedule.holidays.length || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={schedule.isActive ? "default" : "secondary"}>
+                        {schedule.isActive ? "Active" : "Disabled"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(schedule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeletingId(schedule.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8">
+              <CalendarClock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No schedules yet. Vehicles without a schedule may enter any time.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+            <DialogDescription>
+              Vehicles on this schedule are only admitted inside its time windows and date range.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name *</Label>
+              <Input
+                id="schedule-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Contractors"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-description">Description</Label>
+              <Input
+                id="schedule-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Time Windows</Label>
+              {formData.timeWindows.map((window, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                  {WEEKDAYS.map((day) => (
+                    <Button
+                      key={day.value}
+                      type="button"
+                      size="sm"
+                      variant={window.days.includes(day.value) ? "default" : "outline"}
+                      onClick={() => toggleDay(index, day.value)}
+                    >
+                      {day.label}
+                    </Button>
+                  ))}
+                  <Input
+                    type="time"
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                    className="w-28"
+                  />
+                  <span>–</span>
+                  <Input
+                    type="time"
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                    className="w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFormData((prev) => ({
+                      ...prev,
+                      timeWindows: prev.timeWindows.filter((_, i) => i !== index),
+                    }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData((prev) => ({
+                  ...prev,
+                  timeWindows: [...prev.timeWindows, { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" }],
+                }))}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Window
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                No windows means any time of day. An end time before the start covers overnight access.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="valid-from">Valid From</Label>
+                <Input
+                  id="valid-from"
+                  type="date"
+                  value={formData.validFrom}
+                  onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="valid-until">Valid Until</Label>
+                <Input
+                  id="valid-until"
+                  type="date"
+                  value={formData.validUntil}
+                  onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="holidays">Holidays (no access)</Label>
+              <Textarea
+                id="holidays"
+                value={formData.holidays}
+                onChange={(e) => setFormData({ ...formData, holidays: e.target.value })}
+                placeholder={"2026-01-01\n2026-05-09"}
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">One date per line in YYYY-MM-DD format</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+              />
+              <Label htmlFor="schedule-active">Enforce this schedule</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                {editingId ? "Save Changes" : "Create Schedule"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vehicles using this schedule will be able to enter at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingId !== null && deleteMutation.mutate({ id: deletingId })}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
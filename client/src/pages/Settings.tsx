@@ -8,6 +8,23 @@ import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { 
   Settings as SettingsIcon, 
@@ -31,8 +48,776 @@ import {
   Moon,
   Clock,
   BellOff,
-  Play
+  Play,
+  Stethoscope,
+  Webhook,
+  Plus,
+  Pencil,
+  Trash2,
+  Users,
+  Copy,
+  KeyRound,
+  RotateCw
 } from "lucide-react";
+import type { QuietHoursChannel, QuietHoursSchedule } from "../../../server/quietHours";
+
+const PLATE_REGIONS = [
+  { code: "RU", label: "Russia", examples: "A123BC77 · AB12377 · 1234AB77" },
+  { code: "EU", label: "European Union (DE, FR, ES)", examples: "BMW1234 · AB123CD · 1234BCD" },
+  { code: "US", label: "United States", examples: "ABC1234 · 7ABC123 · 123ABC" },
+];
+
+function TelegramUserRow({ user }: { user: { id: number; name: string | null; email: string | null; role: string; telegramChatId: string | null } }) {
+  const utils = trpc.useUtils();
+  const [chatId, setChatId] = useState(user.telegramChatId ?? "");
+
+  const linkMutation = trpc.telegram.linkUser.useMutation({
+    onSuccess: () => {
+      toast.success(chatId ? "Telegram linked" : "Telegram unlinked");
+      utils.telegram.users.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to link Telegram");
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {user.name || user.email || `User ${user.id}`}
+          {user.role === "admin" && <span className="text-xs text-muted-foreground ml-2">admin</span>}
+        </p>
+      </div>
+      <Input
+        value={chatId}
+        onChange={(e) => setChatId(e.target.value.trim())}
+        placeholder="Telegram chat ID"
+        className="font-mono text-sm w-44"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => linkMutation.mutate({ userId: user.id, telegramChatId: chatId || null })}
+        disabled={linkMutation.isPending || chatId === (user.telegramChatId ?? "")}
+      >
+        <Save className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function TelegramUsers() {
+  const { data: users } = trpc.telegram.users.useQuery();
+
+  if (!users || users.length === 0) {
+    return <p className="text-xs text-muted-foreground">No users</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <Label>Linked Users</Label>
+      {users.map((user) => (
+        <TelegramUserRow key={user.id} user={user} />
+      ))}
+    </div>
+  );
+}
+
+const NOTIFICATION_EVENT_TYPES = [
+  { value: "unknown_vehicle", label: "Unknown vehicles" },
+  { value: "blacklist_detected", label: "Blacklist" },
+  { value: "unauthorized_access", label: "Unauthorized access" },
+  { value: "manual_open", label: "Manual opens" },
+  { value: "allowed_passage", label: "Allowed passages" },
+  { value: "overstay", label: "Overstays" },
+  { value: "medical_issue", label: "Medical issues" },
+  { value: "medical_expiring", label: "Medical expiry" },
+  { value: "daily_summary", label: "Daily summary" },
+  { value: "quiet_hours_summary", label: "Quiet hours summary" },
+] as const;
+
+type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number]["value"];
+type Severity = "low" | "medium" | "high" | "critical";
+
+type RecipientFormData = {
+  name: string;
+  chatId: string;
+  kind: "chat" | "group" | "guard";
+  eventTypes: NotificationEventType[];
+  minSeverity: Severity;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  isActive: boolean;
+};
+
+const initialRecipientForm: RecipientFormData = {
+  name: "",
+  chatId: "",
+  kind: "chat",
+  eventTypes: [],
+  minSeverity: "low",
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "07:00",
+  isActive: true,
+};
+
+function TelegramRecipients() {
+  const utils = trpc.useUtils();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<RecipientFormData>(initialRecipientForm);
+
+  const { data: recipients } = trpc.telegramRecipients.list.useQuery();
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.telegramRecipients.list.invalidate();
+    setIsDialogOpen(false);
+    setEditingId(null);
+  };
+
+  const createMutation = trpc.telegramRecipients.create.useMutation({
+    onSuccess: () => onSaved("Recipient added"),
+    onError: (error) => toast.error(error.message || "Failed to add recipient"),
+  });
+
+  const updateMutation = trpc.telegramRecipients.update.useMutation({
+    onSuccess: () => onSaved("Recipient updated"),
+    onError: (error) => toast.error(error.message || "Failed to update recipient"),
+  });
+
+  const setActiveMutation = trpc.telegramRecipients.setActive.useMutation({
+    onSuccess: () => utils.telegramRecipients.list.invalidate(),
+    onError: (error) => toast.error(error.message || "Failed to update recipient"),
+  });
+
+  const deleteMutation = trpc.telegramRecipients.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Recipient removed");
+      utils.telegramRecipients.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove recipient"),
+  });
+
+  const testMutation = trpc.telegramRecipients.test.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success("Test message sent");
+      } else {
+        toast.error(result.error || "Failed to send test message");
+      }
+    },
+    onError: (error) => toast.error(error.message || "Failed to send test message"),
+  });
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setFormData(initialRecipientForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (recipient: NonNullable<typeof recipients>[number]) => {
+    setEditingId(recipient.id);
+    setFormData({
+      name: recipient.name,
+      chatId: recipient.chatId,
+      kind: recipient.kind,
+      eventTypes: recipient.eventTypes,
+      minSeverity: recipient.minSeverity,
+      quietHoursEnabled: recipient.quietHoursEnabled,
+      quietHoursStart: recipient.quietHoursStart || "22:00",
+      quietHoursEnd: recipient.quietHoursEnd || "07:00",
+      isActive: recipient.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      ...formData,
+      quietHoursStart: formData.quietHoursEnabled ? formData.quietHoursStart : null,
+      quietHoursEnd: formData.quietHoursEnabled ? formData.quietHoursEnd : null,
+    };
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const toggleEventType = (type: NotificationEventType) => {
+    setFormData({
+      ...formData,
+      eventTypes: formData.eventTypes.includes(type)
+        ? formData.eventTypes.filter((t) => t !== type)
+        : [...formData.eventTypes, type],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Recipients</Label>
+        <Button size="sm" variant="outline" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Recipient
+        </Button>
+      </div>
+      {recipients && recipients.length > 0 ? (
+        <div className="space-y-2">
+          {recipients.map((recipient) => (
+            <div key={recipient.id} className="flex items-center gap-3 p-3 rounded-lg border">
+              <Switch
+                checked={recipient.isActive}
+                onCheckedChange={(checked) => setActiveMutation.mutate({ id: recipient.id, isActive: checked })}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {recipient.name}
+                  <Badge variant="outline" className="ml-2 capitalize">{recipient.kind}</Badge>
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  <span className="font-mono">{recipient.chatId}</span>
+                  {" · "}
+                  {recipient.eventTypes.length > 0 ? `${recipient.eventTypes.length} event types` : "All events"}
+                  {" · "}
+                  {recipient.minSeverity}+
+                  {recipient.quietHoursEnabled && ` · quiet ${recipient.quietHoursStart}–${recipient.quietHoursEnd}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => testMutation.mutate({ id: recipient.id })}
+                disabled={testMutation.isPending}
+              >
+                <MessageCircle className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleEdit(recipient)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => deleteMutation.mutate({ id: recipient.id })}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No recipients yet. Notifications go to the Chat ID above until you add one.
+        </p>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Recipient" : "New Recipient"}</DialogTitle>
+            <DialogDescription>
+              The recipient gets the selected notifications at or above the minimum severity.
+              During its quiet hours only critical notifications are delivered.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recipient-name">Name *</Label>
+                <Input
+                  id="recipient-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Night shift"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recipient-chat-id">Chat ID *</Label>
+                <Input
+                  id="recipient-chat-id"
+                  value={formData.chatId}
+                  onChange={(e) => setFormData({ ...formData, chatId: e.target.value.trim() })}
+                  placeholder="-1001234567890"
+                  className="font-mono"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select
+                  value={formData.kind}
+                  onValueChange={(v) => setFormData({ ...formData, kind: v as RecipientFormData["kind"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="chat">Chat</SelectItem>
+                    <SelectItem value="group">Group</SelectItem>
+                    <SelectItem value="guard">Guard</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum Severity</Label>
+                <Select
+                  value={formData.minSeverity}
+                  onValueChange={(v) => setFormData({ ...formData, minSeverity: v as Severity })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="flex flex-wrap gap-2">
+                {NOTIFICATION_EVENT_TYPES.map((type) => (
+                  <Button
+                    key={type.value}
+                    type="button"
+                    size="sm"
+                    variant={formData.eventTypes.includes(type.value) ? "default" : "outline"}
+                    onClick={() => toggleEventType(type.value)}
+                  >
+                    {type.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected means all events</p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="recipient-quiet">Quiet Hours</Label>
+              <Switch
+                id="recipient-quiet"
+                checked={formData.quietHoursEnabled}
+                onCheckedChange={(checked) => setFormData({ ...formData, quietHoursEnabled: checked })}
+              />
+            </div>
+            {formData.quietHoursEnabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  type="time"
+                  value={formData.quietHoursStart}
+                  onChange={(e) => setFormData({ ...formData, quietHoursStart: e.target.value })}
+                />
+                <Input
+                  type="time"
+                  value={formData.quietHoursEnd}
+                  onChange={(e) => setFormData({ ...formData, quietHoursEnd: e.target.value })}
+                />
+                <p className="col-span-2 text-xs text-muted-foreground">In the quiet hours time zone</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="recipient-active">Enabled</Label>
+              <Switch
+                id="recipient-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                {editingId ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type WebhookFormData = {
+  name: string;
+  url: string;
+  eventTypes: NotificationEventType[];
+  isActive: boolean;
+};
+
+const initialWebhookForm: WebhookFormData = {
+  name: "",
+  url: "",
+  eventTypes: [],
+  isActive: true,
+};
+
+function WebhookEndpoints() {
+  const utils = trpc.useUtils();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<WebhookFormData>(initialWebhookForm);
+
+  const { data: webhooks } = trpc.webhooks.list.useQuery();
+  const editing = webhooks?.find((webhook) => webhook.id === editingId);
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.webhooks.list.invalidate();
+    setIsDialogOpen(false);
+    setEditingId(null);
+  };
+
+  const createMutation = trpc.webhooks.create.useMutation({
+    onSuccess: () => onSaved("Webhook added"),
+    onError: (error) => toast.error(error.message || "Failed to add webhook"),
+  });
+
+  const updateMutation = trpc.webhooks.update.useMutation({
+    onSuccess: () => onSaved("Webhook updated"),
+    onError: (error) => toast.error(error.message || "Failed to update webhook"),
+  });
+
+  const setActiveMutation = trpc.webhooks.setActive.useMutation({
+    onSuccess: () => utils.webhooks.list.invalidate(),
+    onError: (error) => toast.error(error.message || "Failed to update webhook"),
+  });
+
+  const regenerateMutation = trpc.webhooks.regenerateSecret.useMutation({
+    onSuccess: () => {
+      toast.success("Signing secret regenerated");
+      utils.webhooks.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to regenerate secret"),
+  });
+
+  const deleteMutation = trpc.webhooks.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Webhook removed");
+      utils.webhooks.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove webhook"),
+  });
+
+  const testMutation = trpc.webhooks.test.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success(`Test event delivered (${result.responseCode})`);
+      } else {
+        toast.error(result.error || "Failed to deliver test event");
+      }
+    },
+    onError: (error) => toast.error(error.message || "Failed to deliver test event"),
+  });
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setFormData(initialWebhookForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (webhook: NonNullable<typeof webhooks>[number]) => {
+    setEditingId(webhook.id);
+    setFormData({
+      name: webhook.name,
+      url: webhook.url,
+      eventTypes: webhook.eventTypes,
+      isActive: webhook.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, ...formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const toggleEventType = (type: NotificationEventType) => {
+    setFormData({
+      ...formData,
+      eventTypes: formData.eventTypes.includes(type)
+        ? formData.eventTypes.filter((t) => t !== type)
+        : [...formData.eventTypes, type],
+    });
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast.success("Secret copied");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Endpoints</Label>
+        <Button size="sm" variant="outline" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </div>
+      {webhooks && webhooks.length > 0 ? (
+        <div className="space-y-2">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="flex items-center gap-3 p-3 rounded-lg border">
+              <Switch
+                checked={webhook.isActive}
+                onCheckedChange={(checked) => setActiveMutation.mutate({ id: webhook.id, isActive: checked })}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{webhook.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  <span className="font-mono">{webhook.url}</span>
+                  {" · "}
+                  {webhook.eventTypes.length > 0 ? `${webhook.eventTypes.length} event types` : "All events"}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => testMutation.mutate({ id: webhook.id })}
+                disabled={testMutation.isPending}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleEdit(webhook)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => deleteMutation.mutate({ id: webhook.id })}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No webhooks configured</p>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Webhook" : "New Webhook"}</DialogTitle>
+            <DialogDescription>
+              Selected events are POSTed to the URL as JSON, signed with the webhook's secret.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name *</Label>
+              <Input
+                id="webhook-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Security dashboard"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL *</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData({ ...formData, url: e.target.value.trim() })}
+                placeholder="https://example.com/hooks/barrier"
+                className="font-mono"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="flex flex-wrap gap-2">
+                {NOTIFICATION_EVENT_TYPES.map((type) => (
+                  <Button
+                    key={type.value}
+                    type="button"
+                    size="sm"
+                    variant={formData.eventTypes.includes(type.value) ? "default" : "outline"}
+                    onClick={() => toggleEventType(type.value)}
+                  >
+                    {type.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected means all events</p>
+            </div>
+
+            {editing && (
+              <div className="space-y-2">
+                <Label>Signing Secret</Label>
+                <div className="flex gap-2">
+                  <Input value={editing.secret} readOnly className="font-mono" />
+                  <Button type="button" variant="outline" size="icon" onClick={() => copySecret(editing.secret)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => regenerateMutation.mutate({ id: editing.id })}
+                    disabled={regenerateMutation.isPending}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Verify the X-Webhook-Signature header: sha256= HMAC-SHA256 of "&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;".
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="webhook-active">Enabled</Label>
+              <Switch
+                id="webhook-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                {editingId ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const RETRY_CHANNELS = [
+  { channel: "email", label: "Email" },
+  { channel: "telegram", label: "Telegram" },
+  { channel: "webhook", label: "Webhook" },
+] as const;
+
+type RetryChannel = (typeof RETRY_CHANNELS)[number]["channel"];
+
+const QUIET_HOURS_CHANNEL_LABELS: Record<QuietHoursChannel, string> = {
+  email: "Email",
+  telegram: "Telegram",
+};
+
+// Sunday first, matching the stored schedule
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+
+function defaultQuietHoursSchedule(): QuietHoursSchedule {
+  return {
+    enabled: true,
+    days: WEEKDAY_LABELS.map(() => ({ enabled: true, start: "22:00", end: "07:00" })),
+  };
+}
+
+function QuietHoursScheduleEditor({
+  channel,
+  schedule,
+  onChange,
+  disabled,
+}: {
+  channel: QuietHoursChannel;
+  schedule: QuietHoursSchedule;
+  onChange: (schedule: QuietHoursSchedule) => void;
+  disabled: boolean;
+}) {
+  const updateDay = (index: number, changes: Partial<QuietHoursSchedule["days"][number]>) => {
+    onChange({
+      ...schedule,
+      days: schedule.days.map((day, i) => (i === index ? { ...day, ...changes } : day)),
+    });
+  };
+
+  // Monday's window on every day
+  const copyToAllDays = () => {
+    onChange({ ...schedule, days: schedule.days.map(() => ({ ...schedule.days[1] })) });
+  };
+
+  const daysDisabled = disabled || !schedule.enabled;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor={`quiet-${channel}-enabled`} className="font-medium">
+            Quiet Hours for {QUIET_HOURS_CHANNEL_LABELS[channel]}
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Hold {QUIET_HOURS_CHANNEL_LABELS[channel]} notifications during the windows below
+          </p>
+        </div>
+        <Switch
+          id={`quiet-${channel}-enabled`}
+          checked={schedule.enabled}
+          onCheckedChange={(enabled) => onChange({ ...schedule, enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {schedule.days.map((day, index) => (
+          <div key={index} className="grid grid-cols-[8rem_auto_1fr_1fr] items-center gap-3">
+            <span className="text-sm">{WEEKDAY_LABELS[index]}</span>
+            <Switch
+              checked={day.enabled}
+              onCheckedChange={(enabled) => updateDay(index, { enabled })}
+              disabled={daysDisabled}
+            />
+            <Input
+              type="time"
+              value={day.start}
+              onChange={(e) => updateDay(index, { start: e.target.value })}
+              disabled={daysDisabled || !day.enabled}
+              className="font-mono"
+            />
+            <Input
+              type="time"
+              value={day.end}
+              onChange={(e) => updateDay(index, { end: e.target.value })}
+              disabled={daysDisabled || !day.enabled}
+              className="font-mono"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          A window ending before it starts runs into the next morning
+        </p>
+        <Button variant="outline" size="sm" onClick={copyToAllDays} disabled={daysDisabled}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy Monday to All Days
+        </Button>
+      </div>
+    </div>
+  );
+}
 
 export default function Settings() {
   const { user } = useAuth();
@@ -41,9 +826,18 @@ export default function Settings() {
 
   // Camera settings
   const [cameraUrl, setCameraUrl] = useState("");
+  const [presenceWindow, setPresenceWindow] = useState("60");
+  const [maxStayMinutes, setMaxStayMinutes] = useState("0");
+  const [reviewThreshold, setReviewThreshold] = useState("80");
+  const [plateMaxEditDistance, setPlateMaxEditDistance] = useState("0");
+  const [plateConfusablePairs, setPlateConfusablePairs] = useState("O0,D0,Q0,B8,I1,S5,Z2,G6");
+  const [plateRegions, setPlateRegions] = useState<string[]>([]);
   
   // Medical API settings
   const [medicalApiKey, setMedicalApiKey] = useState("");
+  const [medicalCheckMode, setMedicalCheckMode] = useState("off");
+  const [medicalRequireRecord, setMedicalRequireRecord] = useState(true);
+  const [medicalReminderDays, setMedicalReminderDays] = useState("14");
   
   // Notification settings
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
@@ -57,12 +851,24 @@ export default function Settings() {
   const [telegramChatId, setTelegramChatId] = useState("");
   const [telegramBotName, setTelegramBotName] = useState("");
   const [telegramNotifyAllowed, setTelegramNotifyAllowed] = useState(false);
+
+  // Retry settings, attempts per channel including the first send
+  const [retryMaxAttempts, setRetryMaxAttempts] = useState<Record<RetryChannel, string>>({
+    email: "4",
+    telegram: "4",
+    webhook: "4",
+  });
   
   // Quiet Hours settings
   const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
-  const [quietHoursStart, setQuietHoursStart] = useState("22:00");
-  const [quietHoursEnd, setQuietHoursEnd] = useState("07:00");
   const [quietHoursBypassCritical, setQuietHoursBypassCritical] = useState(true);
+  const [quietHoursTimezone, setQuietHoursTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [quietHoursHolidays, setQuietHoursHolidays] = useState<string[]>([]);
+  const [newHoliday, setNewHoliday] = useState("");
+  const [quietHoursSchedules, setQuietHoursSchedules] = useState<Record<QuietHoursChannel, QuietHoursSchedule>>({
+    email: defaultQuietHoursSchedule(),
+    telegram: defaultQuietHoursSchedule(),
+  });
 
   const { data: settings, isLoading } = trpc.settings.list.useQuery(undefined, {
     enabled: isAdmin,
@@ -81,8 +887,27 @@ export default function Settings() {
       const tgChatId = settings.find(s => s.key === "telegram_chat_id");
       const tgNotifyAllowed = settings.find(s => s.key === "telegram_notify_allowed");
       
+      const presence = settings.find(s => s.key === "presence_window_seconds");
+      const maxStay = settings.find(s => s.key === "max_stay_minutes");
+      const review = settings.find(s => s.key === "review_confidence_threshold");
+      const editDistance = settings.find(s => s.key === "plate_max_edit_distance");
+      const confusablePairs = settings.find(s => s.key === "plate_confusable_pairs");
+      const regions = settings.find(s => s.key === "plate_regions");
+      const medicalMode = settings.find(s => s.key === "medical_check_mode");
+      const requireRecord = settings.find(s => s.key === "medical_require_record");
+      const reminderDays = settings.find(s => s.key === "medical_reminder_days");
+      
       if (camera?.value) setCameraUrl(camera.value);
+      if (presence?.value) setPresenceWindow(presence.value);
+      if (maxStay?.value) setMaxStayMinutes(maxStay.value);
+      if (review?.value) setReviewThreshold(review.value);
+      if (editDistance?.value) setPlateMaxEditDistance(editDistance.value);
+      if (confusablePairs) setPlateConfusablePairs(confusablePairs.value ?? "");
+      if (regions?.value) setPlateRegions(regions.value.split(","));
       if (apiKey?.value) setMedicalApiKey(apiKey.value);
+      if (medicalMode?.value) setMedicalCheckMode(medicalMode.value);
+      if (requireRecord) setMedicalRequireRecord(requireRecord.value !== 'false');
+      if (reminderDays?.value) setMedicalReminderDays(reminderDays.value);
       if (notifEnabled) setNotificationsEnabled(notifEnabled.value !== 'false');
       if (unknownNotify) setUnknownVehicleNotify(unknownNotify.value !== 'false');
       if (manualNotify) setManualOpenNotify(manualNotify.value !== 'false');
@@ -91,17 +916,15 @@ export default function Settings() {
       if (tgBotToken?.value) setTelegramBotToken(tgBotToken.value);
       if (tgChatId?.value) setTelegramChatId(tgChatId.value);
       if (tgNotifyAllowed) setTelegramNotifyAllowed(tgNotifyAllowed.value === 'true');
-      
-      // Quiet Hours settings
-      const qhEnabled = settings.find(s => s.key === "quietHoursEnabled");
-      const qhStart = settings.find(s => s.key === "quietHoursStart");
-      const qhEnd = settings.find(s => s.key === "quietHoursEnd");
-      const qhBypass = settings.find(s => s.key === "quietHoursBypassCritical");
-      
-      if (qhEnabled) setQuietHoursEnabled(qhEnabled.value === 'true');
-      if (qhStart?.value) setQuietHoursStart(qhStart.value);
-      if (qhEnd?.value) setQuietHoursEnd(qhEnd.value);
-      if (qhBypass) setQuietHoursBypassCritical(qhBypass.value !== 'false');
+
+      setRetryMaxAttempts(current => {
+        const next = { ...current };
+        for (const { channel } of RETRY_CHANNELS) {
+          const attempts = settings.find(s => s.key === `notification_retry_max_attempts_${channel}`);
+          if (attempts?.value) next[channel] = attempts.value;
+        }
+        return next;
+      });
     }
   }, [settings]);
 
@@ -144,7 +967,34 @@ export default function Settings() {
     },
   });
 
+  const setWebhookMutation = trpc.telegram.setWebhook.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success("Webhook registered, button presses will reach the server");
+      } else {
+        toast.error(`Webhook registration failed: ${result.error}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to register webhook");
+    },
+  });
+
   // Quiet Hours queries and mutations
+  const { data: quietHoursConfig } = trpc.quietHours.getConfig.useQuery(undefined, {
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    if (quietHoursConfig) {
+      setQuietHoursEnabled(quietHoursConfig.enabled);
+      setQuietHoursBypassCritical(quietHoursConfig.bypassCritical);
+      setQuietHoursTimezone(quietHoursConfig.timezone);
+      setQuietHoursHolidays(quietHoursConfig.holidays);
+      setQuietHoursSchedules(quietHoursConfig.schedules);
+    }
+  }, [quietHoursConfig]);
+
   const { data: quietHoursStatus } = trpc.quietHours.isActive.useQuery(undefined, {
     enabled: isAdmin,
     refetchInterval: 60000, // Refresh every minute
@@ -158,6 +1008,7 @@ export default function Settings() {
     onSuccess: () => {
       toast.success("Quiet hours settings saved");
       utils.settings.list.invalidate();
+      utils.quietHours.getConfig.invalidate();
       utils.quietHours.isActive.invalidate();
     },
     onError: (error) => {
@@ -187,6 +1038,55 @@ export default function Settings() {
     });
   };
 
+  const handleSavePresenceWindow = () => {
+    saveMutation.mutate({
+      key: "presence_window_seconds",
+      value: presenceWindow,
+      description: "Seconds a plate may go unseen on a camera before a new passage is recorded",
+    });
+  };
+
+  const handleSaveMaxStay = () => {
+    saveMutation.mutate({
+      key: "max_stay_minutes",
+      value: maxStayMinutes,
+      description: "Alert when a vehicle stays on site longer than this many minutes (0 = off)",
+    });
+  };
+
+  const handleSaveReviewThreshold = () => {
+    saveMutation.mutate({
+      key: "review_confidence_threshold",
+      value: reviewThreshold,
+      description: "Queue reads below this confidence for operator review (0 = unknown plates only)",
+    });
+  };
+
+  const handleSavePlateMatching = () => {
+    saveMutation.mutate({
+      key: "plate_max_edit_distance",
+      value: plateMaxEditDistance,
+      description: "Maximum edit distance between an OCR read and a stored plate (0 = off)",
+    });
+    saveMutation.mutate({
+      key: "plate_confusable_pairs",
+      value: plateConfusablePairs,
+      description: "Comma-separated character pairs OCR confuses, e.g. O0,B8",
+    });
+  };
+
+  const handleTogglePlateRegion = (region: string, enabled: boolean) => {
+    const next = PLATE_REGIONS.map(r => r.code).filter(code =>
+      code === region ? enabled : plateRegions.includes(code)
+    );
+    setPlateRegions(next);
+    saveMutation.mutate({
+      key: "plate_regions",
+      value: next.join(","),
+      description: "Plate formats accepted on entry, import and recognition (empty = any plate)",
+    });
+  };
+
   const handleSaveApiKey = () => {
     saveMutation.mutate({
       key: "medical_api_key",
@@ -195,6 +1095,42 @@ export default function Settings() {
     });
   };
 
+  const handleChangeMedicalMode = (mode: string) => {
+    setMedicalCheckMode(mode);
+    saveMutation.mutate({
+      key: "medical_check_mode",
+      value: mode,
+      description: "Driver medical status check on entry: off, flag or block",
+    });
+  };
+
+  const handleToggleRequireRecord = (enabled: boolean) => {
+    setMedicalRequireRecord(enabled);
+    saveMutation.mutate({
+      key: "medical_require_record",
+      value: enabled.toString(),
+      description: "Treat plates without a medical record as failing the check",
+    });
+  };
+
+  const handleSaveReminderDays = () => {
+    saveMutation.mutate({
+      key: "medical_reminder_days",
+      value: medicalReminderDays,
+      description: "Remind this many days before a driver's medical check expires (0 = off)",
+    });
+  };
+
+  const handleSaveRetryAttempts = () => {
+    for (const { channel, label } of RETRY_CHANNELS) {
+      saveMutation.mutate({
+        key: `notification_retry_max_attempts_${channel}`,
+        value: retryMaxAttempts[channel],
+        description: `Attempts to send a ${label} notification, including the first, before giving up`,
+      });
+    }
+  };
+
   const handleToggleNotifications = (enabled: boolean) => {
     setNotificationsEnabled(enabled);
     saveMutation.mutate({
@@ -267,6 +1203,10 @@ export default function Settings() {
     toast.success("Telegram settings saved");
   };
 
+  const handleRegisterWebhook = () => {
+    setWebhookMutation.mutate({ url: `${window.location.origin}/api/telegram/webhook` });
+  };
+
   const handleTestTelegram = () => {
     if (!telegramBotToken || !telegramChatId) {
       toast.error("Please enter bot token and chat ID first");
@@ -298,12 +1238,19 @@ export default function Settings() {
   const handleSaveQuietHours = () => {
     updateQuietHoursMutation.mutate({
       enabled: quietHoursEnabled,
-      startTime: quietHoursStart,
-      endTime: quietHoursEnd,
       bypassCritical: quietHoursBypassCritical,
+      timezone: quietHoursTimezone.trim(),
+      holidays: quietHoursHolidays,
+      schedules: quietHoursSchedules,
     });
   };
 
+  const handleAddHoliday = () => {
+    if (!newHoliday) return;
+    setQuietHoursHolidays((holidays) => Array.from(new Set([...holidays, newHoliday])).sort());
+    setNewHoliday("");
+  };
+
   const handleSendSummaryNow = () => {
     sendSummaryMutation.mutate();
   };
@@ -427,7 +1374,8 @@ export default function Settings() {
                     className="font-mono text-sm"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Your personal chat ID or group/channel ID. Use <a href="https://t.me/userinfobot" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">@userinfobot</a> to get your ID
+                    Your personal chat ID or group/channel ID. Use <a href="https://t.me/userinfobot" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">@userinfobot</a> to get your ID.
+                    Notifications go here until recipients are added below.
                   </p>
                 </div>
 
@@ -453,6 +1401,17 @@ export default function Settings() {
 
               <Separator />
 
+              {/* Recipients with their own routing rules */}
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Routing
+                </h4>
+                <TelegramRecipients />
+              </div>
+
+              <Separator />
+
               {/* Telegram notification options */}
               <div className="space-y-4">
                 <h4 className="text-sm font-medium text-muted-foreground">Telegram Notification Options</h4>
@@ -480,6 +1439,36 @@ export default function Settings() {
                 </div>
               </div>
 
+              <Separator />
+
+              {/* Bot commands and remote approval buttons */}
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium text-muted-foreground">Bot Commands & Remote Approval</h4>
+                <p className="text-xs text-muted-foreground">
+                  Linked users can send /open, /status, /last 10, /who &lt;plate&gt;, /guest &lt;plate&gt; 2h and, as admins,
+                  /blacklist &lt;plate&gt; &lt;reason&gt; to the bot, and press the Open / Deny / Add to allowed buttons on
+                  unknown vehicle alerts in the alert chats. Commands respect the user's role. Unlinked senders are told
+                  their chat ID.
+                </p>
+                <TelegramUsers />
+                <Button
+                  variant="outline"
+                  onClick={handleRegisterWebhook}
+                  disabled={setWebhookMutation.isPending || !telegramBotToken}
+                >
+                  {setWebhookMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Webhook className="h-4 w-4 mr-2" />
+                  )}
+                  Register Webhook
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Telegram delivers commands and button presses to <code className="font-mono">/api/telegram/webhook</code> on this
+                  server, which must be reachable over HTTPS. Save the bot token first.
+                </p>
+              </div>
+
               {/* Setup instructions */}
               <div className="p-4 rounded-lg bg-muted/50">
                 <h4 className="text-sm font-medium mb-2">Quick Setup Guide</h4>
@@ -495,6 +1484,63 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Outbound webhooks */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Webhooks
+              </CardTitle>
+              <CardDescription>
+                Post notification events to external systems. Each delivery appears in the notification
+                history with its response code; failed deliveries are retried with the same payload.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WebhookEndpoints />
+            </CardContent>
+          </Card>
+
+          {/* Notification retries */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RotateCw className="h-5 w-5" />
+                Notification Retries
+              </CardTitle>
+              <CardDescription>
+                Failed notifications are sent again automatically after 30 seconds, 2 minutes, 8 minutes and so on.
+                Once a channel's attempts are used up the notification is marked as dead-lettered and can only be resent by hand.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                {RETRY_CHANNELS.map(({ channel, label }) => (
+                  <div key={channel} className="space-y-2">
+                    <Label htmlFor={`retry-${channel}`}>{label} attempts</Label>
+                    <Input
+                      id={`retry-${channel}`}
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={retryMaxAttempts[channel]}
+                      onChange={(e) => setRetryMaxAttempts(current => ({ ...current, [channel]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">
+                  Attempts include the first send. Set to 1 to turn retries off for a channel.
+                </p>
+                <Button onClick={handleSaveRetryAttempts} disabled={saveMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Email Notifications */}
           <Card>
             <CardHeader>
@@ -629,7 +1675,7 @@ export default function Settings() {
                 Quiet Hours
                 {quietHoursStatus?.isActive && (
                   <span className="ml-2 px-2 py-0.5 text-xs bg-purple-500/20 text-purple-500 rounded-full">
-                    Active Now
+                    Active Now · {quietHoursStatus.channels.map((channel) => QUIET_HOURS_CHANNEL_LABELS[channel]).join(", ")}
                   </span>
                 )}
               </CardTitle>
@@ -658,36 +1704,97 @@ export default function Settings() {
                 />
               </div>
 
-              {/* Time settings */}
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="quiet-start" className="flex items-center gap-2">
-                    <Clock className="h-4 w-4" />
-                    Start Time
-                  </Label>
-                  <Input
-                    id="quiet-start"
-                    type="time"
-                    value={quietHoursStart}
-                    onChange={(e) => setQuietHoursStart(e.target.value)}
-                    disabled={!quietHoursEnabled}
-                    className="font-mono"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="quiet-end" className="flex items-center gap-2">
-                    <Clock className="h-4 w-4" />
-                    End Time
-                  </Label>
+              {/* Time zone */}
+              <div className="space-y-2">
+                <Label htmlFor="quiet-timezone" className="flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Time Zone
+                </Label>
+                <Input
+                  id="quiet-timezone"
+                  list="quiet-timezones"
+                  value={quietHoursTimezone}
+                  onChange={(e) => setQuietHoursTimezone(e.target.value)}
+                  disabled={!quietHoursEnabled}
+                  placeholder="Europe/Moscow"
+                  className="font-mono"
+                />
+                <datalist id="quiet-timezones">
+                  {TIME_ZONES.map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+                <p className="text-xs text-muted-foreground">
+                  IANA time zone the schedules and holidays below follow, regardless of the server clock
+                </p>
+              </div>
+
+              {/* Weekly schedules per channel */}
+              <Tabs defaultValue="email">
+                <TabsList>
+                  <TabsTrigger value="email">
+                    <Mail className="h-4 w-4 mr-2" />
+                    Email
+                  </TabsTrigger>
+                  <TabsTrigger value="telegram">
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    Telegram
+                  </TabsTrigger>
+                </TabsList>
+                {(["email", "telegram"] as const).map((channel) => (
+                  <TabsContent key={channel} value={channel} className="pt-2">
+                    <QuietHoursScheduleEditor
+                      channel={channel}
+                      schedule={quietHoursSchedules[channel]}
+                      onChange={(schedule) => setQuietHoursSchedules((schedules) => ({ ...schedules, [channel]: schedule }))}
+                      disabled={!quietHoursEnabled}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+
+              <Separator />
+
+              {/* Holidays */}
+              <div className="space-y-2">
+                <Label htmlFor="quiet-holiday" className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4" />
+                  Holidays
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Quiet all day on every channel with quiet hours turned on
+                </p>
+                <div className="flex gap-2">
                   <Input
-                    id="quiet-end"
-                    type="time"
-                    value={quietHoursEnd}
-                    onChange={(e) => setQuietHoursEnd(e.target.value)}
+                    id="quiet-holiday"
+                    type="date"
+                    value={newHoliday}
+                    onChange={(e) => setNewHoliday(e.target.value)}
                     disabled={!quietHoursEnabled}
-                    className="font-mono"
+                    className="font-mono w-48"
                   />
+                  <Button variant="outline" onClick={handleAddHoliday} disabled={!quietHoursEnabled || !newHoliday}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
                 </div>
+                {quietHoursHolidays.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {quietHoursHolidays.map((date) => (
+                      <Badge key={date} variant="secondary" className="gap-1 font-mono">
+                        {date}
+                        <button
+                          type="button"
+                          onClick={() => setQuietHoursHolidays((holidays) => holidays.filter((d) => d !== date))}
+                          disabled={!quietHoursEnabled}
+                          className="ml-1 text-muted-foreground hover:text-foreground"
+                        >
+                          <XCircle className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <Separator />
@@ -765,10 +1872,11 @@ export default function Settings() {
                   <div>
                     <p className="text-sm font-medium">How Quiet Hours Work</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      During quiet hours ({quietHoursStart} - {quietHoursEnd}), notifications are queued 
-                      instead of being sent immediately. When quiet hours end, a summary of all 
-                      accumulated notifications is sent. Critical alerts (blacklisted vehicles with 
-                      high/critical severity) can bypass quiet hours if enabled.
+                      Email and Telegram each follow their own weekly schedule in {quietHoursTimezone}. 
+                      While a channel is in quiet hours its notifications are queued instead of being 
+                      sent, and a summary of everything held goes out on that channel when its quiet 
+                      hours end. Webhooks are always delivered immediately. Critical alerts (blacklisted 
+                      vehicles with high/critical severity) can bypass quiet hours if enabled.
                     </p>
                   </div>
                 </div>
@@ -807,6 +1915,192 @@ export default function Settings() {
                   Enter the RTSP or HTTP stream URL of your IP camera. Supported formats: RTSP, HTTP/MJPEG.
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="presence-window">Presence Window (seconds)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="presence-window"
+                    type="number"
+                    min={0}
+                    value={presenceWindow}
+                    onChange={(e) => setPresenceWindow(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button onClick={handleSavePresenceWindow} disabled={saveMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Repeated reads of the same plate on a camera within this window are merged into one passage. Notifications and auto-open fire once per visit.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-stay">Maximum Stay (minutes)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="max-stay"
+                    type="number"
+                    min={0}
+                    value={maxStayMinutes}
+                    onChange={(e) => setMaxStayMinutes(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button onClick={handleSaveMaxStay} disabled={saveMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Send an alert when a vehicle stays on site longer than this. Set to 0 to disable.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review-threshold">Review Confidence Threshold (%)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="review-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={reviewThreshold}
+                    onChange={(e) => setReviewThreshold(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button onClick={handleSaveReviewThreshold} disabled={saveMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Reads of unknown plates and reads below this confidence that did not open the barrier go to the Review Queue. Set to 0 to queue unknown plates only.
+                </p>
+              </div>
+              <Separator />
+              <div className="grid gap-4 md:grid-cols-[160px_1fr_auto] md:items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="plate-edit-distance">Max Edit Distance</Label>
+                  <Input
+                    id="plate-edit-distance"
+                    type="number"
+                    min={0}
+                    max={3}
+                    value={plateMaxEditDistance}
+                    onChange={(e) => setPlateMaxEditDistance(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plate-confusables">Confusable Characters</Label>
+                  <Input
+                    id="plate-confusables"
+                    value={plateConfusablePairs}
+                    onChange={(e) => setPlateConfusablePairs(e.target.value)}
+                    placeholder="O0,B8,I1"
+                    className="font-mono"
+                  />
+                </div>
+                <Button onClick={handleSavePlateMatching} disabled={saveMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Plate reads are matched to vehicles, the blacklist and guest passes with OCR tolerance: Cyrillic and Latin
+                look-alike letters are always equal, listed character pairs are treated as the same character and plates of
+                6+ characters may differ by up to the edit distance. Keep it at 0 unless misreads are common: a plate one
+                character away from a registered one opens the barrier. Ambiguous matches are ignored.
+              </p>
+              <Separator />
+              <div className="space-y-3">
+                <Label>Accepted Plate Formats</Label>
+                {PLATE_REGIONS.map((region) => (
+                  <div key={region.code} className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">{region.label}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{region.examples}</p>
+                    </div>
+                    <Switch
+                      checked={plateRegions.includes(region.code)}
+                      onCheckedChange={(checked) => handleTogglePlateRegion(region.code, checked)}
+                    />
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  New vehicles, blacklist entries, CSV imports and camera reads must fit one of the enabled formats; reads that
+                  fit none are discarded. With no format enabled any plate is accepted.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Medical Check Policy */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Stethoscope className="h-5 w-5" />
+                Medical Check on Entry
+              </CardTitle>
+              <CardDescription>
+                Check the driver's medical status before the barrier opens for an allowed vehicle
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Policy</Label>
+                <Select value={medicalCheckMode} onValueChange={handleChangeMedicalMode}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="flag">Flag and notify, open barrier</SelectItem>
+                    <SelectItem value="block">Block entry and notify</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Expired, suspended and unknown statuses fail the check. Exits are never blocked.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="medical-require-record" className="font-medium">
+                    Require a Medical Record
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Plates without any record fail the check
+                  </p>
+                </div>
+                <Switch
+                  id="medical-require-record"
+                  checked={medicalRequireRecord}
+                  onCheckedChange={handleToggleRequireRecord}
+                  disabled={medicalCheckMode === "off" || saveMutation.isPending}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label htmlFor="medical-reminder-days">Expiry Reminder (days before)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="medical-reminder-days"
+                    type="number"
+                    min={0}
+                    value={medicalReminderDays}
+                    onChange={(e) => setMedicalReminderDays(e.target.value)}
+                    className="w-32"
+                  />
+                  <Button onClick={handleSaveReminderDays} disabled={saveMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Checked hourly. Records past their expiration date are marked expired automatically. Set to 0 to disable reminders.
+                </p>
+              </div>
             </CardContent>
           </Card>
 
@@ -852,10 +2146,13 @@ export default function Settings() {
               <div className="space-y-2">
                 <Label>API Endpoint</Label>
                 <div className="p-3 bg-muted rounded-lg font-mono text-sm">
-                  POST /api/trpc/medical.sync
+                  POST /api/medical/sync
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Use this endpoint to sync medical records from external systems.
+                  Send the key in the <code>X-API-Key</code> header (or <code>Authorization: Bearer</code>).
+                  Records are upserted and plates in <code>deletes</code> are removed; each run is listed in the
+                  medical sync history. A repeated <code>Idempotency-Key</code> header returns the earlier result.
+                  Per-source keys are managed on the Medical Records page; the key above remains valid.
                 </p>
               </div>
 
@@ -863,7 +2160,6 @@ export default function Settings() {
                 <Label>Request Example</Label>
                 <pre className="p-3 bg-muted rounded-lg font-mono text-xs overflow-x-auto">
 {`{
-  "apiKey": "your_api_key_here",
   "records": [
     {
       "licensePlate": "A123BC777",
@@ -872,7 +2168,8 @@ export default function Settings() {
       "medicalStatus": "valid",
       "expirationDate": "2025-12-31"
     }
-  ]
+  ],
+  "deletes": ["B456DE777"]
 }`}
                 </pre>
               </div>
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -34,8 +35,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, Pencil, Trash2, Car, Search } from "lucide-react";
+import { Plus, Pencil, Trash2, Car, Search, Ticket, Ban } from "lucide-react";
 import type { Vehicle } from "../../../drizzle/schema";
 
 type VehicleFormData = {
@@ -45,6 +53,8 @@ type VehicleFormData = {
   vehicleModel: string;
   vehicleColor: string;
   notes: string;
+  scheduleId: number | null;
+  groupId: number | null;
 };
 
 const initialFormData: VehicleFormData = {
@@ -54,21 +64,278 @@ const initialFormData: VehicleFormData = {
   vehicleModel: "",
   vehicleColor: "",
   notes: "",
+  scheduleId: null,
+  groupId: null,
+};
+
+type GuestPassFormData = {
+  licensePlate: string;
+  guestName: string;
+  purpose: string;
+  validFrom: string;
+  validUntil: string;
+  maxEntries: number;
+};
+
+function toDateTimeInput(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function initialGuestPassForm(): GuestPassFormData {
+  const now = new Date();
+  return {
+    licensePlate: "",
+    guestName: "",
+    purpose: "",
+    validFrom: toDateTimeInput(now),
+    validUntil: toDateTimeInput(new Date(now.getTime() + 24 * 60 * 60 * 1000)),
+    maxEntries: 1,
+  };
+}
+
+const GUEST_PASS_STATUS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  active: { label: "Active", variant: "default" },
+  exhausted: { label: "Used up", variant: "secondary" },
+  expired: { label: "Expired", variant: "outline" },
+  revoked: { label: "Revoked", variant: "destructive" },
 };
 
+function GuestPasses() {
+  const utils = trpc.useUtils();
+  const [showInactive, setShowInactive] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<GuestPassFormData>(initialGuestPassForm);
+
+  const { data: passes, isLoading } = trpc.guestPasses.list.useQuery({ includeInactive: showInactive });
+
+  const createMutation = trpc.guestPasses.create.useMutation({
+    onSuccess: () => {
+      toast.success("Guest pass issued");
+      utils.guestPasses.list.invalidate();
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to issue guest pass");
+    },
+  });
+
+  const revokeMutation = trpc.guestPasses.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("Guest pass revoked");
+      utils.guestPasses.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to revoke guest pass");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      licensePlate: formData.licensePlate,
+      guestName: formData.guestName || undefined,
+      purpose: formData.purpose || undefined,
+      validFrom: new Date(formData.validFrom),
+      validUntil: new Date(formData.validUntil),
+      maxEntries: formData.maxEntries,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            Guest Passes
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowInactive(!showInactive)}>
+              {showInactive ? "Active only" : "Show all"}
+            </Button>
+            <Button
+              onClick={() => {
+                setFormData(initialGuestPassForm());
+                setIsDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Issue Pass
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : passes && passes.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>License Plate</TableHead>
+                <TableHead>Guest</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Entries Left</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {passes.map((pass) => {
+                const status = GUEST_PASS_STATUS[pass.status];
+                return (
+                  <TableRow key={pass.id}>
+                    <TableCell className="font-mono font-bold">{pass.licensePlate}</TableCell>
+                    <TableCell>
+                      <p>{pass.guestName || "-"}</p>
+                      {pass.purpose && <p className="text-xs text-muted-foreground">{pass.purpose}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      <p>{new Date(pass.validFrom).toLocaleString("ru-RU")}</p>
+                      <p className="text-muted-foreground">→ {new Date(pass.validUntil).toLocaleString("ru-RU")}</p>
+                    </TableCell>
+                    <TableCell>
+                      {pass.maxEntries - pass.usedEntries} / {pass.maxEntries}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pass.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => revokeMutation.mutate({ id: pass.id })}
+                          disabled={revokeMutation.isPending}
+                        >
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <Ticket className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No guest passes</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Issue Guest Pass</DialogTitle>
+            <DialogDescription>
+              The plate is admitted automatically within the validity period until its entries are used up.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="guest-plate">License Plate *</Label>
+                <Input
+                  id="guest-plate"
+                  value={formData.licensePlate}
+                  onChange={(e) => setFormData({ ...formData, licensePlate: e.target.value.toUpperCase() })}
+                  placeholder="A123BC777"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guest-name">Guest Name</Label>
+                <Input
+                  id="guest-name"
+                  value={formData.guestName}
+                  onChange={(e) => setFormData({ ...formData, guestName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guest-from">Valid From *</Label>
+                <Input
+                  id="guest-from"
+                  type="datetime-local"
+                  value={formData.validFrom}
+                  onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guest-until">Valid Until *</Label>
+                <Input
+                  id="guest-until"
+                  type="datetime-local"
+                  value={formData.validUntil}
+                  onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guest-entries">Max Entries *</Label>
+                <Input
+                  id="guest-entries"
+                  type="number"
+                  min={1}
+                  value={formData.maxEntries}
+                  onChange={(e) => setFormData({ ...formData, maxEntries: parseInt(e.target.value) || 1 })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="guest-purpose">Purpose</Label>
+              <Input
+                id="guest-purpose"
+                value={formData.purpose}
+                onChange={(e) => setFormData({ ...formData, purpose: e.target.value })}
+                placeholder="Delivery, meeting..."
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending}>
+                Issue Pass
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
 export default function Vehicles() {
   const { user } = useAuth();
   const isAdmin = user?.role === "admin";
+  // Group admins manage only the vehicles of their own group
+  const managedGroupId = user?.managedGroupId ?? null;
+  const canManage = isAdmin || managedGroupId !== null;
+  const canManageVehicle = (vehicle: Vehicle) => isAdmin || vehicle.groupId === managedGroupId;
   const utils = trpc.useUtils();
 
   const [searchQuery, setSearchQuery] = useState("");
+  const [groupFilter, setGroupFilter] = useState<string>(managedGroupId !== null ? managedGroupId.toString() : "all");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
   const [formData, setFormData] = useState<VehicleFormData>(initialFormData);
 
-  const { data: vehicles, isLoading } = trpc.vehicles.list.useQuery({ includeInactive: isAdmin });
+  const { data: vehicles, isLoading } = trpc.vehicles.list.useQuery({
+    includeInactive: canManage,
+    groupId: groupFilter === "all" ? undefined : Number(groupFilter),
+  });
+  const { data: schedules } = trpc.schedules.list.useQuery();
+  const { data: groups } = trpc.groups.list.useQuery();
+  const scheduleName = (id: number | null) => schedules?.find((s) => s.id === id)?.name;
+  const group = (id: number | null) => groups?.find((g) => g.id === id);
 
   const createMutation = trpc.vehicles.create.useMutation({
     onSuccess: () => {
@@ -123,6 +390,8 @@ export default function Vehicles() {
       vehicleModel: vehicle.vehicleModel || "",
       vehicleColor: vehicle.vehicleColor || "",
       notes: vehicle.notes || "",
+      scheduleId: vehicle.scheduleId,
+      groupId: vehicle.groupId,
     });
     setIsEditDialogOpen(true);
   };
@@ -200,6 +469,48 @@ export default function Vehicles() {
           />
         </div>
       </div>
+      <div className="space-y-2">
+        <Label>Access Schedule</Label>
+        <Select
+          value={formData.scheduleId?.toString() ?? "none"}
+          onValueChange={(v) => setFormData({ ...formData, scheduleId: v === "none" ? null : Number(v) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">
+              {group(formData.groupId)?.scheduleId ? "Group schedule" : "Any time"}
+            </SelectItem>
+            {schedules?.map((schedule) => (
+              <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                {schedule.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {isAdmin && (
+        <div className="space-y-2">
+          <Label>Group</Label>
+          <Select
+            value={formData.groupId?.toString() ?? "none"}
+            onValueChange={(v) => setFormData({ ...formData, groupId: v === "none" ? null : Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No group</SelectItem>
+              {groups?.map((g) => (
+                <SelectItem key={g.id} value={g.id.toString()}>
+                  {g.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div className="space-y-2">
         <Label htmlFor="notes">Notes</Label>
         <Input
@@ -224,7 +535,7 @@ export default function Vehicles() {
           <h1 className="text-2xl font-bold tracking-tight">Vehicles</h1>
           <p className="text-muted-foreground">Manage allowed vehicle license plates</p>
         </div>
-        {isAdmin && (
+        {canManage && (
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button onClick={() => setFormData(initialFormData)}>
@@ -245,99 +556,144 @@ export default function Vehicles() {
         )}
       </div>
 
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <CardTitle className="flex items-center gap-2">
-              <Car className="h-5 w-5" />
-              Registered Vehicles
-            </CardTitle>
-            <div className="relative w-64">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search vehicles..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
-              />
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="space-y-3">
-              {[...Array(5)].map((_, i) => (
-                <Skeleton key={i} className="h-12 w-full" />
-              ))}
-            </div>
-          ) : filteredVehicles && filteredVehicles.length > 0 ? (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>License Plate</TableHead>
-                  <TableHead>Owner</TableHead>
-                  <TableHead>Vehicle</TableHead>
-                  <TableHead>Status</TableHead>
-                  {isAdmin && <TableHead className="text-right">Actions</TableHead>}
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredVehicles.map((vehicle) => (
-                  <TableRow key={vehicle.id}>
-                    <TableCell className="font-mono font-bold">{vehicle.licensePlate}</TableCell>
-                    <TableCell>
-                      <div>
-                        <p>{vehicle.ownerName || "-"}</p>
-                        {vehicle.ownerPhone && (
-                          <p className="text-xs text-muted-foreground">{vehicle.ownerPhone}</p>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div>
-                        <p>{vehicle.vehicleModel || "-"}</p>
-                        {vehicle.vehicleColor && (
-                          <p className="text-xs text-muted-foreground">{vehicle.vehicleColor}</p>
+      <Tabs defaultValue="vehicles">
+        <TabsList>
+          <TabsTrigger value="vehicles">
+            <Car className="h-4 w-4 mr-2" />
+            Vehicles
+          </TabsTrigger>
+          <TabsTrigger value="guests">
+            <Ticket className="h-4 w-4 mr-2" />
+            Guest Passes
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="vehicles">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Car className="h-5 w-5" />
+                  Registered Vehicles
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Select value={groupFilter} onValueChange={setGroupFilter}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All groups</SelectItem>
+                      {groups?.map((g) => (
+                        <SelectItem key={g.id} value={g.id.toString()}>
+                          {g.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="relative w-64">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search vehicles..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-9"
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : filteredVehicles && filteredVehicles.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>License Plate</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Status</TableHead>
+                      {canManage && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredVehicles.map((vehicle) => (
+                      <TableRow key={vehicle.id}>
+                        <TableCell className="font-mono font-bold">{vehicle.licensePlate}</TableCell>
+                        <TableCell>
+                          <div>
+                            <p>{vehicle.ownerName || "-"}</p>
+                            {vehicle.ownerPhone && (
+                              <p className="text-xs text-muted-foreground">{vehicle.ownerPhone}</p>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>
+                            <p>{vehicle.vehicleModel || "-"}</p>
+                            {vehicle.vehicleColor && (
+                              <p className="text-xs text-muted-foreground">{vehicle.vehicleColor}</p>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {group(vehicle.groupId)?.name || <span className="text-muted-foreground">-</span>}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {scheduleName(vehicle.scheduleId ?? group(vehicle.groupId)?.scheduleId ?? null) ||
+                            <span className="text-muted-foreground">Any time</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={vehicle.isActive ? "default" : "secondary"}>
+                            {vehicle.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            {canManageVehicle(vehicle) && (
+                              <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="icon" onClick={() => handleEdit(vehicle)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(vehicle)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
                         )}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={vehicle.isActive ? "default" : "secondary"}>
-                        {vehicle.isActive ? "Active" : "Inactive"}
-                      </Badge>
-                    </TableCell>
-                    {isAdmin && (
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button variant="ghost" size="icon" onClick={() => handleEdit(vehicle)}>
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="icon" onClick={() => handleDelete(vehicle)}>
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    )}
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          ) : (
-            <div className="text-center py-8">
-              <Car className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">
-                {searchQuery ? "No vehicles match your search" : "No vehicles registered yet"}
-              </p>
-              {isAdmin && !searchQuery && (
-                <Button variant="outline" className="mt-4" onClick={() => setIsAddDialogOpen(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add First Vehicle
-                </Button>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8">
+                  <Car className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    {searchQuery ? "No vehicles match your search" : "No vehicles registered yet"}
+                  </p>
+                  {canManage && !searchQuery && (
+                    <Button variant="outline" className="mt-4" onClick={() => setIsAddDialogOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add First Vehicle
+                    </Button>
+                  )}
+                </div>
               )}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="guests">
+          <GuestPasses />
+        </TabsContent>
+      </Tabs>
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -0,0 +1,5 @@
+ALTER TABLE `cameraIntegrations` ADD `recognitionProviders` varchar(100) DEFAULT 'llm';--> statement-breakpoint
+ALTER TABLE `cameraIntegrations` ADD `recognitionEndpoint` text;--> statement-breakpoint
+ALTER TABLE `passages` ADD `recognitionProvider` varchar(50);--> statement-breakpoint
+ALTER TABLE `passages` ADD `recognitionLatency` int;--> statement-breakpoint
+ALTER TABLE `passages` ADD `recognitionAttempts` text;
\ No newline at end of file
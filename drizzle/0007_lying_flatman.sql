@@ -0,0 +1,3 @@
+ALTER TABLE `passages` ADD `cameraId` int;--> statement-breakpoint
+ALTER TABLE `passages` ADD `lastSeenAt` timestamp;--> statement-breakpoint
+ALTER TABLE `passages` ADD `frameCount` int DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `barrierIntegrations` ADD `lane` enum('entry','exit','both') DEFAULT 'both' NOT NULL;--> statement-breakpoint
+ALTER TABLE `cameraIntegrations` ADD `lane` enum('entry','exit','both') DEFAULT 'both' NOT NULL;--> statement-breakpoint
+ALTER TABLE `passages` ADD `direction` enum('entry','exit');--> statement-breakpoint
+ALTER TABLE `passages` ADD `overstayNotifiedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `accessSchedules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`timeWindows` text,
+	`validFrom` timestamp,
+	`validUntil` timestamp,
+	`holidays` text,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `accessSchedules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `passages` ADD `denialReason` varchar(255);--> statement-breakpoint
+ALTER TABLE `vehicles` ADD `scheduleId` int;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `guestPasses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`licensePlate` varchar(20) NOT NULL,
+	`guestName` varchar(255),
+	`purpose` text,
+	`validFrom` timestamp NOT NULL,
+	`validUntil` timestamp NOT NULL,
+	`maxEntries` int NOT NULL DEFAULT 1,
+	`usedEntries` int NOT NULL DEFAULT 0,
+	`status` enum('active','exhausted','expired','revoked') NOT NULL DEFAULT 'active',
+	`lastUsedAt` timestamp,
+	`issuedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `guestPasses_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `passages` ADD `guestPassId` int;
\ No newline at end of file
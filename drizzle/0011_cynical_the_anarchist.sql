@@ -0,0 +1,17 @@
+CREATE TABLE `vehicleGroups` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`type` enum('tenant','department','residents','staff') NOT NULL DEFAULT 'tenant',
+	`description` text,
+	`scheduleId` int,
+	`allowedBarrierIds` text,
+	`allowedCameraIds` text,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `vehicleGroups_id` PRIMARY KEY(`id`),
+	CONSTRAINT `vehicleGroups_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `managedGroupId` int;--> statement-breakpoint
+ALTER TABLE `vehicles` ADD `groupId` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `passages` ADD `medicalStatus` enum('valid','expired','suspended','unknown','missing');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `medicalRecords` ADD `expiryReminderSentAt` timestamp;
\ No newline at end of file
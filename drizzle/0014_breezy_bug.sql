@@ -0,0 +1,27 @@
+CREATE TABLE `medicalSyncRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sourceId` int,
+	`idempotencyKey` varchar(128),
+	`status` enum('success','partial','failed') NOT NULL,
+	`created` int NOT NULL DEFAULT 0,
+	`updated` int NOT NULL DEFAULT 0,
+	`deleted` int NOT NULL DEFAULT 0,
+	`unchanged` int NOT NULL DEFAULT 0,
+	`failed` int NOT NULL DEFAULT 0,
+	`changes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `medicalSyncRuns_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `medicalSyncSources` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`apiKey` varchar(64) NOT NULL,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`lastSyncAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `medicalSyncSources_id` PRIMARY KEY(`id`),
+	CONSTRAINT `medicalSyncSources_name_unique` UNIQUE(`name`),
+	CONSTRAINT `medicalSyncSources_apiKey_unique` UNIQUE(`apiKey`)
+);
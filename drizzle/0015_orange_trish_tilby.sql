@@ -0,0 +1,2 @@
+ALTER TABLE `passages` ADD `plateMatchType` enum('exact','homoglyph','confusable','fuzzy');--> statement-breakpoint
+ALTER TABLE `passages` ADD `plateMatchDistance` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `passages` ADD `plateRegion` varchar(10);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `cameraIntegrations` ADD `recognitionBurstFrames` int DEFAULT 1;--> statement-breakpoint
+ALTER TABLE `passages` ADD `candidateReads` text;
\ No newline at end of file
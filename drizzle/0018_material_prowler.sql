@@ -0,0 +1,16 @@
+CREATE TABLE `passageReviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`passageId` int NOT NULL,
+	`userId` int,
+	`action` enum('correct_plate','approve','deny','add_allowed','add_blacklist') NOT NULL,
+	`previousPlate` varchar(20),
+	`newPlate` varchar(20),
+	`barrierOpened` boolean,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `passageReviews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `passages` ADD `reviewStatus` enum('pending','approved','denied');--> statement-breakpoint
+ALTER TABLE `passages` ADD `reviewedBy` int;--> statement-breakpoint
+ALTER TABLE `passages` ADD `reviewedAt` timestamp;
\ No newline at end of file
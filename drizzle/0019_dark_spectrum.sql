@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `telegramChatId` varchar(32);--> statement-breakpoint
+ALTER TABLE `users` ADD CONSTRAINT `users_telegramChatId_unique` UNIQUE(`telegramChatId`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `telegramDeliveries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`notificationId` int NOT NULL,
+	`recipientId` int,
+	`chatId` varchar(32) NOT NULL,
+	`recipientName` varchar(100),
+	`status` enum('sent','failed','skipped') NOT NULL,
+	`errorMessage` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `telegramDeliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `telegramRecipients` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`chatId` varchar(32) NOT NULL,
+	`kind` enum('chat','group','guard') NOT NULL DEFAULT 'chat',
+	`eventTypes` text,
+	`minSeverity` enum('low','medium','high','critical') NOT NULL DEFAULT 'low',
+	`quietHoursEnabled` boolean NOT NULL DEFAULT false,
+	`quietHoursStart` varchar(5),
+	`quietHoursEnd` varchar(5),
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `telegramRecipients_id` PRIMARY KEY(`id`),
+	CONSTRAINT `telegramRecipients_chatId_unique` UNIQUE(`chatId`)
+);
+--> statement-breakpoint
+ALTER TABLE `notificationHistory` MODIFY COLUMN `type` enum('unknown_vehicle','blacklist_detected','manual_open','unauthorized_access','daily_summary','quiet_hours_summary','allowed_passage','overstay','medical_issue','medical_expiring') NOT NULL;
\ No newline at end of file
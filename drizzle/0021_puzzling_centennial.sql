@@ -0,0 +1,15 @@
+CREATE TABLE `webhookEndpoints` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`url` text NOT NULL,
+	`secret` varchar(64) NOT NULL,
+	`eventTypes` text,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhookEndpoints_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `notificationHistory` MODIFY COLUMN `channel` enum('email','telegram','both','webhook') NOT NULL DEFAULT 'email';--> statement-breakpoint
+ALTER TABLE `notificationHistory` ADD `webhookId` int;--> statement-breakpoint
+ALTER TABLE `notificationHistory` ADD `responseCode` int;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `notificationHistory` ADD `passageId` int;--> statement-breakpoint
+ALTER TABLE `notificationHistory` ADD `durationMs` int;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `notificationHistory` MODIFY COLUMN `status` enum('sent','failed','pending','dead_letter') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `notificationHistory` ADD `webhookPayload` text;--> statement-breakpoint
+ALTER TABLE `notificationHistory` ADD `nextRetryAt` timestamp;
\ No newline at end of file
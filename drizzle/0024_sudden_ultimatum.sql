@@ -0,0 +1,12 @@
+CREATE TABLE `jobRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobName` varchar(64) NOT NULL,
+	`trigger` enum('schedule','manual') NOT NULL DEFAULT 'schedule',
+	`status` enum('running','success','failed') NOT NULL DEFAULT 'running',
+	`result` text,
+	`errorMessage` text,
+	`durationMs` int,
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`finishedAt` timestamp,
+	CONSTRAINT `jobRuns_id` PRIMARY KEY(`id`)
+);
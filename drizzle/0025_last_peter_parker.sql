@@ -0,0 +1 @@
+ALTER TABLE `pendingNotifications` ADD `channel` enum('email','telegram') DEFAULT 'email' NOT NULL;
\ No newline at end of file
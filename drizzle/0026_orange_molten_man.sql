@@ -0,0 +1,7 @@
+UPDATE `medicalSyncRuns` AS `later`
+JOIN `medicalSyncRuns` AS `earlier`
+	ON `earlier`.`idempotencyKey` = `later`.`idempotencyKey`
+	AND `earlier`.`sourceId` <=> `later`.`sourceId`
+	AND `earlier`.`id` < `later`.`id`
+SET `later`.`idempotencyKey` = NULL;--> statement-breakpoint
+ALTER TABLE `medicalSyncRuns` ADD CONSTRAINT `medicalSyncRuns_source_idempotency_unique` UNIQUE(`sourceId`,`idempotencyKey`);
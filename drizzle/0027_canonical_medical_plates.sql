@@ -0,0 +1,2 @@
+-- Store medical record plates in canonical form (see canonicalizePlate)
+UPDATE `medicalRecords` SET `licensePlate` = REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(UPPER(`licensePlate`), 'А', 'A'), 'В', 'B'), 'Е', 'E'), 'К', 'K'), 'М', 'M'), 'Н', 'H'), 'О', 'O'), 'Р', 'P'), 'С', 'C'), 'Т', 'T'), 'У', 'Y'), 'Х', 'X'), ' ', ''), '\t', ''), '-', ''), '.', ''), '·', ''), '_', '');
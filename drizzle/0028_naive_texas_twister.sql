@@ -0,0 +1 @@
+ALTER TABLE `pendingNotifications` MODIFY COLUMN `type` enum('unknown_vehicle','blacklist_detected','manual_open','unauthorized_access','allowed_passage','overstay','medical_issue','medical_expiring') NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `notificationHistory` MODIFY COLUMN `status` enum('sent','failed','pending','dead_letter','skipped') NOT NULL DEFAULT 'pending';
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `webhookAttempts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`notificationId` int NOT NULL,
+	`attempt` int NOT NULL,
+	`status` enum('sent','failed') NOT NULL,
+	`responseCode` int,
+	`errorMessage` text,
+	`durationMs` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webhookAttempts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+-- Webhook notifications sent before attempts were logged keep their latest attempt
+INSERT INTO `webhookAttempts` (`notificationId`, `attempt`, `status`, `responseCode`, `errorMessage`, `durationMs`, `createdAt`)
+SELECT `id`, `retryCount` + 1, IF(`status` = 'sent', 'sent', 'failed'), `responseCode`, `errorMessage`, `durationMs`, COALESCE(`lastRetryAt`, `createdAt`)
+FROM `notificationHistory`
+WHERE `channel` = 'webhook';
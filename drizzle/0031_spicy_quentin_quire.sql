@@ -0,0 +1,3 @@
+ALTER TABLE `medicalSyncRuns` DROP INDEX `medicalSyncRuns_source_idempotency_unique`;--> statement-breakpoint
+ALTER TABLE `medicalSyncRuns` ADD `idempotencyScope` int GENERATED ALWAYS AS (COALESCE(`sourceId`, 0)) STORED NOT NULL;--> statement-breakpoint
+ALTER TABLE `medicalSyncRuns` ADD CONSTRAINT `medicalSyncRuns_scope_idempotency_unique` UNIQUE(`idempotencyScope`,`idempotencyKey`);
\ No newline at end of file
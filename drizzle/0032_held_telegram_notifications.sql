@@ -0,0 +1,17 @@
+-- Notifications held before channels had their own rows went out on every
+-- channel; give the ones still waiting a Telegram row unless they have one,
+-- e.g. from an earlier version of 0025 or from being held since the upgrade
+INSERT INTO `pendingNotifications` (`type`, `title`, `message`, `licensePlate`, `photoUrl`, `severity`, `channel`, `isSent`, `sentAt`, `createdAt`)
+SELECT `held`.`type`, `held`.`title`, `held`.`message`, `held`.`licensePlate`, `held`.`photoUrl`, `held`.`severity`, 'telegram', `held`.`isSent`, `held`.`sentAt`, `held`.`createdAt`
+FROM `pendingNotifications` AS `held`
+WHERE `held`.`isSent` = false
+	AND `held`.`channel` = 'email'
+	AND NOT EXISTS (
+		SELECT 1 FROM `pendingNotifications` AS `telegram`
+		WHERE `telegram`.`channel` = 'telegram'
+			AND `telegram`.`type` = `held`.`type`
+			AND `telegram`.`title` = `held`.`title`
+			AND `telegram`.`licensePlate` <=> `held`.`licensePlate`
+			-- Rows of one notification are written one after the other
+			AND ABS(TIMESTAMPDIFF(SECOND, `telegram`.`createdAt`, `held`.`createdAt`)) <= 60
+	);
@@ -1,4 +1,5 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, bigint } from "drizzle-orm/mysql-core";
+import { sql } from "drizzle-orm";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, bigint, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -13,6 +14,8 @@ export const users = mysqlTable("users", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+  managedGroupId: int("managedGroupId"), // group admin: may manage this group's vehicles
+  telegramChatId: varchar("telegramChatId", { length: 32 }).unique(), // Telegram user (private chat) ID for bot commands
 });
 
 export type User = typeof users.$inferSelect;
@@ -33,11 +36,73 @@ export const vehicles = mysqlTable("vehicles", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   createdBy: int("createdBy"),
+  scheduleId: int("scheduleId"), // access schedule, null = any time
+  groupId: int("groupId"),
 });
 
 export type Vehicle = typeof vehicles.$inferSelect;
 export type InsertVehicle = typeof vehicles.$inferInsert;
 
+/**
+ * Vehicle groups - tenants, departments, residents or staff sharing an access policy
+ */
+export const vehicleGroups = mysqlTable("vehicleGroups", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  type: mysqlEnum("type", ["tenant", "department", "residents", "staff"]).default("tenant").notNull(),
+  description: text("description"),
+  scheduleId: int("scheduleId"), // default schedule for vehicles without their own
+  allowedBarrierIds: text("allowedBarrierIds"), // JSON array of barrier integration ids, empty = any
+  allowedCameraIds: text("allowedCameraIds"), // JSON array of camera integration ids (lanes), empty = any
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type VehicleGroup = typeof vehicleGroups.$inferSelect;
+export type InsertVehicleGroup = typeof vehicleGroups.$inferInsert;
+
+/**
+ * Access schedules - reusable weekday/time windows, date ranges and holiday exceptions
+ */
+export const accessSchedules = mysqlTable("accessSchedules", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  timeWindows: text("timeWindows"), // JSON array of { days: 0-6[], start: "HH:MM", end: "HH:MM" }, empty = all day
+  validFrom: timestamp("validFrom"),
+  validUntil: timestamp("validUntil"),
+  holidays: text("holidays"), // JSON array of "YYYY-MM-DD" dates with no access
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AccessSchedule = typeof accessSchedules.$inferSelect;
+export type InsertAccessSchedule = typeof accessSchedules.$inferInsert;
+
+/**
+ * Guest passes - temporary access for a plate with expiry and entry limit
+ */
+export const guestPasses = mysqlTable("guestPasses", {
+  id: int("id").autoincrement().primaryKey(),
+  licensePlate: varchar("licensePlate", { length: 20 }).notNull(),
+  guestName: varchar("guestName", { length: 255 }),
+  purpose: text("purpose"),
+  validFrom: timestamp("validFrom").notNull(),
+  validUntil: timestamp("validUntil").notNull(),
+  maxEntries: int("maxEntries").default(1).notNull(),
+  usedEntries: int("usedEntries").default(0).notNull(),
+  status: mysqlEnum("status", ["active", "exhausted", "expired", "revoked"]).default("active").notNull(),
+  lastUsedAt: timestamp("lastUsedAt"),
+  issuedBy: int("issuedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type GuestPass = typeof guestPasses.$inferSelect;
+export type InsertGuestPass = typeof guestPasses.$inferInsert;
+
 /**
  * Passage logs table - records all vehicle passages
  */
@@ -54,11 +119,54 @@ export const passages = mysqlTable("passages", {
   openedBy: int("openedBy"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   notes: text("notes"),
+  // Recognition details
+  recognitionProvider: varchar("recognitionProvider", { length: 50 }),
+  recognitionLatency: int("recognitionLatency"), // milliseconds
+  recognitionAttempts: text("recognitionAttempts"), // JSON array of per-provider reads
+  candidateReads: text("candidateReads"), // JSON array of per-frame reads when a burst was voted on
+  // Presence tracking - timestamp is the first sighting of the visit
+  cameraId: int("cameraId"),
+  lastSeenAt: timestamp("lastSeenAt"),
+  frameCount: int("frameCount").default(1).notNull(),
+  // Occupancy tracking
+  direction: mysqlEnum("direction", ["entry", "exit"]),
+  overstayNotifiedAt: timestamp("overstayNotifiedAt"),
+  denialReason: varchar("denialReason", { length: 255 }),
+  guestPassId: int("guestPassId"),
+  // Driver medical status at the time of passage, null when the check is off
+  medicalStatus: mysqlEnum("medicalStatus", ["valid", "expired", "suspended", "unknown", "missing"]),
+  // How the read matched the stored plate (OCR tolerance), null when nothing matched
+  plateMatchType: mysqlEnum("plateMatchType", ["exact", "homoglyph", "confusable", "fuzzy"]),
+  plateMatchDistance: int("plateMatchDistance"),
+  // Country/region detected from the plate format, e.g. RU-77
+  plateRegion: varchar("plateRegion", { length: 10 }),
+  // Operator review of unknown and low-confidence reads, null when no review was needed
+  reviewStatus: mysqlEnum("reviewStatus", ["pending", "approved", "denied"]),
+  reviewedBy: int("reviewedBy"),
+  reviewedAt: timestamp("reviewedAt"),
 });
 
 export type Passage = typeof passages.$inferSelect;
 export type InsertPassage = typeof passages.$inferInsert;
 
+/**
+ * Review audit trail - one row per operator decision on a passage
+ */
+export const passageReviews = mysqlTable("passageReviews", {
+  id: int("id").autoincrement().primaryKey(),
+  passageId: int("passageId").notNull(),
+  userId: int("userId"),
+  action: mysqlEnum("action", ["correct_plate", "approve", "deny", "add_allowed", "add_blacklist"]).notNull(),
+  previousPlate: varchar("previousPlate", { length: 20 }),
+  newPlate: varchar("newPlate", { length: 20 }),
+  barrierOpened: boolean("barrierOpened"),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PassageReview = typeof passageReviews.$inferSelect;
+export type InsertPassageReview = typeof passageReviews.$inferInsert;
+
 /**
  * Medical database records - stores driver medical information
  */
@@ -71,6 +179,7 @@ export const medicalRecords = mysqlTable("medicalRecords", {
   expirationDate: timestamp("expirationDate"),
   lastCheckDate: timestamp("lastCheckDate"),
   notes: text("notes"),
+  expiryReminderSentAt: timestamp("expiryReminderSentAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -78,6 +187,47 @@ export const medicalRecords = mysqlTable("medicalRecords", {
 export type MedicalRecord = typeof medicalRecords.$inferSelect;
 export type InsertMedicalRecord = typeof medicalRecords.$inferInsert;
 
+/**
+ * External systems allowed to sync medical records, each with its own API key
+ */
+export const medicalSyncSources = mysqlTable("medicalSyncSources", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  apiKey: varchar("apiKey", { length: 64 }).notNull().unique(),
+  isActive: boolean("isActive").default(true).notNull(),
+  lastSyncAt: timestamp("lastSyncAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type MedicalSyncSource = typeof medicalSyncSources.$inferSelect;
+export type InsertMedicalSyncSource = typeof medicalSyncSources.$inferInsert;
+
+/**
+ * Medical sync history - one row per sync run with per-record changes
+ */
+export const medicalSyncRuns = mysqlTable("medicalSyncRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  sourceId: int("sourceId"), // null = legacy shared medical_api_key
+  // sourceId with 0 for the legacy key, as unique indexes let NULLs repeat
+  idempotencyScope: int("idempotencyScope").generatedAlwaysAs(sql`COALESCE(\`sourceId\`, 0)`, { mode: "stored" }).notNull(),
+  idempotencyKey: varchar("idempotencyKey", { length: 128 }),
+  status: mysqlEnum("status", ["success", "partial", "failed"]).notNull(),
+  created: int("created").default(0).notNull(),
+  updated: int("updated").default(0).notNull(),
+  deleted: int("deleted").default(0).notNull(),
+  unchanged: int("unchanged").default(0).notNull(),
+  failed: int("failed").default(0).notNull(),
+  changes: text("changes"), // JSON array of per-record results
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  // Concurrent deliveries of one batch can only log a single run
+  uniqueIndex("medicalSyncRuns_scope_idempotency_unique").on(table.idempotencyScope, table.idempotencyKey),
+]);
+
+export type MedicalSyncRun = typeof medicalSyncRuns.$inferSelect;
+export type InsertMedicalSyncRun = typeof medicalSyncRuns.$inferInsert;
+
 /**
  * System settings table - stores configuration
  */
@@ -138,12 +288,14 @@ export type InsertBlacklistEntry = typeof blacklist.$inferInsert;
  */
 export const pendingNotifications = mysqlTable("pendingNotifications", {
   id: int("id").autoincrement().primaryKey(),
-  type: mysqlEnum("type", ["unknown_vehicle", "blacklist_detected", "manual_open", "unauthorized_access"]).notNull(),
+  type: mysqlEnum("type", ["unknown_vehicle", "blacklist_detected", "manual_open", "unauthorized_access", "allowed_passage", "overstay", "medical_issue", "medical_expiring"]).notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message").notNull(),
   licensePlate: varchar("licensePlate", { length: 20 }),
   photoUrl: text("photoUrl"),
   severity: mysqlEnum("severity", ["low", "medium", "high", "critical"]).default("medium").notNull(),
+  /** Channel the notification is held for, each quiet channel gets its own row */
+  channel: mysqlEnum("channel", ["email", "telegram"]).default("email").notNull(),
   isSent: boolean("isSent").default(false).notNull(),
   sentAt: timestamp("sentAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -157,17 +309,23 @@ export type InsertPendingNotification = typeof pendingNotifications.$inferInsert
  */
 export const notificationHistory = mysqlTable("notificationHistory", {
   id: int("id").autoincrement().primaryKey(),
-  type: mysqlEnum("type", ["unknown_vehicle", "blacklist_detected", "manual_open", "unauthorized_access", "daily_summary", "quiet_hours_summary"]).notNull(),
+  type: mysqlEnum("type", ["unknown_vehicle", "blacklist_detected", "manual_open", "unauthorized_access", "daily_summary", "quiet_hours_summary", "allowed_passage", "overstay", "medical_issue", "medical_expiring"]).notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message").notNull(),
   licensePlate: varchar("licensePlate", { length: 20 }),
   photoUrl: text("photoUrl"),
   severity: mysqlEnum("severity", ["low", "medium", "high", "critical"]).default("medium").notNull(),
-  channel: mysqlEnum("channel", ["email", "telegram", "both"]).default("email").notNull(),
-  status: mysqlEnum("status", ["sent", "failed", "pending"]).default("pending").notNull(),
+  channel: mysqlEnum("channel", ["email", "telegram", "both", "webhook"]).default("email").notNull(),
+  status: mysqlEnum("status", ["sent", "failed", "pending", "dead_letter", "skipped"]).default("pending").notNull(),
   errorMessage: text("errorMessage"),
+  webhookId: int("webhookId"), // set for webhook deliveries
+  responseCode: int("responseCode"), // HTTP status returned by the webhook
+  webhookPayload: text("webhookPayload"), // signed JSON body, resent as-is on retry
+  passageId: int("passageId"), // passage that triggered the notification
+  durationMs: int("durationMs"), // time the channel took to send
   retryCount: int("retryCount").default(0).notNull(),
   lastRetryAt: timestamp("lastRetryAt"),
+  nextRetryAt: timestamp("nextRetryAt"), // set while a failed notification waits for the retry worker
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   sentAt: timestamp("sentAt"),
 });
@@ -175,6 +333,79 @@ export const notificationHistory = mysqlTable("notificationHistory", {
 export type NotificationHistoryEntry = typeof notificationHistory.$inferSelect;
 export type InsertNotificationHistoryEntry = typeof notificationHistory.$inferInsert;
 
+/**
+ * Telegram recipients table - chats, groups and guards notifications are routed to
+ */
+export const telegramRecipients = mysqlTable("telegramRecipients", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  chatId: varchar("chatId", { length: 32 }).notNull().unique(),
+  kind: mysqlEnum("kind", ["chat", "group", "guard"]).default("chat").notNull(),
+  eventTypes: text("eventTypes"), // JSON array of notification types, empty = all
+  minSeverity: mysqlEnum("minSeverity", ["low", "medium", "high", "critical"]).default("low").notNull(),
+  quietHoursEnabled: boolean("quietHoursEnabled").default(false).notNull(),
+  quietHoursStart: varchar("quietHoursStart", { length: 5 }), // HH:MM
+  quietHoursEnd: varchar("quietHoursEnd", { length: 5 }), // HH:MM
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type TelegramRecipient = typeof telegramRecipients.$inferSelect;
+export type InsertTelegramRecipient = typeof telegramRecipients.$inferInsert;
+
+/**
+ * Telegram deliveries table - per-recipient outcome of a notification
+ */
+export const telegramDeliveries = mysqlTable("telegramDeliveries", {
+  id: int("id").autoincrement().primaryKey(),
+  notificationId: int("notificationId").notNull(),
+  recipientId: int("recipientId"), // null for the legacy single chat
+  chatId: varchar("chatId", { length: 32 }).notNull(),
+  recipientName: varchar("recipientName", { length: 100 }),
+  status: mysqlEnum("status", ["sent", "failed", "skipped"]).notNull(),
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TelegramDelivery = typeof telegramDeliveries.$inferSelect;
+export type InsertTelegramDelivery = typeof telegramDeliveries.$inferInsert;
+
+/**
+ * Webhook endpoints table - external URLs notifications are posted to
+ */
+export const webhookEndpoints = mysqlTable("webhookEndpoints", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  url: text("url").notNull(),
+  secret: varchar("secret", { length: 64 }).notNull(), // HMAC-SHA256 signing key
+  eventTypes: text("eventTypes"), // JSON array of notification types, empty = all
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+
+/**
+ * Webhook attempts table - every POST of a webhook notification, first send
+ * and retries, with the response code the endpoint answered with
+ */
+export const webhookAttempts = mysqlTable("webhookAttempts", {
+  id: int("id").autoincrement().primaryKey(),
+  notificationId: int("notificationId").notNull(),
+  attempt: int("attempt").notNull(), // 1 for the first send
+  status: mysqlEnum("status", ["sent", "failed"]).notNull(),
+  responseCode: int("responseCode"), // null when the endpoint could not be reached
+  errorMessage: text("errorMessage"),
+  durationMs: int("durationMs"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WebhookAttempt = typeof webhookAttempts.$inferSelect;
+export type InsertWebhookAttempt = typeof webhookAttempts.$inferInsert;
+
 /**
  * Barrier integrations table - stores barrier hardware configurations
  */
@@ -201,6 +432,7 @@ export const barrierIntegrations = mysqlTable("barrierIntegrations", {
   // Timing settings
   openDuration: int("openDuration").default(5000), // milliseconds
   timeout: int("timeout").default(10000), // milliseconds
+  lane: mysqlEnum("lane", ["entry", "exit", "both"]).default("both").notNull(),
   // Status
   lastStatus: mysqlEnum("lastStatus", ["online", "offline", "error", "unknown"]).default("unknown"),
   lastStatusCheck: timestamp("lastStatusCheck"),
@@ -235,6 +467,10 @@ export const cameraIntegrations = mysqlTable("cameraIntegrations", {
   recognitionEnabled: boolean("recognitionEnabled").default(true),
   recognitionInterval: int("recognitionInterval").default(2000), // milliseconds
   recognitionConfidenceThreshold: int("recognitionConfidenceThreshold").default(70),
+  recognitionBurstFrames: int("recognitionBurstFrames").default(1), // snapshots voted on per recognition
+  recognitionProviders: varchar("recognitionProviders", { length: 100 }).default("llm"), // comma-separated fallback order
+  recognitionEndpoint: text("recognitionEndpoint"), // local ALPR service URL
+  lane: mysqlEnum("lane", ["entry", "exit", "both"]).default("both").notNull(), // "both" infers direction from occupancy
   // Status
   lastStatus: mysqlEnum("lastStatus", ["online", "offline", "error", "unknown"]).default("unknown"),
   lastStatusCheck: timestamp("lastStatusCheck"),
@@ -246,3 +482,21 @@ export const cameraIntegrations = mysqlTable("cameraIntegrations", {
 
 export type CameraIntegration = typeof cameraIntegrations.$inferSelect;
 export type InsertCameraIntegration = typeof cameraIntegrations.$inferInsert;
+
+/**
+ * Scheduled job history - one row per run of a background job
+ */
+export const jobRuns = mysqlTable("jobRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  jobName: varchar("jobName", { length: 64 }).notNull(),
+  trigger: mysqlEnum("trigger", ["schedule", "manual"]).default("schedule").notNull(),
+  status: mysqlEnum("status", ["running", "success", "failed"]).default("running").notNull(),
+  result: text("result"), // short summary of what the run did
+  errorMessage: text("errorMessage"),
+  durationMs: int("durationMs"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+});
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
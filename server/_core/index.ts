@@ -4,9 +4,17 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerMedicalSyncRoutes } from "../medicalSyncRoutes";
+import { registerTelegramRoutes } from "../telegramRoutes";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { resumeRecognitionWorker } from "../recognitionWorker";
+import { startOverstayMonitor } from "../occupancyService";
+import { startMedicalExpiryMonitor } from "../medicalExpiry";
+import { startNotificationRetryWorker } from "../notificationRetryWorker";
+import { startJobScheduler } from "../jobScheduler";
+import { startQuietHoursWatcher } from "../quietHours";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -35,6 +43,10 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Medical database integration under /api/medical/sync
+  registerMedicalSyncRoutes(app);
+  // Telegram bot updates under /api/telegram/webhook
+  registerTelegramRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +72,26 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background camera recognition
+  resumeRecognitionWorker().catch(error => {
+    console.error("[RecognitionWorker] Failed to resume:", error);
+  });
+
+  // Maximum stay alerts
+  startOverstayMonitor();
+
+  // Medical check reminders and expiry
+  startMedicalExpiryMonitor();
+
+  // Failed notification retries
+  startNotificationRetryWorker();
+
+  // Summary of held notifications when quiet hours end
+  startQuietHoursWatcher();
+
+  // Scheduled summaries and cleanup
+  startJobScheduler();
 }
 
 startServer().catch(console.error);
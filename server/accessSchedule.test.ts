@@ -0,0 +1,133 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getAccessScheduleById: vi.fn(),
+}));
+
+import { getAccessScheduleById } from "./db";
+import {
+  evaluateSchedule,
+  checkVehicleSchedule,
+  parseTimeWindows,
+  parseHolidays,
+  toDateKey,
+} from "./accessSchedule";
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: "Contractors",
+    description: null,
+    timeWindows: JSON.stringify([{ days: [1, 2, 3, 4, 5], start: "07:00", end: "19:00" }]),
+    validFrom: null,
+    validUntil: null,
+    holidays: null,
+    isActive: true,
+    ...overrides,
+  } as any;
+}
+
+// 2026-03-02 is a Monday
+const monday = (time: string) => new Date(`2026-03-02T${time}:00`);
+const saturday = (time: string) => new Date(`2026-03-07T${time}:00`);
+
+describe("Access Schedules", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parseTimeWindows", () => {
+    it("drops malformed windows", () => {
+      const value = JSON.stringify([
+        { days: [1], start: "07:00", end: "19:00" },
+        { days: [9], start: "07:00", end: "19:00" },
+        { days: [1], start: "7am", end: "19:00" },
+      ]);
+      expect(parseTimeWindows(value)).toEqual([{ days: [1], start: "07:00", end: "19:00" }]);
+    });
+
+    it("handles empty and invalid JSON", () => {
+      expect(parseTimeWindows(null)).toEqual([]);
+      expect(parseTimeWindows("{oops")).toEqual([]);
+    });
+  });
+
+  describe("parseHolidays", () => {
+    it("keeps only ISO dates", () => {
+      expect(parseHolidays(JSON.stringify(["2026-01-01", "tomorrow"]))).toEqual(["2026-01-01"]);
+    });
+  });
+
+  describe("toDateKey", () => {
+    it("formats the local calendar date", () => {
+      expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+    });
+  });
+
+  describe("evaluateSchedule", () => {
+    it("allows access inside a weekday window", () => {
+      expect(evaluateSchedule(schedule(), monday("07:00"))).toEqual({ allowed: true, reason: null });
+      expect(evaluateSchedule(schedule(), monday("18:59")).allowed).toBe(true);
+    });
+
+    it("denies access outside the window", () => {
+      expect(evaluateSchedule(schedule(), monday("19:00"))).toEqual({
+        allowed: false,
+        reason: 'Outside schedule "Contractors"',
+      });
+      expect(evaluateSchedule(schedule(), saturday("10:00")).allowed).toBe(false);
+    });
+
+    it("handles overnight windows", () => {
+      const night = schedule({ timeWindows: JSON.stringify([{ days: [1], start: "22:00", end: "06:00" }]) });
+
+      expect(evaluateSchedule(night, monday("23:00")).allowed).toBe(true);
+      expect(evaluateSchedule(night, new Date("2026-03-03T05:00:00")).allowed).toBe(true);
+      expect(evaluateSchedule(night, monday("05:00")).allowed).toBe(false);
+    });
+
+    it("allows any time without windows", () => {
+      expect(evaluateSchedule(schedule({ timeWindows: "[]" }), saturday("03:00")).allowed).toBe(true);
+    });
+
+    it("enforces the validity date range", () => {
+      const visitor = schedule({
+        timeWindows: null,
+        validFrom: new Date("2026-03-02T00:00:00"),
+        validUntil: new Date("2026-03-02T23:59:59"),
+      });
+
+      expect(evaluateSchedule(visitor, monday("12:00")).allowed).toBe(true);
+      expect(evaluateSchedule(visitor, new Date("2026-03-01T12:00:00")).reason).toBe('Schedule "Contractors" starts 2026-03-02');
+      expect(evaluateSchedule(visitor, new Date("2026-03-03T00:00:01")).reason).toBe('Schedule "Contractors" ended 2026-03-02');
+    });
+
+    it("denies access on holidays", () => {
+      const result = evaluateSchedule(schedule({ holidays: JSON.stringify(["2026-03-02"]) }), monday("10:00"));
+      expect(result).toEqual({ allowed: false, reason: 'Holiday 2026-03-02 in schedule "Contractors"' });
+    });
+
+    it("does not restrict when the schedule is disabled", () => {
+      expect(evaluateSchedule(schedule({ isActive: false }), saturday("10:00")).allowed).toBe(true);
+    });
+  });
+
+  describe("checkVehicleSchedule", () => {
+    it("allows vehicles without a schedule", async () => {
+      const result = await checkVehicleSchedule({ scheduleId: null } as any);
+
+      expect(result.allowed).toBe(true);
+      expect(getAccessScheduleById).not.toHaveBeenCalled();
+    });
+
+    it("evaluates the attached schedule", async () => {
+      vi.mocked(getAccessScheduleById).mockResolvedValue(schedule());
+
+      const result = await checkVehicleSchedule({ scheduleId: 1 } as any, saturday("10:00"));
+
+      expect(getAccessScheduleById).toHaveBeenCalledWith(1);
+      expect(result.allowed).toBe(false);
+    });
+  });
+});
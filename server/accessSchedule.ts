@@ -0,0 +1,124 @@
+/**
+ * Access Schedules - decides whether a vehicle may enter at a given moment
+ * based on weekday/time windows, a validity date range and holiday exceptions
+ */
+
+import { getAccessScheduleById } from './db';
+import type { AccessSchedule, Vehicle } from '../drizzle/schema';
+
+export interface TimeWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM, earlier than start for overnight windows
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string | null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse stored time windows, dropping malformed entries
+ */
+export function parseTimeWindows(value: string | null): TimeWindow[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((w): w is TimeWindow =>
+      Array.isArray(w?.days) &&
+      w.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6) &&
+      TIME_PATTERN.test(w.start) &&
+      TIME_PATTERN.test(w.end)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse stored holiday dates, dropping malformed entries
+ */
+export function parseHolidays(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((d): d is string => typeof d === 'string' && DATE_PATTERN.test(d)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isWithinWindow(window: TimeWindow, at: Date): boolean {
+  const day = at.getDay();
+  const current = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start === end) return window.days.includes(day);
+
+  // Overnight window (e.g., 22:00 - 06:00) belongs to the day it starts on
+  if (start > end) {
+    const previousDay = (day + 6) % 7;
+    return (current >= start && window.days.includes(day)) ||
+      (current < end && window.days.includes(previousDay));
+  }
+
+  return current >= start && current < end && window.days.includes(day);
+}
+
+/**
+ * Evaluate a schedule at the given moment
+ */
+export function evaluateSchedule(schedule: AccessSchedule, at: Date = new Date()): AccessDecision {
+  // A disabled schedule no longer restricts anyone
+  if (!schedule.isActive) return { allowed: true, reason: null };
+
+  if (schedule.validFrom && at < schedule.validFrom) {
+    return { allowed: false, reason: `Schedule "${schedule.name}" starts ${toDateKey(schedule.validFrom)}` };
+  }
+  if (schedule.validUntil && at > schedule.validUntil) {
+    return { allowed: false, reason: `Schedule "${schedule.name}" ended ${toDateKey(schedule.validUntil)}` };
+  }
+
+  const today = toDateKey(at);
+  if (parseHolidays(schedule.holidays).includes(today)) {
+    return { allowed: false, reason: `Holiday ${today} in schedule "${schedule.name}"` };
+  }
+
+  const windows = parseTimeWindows(schedule.timeWindows);
+  if (windows.length > 0 && !windows.some(w => isWithinWindow(w, at))) {
+    return { allowed: false, reason: `Outside schedule "${schedule.name}"` };
+  }
+
+  return { allowed: true, reason: null };
+}
+
+/**
+ * Check a vehicle's attached schedule; vehicles without one may pass any time
+ */
+export async function checkVehicleSchedule(vehicle: Vehicle, at: Date = new Date()): Promise<AccessDecision> {
+  if (!vehicle.scheduleId) return { allowed: true, reason: null };
+
+  const schedule = await getAccessScheduleById(vehicle.scheduleId);
+  if (!schedule) return { allowed: true, reason: null };
+
+  return evaluateSchedule(schedule, at);
+}
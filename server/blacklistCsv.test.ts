@@ -223,6 +223,24 @@ A123BC777,critical,Updated reason`;
     expect(db.updateBlacklistEntry).toHaveBeenCalledTimes(1);
   });
 
+  it("reports rows with plates outside the enabled formats", async () => {
+    const csvData = `licensePlate,severity
+A123BC777,high
+ZZ-TOP,low`;
+
+    vi.mocked(db.getSetting).mockResolvedValueOnce({ key: "plate_regions", value: "RU" } as any);
+    vi.mocked(db.getBlacklistEntryByPlate).mockResolvedValue(null);
+    vi.mocked(db.createBlacklistEntry).mockResolvedValue({ id: 1 } as any);
+
+    const ctx = createAdminContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.blacklist.import({ csvData });
+
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual([{ row: 3, plate: "ZZTOP", error: "Unrecognized plate format" }]);
+  });
+
   it("throws error when required field is missing", async () => {
     const csvData = `severity,reason
 high,Test reason`;
@@ -1,19 +1,20 @@
-import { notifyOwner } from "./_core/notification";
-import { sendTelegramMessage } from "./telegramNotification";
+import { dispatchNotification } from "./notificationDispatcher";
 import { BlacklistEntry } from "../drizzle/schema";
 
 export type BlacklistDetectionData = {
   entry: BlacklistEntry;
   photoUrl?: string;
   timestamp: Date;
+  /** Passage recorded for the detection */
+  passageId?: number;
 };
 
 /**
  * Sends enhanced notification when a blacklisted vehicle is detected.
- * This sends both email and Telegram notifications with high priority.
+ * This sends email, Telegram and webhook notifications with high priority.
  */
 export async function notifyBlacklistDetection(data: BlacklistDetectionData): Promise<boolean> {
-  const { entry, photoUrl, timestamp } = data;
+  const { entry, photoUrl, timestamp, passageId } = data;
   
   const formattedTime = timestamp.toLocaleString('ru-RU', {
     day: '2-digit',
@@ -49,21 +50,36 @@ export async function notifyBlacklistDetection(data: BlacklistDetectionData): Pr
   content += `⚠️ **Шлагбаум НЕ был открыт. Доступ заблокирован.**`;
 
   try {
-    // Send to Manus notification system
-    const manusResult = await notifyOwner({ title, content });
-    
-    // Send to Telegram with enhanced formatting
-    const telegramResult = await sendTelegramMessage({
-      title: `${severityEmoji} ЧЁРНЫЙ СПИСОК: ${entry.licensePlate}`,
-      content: formatTelegramBlacklistMessage(entry, formattedTime),
+    const { sent } = await dispatchNotification({
+      type: 'blacklist_detected',
+      severity: entry.severity,
+      title,
+      content,
+      licensePlate: entry.licensePlate,
       photoUrl,
+      passageId,
+      // Telegram gets a shorter message
+      telegram: {
+        title: `${severityEmoji} ЧЁРНЫЙ СПИСОК: ${entry.licensePlate}`,
+        content: formatTelegramBlacklistMessage(entry, formattedTime),
+        photoUrl,
+      },
+      data: {
+        blacklistId: entry.id,
+        reason: entry.reason,
+        ownerName: entry.ownerName,
+        vehicleModel: entry.vehicleModel,
+        vehicleColor: entry.vehicleColor,
+        attemptCount: entry.attemptCount + 1,
+        detectedAt: timestamp,
+      },
     });
     
-    if (manusResult || telegramResult) {
+    if (sent) {
       console.log(`[Blacklist] Detection notification sent for ${entry.licensePlate}`);
     }
     
-    return manusResult || telegramResult;
+    return sent;
   } catch (error) {
     console.error('[Blacklist] Error sending detection notification:', error);
     return false;
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseCron, cronMatches, getNextCronRun, isValidCron, startOfZonedDay } from "./cron";
+
+describe("cron", () => {
+  describe("parseCron", () => {
+    it("expands wildcards, ranges, lists and steps", () => {
+      const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("treats 7 as Sunday", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("rejects malformed expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("5 fields");
+      expect(() => parseCron("60 * * * *")).toThrow("out of range for minute");
+      expect(() => parseCron("*/0 * * * *")).toThrow("Invalid step");
+      expect(() => parseCron("a * * * *")).toThrow('Invalid value "a"');
+      expect(isValidCron("0 8 * * *")).toBe(true);
+    });
+  });
+
+  describe("cronMatches", () => {
+    it("matches the minute the schedule fires in", () => {
+      const schedule = parseCron("30 3 * * *");
+
+      expect(cronMatches(schedule, new Date(2025, 0, 15, 3, 30, 45))).toBe(true);
+      expect(cronMatches(schedule, new Date(2025, 0, 15, 3, 31))).toBe(false);
+    });
+
+    it("runs on either restricted day field", () => {
+      // The 1st of the month or any Monday
+      const schedule = parseCron("0 9 1 * 1");
+
+      expect(cronMatches(schedule, new Date(2025, 0, 1, 9, 0))).toBe(true); // Wednesday the 1st
+      expect(cronMatches(schedule, new Date(2025, 0, 13, 9, 0))).toBe(true); // Monday
+      expect(cronMatches(schedule, new Date(2025, 0, 14, 9, 0))).toBe(false);
+    });
+
+    it("reads the clock of the given time zone", () => {
+      const schedule = parseCron("0 8 * * 3");
+
+      // Wednesday 08:00 in Moscow, 05:00 UTC
+      expect(cronMatches(schedule, new Date("2025-01-15T05:00:00Z"), "Europe/Moscow")).toBe(true);
+      expect(cronMatches(schedule, new Date("2025-01-15T08:00:00Z"), "Europe/Moscow")).toBe(false);
+      expect(cronMatches(schedule, new Date("2025-01-15T08:00:00Z"), "UTC")).toBe(true);
+    });
+  });
+
+  describe("getNextCronRun", () => {
+    it("finds the next matching minute", () => {
+      expect(getNextCronRun(parseCron("*/5 * * * *"), new Date(2025, 0, 15, 10, 7, 30)))
+        .toEqual(new Date(2025, 0, 15, 10, 10));
+      expect(getNextCronRun(parseCron("0 8 * * *"), new Date(2025, 0, 15, 8, 0)))
+        .toEqual(new Date(2025, 0, 16, 8, 0));
+    });
+
+    it("skips to the next matching day", () => {
+      expect(getNextCronRun(parseCron("0 9 29 2 *"), new Date(2025, 0, 1)))
+        .toEqual(new Date(2028, 1, 29, 9, 0));
+    });
+
+    it("steps over daylight saving changes in the given time zone", () => {
+      // Clocks in Berlin go from 02:00 to 03:00 on 30 March 2025
+      expect(getNextCronRun(parseCron("30 2 * * *"), new Date("2025-03-29T12:00:00Z"), "Europe/Berlin"))
+        .toEqual(new Date("2025-03-31T00:30:00Z"));
+      expect(getNextCronRun(parseCron("0 8 * * *"), new Date("2025-03-29T12:00:00Z"), "Europe/Berlin"))
+        .toEqual(new Date("2025-03-30T06:00:00Z"));
+    });
+
+    it("returns null for schedules that never fire", () => {
+      expect(getNextCronRun(parseCron("0 0 31 2 *"), new Date(2025, 0, 1))).toBeNull();
+    });
+  });
+
+  describe("startOfZonedDay", () => {
+    it("finds midnight in the given time zone", () => {
+      expect(startOfZonedDay(new Date("2025-01-15T05:00:00Z"), "Europe/Moscow")).toEqual(new Date("2025-01-14T21:00:00Z"));
+      expect(startOfZonedDay(new Date("2025-01-15T22:00:00Z"), "Europe/Moscow")).toEqual(new Date("2025-01-15T21:00:00Z"));
+      // Clocks in Berlin went forward earlier that day
+      expect(startOfZonedDay(new Date("2025-03-30T20:00:00Z"), "Europe/Berlin")).toEqual(new Date("2025-03-29T23:00:00Z"));
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Cron - parses standard five-field cron expressions
+ * (minute hour day-of-month month day-of-week) and matches them against
+ * the wall clock of a time zone, the server's own unless one is given.
+ * Fields accept *, numbers, ranges, lists and steps; day-of-week 0 and 7
+ * are both Sunday.
+ */
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** When both day fields are restricted a day matching either runs the job */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// Far enough to find yearly schedules, such as 29 February, without looping forever
+const MAX_LOOKAHEAD_DAYS = 366 * 4;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type ZonedParts = {
+  date: string;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Throws an Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the schedule fires in the minute containing the date
+ */
+export function cronMatches(schedule: CronSchedule, date: Date, timeZone = getServerTimeZone()): boolean {
+  const parts = getZonedParts(date, timeZone);
+  return schedule.minutes.has(parts.minute) &&
+    schedule.hours.has(parts.hour) &&
+    schedule.months.has(parts.month) &&
+    matchesDay(schedule, parts);
+}
+
+/**
+ * The first minute after the given date the schedule fires, or null when it never does
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date, timeZone = getServerTimeZone()): Date | null {
+  let next = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * MINUTE_MS;
+  while (next.getTime() <= limit) {
+    const parts = getZonedParts(next, timeZone);
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      next = startOfNextDay(next, parts, timeZone);
+      continue;
+    }
+    if (!schedule.hours.has(parts.hour)) {
+      next = new Date(next.getTime() + (60 - parts.minute) * MINUTE_MS);
+      continue;
+    }
+    if (schedule.minutes.has(parts.minute)) return next;
+    next = new Date(next.getTime() + MINUTE_MS);
+  }
+  return null;
+}
+
+/**
+ * Midnight of the date's day in the time zone
+ */
+export function startOfZonedDay(date: Date, timeZone = getServerTimeZone()): Date {
+  const parts = getZonedParts(date, timeZone);
+  const midnight = new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS - (parts.hour * 60 + parts.minute) * MINUTE_MS);
+  // A daylight saving change earlier in the day shifts the guess by its size
+  const guess = getZonedParts(midnight, timeZone);
+  if (guess.date === parts.date) return new Date(midnight.getTime() - (guess.hour * 60 + guess.minute) * MINUTE_MS);
+  return new Date(midnight.getTime() + (24 * 60 - guess.hour * 60 - guess.minute) * MINUTE_MS);
+}
+
+function startOfNextDay(date: Date, parts: ZonedParts, timeZone: string): Date {
+  const next = new Date(date.getTime() + (24 * 60 - parts.hour * 60 - parts.minute) * MINUTE_MS);
+  const landed = getZonedParts(next, timeZone);
+  // Landing past midnight means the clock went forward that night
+  return landed.date !== parts.date && (landed.hour > 0 || landed.minute > 0)
+    ? new Date(next.getTime() - (landed.hour * 60 + landed.minute) * MINUTE_MS)
+    : next;
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeek = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function parseField(field: string, range: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [base, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, range);
+    if (step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${range.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (base === '*') {
+      start = range.min;
+      end = range.max;
+    } else if (base.includes('-')) {
+      const [from, to] = base.split('-');
+      start = parseNumber(from, range);
+      end = parseNumber(to, range);
+    } else {
+      start = parseNumber(base, range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : range.max;
+    }
+
+    if (start < range.min || end > range.max || start > end) {
+      throw new Error(`Value "${item}" is out of range for ${range.name} (${range.min}-${range.max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseNumber(text: string, range: (typeof FIELDS)[number]): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid value "${text}" in ${range.name} field`);
+  }
+  return parseInt(text, 10);
+}
@@ -1,15 +1,26 @@
-import { eq, desc, and, gte, lte, like, sql } from "drizzle-orm";
+import { eq, desc, and, gte, lt, lte, like, sql, isNull, isNotNull, or, asc, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users, 
   vehicles, InsertVehicle, Vehicle,
+  vehicleGroups, InsertVehicleGroup,
+  accessSchedules, InsertAccessSchedule,
+  guestPasses, InsertGuestPass, GuestPass,
   passages, InsertPassage, Passage,
+  passageReviews, InsertPassageReview,
   medicalRecords, InsertMedicalRecord, MedicalRecord,
+  medicalSyncSources, InsertMedicalSyncSource,
+  medicalSyncRuns, InsertMedicalSyncRun,
   settings, InsertSetting, Setting,
   barrierActions, InsertBarrierAction, BarrierAction,
   blacklist, InsertBlacklistEntry, BlacklistEntry,
   pendingNotifications, InsertPendingNotification, PendingNotification,
-  notificationHistory, InsertNotificationHistoryEntry, NotificationHistoryEntry
+  notificationHistory, InsertNotificationHistoryEntry, NotificationHistoryEntry,
+  telegramRecipients, InsertTelegramRecipient,
+  telegramDeliveries, InsertTelegramDelivery,
+  webhookEndpoints, InsertWebhookEndpoint,
+  webhookAttempts, InsertWebhookAttempt,
+  jobRuns, InsertJobRun
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
@@ -99,16 +110,50 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getAllUsers() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(users).orderBy(users.name);
+}
+
+export async function setUserManagedGroup(userId: number, groupId: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(users).set({ managedGroupId: groupId }).where(eq(users.id, userId));
+  return true;
+}
+
+export async function getUserByTelegramChatId(telegramChatId: string) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(users).where(eq(users.telegramChatId, telegramChatId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function setUserTelegramChatId(userId: number, telegramChatId: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(users).set({ telegramChatId }).where(eq(users.id, userId));
+  return true;
+}
+
 // ============ VEHICLE OPERATIONS ============
 
-export async function getAllVehicles(includeInactive = false) {
+export async function getAllVehicles(includeInactive = false, groupId?: number) {
   const db = await getDb();
   if (!db) return [];
   
-  if (includeInactive) {
-    return db.select().from(vehicles).orderBy(desc(vehicles.createdAt));
-  }
-  return db.select().from(vehicles).where(eq(vehicles.isActive, true)).orderBy(desc(vehicles.createdAt));
+  const conditions = [];
+  if (!includeInactive) conditions.push(eq(vehicles.isActive, true));
+  if (groupId !== undefined) conditions.push(eq(vehicles.groupId, groupId));
+  
+  return conditions.length > 0
+    ? db.select().from(vehicles).where(and(...conditions)).orderBy(desc(vehicles.createdAt))
+    : db.select().from(vehicles).orderBy(desc(vehicles.createdAt));
 }
 
 export async function getVehicleById(id: number) {
@@ -166,6 +211,205 @@ export async function hardDeleteVehicle(id: number) {
   return true;
 }
 
+// ============ VEHICLE GROUP OPERATIONS ============
+
+export async function getAllVehicleGroups() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(vehicleGroups).orderBy(vehicleGroups.name);
+}
+
+export async function getVehicleGroupById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(vehicleGroups).where(eq(vehicleGroups.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createVehicleGroup(group: InsertVehicleGroup) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(vehicleGroups).values(group);
+  return getVehicleGroupById(Number(result[0].insertId));
+}
+
+export async function updateVehicleGroup(id: number, data: Partial<InsertVehicleGroup>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(vehicleGroups).set(data).where(eq(vehicleGroups.id, id));
+  return getVehicleGroupById(id);
+}
+
+export async function deleteVehicleGroup(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Vehicles and group admins are detached rather than removed
+  await db.update(vehicles).set({ groupId: null }).where(eq(vehicles.groupId, id));
+  await db.update(users).set({ managedGroupId: null }).where(eq(users.managedGroupId, id));
+  await db.delete(vehicleGroups).where(eq(vehicleGroups.id, id));
+  return true;
+}
+
+// ============ ACCESS SCHEDULE OPERATIONS ============
+
+export async function getAllAccessSchedules() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(accessSchedules).orderBy(accessSchedules.name);
+}
+
+export async function getAccessScheduleById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(accessSchedules).where(eq(accessSchedules.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createAccessSchedule(schedule: InsertAccessSchedule) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(accessSchedules).values(schedule);
+  return getAccessScheduleById(Number(result[0].insertId));
+}
+
+export async function updateAccessSchedule(id: number, data: Partial<InsertAccessSchedule>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(accessSchedules).set(data).where(eq(accessSchedules.id, id));
+  return getAccessScheduleById(id);
+}
+
+export async function deleteAccessSchedule(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Detach from vehicles so they fall back to unrestricted access
+  await db.update(vehicles).set({ scheduleId: null }).where(eq(vehicles.scheduleId, id));
+  await db.delete(accessSchedules).where(eq(accessSchedules.id, id));
+  return true;
+}
+
+// ============ GUEST PASS OPERATIONS ============
+
+export async function getGuestPasses(includeInactive = false) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  if (includeInactive) {
+    return db.select().from(guestPasses).orderBy(desc(guestPasses.createdAt));
+  }
+  return db.select().from(guestPasses)
+    .where(eq(guestPasses.status, 'active'))
+    .orderBy(desc(guestPasses.createdAt));
+}
+
+export async function getGuestPassById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(guestPasses).where(eq(guestPasses.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Active pass for a plate that is valid at the given moment and has entries left
+ */
+export async function getUsableGuestPass(licensePlate: string, at: Date): Promise<GuestPass | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const normalizedPlate = licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.select().from(guestPasses)
+    .where(and(
+      eq(guestPasses.licensePlate, normalizedPlate),
+      eq(guestPasses.status, 'active'),
+      lte(guestPasses.validFrom, at),
+      gte(guestPasses.validUntil, at),
+      sql`${guestPasses.usedEntries} < ${guestPasses.maxEntries}`
+    ))
+    .orderBy(asc(guestPasses.validUntil))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Pass a guest entered with, so they can leave after it is exhausted or expired
+ */
+export async function getGuestPassForExit(licensePlate: string): Promise<GuestPass | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const normalizedPlate = licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.select().from(guestPasses)
+    .where(and(
+      eq(guestPasses.licensePlate, normalizedPlate),
+      sql`${guestPasses.status} <> 'revoked'`,
+      sql`${guestPasses.usedEntries} > 0`
+    ))
+    .orderBy(desc(guestPasses.lastUsedAt))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createGuestPass(pass: InsertGuestPass) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const normalizedPlate = pass.licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.insert(guestPasses).values({ ...pass, licensePlate: normalizedPlate });
+  return getGuestPassById(Number(result[0].insertId));
+}
+
+export async function updateGuestPass(id: number, data: Partial<InsertGuestPass>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  if (data.licensePlate) {
+    data.licensePlate = data.licensePlate.toUpperCase().replace(/\s/g, '');
+  }
+  await db.update(guestPasses).set(data).where(eq(guestPasses.id, id));
+  return getGuestPassById(id);
+}
+
+/**
+ * Count one entry against a pass, marking it exhausted on its last entry
+ */
+export async function consumeGuestPassEntry(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(guestPasses)
+    .set({ usedEntries: sql`${guestPasses.usedEntries} + 1`, lastUsedAt: new Date() })
+    .where(eq(guestPasses.id, id));
+  await db.update(guestPasses)
+    .set({ status: 'exhausted' })
+    .where(and(
+      eq(guestPasses.id, id),
+      eq(guestPasses.status, 'active'),
+      sql`${guestPasses.usedEntries} >= ${guestPasses.maxEntries}`
+    ));
+  return getGuestPassById(id);
+}
+
+export async function expireGuestPasses(now: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return 0;
+  
+  const result = await db.update(guestPasses)
+    .set({ status: 'expired' })
+    .where(and(eq(guestPasses.status, 'active'), lte(guestPasses.validUntil, now)));
+  return result[0].affectedRows;
+}
+
 // ============ PASSAGE OPERATIONS ============
 
 export async function getPassages(options: {
@@ -175,17 +419,26 @@ export async function getPassages(options: {
   endDate?: Date;
   licensePlate?: string;
   isAllowed?: boolean;
+  direction?: 'entry' | 'exit';
+  groupId?: number;
 } = {}) {
   const db = await getDb();
   if (!db) return [];
   
-  const { limit = 100, offset = 0, startDate, endDate, licensePlate, isAllowed } = options;
+  const { limit = 100, offset = 0, startDate, endDate, licensePlate, isAllowed, direction, groupId } = options;
   
   const conditions = [];
   if (startDate) conditions.push(gte(passages.timestamp, startDate));
   if (endDate) conditions.push(lte(passages.timestamp, endDate));
   if (licensePlate) conditions.push(like(passages.licensePlate, `%${licensePlate}%`));
   if (isAllowed !== undefined) conditions.push(eq(passages.isAllowed, isAllowed));
+  if (direction) conditions.push(eq(passages.direction, direction));
+  if (groupId !== undefined) {
+    conditions.push(inArray(
+      passages.vehicleId,
+      db.select({ id: vehicles.id }).from(vehicles).where(eq(vehicles.groupId, groupId))
+    ));
+  }
   
   const query = conditions.length > 0
     ? db.select().from(passages).where(and(...conditions)).orderBy(desc(passages.timestamp)).limit(limit).offset(offset)
@@ -211,6 +464,92 @@ export async function createPassage(passage: InsertPassage) {
   return { id: Number(result[0].insertId) };
 }
 
+/**
+ * Find the latest passage for a plate on a camera that was still seen after `since`
+ */
+export async function getOpenVisit(licensePlate: string, cameraId: number | null, since: Date) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const normalizedPlate = licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.select().from(passages)
+    .where(and(
+      eq(passages.licensePlate, normalizedPlate),
+      cameraId === null ? isNull(passages.cameraId) : eq(passages.cameraId, cameraId),
+      gte(passages.lastSeenAt, since)
+    ))
+    .orderBy(desc(passages.lastSeenAt))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function touchPassage(id: number, seenAt: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(passages)
+    .set({ lastSeenAt: seenAt, frameCount: sql`frameCount + 1` })
+    .where(eq(passages.id, id));
+  return true;
+}
+
+export async function getPresentVehicles(since: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(passages)
+    .where(gte(passages.lastSeenAt, since))
+    .orderBy(desc(passages.lastSeenAt));
+}
+
+/**
+ * Latest entry/exit passage for a plate that let the vehicle through
+ */
+export async function getLastDirectionalPassage(licensePlate: string) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const normalizedPlate = licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.select().from(passages)
+    .where(and(
+      eq(passages.licensePlate, normalizedPlate),
+      isNotNull(passages.direction),
+      or(eq(passages.isAllowed, true), eq(passages.barrierOpened, true))
+    ))
+    .orderBy(desc(passages.id))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Entry passages of vehicles that have not exited since
+ */
+export async function getOnSitePassages() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const admitted = or(eq(passages.isAllowed, true), eq(passages.barrierOpened, true));
+  const latest = db.select({ id: sql<number>`max(${passages.id})`.as('latestId') })
+    .from(passages)
+    .where(and(isNotNull(passages.direction), admitted))
+    .groupBy(passages.licensePlate)
+    .as('latest');
+  
+  const result = await db.select({ passage: passages }).from(passages)
+    .innerJoin(latest, eq(passages.id, latest.id))
+    .where(eq(passages.direction, 'entry'))
+    .orderBy(asc(passages.timestamp));
+  return result.map(r => r.passage);
+}
+
+export async function markOverstayNotified(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(passages).set({ overstayNotifiedAt: new Date() }).where(eq(passages.id, id));
+  return true;
+}
+
 export async function getPassageStats(days = 30) {
   const db = await getDb();
   if (!db) return { total: 0, allowed: 0, denied: 0, manual: 0 };
@@ -228,6 +567,24 @@ export async function getPassageStats(days = 30) {
   return result[0] || { total: 0, allowed: 0, denied: 0, manual: 0 };
 }
 
+/**
+ * Passage counts for [start, end), unknown meaning no matching vehicle or guest pass
+ */
+export async function getPassageStatsBetween(start: Date, end: Date) {
+  const db = await getDb();
+  if (!db) return { total: 0, allowed: 0, denied: 0, manual: 0, unknown: 0 };
+  
+  const result = await db.select({
+    total: sql<number>`COUNT(*)`,
+    allowed: sql<number>`SUM(CASE WHEN isAllowed = true THEN 1 ELSE 0 END)`,
+    denied: sql<number>`SUM(CASE WHEN isAllowed = false THEN 1 ELSE 0 END)`,
+    manual: sql<number>`SUM(CASE WHEN wasManualOpen = true THEN 1 ELSE 0 END)`,
+    unknown: sql<number>`SUM(CASE WHEN vehicleId IS NULL AND guestPassId IS NULL THEN 1 ELSE 0 END)`,
+  }).from(passages).where(and(gte(passages.timestamp, start), lt(passages.timestamp, end)));
+  
+  return result[0] || { total: 0, allowed: 0, denied: 0, manual: 0, unknown: 0 };
+}
+
 export async function getDailyPassageStats(days = 7) {
   const db = await getDb();
   if (!db) return [];
@@ -248,6 +605,65 @@ export async function getDailyPassageStats(days = 7) {
   return result;
 }
 
+// ============ PASSAGE REVIEW OPERATIONS ============
+
+export async function updatePassage(id: number, data: Partial<InsertPassage>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(passages).set(data).where(eq(passages.id, id));
+  return getPassageById(id);
+}
+
+/**
+ * Passages waiting for an operator decision, newest first
+ */
+export async function getReviewQueue(limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(passages)
+    .where(eq(passages.reviewStatus, 'pending'))
+    .orderBy(desc(passages.timestamp))
+    .limit(limit);
+}
+
+export async function getPendingReviewCount() {
+  const db = await getDb();
+  if (!db) return 0;
+  
+  const result = await db.select({ count: sql<number>`COUNT(*)` }).from(passages)
+    .where(eq(passages.reviewStatus, 'pending'));
+  return Number(result[0]?.count ?? 0);
+}
+
+export async function createPassageReview(review: InsertPassageReview) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(passageReviews).values(review);
+  return Number(result[0].insertId);
+}
+
+/**
+ * Review audit trail with the reviewer's name, newest first
+ */
+export async function getPassageReviews(options: { passageId?: number; limit?: number } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const { passageId, limit = 100 } = options;
+  const query = db.select({
+    review: passageReviews,
+    userName: users.name,
+  }).from(passageReviews).leftJoin(users, eq(passageReviews.userId, users.id));
+  
+  const result = await (passageId !== undefined
+    ? query.where(eq(passageReviews.passageId, passageId)).orderBy(desc(passageReviews.id)).limit(limit)
+    : query.orderBy(desc(passageReviews.id)).limit(limit));
+  return result.map(r => ({ ...r.review, userName: r.userName }));
+}
+
 // ============ MEDICAL RECORDS OPERATIONS ============
 
 export async function getMedicalRecords() {
@@ -294,6 +710,149 @@ export async function deleteMedicalRecord(id: number) {
   return true;
 }
 
+export async function deleteMedicalRecordByPlate(licensePlate: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const normalizedPlate = licensePlate.toUpperCase().replace(/\s/g, '');
+  const result = await db.delete(medicalRecords).where(eq(medicalRecords.licensePlate, normalizedPlate));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * Valid records expiring between now and `until` that have not been reminded
+ * about for their current expiration date
+ */
+export async function getMedicalRecordsDueForReminder(now: Date, until: Date, reminderDays: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(medicalRecords)
+    .where(and(
+      eq(medicalRecords.medicalStatus, 'valid'),
+      gte(medicalRecords.expirationDate, now),
+      lte(medicalRecords.expirationDate, until),
+      or(
+        isNull(medicalRecords.expiryReminderSentAt),
+        // A renewed record gets a fresh reminder for its new expiration date
+        sql`${medicalRecords.expiryReminderSentAt} < DATE_SUB(${medicalRecords.expirationDate}, INTERVAL ${reminderDays} DAY)`
+      )
+    ))
+    .orderBy(asc(medicalRecords.expirationDate));
+}
+
+export async function markMedicalReminderSent(id: number, sentAt: Date) {
+  const db = await getDb();
+  if (!db) return;
+  
+  await db.update(medicalRecords).set({ expiryReminderSentAt: sentAt }).where(eq(medicalRecords.id, id));
+}
+
+/**
+ * Flip valid records past their expiration date to expired
+ */
+export async function expireMedicalRecords(now: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return 0;
+  
+  const result = await db.update(medicalRecords)
+    .set({ medicalStatus: 'expired' })
+    .where(and(
+      eq(medicalRecords.medicalStatus, 'valid'),
+      lte(medicalRecords.expirationDate, now)
+    ));
+  return result[0].affectedRows;
+}
+
+// ============ MEDICAL SYNC OPERATIONS ============
+
+export async function getMedicalSyncSources() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(medicalSyncSources).orderBy(medicalSyncSources.name);
+}
+
+export async function getMedicalSyncSourceById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(medicalSyncSources).where(eq(medicalSyncSources.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getMedicalSyncSourceByApiKey(apiKey: string) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(medicalSyncSources).where(eq(medicalSyncSources.apiKey, apiKey)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createMedicalSyncSource(source: InsertMedicalSyncSource) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(medicalSyncSources).values(source);
+  return getMedicalSyncSourceById(Number(result[0].insertId));
+}
+
+export async function updateMedicalSyncSource(id: number, data: Partial<InsertMedicalSyncSource>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(medicalSyncSources).set(data).where(eq(medicalSyncSources.id, id));
+  return getMedicalSyncSourceById(id);
+}
+
+export async function deleteMedicalSyncSource(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.delete(medicalSyncSources).where(eq(medicalSyncSources.id, id));
+  return true;
+}
+
+export async function createMedicalSyncRun(run: InsertMedicalSyncRun) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(medicalSyncRuns).values(run);
+  return Number(result[0].insertId);
+}
+
+export async function getMedicalSyncRuns(options: { limit?: number; sourceId?: number } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const { limit = 50, sourceId } = options;
+  const query = db.select().from(medicalSyncRuns);
+  return sourceId !== undefined
+    ? query.where(eq(medicalSyncRuns.sourceId, sourceId)).orderBy(desc(medicalSyncRuns.createdAt)).limit(limit)
+    : query.orderBy(desc(medicalSyncRuns.createdAt)).limit(limit);
+}
+
+export async function getMedicalSyncRunById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(medicalSyncRuns).where(eq(medicalSyncRuns.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getMedicalSyncRunByIdempotencyKey(sourceId: number | null, idempotencyKey: string) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(medicalSyncRuns)
+    .where(and(
+      eq(medicalSyncRuns.idempotencyScope, sourceId ?? 0),
+      eq(medicalSyncRuns.idempotencyKey, idempotencyKey)
+    ))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
 // ============ SETTINGS OPERATIONS ============
 
 export async function getSetting(key: string) {
@@ -436,6 +995,19 @@ export async function hardDeleteBlacklistEntry(id: number) {
   return true;
 }
 
+/**
+ * Deactivate entries past their expiry date
+ */
+export async function deactivateExpiredBlacklistEntries(now: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return 0;
+  
+  const result = await db.update(blacklist)
+    .set({ isActive: false })
+    .where(and(eq(blacklist.isActive, true), lte(blacklist.expiresAt, now)));
+  return result[0].affectedRows;
+}
+
 export async function incrementBlacklistAttempt(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -472,16 +1044,30 @@ export async function createPendingNotification(notification: InsertPendingNotif
   return { id: Number(result[0].insertId) };
 }
 
-export async function getPendingNotifications(onlyUnsent = true) {
+export async function getPendingNotifications(onlyUnsent = true, channel?: PendingNotification["channel"]) {
   const db = await getDb();
   if (!db) return [];
   
-  if (onlyUnsent) {
-    return db.select().from(pendingNotifications)
-      .where(eq(pendingNotifications.isSent, false))
-      .orderBy(desc(pendingNotifications.createdAt));
-  }
-  return db.select().from(pendingNotifications).orderBy(desc(pendingNotifications.createdAt));
+  const conditions = [];
+  if (onlyUnsent) conditions.push(eq(pendingNotifications.isSent, false));
+  if (channel) conditions.push(eq(pendingNotifications.channel, channel));
+
+  return db.select().from(pendingNotifications)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(pendingNotifications.createdAt));
+}
+
+/**
+ * Channels still holding unsent notifications
+ */
+export async function getPendingNotificationChannels(): Promise<PendingNotification["channel"][]> {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const result = await db.selectDistinct({ channel: pendingNotifications.channel })
+    .from(pendingNotifications)
+    .where(eq(pendingNotifications.isSent, false));
+  return result.map(row => row.channel);
 }
 
 export async function markNotificationsSent(ids: number[]) {
@@ -581,16 +1167,49 @@ export async function updateNotificationHistory(id: number, data: Partial<Insert
 
 export async function getNotificationHistoryStats() {
   const db = await getDb();
-  if (!db) return { total: 0, sent: 0, failed: 0, pending: 0 };
+  if (!db) return { total: 0, sent: 0, failed: 0, pending: 0, deadLetter: 0 };
   
   const result = await db.select({
     total: sql<number>`COUNT(*)`,
     sent: sql<number>`SUM(CASE WHEN status = 'sent' THEN 1 ELSE 0 END)`,
     failed: sql<number>`SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END)`,
     pending: sql<number>`SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END)`,
+    deadLetter: sql<number>`SUM(CASE WHEN status = 'dead_letter' THEN 1 ELSE 0 END)`,
   }).from(notificationHistory);
   
-  return result[0] || { total: 0, sent: 0, failed: 0, pending: 0 };
+  return result[0] || { total: 0, sent: 0, failed: 0, pending: 0, deadLetter: 0 };
+}
+
+export async function getNotificationsDueForRetry(now = new Date(), limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select().from(notificationHistory)
+    .where(and(
+      eq(notificationHistory.status, 'failed'),
+      isNotNull(notificationHistory.nextRetryAt),
+      lte(notificationHistory.nextRetryAt, now)
+    ))
+    .orderBy(asc(notificationHistory.nextRetryAt))
+    .limit(limit);
+}
+
+/**
+ * Per channel: notifications waiting for the retry worker, when the next
+ * one is due, and those that ran out of attempts
+ */
+export async function getNotificationRetrySummary() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return db.select({
+    channel: notificationHistory.channel,
+    waiting: sql<number>`SUM(CASE WHEN status = 'failed' AND nextRetryAt IS NOT NULL THEN 1 ELSE 0 END)`,
+    deadLetter: sql<number>`SUM(CASE WHEN status = 'dead_letter' THEN 1 ELSE 0 END)`,
+    nextRetryAt: sql<Date | null>`MIN(CASE WHEN status = 'failed' THEN nextRetryAt END)`,
+  }).from(notificationHistory)
+    .where(inArray(notificationHistory.status, ['failed', 'dead_letter']))
+    .groupBy(notificationHistory.channel);
 }
 
 export async function getNotificationHistoryByType() {
@@ -617,10 +1236,139 @@ export async function deleteOldNotificationHistory(olderThanDays = 30) {
   
   await db.delete(notificationHistory)
     .where(lte(notificationHistory.createdAt, cutoffDate));
+  await db.delete(telegramDeliveries)
+    .where(lte(telegramDeliveries.createdAt, cutoffDate));
+  await db.delete(webhookAttempts)
+    .where(lte(webhookAttempts.createdAt, cutoffDate));
   return true;
 }
 
 
+// ============ TELEGRAM RECIPIENT OPERATIONS ============
+
+export async function getAllTelegramRecipients() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(telegramRecipients).orderBy(asc(telegramRecipients.name));
+}
+
+export async function getTelegramRecipientById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(telegramRecipients).where(eq(telegramRecipients.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getTelegramRecipientByChatId(chatId: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(telegramRecipients).where(eq(telegramRecipients.chatId, chatId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createTelegramRecipient(recipient: InsertTelegramRecipient) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(telegramRecipients).values(recipient);
+  return getTelegramRecipientById(Number(result[0].insertId));
+}
+
+export async function updateTelegramRecipient(id: number, data: Partial<InsertTelegramRecipient>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(telegramRecipients).set(data).where(eq(telegramRecipients.id, id));
+  return getTelegramRecipientById(id);
+}
+
+export async function deleteTelegramRecipient(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(telegramRecipients).where(eq(telegramRecipients.id, id));
+  return true;
+}
+
+export async function createTelegramDeliveries(deliveries: InsertTelegramDelivery[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (deliveries.length === 0) return;
+
+  await db.insert(telegramDeliveries).values(deliveries);
+}
+
+export async function getTelegramDeliveries(notificationIds: number[]) {
+  const db = await getDb();
+  if (!db || notificationIds.length === 0) return [];
+
+  return db.select().from(telegramDeliveries)
+    .where(inArray(telegramDeliveries.notificationId, notificationIds))
+    .orderBy(asc(telegramDeliveries.id));
+}
+
+
+// ============ WEBHOOK OPERATIONS ============
+
+export async function getAllWebhookEndpoints() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(webhookEndpoints).orderBy(asc(webhookEndpoints.name));
+}
+
+export async function getWebhookEndpointById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createWebhookEndpoint(endpoint: InsertWebhookEndpoint) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(webhookEndpoints).values(endpoint);
+  return getWebhookEndpointById(Number(result[0].insertId));
+}
+
+export async function updateWebhookEndpoint(id: number, data: Partial<InsertWebhookEndpoint>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(webhookEndpoints).set(data).where(eq(webhookEndpoints.id, id));
+  return getWebhookEndpointById(id);
+}
+
+export async function deleteWebhookEndpoint(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  return true;
+}
+
+export async function createWebhookAttempt(attempt: InsertWebhookAttempt) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(webhookAttempts).values(attempt);
+}
+
+export async function getWebhookAttempts(notificationIds: number[]) {
+  const db = await getDb();
+  if (!db || notificationIds.length === 0) return [];
+
+  return db.select().from(webhookAttempts)
+    .where(inArray(webhookAttempts.notificationId, notificationIds))
+    .orderBy(asc(webhookAttempts.id));
+}
+
+
 // ============ BARRIER INTEGRATIONS OPERATIONS ============
 
 import { 
@@ -644,6 +1392,20 @@ export async function getActiveBarrierIntegrations() {
     .orderBy(desc(barrierIntegrations.isPrimary));
 }
 
+/**
+ * Active barrier dedicated to a lane, primary first
+ */
+export async function getBarrierIntegrationForLane(lane: 'entry' | 'exit') {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(barrierIntegrations)
+    .where(and(eq(barrierIntegrations.isActive, true), eq(barrierIntegrations.lane, lane)))
+    .orderBy(desc(barrierIntegrations.isPrimary))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
 export async function getPrimaryBarrierIntegration() {
   const db = await getDb();
   if (!db) return null;
@@ -792,3 +1554,54 @@ export async function updateCameraIntegrationStatus(id: number, status: 'online'
     lastSnapshot: snapshot || null,
   }).where(eq(cameraIntegrations.id, id));
 }
+
+
+// ============ JOB RUN OPERATIONS ============
+
+export async function createJobRun(run: InsertJobRun) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(jobRuns).values(run);
+  return Number(result[0].insertId);
+}
+
+export async function updateJobRun(id: number, data: Partial<InsertJobRun>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(jobRuns).set(data).where(eq(jobRuns.id, id));
+}
+
+export async function getJobRuns(options: { jobName?: string; limit?: number } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const { jobName, limit = 50 } = options;
+  const query = db.select().from(jobRuns);
+  return jobName
+    ? query.where(eq(jobRuns.jobName, jobName)).orderBy(desc(jobRuns.startedAt), desc(jobRuns.id)).limit(limit)
+    : query.orderBy(desc(jobRuns.startedAt), desc(jobRuns.id)).limit(limit);
+}
+
+export async function getLastJobRun(jobName: string, status?: 'running' | 'success' | 'failed') {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(jobRuns)
+    .where(status ? and(eq(jobRuns.jobName, jobName), eq(jobRuns.status, status)) : eq(jobRuns.jobName, jobName))
+    .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteOldJobRuns(olderThanDays = 30) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+  
+  const result = await db.delete(jobRuns).where(lte(jobRuns.startedAt, cutoffDate));
+  return result[0].affectedRows;
+}
@@ -9,6 +9,8 @@ vi.mock("./_core/notification", () => ({
 // Mock the db module
 vi.mock("./db", () => ({
   getSetting: vi.fn(),
+  getAllWebhookEndpoints: vi.fn().mockResolvedValue([]),
+  createNotificationHistory: vi.fn().mockResolvedValue({ id: 1 }),
 }));
 
 import { notifyOwner } from "./_core/notification";
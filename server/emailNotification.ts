@@ -1,17 +1,23 @@
-import { notifyOwner } from "./_core/notification";
 import { getSetting } from "./db";
-import { telegramNotifyUnknownVehicle, telegramNotifyManualOpen, telegramNotifyUnauthorizedAccess } from "./telegramNotification";
+import { dispatchNotification } from "./notificationDispatcher";
+import {
+  telegramUnknownVehicleMessage, telegramManualOpenMessage, telegramUnauthorizedAccessMessage, telegramAllowedPassageMessage,
+  telegramOverstayMessage, telegramMedicalIssueMessage, telegramMedicalExpiringMessage
+} from "./telegramNotification";
 
 export type UnknownVehicleNotification = {
   licensePlate: string;
   confidence: number;
   photoUrl?: string;
   timestamp: Date;
+  /** Passage the Telegram approval buttons act on */
+  passageId?: number;
 };
 
 /**
  * Sends notification to the owner when an unknown vehicle is detected.
- * Uses the built-in Manus notification service.
+ * Goes out by email (the built-in Manus notification service), Telegram
+ * and webhooks through the notification dispatcher.
  */
 export async function notifyUnknownVehicle(data: UnknownVehicleNotification): Promise<boolean> {
   // Check if notifications are enabled
@@ -46,18 +52,24 @@ export async function notifyUnknownVehicle(data: UnknownVehicleNotification): Pr
   content += `Для добавления в базу перейдите в раздел "Vehicles" панели управления.`;
 
   try {
-    // Send to Manus notification system
-    const manusResult = await notifyOwner({ title, content });
+    const { sent } = await dispatchNotification({
+      type: 'unknown_vehicle',
+      severity: 'medium',
+      title,
+      content,
+      licensePlate: data.licensePlate,
+      photoUrl: data.photoUrl,
+      passageId: data.passageId,
+      telegram: telegramUnknownVehicleMessage(data),
+      data: { confidence: data.confidence, detectedAt: data.timestamp },
+    });
     
-    // Send to Telegram
-    const telegramResult = await telegramNotifyUnknownVehicle(data);
-    
-    if (manusResult || telegramResult) {
+    if (sent) {
       console.log(`[Notification] Unknown vehicle notification sent for ${data.licensePlate}`);
     } else {
       console.warn(`[Notification] Failed to send notification for ${data.licensePlate}`);
     }
-    return manusResult || telegramResult;
+    return sent;
   } catch (error) {
     console.error('[Notification] Error sending unknown vehicle notification:', error);
     return false;
@@ -98,13 +110,16 @@ export async function notifyManualBarrierOpen(data: {
   }
 
   try {
-    // Send to Manus notification system
-    const manusResult = await notifyOwner({ title, content });
-    
-    // Send to Telegram
-    const telegramResult = await telegramNotifyManualOpen(data);
+    const { sent } = await dispatchNotification({
+      type: 'manual_open',
+      severity: 'low',
+      title,
+      content,
+      telegram: telegramManualOpenMessage(data),
+      data: { userId: data.userId, userName: data.userName, notes: data.notes ?? null, openedAt: data.timestamp },
+    });
     
-    return manusResult || telegramResult;
+    return sent;
   } catch (error) {
     console.error('[Notification] Error sending manual open notification:', error);
     return false;
@@ -149,24 +164,242 @@ export async function notifyUnauthorizedAccess(data: {
   content += `Рекомендуется проверить камеру видеонаблюдения.`;
 
   try {
-    // Send to Manus notification system
-    const manusResult = await notifyOwner({ title, content });
+    const { sent } = await dispatchNotification({
+      type: 'unauthorized_access',
+      severity: 'high',
+      title,
+      content,
+      licensePlate: data.licensePlate,
+      photoUrl: data.photoUrl,
+      telegram: telegramUnauthorizedAccessMessage(data),
+      data: { attemptCount: data.attemptCount, detectedAt: data.timestamp },
+    });
     
-    // Send to Telegram
-    const telegramResult = await telegramNotifyUnauthorizedAccess(data);
-    
-    return manusResult || telegramResult;
+    return sent;
   } catch (error) {
     console.error('[Notification] Error sending unauthorized access notification:', error);
     return false;
   }
 }
 
+/**
+ * Sends notification when a vehicle stays on site longer than allowed.
+ */
+export async function notifyOverstay(data: {
+  passageId?: number;
+  licensePlate: string;
+  ownerName?: string;
+  enteredAt: Date;
+  dwellMinutes: number;
+  maxStayMinutes: number;
+}): Promise<boolean> {
+  const notificationEnabled = await getSetting('notifications_enabled');
+  if (notificationEnabled?.value === 'false') {
+    return false;
+  }
+
+  const formattedTime = data.enteredAt.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  const title = `⏰ Превышено время стоянки: ${data.licensePlate}`;
+  
+  let content = `**Автомобиль находится на территории дольше допустимого**\n\n`;
+  content += `📋 **Номер:** ${data.licensePlate}\n`;
+  if (data.ownerName) {
+    content += `👤 **Владелец:** ${data.ownerName}\n`;
+  }
+  content += `🕐 **Въезд:** ${formattedTime}\n`;
+  content += `⏱ **На территории:** ${data.dwellMinutes} мин\n`;
+  content += `🚫 **Лимит:** ${data.maxStayMinutes} мин\n`;
+
+  try {
+    const { sent } = await dispatchNotification({
+      type: 'overstay',
+      severity: 'medium',
+      title,
+      content,
+      licensePlate: data.licensePlate,
+      passageId: data.passageId,
+      telegram: telegramOverstayMessage(data),
+      data: {
+        ownerName: data.ownerName ?? null,
+        enteredAt: data.enteredAt,
+        dwellMinutes: data.dwellMinutes,
+        maxStayMinutes: data.maxStayMinutes,
+      },
+    });
+    
+    return sent;
+  } catch (error) {
+    console.error('[Notification] Error sending overstay notification:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends notification when a registered vehicle passes, if enabled.
+ * Only goes to Telegram.
+ */
+export async function notifyAllowedPassage(data: {
+  passageId?: number;
+  licensePlate: string;
+  ownerName?: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  const notifyAllowed = await getSetting('telegram_notify_allowed');
+  if (notifyAllowed?.value !== 'true') {
+    return false;
+  }
+
+  const message = telegramAllowedPassageMessage(data);
+  try {
+    const { sent } = await dispatchNotification({
+      type: 'allowed_passage',
+      severity: 'low',
+      title: message.title,
+      content: message.content,
+      licensePlate: data.licensePlate,
+      passageId: data.passageId,
+      telegram: message,
+      channels: ['telegram'],
+    });
+    return sent;
+  } catch (error) {
+    console.error('[Notification] Error sending allowed passage notification:', error);
+    return false;
+  }
+}
+
+const MEDICAL_STATUS_LABELS: Record<string, string> = {
+  valid: 'действителен',
+  expired: 'просрочен',
+  suspended: 'приостановлен',
+  unknown: 'неизвестен',
+  missing: 'нет записи',
+};
+
+/**
+ * Sends notification when a driver fails the medical status check.
+ */
+export async function notifyMedicalIssue(data: {
+  passageId?: number;
+  licensePlate: string;
+  driverName?: string;
+  medicalStatus: string;
+  expirationDate?: Date | null;
+  blocked: boolean;
+  photoUrl?: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  const notificationEnabled = await getSetting('notifications_enabled');
+  if (notificationEnabled?.value === 'false') {
+    return false;
+  }
+
+  const formattedTime = data.timestamp.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const status = MEDICAL_STATUS_LABELS[data.medicalStatus] || data.medicalStatus;
+
+  const title = data.blocked
+    ? `🩺 Въезд запрещён: медосмотр ${status} (${data.licensePlate})`
+    : `🩺 Медосмотр ${status}: ${data.licensePlate}`;
+  
+  let content = data.blocked
+    ? `**Шлагбаум не открыт - водитель не прошёл проверку медосмотра**\n\n`
+    : `**Въезд разрешён, но статус медосмотра требует внимания**\n\n`;
+  content += `📋 **Номер:** ${data.licensePlate}\n`;
+  if (data.driverName) {
+    content += `👤 **Водитель:** ${data.driverName}\n`;
+  }
+  content += `🩺 **Медосмотр:** ${status}\n`;
+  if (data.expirationDate) {
+    content += `📅 **Действителен до:** ${data.expirationDate.toLocaleDateString('ru-RU')}\n`;
+  }
+  content += `🕐 **Время:** ${formattedTime}\n`;
+  if (data.photoUrl) {
+    content += `\n📷 [Просмотреть фото](${data.photoUrl})`;
+  }
+
+  try {
+    const { sent } = await dispatchNotification({
+      type: 'medical_issue',
+      severity: data.blocked ? 'high' : 'medium',
+      title,
+      content,
+      licensePlate: data.licensePlate,
+      photoUrl: data.photoUrl,
+      passageId: data.passageId,
+      telegram: telegramMedicalIssueMessage({ ...data, medicalStatus: status }),
+      data: {
+        driverName: data.driverName ?? null,
+        medicalStatus: data.medicalStatus,
+        expirationDate: data.expirationDate ?? null,
+        blocked: data.blocked,
+        detectedAt: data.timestamp,
+      },
+    });
+    
+    return sent;
+  } catch (error) {
+    console.error('[Notification] Error sending medical status notification:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a reminder that drivers' medical checks expire soon.
+ */
+export async function notifyMedicalExpiring(data: {
+  records: { licensePlate: string; driverName: string; expirationDate: Date; daysLeft: number }[];
+}): Promise<boolean> {
+  const notificationEnabled = await getSetting('notifications_enabled');
+  if (notificationEnabled?.value === 'false' || data.records.length === 0) {
+    return false;
+  }
+
+  const title = `🩺 Истекает медосмотр: ${data.records.length} водител(ей)`;
+  
+  let content = `**Медосмотр скоро истекает**\n\n`;
+  for (const record of data.records) {
+    content += `👤 **${record.driverName}** (${record.licensePlate}) - до ${record.expirationDate.toLocaleDateString('ru-RU')}, осталось ${record.daysLeft} дн.\n`;
+  }
+
+  try {
+    const { sent } = await dispatchNotification({
+      type: 'medical_expiring',
+      severity: 'low',
+      title,
+      content,
+      telegram: telegramMedicalExpiringMessage(data),
+      data: { records: data.records },
+    });
+    
+    return sent;
+  } catch (error) {
+    console.error('[Notification] Error sending medical expiry reminder:', error);
+    return false;
+  }
+}
+
 /**
  * Sends daily summary notification.
  */
 export async function notifyDailySummary(data: {
   date: Date;
+  /** Zone the date is shown in, the server's own when left out */
+  timeZone?: string;
   totalPassages: number;
   allowedPassages: number;
   deniedPassages: number;
@@ -179,6 +412,7 @@ export async function notifyDailySummary(data: {
   }
 
   const formattedDate = data.date.toLocaleDateString('ru-RU', {
+    timeZone: data.timeZone,
     day: '2-digit',
     month: '2-digit',
     year: 'numeric',
@@ -199,7 +433,15 @@ export async function notifyDailySummary(data: {
   content += `\n📊 **Процент успешных проездов:** ${successRate}%`;
 
   try {
-    return await notifyOwner({ title, content });
+    // The summary is not sent to Telegram
+    const { sent } = await dispatchNotification({
+      type: 'daily_summary',
+      title,
+      content,
+      data: { ...data, date: formattedDate },
+    });
+    
+    return sent;
   } catch (error) {
     console.error('[Notification] Error sending daily summary:', error);
     return false;
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getGuestPasses: vi.fn(),
+  getGuestPassById: vi.fn(),
+  createGuestPass: vi.fn(),
+  updateGuestPass: vi.fn(),
+  expireGuestPasses: vi.fn(),
+  getSetting: vi.fn(),
+}));
+
+import * as db from "./db";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createUserContext(): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 2,
+    openId: "operator-user",
+    email: "operator@example.com",
+    name: "Operator",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("guestPasses router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.expireGuestPasses).mockResolvedValue(0);
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+  });
+
+  describe("list", () => {
+    it("expires stale passes before listing", async () => {
+      vi.mocked(db.getGuestPasses).mockResolvedValue([]);
+
+      const caller = appRouter.createCaller(createUserContext());
+      await caller.guestPasses.list();
+
+      expect(db.expireGuestPasses).toHaveBeenCalled();
+      expect(db.getGuestPasses).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe("create", () => {
+    it("lets operators issue a pass", async () => {
+      vi.mocked(db.createGuestPass).mockResolvedValue({ id: 1 } as any);
+      const validFrom = new Date("2026-03-02T09:00:00Z");
+      const validUntil = new Date("2026-03-02T18:00:00Z");
+
+      const caller = appRouter.createCaller(createUserContext());
+      await caller.guestPasses.create({ licensePlate: "G555GG55", validFrom, validUntil, maxEntries: 2 });
+
+      expect(db.createGuestPass).toHaveBeenCalledWith(expect.objectContaining({
+        licensePlate: "G555GG55",
+        maxEntries: 2,
+        issuedBy: 2,
+      }));
+    });
+
+    it("stores the canonical plate", async () => {
+      vi.mocked(db.createGuestPass).mockResolvedValue({ id: 1 } as any);
+
+      const caller = appRouter.createCaller(createUserContext());
+      await caller.guestPasses.create({
+        licensePlate: "а 123 вс-77",
+        validFrom: new Date("2026-03-02T09:00:00Z"),
+        validUntil: new Date("2026-03-02T18:00:00Z"),
+        maxEntries: 1,
+      });
+
+      expect(db.createGuestPass).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "A123BC77" }));
+    });
+
+    it("rejects plates fitting no enabled format", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "plate_regions", value: "RU" } as any);
+
+      const caller = appRouter.createCaller(createUserContext());
+      await expect(caller.guestPasses.create({
+        licensePlate: "HELLO",
+        validFrom: new Date("2026-03-02T09:00:00Z"),
+        validUntil: new Date("2026-03-02T18:00:00Z"),
+        maxEntries: 1,
+      })).rejects.toThrow("Unrecognized plate format");
+      expect(db.createGuestPass).not.toHaveBeenCalled();
+    });
+
+    it("rejects passes that end before they start", async () => {
+      const caller = appRouter.createCaller(createUserContext());
+
+      await expect(caller.guestPasses.create({
+        licensePlate: "G555GG55",
+        validFrom: new Date("2026-03-02T18:00:00Z"),
+        validUntil: new Date("2026-03-02T09:00:00Z"),
+        maxEntries: 1,
+      })).rejects.toThrow("Pass must end after it starts");
+      expect(db.createGuestPass).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revoke", () => {
+    it("marks the pass as revoked", async () => {
+      vi.mocked(db.getGuestPassById).mockResolvedValue({ id: 4, status: "active" } as any);
+
+      const caller = appRouter.createCaller(createUserContext());
+      await caller.guestPasses.revoke({ id: 4 });
+
+      expect(db.updateGuestPass).toHaveBeenCalledWith(4, { status: "revoked" });
+    });
+
+    it("throws for unknown passes", async () => {
+      vi.mocked(db.getGuestPassById).mockResolvedValue(null);
+
+      const caller = appRouter.createCaller(createUserContext());
+
+      await expect(caller.guestPasses.revoke({ id: 99 })).rejects.toThrow("Guest pass not found");
+    });
+  });
+});
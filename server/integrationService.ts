@@ -603,6 +603,16 @@ export async function executePrimaryBarrierCommand(action: 'open' | 'close' | 's
   return executeBarrierCommand(primary.id, action);
 }
 
+/**
+ * Open barrier using the given integration, or the primary one when omitted
+ */
+export async function openBarrier(integrationId?: number): Promise<BarrierResponse> {
+  if (integrationId !== undefined) {
+    return executeBarrierCommand(integrationId, 'open');
+  }
+  return executePrimaryBarrierCommand('open');
+}
+
 /**
  * Get camera snapshot
  */
@@ -0,0 +1,213 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  upsertSetting: vi.fn(),
+  getPassageStatsBetween: vi.fn(),
+  deactivateExpiredBlacklistEntries: vi.fn(),
+  expireGuestPasses: vi.fn(),
+  deleteSentNotifications: vi.fn(),
+  deleteOldNotificationHistory: vi.fn(),
+  deleteOldJobRuns: vi.fn(),
+  createJobRun: vi.fn(),
+  updateJobRun: vi.fn(),
+  getLastJobRun: vi.fn(),
+  getJobRuns: vi.fn(),
+}));
+
+vi.mock("./quietHours", () => ({
+  QUIET_HOURS_CHANNELS: ["email", "telegram"],
+  QUIET_HOURS_SCHEDULE_KEYS: { email: "quietHoursEmailSchedule", telegram: "quietHoursTelegramSchedule" },
+  isValidTimeZone: vi.fn(),
+  getQuietChannels: vi.fn(),
+  getQuietHoursTimeZone: vi.fn(),
+  sendPendingSummary: vi.fn(),
+}));
+
+vi.mock("./emailNotification", () => ({
+  notifyDailySummary: vi.fn(),
+}));
+
+import * as db from "./db";
+import { getQuietChannels, getQuietHoursTimeZone, sendPendingSummary } from "./quietHours";
+import { notifyDailySummary } from "./emailNotification";
+import { runDueJobs, runJob, getJobStates } from "./jobScheduler";
+
+function settings(values: Record<string, string>) {
+  vi.mocked(db.getSetting).mockImplementation(async key =>
+    key in values ? { key, value: values[key] } as any : null
+  );
+}
+
+function createAdminContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "admin-user",
+      email: "admin@example.com",
+      name: "Admin",
+      loginMethod: "manus",
+      role: "admin",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("Job scheduler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    settings({});
+    vi.mocked(getQuietHoursTimeZone).mockResolvedValue(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    vi.mocked(db.createJobRun).mockResolvedValue(5);
+    vi.mocked(db.deactivateExpiredBlacklistEntries).mockResolvedValue(2);
+    vi.mocked(db.expireGuestPasses).mockResolvedValue(1);
+  });
+
+  describe("runDueJobs", () => {
+    it("runs the jobs whose schedule fires this minute", async () => {
+      vi.mocked(getQuietChannels).mockResolvedValue(["email", "telegram"]);
+
+      // Every 5 and 15 minutes by default
+      const due = await runDueJobs(new Date(2025, 0, 15, 10, 15));
+
+      expect(due).toEqual(["quiet_hours_summary", "expire_blacklist", "expire_guest_passes"]);
+      expect(db.createJobRun).toHaveBeenCalledWith(expect.objectContaining({ jobName: "expire_blacklist", trigger: "schedule" }));
+      expect(db.expireGuestPasses).toHaveBeenCalledWith(new Date(2025, 0, 15, 10, 15));
+      expect(db.updateJobRun).toHaveBeenCalledWith(5, expect.objectContaining({
+        status: "success",
+        result: "2 entries expired",
+        finishedAt: expect.any(Date),
+      }));
+    });
+
+    it("follows cron settings and skips paused jobs", async () => {
+      vi.mocked(getQuietChannels).mockResolvedValue(["email", "telegram"]);
+      settings({
+        job_cleanup_pending_notifications_cron: "0 4 * * *",
+        job_expire_blacklist_enabled: "false",
+      });
+
+      expect(await runDueJobs(new Date(2025, 0, 15, 4, 0))).toEqual(["quiet_hours_summary", "expire_guest_passes", "cleanup_pending_notifications"]);
+      expect(db.deactivateExpiredBlacklistEntries).not.toHaveBeenCalled();
+      expect(db.deleteSentNotifications).toHaveBeenCalledWith(7);
+    });
+
+    it("reads schedules on the clock of the quiet hours time zone", async () => {
+      vi.mocked(getQuietChannels).mockResolvedValue(["email", "telegram"]);
+      vi.mocked(getQuietHoursTimeZone).mockResolvedValue("Europe/Moscow");
+      settings({ job_expire_blacklist_cron: "0 8 * * *" });
+
+      // 08:00 in Moscow
+      expect(await runDueJobs(new Date("2025-01-15T05:00:00Z"))).toContain("expire_blacklist");
+      expect(await runDueJobs(new Date("2025-01-15T08:00:00Z"))).not.toContain("expire_blacklist");
+    });
+  });
+
+  describe("runJob", () => {
+    it("records the error of a failed run", async () => {
+      vi.mocked(getQuietChannels).mockResolvedValue([]);
+      vi.mocked(sendPendingSummary).mockResolvedValue({ sent: 0, failed: 2 });
+
+      const outcome = await runJob("quiet_hours_summary");
+
+      expect(outcome).toMatchObject({ status: "failed", errorMessage: "Summary could not be sent on any of 2 channels" });
+      expect(db.createJobRun).toHaveBeenCalledWith(expect.objectContaining({ trigger: "manual", status: "running" }));
+      expect(db.updateJobRun).toHaveBeenCalledWith(5, expect.objectContaining({ status: "failed" }));
+    });
+
+    it("sends held notifications only on channels out of quiet hours", async () => {
+      vi.mocked(getQuietChannels).mockResolvedValue(["telegram"]);
+      vi.mocked(sendPendingSummary).mockResolvedValue({ sent: 1, failed: 0 });
+
+      const outcome = await runJob("quiet_hours_summary");
+
+      expect(outcome).toMatchObject({ status: "success", result: "Summary sent on 1 channels" });
+      expect(sendPendingSummary).toHaveBeenCalledWith(["email"]);
+    });
+
+    it("sends yesterday's statistics in the daily summary", async () => {
+      settings({ daily_summary_enabled: "true" });
+      vi.mocked(db.getPassageStatsBetween).mockResolvedValue({ total: 12, allowed: 9, denied: 3, manual: 1, unknown: 2 });
+      vi.mocked(notifyDailySummary).mockResolvedValue(true);
+
+      const outcome = await runJob("daily_summary", "schedule", new Date(2025, 0, 15, 8, 0));
+
+      expect(outcome.status).toBe("success");
+      expect(db.getPassageStatsBetween).toHaveBeenCalledWith(new Date(2025, 0, 14), new Date(2025, 0, 15));
+      expect(notifyDailySummary).toHaveBeenCalledWith(expect.objectContaining({
+        date: new Date(2025, 0, 14),
+        totalPassages: 12,
+        unknownVehicles: 2,
+      }));
+    });
+
+    it("takes yesterday from the quiet hours time zone", async () => {
+      settings({ daily_summary_enabled: "true" });
+      vi.mocked(getQuietHoursTimeZone).mockResolvedValue("Europe/Moscow");
+      vi.mocked(db.getPassageStatsBetween).mockResolvedValue({ total: 0, allowed: 0, denied: 0, manual: 0, unknown: 0 });
+      vi.mocked(notifyDailySummary).mockResolvedValue(true);
+
+      await runJob("daily_summary", "schedule", new Date("2025-01-15T05:00:00Z"));
+
+      expect(db.getPassageStatsBetween).toHaveBeenCalledWith(new Date("2025-01-13T21:00:00Z"), new Date("2025-01-14T21:00:00Z"));
+      expect(notifyDailySummary).toHaveBeenCalledWith(expect.objectContaining({ timeZone: "Europe/Moscow" }));
+    });
+
+    it("leaves the daily summary alone until it is turned on", async () => {
+      const outcome = await runJob("daily_summary");
+
+      expect(outcome).toMatchObject({ status: "success", result: "Daily summary is turned off" });
+      expect(notifyDailySummary).not.toHaveBeenCalled();
+    });
+  });
+
+  it("reports the next run and last failure of each job", async () => {
+    const failure = { id: 3, jobName: "expire_blacklist", status: "failed", errorMessage: "boom" } as any;
+    vi.mocked(db.getLastJobRun).mockImplementation(async (name, status) =>
+      name === "expire_blacklist" && status === "failed" ? failure : null
+    );
+    settings({ job_daily_summary_cron: "not a cron" });
+
+    const states = await getJobStates(new Date(2025, 0, 15, 10, 7));
+    const blacklist = states.find(s => s.name === "expire_blacklist")!;
+    const daily = states.find(s => s.name === "daily_summary")!;
+
+    expect(blacklist.nextRunAt).toEqual(new Date(2025, 0, 15, 10, 15));
+    expect(blacklist.lastFailure).toBe(failure);
+    expect(daily.nextRunAt).toBeNull();
+    expect(daily.cronError).toContain("5 fields");
+  });
+
+  describe("jobs router", () => {
+    it("rejects invalid cron expressions", async () => {
+      const caller = appRouter.createCaller(createAdminContext());
+
+      await expect(caller.jobs.update({ name: "daily_summary", cron: "0 25 * * *", enabled: true }))
+        .rejects.toThrow("out of range for hour");
+      expect(db.upsertSetting).not.toHaveBeenCalled();
+    });
+
+    it("stores the schedule in settings", async () => {
+      const caller = appRouter.createCaller(createAdminContext());
+      await caller.jobs.update({ name: "daily_summary", cron: " 0 7 * * 1-5 ", enabled: false });
+
+      expect(db.upsertSetting).toHaveBeenCalledWith("job_daily_summary_cron", "0 7 * * 1-5", expect.any(String));
+      expect(db.upsertSetting).toHaveBeenCalledWith("job_daily_summary_enabled", "false", expect.any(String));
+    });
+
+    it("runs a job on demand", async () => {
+      const caller = appRouter.createCaller(createAdminContext());
+
+      const outcome = await caller.jobs.run({ name: "expire_blacklist" });
+
+      expect(outcome).toMatchObject({ status: "success", result: "2 entries expired" });
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Job Scheduler - runs periodic maintenance and summary jobs in-process.
+ * Each job's cron expression and on/off switch live in settings
+ * (job_<name>_cron, job_<name>_enabled), every run is recorded with its
+ * outcome, and admins can start a job by hand at any time.
+ */
+
+import {
+  getSetting,
+  getPassageStatsBetween,
+  deactivateExpiredBlacklistEntries,
+  expireGuestPasses,
+  deleteSentNotifications,
+  deleteOldNotificationHistory,
+  deleteOldJobRuns,
+  createJobRun,
+  updateJobRun,
+  getLastJobRun,
+} from './db';
+import { parseCron, cronMatches, getNextCronRun, startOfZonedDay } from './cron';
+import { QUIET_HOURS_CHANNELS, getQuietChannels, getQuietHoursTimeZone, sendPendingSummary } from './quietHours';
+import { notifyDailySummary } from './emailNotification';
+import type { JobRun } from '../drizzle/schema';
+
+export const JOB_NAMES = [
+  'quiet_hours_summary',
+  'daily_summary',
+  'expire_blacklist',
+  'expire_guest_passes',
+  'cleanup_pending_notifications',
+  'cleanup_notification_history',
+] as const;
+
+export type JobName = (typeof JOB_NAMES)[number];
+
+type JobDefinition = {
+  label: string;
+  description: string;
+  defaultCron: string;
+  /** Returns a short summary of what the run did; throwing marks the run failed */
+  run: (now: Date) => Promise<string>;
+};
+
+export type JobRunOutcome = {
+  status: 'success' | 'failed';
+  result: string | null;
+  errorMessage: string | null;
+  durationMs: number;
+};
+
+export type JobState = {
+  name: JobName;
+  label: string;
+  description: string;
+  cron: string;
+  enabled: boolean;
+  /** Set when the stored cron expression cannot be parsed */
+  cronError: string | null;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRun: JobRun | null;
+  lastFailure: JobRun | null;
+};
+
+const SENT_NOTIFICATION_RETENTION_DAYS = 7;
+const HISTORY_RETENTION_DAYS = 30;
+const SCHEDULER_TICK_MS = 15 * 1000;
+
+const JOBS: Record<JobName, JobDefinition> = {
+  quiet_hours_summary: {
+    label: 'Quiet hours summary',
+    description: 'Sends any notifications still held after quiet hours, e.g. when the server was down as they ended',
+    defaultCron: '*/5 * * * *',
+    run: async now => {
+      const quiet = await getQuietChannels(now);
+      const channels = QUIET_HOURS_CHANNELS.filter(channel => !quiet.includes(channel));
+      if (channels.length === 0) return 'Quiet hours are active';
+
+      const { sent, failed } = await sendPendingSummary(channels);
+      if (sent === 0 && failed > 0) {
+        throw new Error(`Summary could not be sent on any of ${failed} channels`);
+      }
+      return sent > 0 ? `Summary sent on ${sent} channels` : 'No pending notifications';
+    },
+  },
+  daily_summary: {
+    label: 'Daily summary',
+    description: "Sends yesterday's passage statistics when the daily summary is turned on",
+    defaultCron: '0 8 * * *',
+    run: async now => {
+      const enabled = await getSetting('daily_summary_enabled');
+      if (enabled?.value !== 'true') return 'Daily summary is turned off';
+
+      const timeZone = await getQuietHoursTimeZone();
+      const end = startOfZonedDay(now, timeZone);
+      const start = startOfZonedDay(new Date(end.getTime() - 1), timeZone);
+
+      const stats = await getPassageStatsBetween(start, end);
+      const sent = await notifyDailySummary({
+        date: start,
+        timeZone,
+        totalPassages: Number(stats.total) || 0,
+        allowedPassages: Number(stats.allowed) || 0,
+        deniedPassages: Number(stats.denied) || 0,
+        manualOpens: Number(stats.manual) || 0,
+        unknownVehicles: Number(stats.unknown) || 0,
+      });
+      if (!sent) throw new Error('Daily summary could not be sent');
+      return `Summary sent for ${Number(stats.total) || 0} passages`;
+    },
+  },
+  expire_blacklist: {
+    label: 'Blacklist expiry',
+    description: 'Deactivates blacklist entries past their expiry date',
+    defaultCron: '*/15 * * * *',
+    run: async now => {
+      const expired = await deactivateExpiredBlacklistEntries(now);
+      return `${expired} entries expired`;
+    },
+  },
+  expire_guest_passes: {
+    label: 'Guest pass expiry',
+    description: 'Marks guest passes past their end time as expired',
+    defaultCron: '*/15 * * * *',
+    run: async now => {
+      const expired = await expireGuestPasses(now);
+      return `${expired} passes expired`;
+    },
+  },
+  cleanup_pending_notifications: {
+    label: 'Sent notification cleanup',
+    description: `Deletes queued quiet hours notifications sent more than ${SENT_NOTIFICATION_RETENTION_DAYS} days ago`,
+    defaultCron: '30 3 * * *',
+    run: async () => {
+      await deleteSentNotifications(SENT_NOTIFICATION_RETENTION_DAYS);
+      return `Deleted sent notifications older than ${SENT_NOTIFICATION_RETENTION_DAYS} days`;
+    },
+  },
+  cleanup_notification_history: {
+    label: 'History cleanup',
+    description: `Deletes notification history and job runs older than ${HISTORY_RETENTION_DAYS} days`,
+    defaultCron: '45 3 * * *',
+    run: async () => {
+      await deleteOldNotificationHistory(HISTORY_RETENTION_DAYS);
+      const runs = await deleteOldJobRuns(HISTORY_RETENTION_DAYS);
+      return `Deleted notification history and ${runs} job runs older than ${HISTORY_RETENTION_DAYS} days`;
+    },
+  },
+};
+
+const runningJobs = new Set<JobName>();
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let lastTickMinute: number | null = null;
+
+export function isJobRunning(name: JobName): boolean {
+  return runningJobs.has(name);
+}
+
+export async function getJobConfig(name: JobName): Promise<{ cron: string; enabled: boolean }> {
+  const cron = await getSetting(`job_${name}_cron`);
+  const enabled = await getSetting(`job_${name}_enabled`);
+  return {
+    cron: cron?.value?.trim() || JOBS[name].defaultCron,
+    enabled: enabled?.value !== 'false',
+  };
+}
+
+/**
+ * Runs the job and records the run. Concurrent runs of the same job are refused.
+ */
+export async function runJob(
+  name: JobName,
+  trigger: 'schedule' | 'manual' = 'manual',
+  now = new Date()
+): Promise<JobRunOutcome> {
+  if (runningJobs.has(name)) {
+    throw new Error('Job is already running');
+  }
+  runningJobs.add(name);
+
+  const startedAt = Date.now();
+  let runId: number | null = null;
+  try {
+    runId = await createJobRun({ jobName: name, trigger, status: 'running', startedAt: new Date(startedAt) });
+  } catch (error) {
+    console.error(`[Jobs] Failed to record run of ${name}:`, error);
+  }
+
+  let outcome: JobRunOutcome;
+  try {
+    const result = await JOBS[name].run(now);
+    outcome = { status: 'success', result, errorMessage: null, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    outcome = {
+      status: 'failed',
+      result: null,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startedAt,
+    };
+    console.error(`[Jobs] ${name} failed:`, error);
+  } finally {
+    runningJobs.delete(name);
+  }
+
+  if (runId !== null) {
+    try {
+      await updateJobRun(runId, { ...outcome, finishedAt: new Date() });
+    } catch (error) {
+      console.error(`[Jobs] Failed to record outcome of ${name}:`, error);
+    }
+  }
+  return outcome;
+}
+
+/**
+ * Starts every enabled job whose schedule fires in the given minute, read
+ * on the wall clock of the time zone set for quiet hours
+ */
+export async function runDueJobs(now = new Date()): Promise<JobName[]> {
+  const due: JobName[] = [];
+  const timeZone = await getQuietHoursTimeZone();
+
+  for (const name of JOB_NAMES) {
+    const { cron, enabled } = await getJobConfig(name);
+    if (!enabled || runningJobs.has(name)) continue;
+
+    try {
+      if (cronMatches(parseCron(cron), now, timeZone)) due.push(name);
+    } catch (error) {
+      console.warn(`[Jobs] Skipping ${name}, invalid cron "${cron}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await Promise.all(due.map(name => runJob(name, 'schedule', now)));
+  return due;
+}
+
+export async function getJobStates(now = new Date()): Promise<JobState[]> {
+  const timeZone = await getQuietHoursTimeZone();
+  return Promise.all(JOB_NAMES.map(async name => {
+    const job = JOBS[name];
+    const { cron, enabled } = await getJobConfig(name);
+
+    let nextRunAt: Date | null = null;
+    let cronError: string | null = null;
+    try {
+      nextRunAt = enabled ? getNextCronRun(parseCron(cron), now, timeZone) : null;
+    } catch (error) {
+      cronError = error instanceof Error ? error.message : 'Invalid cron expression';
+    }
+
+    return {
+      name,
+      label: job.label,
+      description: job.description,
+      cron,
+      enabled,
+      cronError,
+      running: runningJobs.has(name),
+      nextRunAt,
+      lastRun: await getLastJobRun(name),
+      lastFailure: await getLastJobRun(name, 'failed'),
+    };
+  }));
+}
+
+/**
+ * Checks the schedules a few times a minute, acting once per minute
+ */
+export function startJobScheduler(): void {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(() => {
+    const now = new Date();
+    const minute = Math.floor(now.getTime() / 60_000);
+    if (minute === lastTickMinute) return;
+    lastTickMinute = minute;
+
+    runDueJobs(now).catch(error => {
+      console.error('[Jobs] Scheduler tick failed:', error);
+    });
+  }, SCHEDULER_TICK_MS);
+}
+
+export function stopJobScheduler(): void {
+  if (schedulerTimer) clearInterval(schedulerTimer);
+  schedulerTimer = null;
+  lastTickMinute = null;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getMedicalRecords: vi.fn(),
+  getMedicalRecordsDueForReminder: vi.fn(),
+  markMedicalReminderSent: vi.fn(),
+  expireMedicalRecords: vi.fn(),
+}));
+
+vi.mock("./emailNotification", () => ({
+  notifyMedicalExpiring: vi.fn().mockResolvedValue(true),
+}));
+
+import * as db from "./db";
+import { notifyMedicalExpiring } from "./emailNotification";
+import { getReminderDays, runMedicalExpiryCheck, getComplianceReport } from "./medicalExpiry";
+
+const now = new Date("2026-03-02T10:00:00Z");
+const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    licensePlate: "A123BC777",
+    driverName: "Ivanov",
+    medicalStatus: "valid",
+    expirationDate: inDays(60),
+    ...overrides,
+  } as any;
+}
+
+describe("Medical Expiry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.expireMedicalRecords).mockResolvedValue(0);
+    vi.mocked(db.getMedicalRecordsDueForReminder).mockResolvedValue([]);
+  });
+
+  describe("getReminderDays", () => {
+    it("defaults to two weeks", async () => {
+      expect(await getReminderDays()).toBe(14);
+    });
+
+    it("reads the configured period", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_reminder_days", value: "30" } as any);
+
+      expect(await getReminderDays()).toBe(30);
+    });
+  });
+
+  describe("runMedicalExpiryCheck", () => {
+    it("expires outdated records", async () => {
+      vi.mocked(db.expireMedicalRecords).mockResolvedValue(2);
+
+      const result = await runMedicalExpiryCheck(now);
+
+      expect(db.expireMedicalRecords).toHaveBeenCalledWith(now);
+      expect(result).toEqual({ expired: 2, reminded: 0 });
+      expect(notifyMedicalExpiring).not.toHaveBeenCalled();
+    });
+
+    it("reminds once about records expiring within the period", async () => {
+      vi.mocked(db.getMedicalRecordsDueForReminder).mockResolvedValue([
+        record({ id: 4, expirationDate: inDays(3) }),
+        record({ id: 5, driverName: "Petrov", licensePlate: "B222BB22", expirationDate: inDays(10) }),
+      ]);
+
+      const result = await runMedicalExpiryCheck(now);
+
+      expect(db.getMedicalRecordsDueForReminder).toHaveBeenCalledWith(now, inDays(14), 14);
+      expect(notifyMedicalExpiring).toHaveBeenCalledWith({
+        records: [
+          expect.objectContaining({ driverName: "Ivanov", daysLeft: 3 }),
+          expect.objectContaining({ driverName: "Petrov", daysLeft: 10 }),
+        ],
+      });
+      expect(db.markMedicalReminderSent).toHaveBeenCalledWith(4, now);
+      expect(db.markMedicalReminderSent).toHaveBeenCalledWith(5, now);
+      expect(result.reminded).toBe(2);
+    });
+
+    it("skips reminders when disabled", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_reminder_days", value: "0" } as any);
+
+      await runMedicalExpiryCheck(now);
+
+      expect(db.getMedicalRecordsDueForReminder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getComplianceReport", () => {
+    it("counts states per driver", async () => {
+      vi.mocked(db.getMedicalRecords).mockResolvedValue([
+        record({ licensePlate: "A1" }),
+        record({ licensePlate: "A2", expirationDate: inDays(5) }),
+        record({ licensePlate: "B1", driverName: "Petrov", expirationDate: inDays(-1) }),
+        record({ licensePlate: "C1", driverName: "Sidorov", medicalStatus: "suspended" }),
+      ]);
+
+      const report = await getComplianceReport(now);
+
+      expect(report.totals).toEqual({ valid: 1, expiring: 1, expired: 1, suspended: 1, unknown: 0 });
+      expect(report.drivers.map(d => d.driverName)).toEqual(["Petrov", "Sidorov", "Ivanov"]);
+      expect(report.drivers[2]).toMatchObject({
+        licensePlates: ["A1", "A2"],
+        valid: 1,
+        expiring: 1,
+        nextExpiration: inDays(5),
+      });
+    });
+  });
+});
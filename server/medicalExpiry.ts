@@ -0,0 +1,144 @@
+/**
+ * Medical Expiry - reminders for medical checks that expire soon, automatic
+ * expiry of outdated records and the compliance report
+ */
+
+import {
+  getSetting,
+  getMedicalRecords,
+  getMedicalRecordsDueForReminder,
+  markMedicalReminderSent,
+  expireMedicalRecords,
+} from './db';
+import { notifyMedicalExpiring } from './emailNotification';
+import { getEffectiveMedicalStatus } from './medicalPolicy';
+
+const DEFAULT_REMINDER_DAYS = 14;
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ComplianceState = 'valid' | 'expiring' | 'expired' | 'suspended' | 'unknown';
+
+export interface DriverCompliance {
+  driverName: string;
+  licensePlates: string[];
+  valid: number;
+  expiring: number;
+  expired: number;
+  suspended: number;
+  unknown: number;
+  nextExpiration: Date | null;
+}
+
+export interface ComplianceReport {
+  reminderDays: number;
+  totals: Record<ComplianceState, number>;
+  drivers: DriverCompliance[];
+}
+
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Days before expiration to remind, 0 when reminders are disabled
+ */
+export async function getReminderDays(): Promise<number> {
+  const setting = await getSetting('medical_reminder_days');
+  const days = setting?.value ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_REMINDER_DAYS;
+}
+
+/**
+ * Expire outdated records and remind about checks expiring within the reminder period
+ */
+export async function runMedicalExpiryCheck(now = new Date()): Promise<{ expired: number; reminded: number }> {
+  const expired = await expireMedicalRecords(now);
+
+  const reminderDays = await getReminderDays();
+  if (reminderDays === 0) return { expired, reminded: 0 };
+
+  const until = new Date(now.getTime() + reminderDays * DAY_MS);
+  const due = await getMedicalRecordsDueForReminder(now, until, reminderDays);
+  if (due.length === 0) return { expired, reminded: 0 };
+
+  await notifyMedicalExpiring({
+    records: due.map(record => ({
+      licensePlate: record.licensePlate,
+      driverName: record.driverName,
+      expirationDate: record.expirationDate!,
+      daysLeft: Math.ceil((record.expirationDate!.getTime() - now.getTime()) / DAY_MS),
+    })),
+  });
+  for (const record of due) {
+    await markMedicalReminderSent(record.id, now);
+  }
+
+  return { expired, reminded: due.length };
+}
+
+/**
+ * Medical check state of every record, grouped by driver
+ */
+export async function getComplianceReport(now = new Date()): Promise<ComplianceReport> {
+  const reminderDays = await getReminderDays();
+  const records = await getMedicalRecords();
+  const totals: Record<ComplianceState, number> = { valid: 0, expiring: 0, expired: 0, suspended: 0, unknown: 0 };
+  const byDriver = new Map<string, DriverCompliance>();
+
+  for (const record of records) {
+    const status = getEffectiveMedicalStatus(record, now);
+    const state: ComplianceState = status === 'valid' && record.expirationDate &&
+      record.expirationDate.getTime() - now.getTime() <= reminderDays * DAY_MS
+      ? 'expiring'
+      : status === 'missing' ? 'unknown' : status;
+
+    totals[state]++;
+
+    let driver = byDriver.get(record.driverName);
+    if (!driver) {
+      driver = {
+        driverName: record.driverName,
+        licensePlates: [],
+        valid: 0,
+        expiring: 0,
+        expired: 0,
+        suspended: 0,
+        unknown: 0,
+        nextExpiration: null,
+      };
+      byDriver.set(record.driverName, driver);
+    }
+    driver.licensePlates.push(record.licensePlate);
+    driver[state]++;
+    if (record.expirationDate && record.expirationDate >= now &&
+      (!driver.nextExpiration || record.expirationDate < driver.nextExpiration)) {
+      driver.nextExpiration = record.expirationDate;
+    }
+  }
+
+  // Drivers needing attention first
+  const drivers = Array.from(byDriver.values()).sort((a, b) =>
+    (b.expired + b.suspended) - (a.expired + a.suspended) ||
+    b.expiring - a.expiring ||
+    a.driverName.localeCompare(b.driverName)
+  );
+
+  return { reminderDays, totals, drivers };
+}
+
+/**
+ * Periodically expire records and send reminders
+ */
+export function startMedicalExpiryMonitor(): void {
+  if (monitorTimer) return;
+
+  monitorTimer = setInterval(() => {
+    runMedicalExpiryCheck().catch(error => {
+      console.error('[MedicalExpiry] Expiry check failed:', error);
+    });
+  }, EXPIRY_CHECK_INTERVAL_MS);
+}
+
+export function stopMedicalExpiryMonitor(): void {
+  if (monitorTimer) clearInterval(monitorTimer);
+  monitorTimer = null;
+}
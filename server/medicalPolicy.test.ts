@@ -0,0 +1,95 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getMedicalRecordByPlate: vi.fn(),
+}));
+
+import * as db from "./db";
+import { getMedicalCheckMode, getEffectiveMedicalStatus, checkMedicalStatus } from "./medicalPolicy";
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    licensePlate: "A123BC777",
+    driverName: "Ivanov",
+    medicalStatus: "valid",
+    expirationDate: new Date("2026-06-01T00:00:00Z"),
+    ...overrides,
+  } as any;
+}
+
+const now = new Date("2026-03-02T10:00:00Z");
+
+describe("Medical Policy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+  });
+
+  describe("getMedicalCheckMode", () => {
+    it("is off by default", async () => {
+      expect(await getMedicalCheckMode()).toBe("off");
+    });
+
+    it("reads the configured mode", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_check_mode", value: "block" } as any);
+
+      expect(await getMedicalCheckMode()).toBe("block");
+    });
+
+    it("ignores unknown values", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_check_mode", value: "strict" } as any);
+
+      expect(await getMedicalCheckMode()).toBe("off");
+    });
+  });
+
+  describe("getEffectiveMedicalStatus", () => {
+    it("treats a missing record separately", () => {
+      expect(getEffectiveMedicalStatus(null, now)).toBe("missing");
+    });
+
+    it("expires valid records past their date", () => {
+      expect(getEffectiveMedicalStatus(record({ expirationDate: new Date("2026-03-01T00:00:00Z") }), now)).toBe("expired");
+    });
+
+    it("keeps the stored status otherwise", () => {
+      expect(getEffectiveMedicalStatus(record(), now)).toBe("valid");
+      expect(getEffectiveMedicalStatus(record({ medicalStatus: "suspended" }), now)).toBe("suspended");
+    });
+  });
+
+  describe("checkMedicalStatus", () => {
+    it("passes valid records only", async () => {
+      vi.mocked(db.getMedicalRecordByPlate).mockResolvedValue(record({ medicalStatus: "unknown" }));
+
+      const result = await checkMedicalStatus("A123BC777", now);
+
+      expect(db.getMedicalRecordByPlate).toHaveBeenCalledWith("A123BC777");
+      expect(result).toMatchObject({ status: "unknown", passed: false });
+    });
+
+    it("looks up plates stored in Cyrillic by their canonical form", async () => {
+      vi.mocked(db.getMedicalRecordByPlate).mockResolvedValue(record({ medicalStatus: "valid" }));
+
+      await checkMedicalStatus("А123ВС777", now);
+
+      expect(db.getMedicalRecordByPlate).toHaveBeenCalledWith("A123BC777");
+    });
+
+    it("requires a record by default", async () => {
+      vi.mocked(db.getMedicalRecordByPlate).mockResolvedValue(null);
+
+      expect(await checkMedicalStatus("A123BC777", now)).toMatchObject({ status: "missing", passed: false });
+    });
+
+    it("can exempt plates without a record", async () => {
+      vi.mocked(db.getMedicalRecordByPlate).mockResolvedValue(null);
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_require_record", value: "false" } as any);
+
+      expect(await checkMedicalStatus("A123BC777", now)).toMatchObject({ status: "missing", passed: true });
+    });
+  });
+});
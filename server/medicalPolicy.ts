@@ -0,0 +1,53 @@
+/**
+ * Medical Policy - optional check of the driver's medical status during
+ * recognition. Depending on settings a failed check blocks the entry or
+ * only flags it for operators.
+ */
+
+import { getSetting, getMedicalRecordByPlate } from './db';
+import { canonicalizePlate } from './plateFormats';
+import type { MedicalRecord } from '../drizzle/schema';
+
+export type MedicalCheckMode = 'off' | 'flag' | 'block';
+export type MedicalStatus = 'valid' | 'expired' | 'suspended' | 'unknown' | 'missing';
+
+export interface MedicalDecision {
+  status: MedicalStatus;
+  passed: boolean;
+  record: MedicalRecord | null;
+}
+
+/**
+ * How failed checks are handled, 'off' when the policy is disabled
+ */
+export async function getMedicalCheckMode(): Promise<MedicalCheckMode> {
+  const setting = await getSetting('medical_check_mode');
+  return setting?.value === 'flag' || setting?.value === 'block' ? setting.value : 'off';
+}
+
+/**
+ * Effective status of a record; a passed expiration date wins over the stored status
+ */
+export function getEffectiveMedicalStatus(record: MedicalRecord | null, at: Date = new Date()): MedicalStatus {
+  if (!record) return 'missing';
+  if (record.medicalStatus === 'valid' && record.expirationDate && record.expirationDate < at) {
+    return 'expired';
+  }
+  return record.medicalStatus;
+}
+
+/**
+ * Look up and evaluate the driver's medical record for a plate
+ */
+export async function checkMedicalStatus(licensePlate: string, at: Date = new Date()): Promise<MedicalDecision> {
+  const record = await getMedicalRecordByPlate(canonicalizePlate(licensePlate));
+  const status = getEffectiveMedicalStatus(record, at);
+
+  // Plates without any record may be exempt (e.g., cars that are not fleet vehicles)
+  if (status === 'missing') {
+    const requireRecord = await getSetting('medical_require_record');
+    return { status, passed: requireRecord?.value === 'false', record };
+  }
+
+  return { status, passed: status === 'valid', record };
+}
@@ -0,0 +1,241 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getMedicalRecordByPlate: vi.fn(),
+  upsertMedicalRecord: vi.fn(),
+  deleteMedicalRecordByPlate: vi.fn(),
+  getMedicalSyncSourceByApiKey: vi.fn(),
+  updateMedicalSyncSource: vi.fn(),
+  createMedicalSyncRun: vi.fn(),
+  getMedicalSyncRunByIdempotencyKey: vi.fn(),
+}));
+
+import * as db from "./db";
+import { authenticateSyncSource, runMedicalSync, generateSyncApiKey } from "./medicalSync";
+import { handleMedicalSyncRequest } from "./medicalSyncRoutes";
+
+const source = { id: 3, name: "Clinic", apiKey: "med_clinic", isActive: true } as any;
+
+function existingRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    licensePlate: "A123BC777",
+    driverName: "Ivanov",
+    driverPhone: null,
+    medicalStatus: "valid",
+    expirationDate: new Date("2026-12-31T00:00:00Z"),
+    notes: null,
+    ...overrides,
+  } as any;
+}
+
+function mockResponse() {
+  const res: any = {};
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  return res;
+}
+
+function mockRequest(headers: Record<string, string>, body: unknown) {
+  return {
+    header: (name: string) => headers[name.toLowerCase()],
+    body,
+  } as any;
+}
+
+describe("Medical Sync", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getMedicalSyncSourceByApiKey).mockResolvedValue(null);
+    vi.mocked(db.getMedicalSyncRunByIdempotencyKey).mockResolvedValue(null);
+    vi.mocked(db.getMedicalRecordByPlate).mockResolvedValue(null);
+    vi.mocked(db.createMedicalSyncRun).mockResolvedValue(10);
+  });
+
+  describe("authenticateSyncSource", () => {
+    it("accepts an active source key", async () => {
+      vi.mocked(db.getMedicalSyncSourceByApiKey).mockResolvedValue(source);
+
+      expect(await authenticateSyncSource("med_clinic")).toEqual({ source });
+    });
+
+    it("rejects disabled sources", async () => {
+      vi.mocked(db.getMedicalSyncSourceByApiKey).mockResolvedValue({ ...source, isActive: false });
+
+      expect(await authenticateSyncSource("med_clinic")).toBeNull();
+    });
+
+    it("still accepts the legacy shared key", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "medical_api_key", value: "med_legacy" } as any);
+
+      expect(await authenticateSyncSource("med_legacy")).toEqual({ source: null });
+      expect(await authenticateSyncSource("wrong")).toBeNull();
+    });
+  });
+
+  describe("runMedicalSync", () => {
+    it("reports created, updated and unchanged records", async () => {
+      vi.mocked(db.getMedicalRecordByPlate).mockImplementation(async (plate: string) => {
+        if (plate === "B222BB22") return existingRecord({ licensePlate: plate, medicalStatus: "valid" });
+        if (plate === "C333CC33") return existingRecord({ licensePlate: plate });
+        return null;
+      });
+
+      const result = await runMedicalSync(source, {
+        records: [
+          { licensePlate: "а 123 вс-777", driverName: "Sidorov", medicalStatus: "valid" },
+          { licensePlate: "B222BB22", driverName: "Ivanov", medicalStatus: "suspended" },
+          { licensePlate: "C333CC33", driverName: "Ivanov", expirationDate: "2026-12-31T00:00:00Z" },
+        ],
+        deletes: [],
+      });
+
+      expect(result).toMatchObject({ status: "success", created: 1, updated: 1, unchanged: 1, failed: 0, replayed: false });
+      expect(result.results[0]).toEqual({ licensePlate: "A123BC777", action: "created" });
+      expect(db.upsertMedicalRecord).toHaveBeenCalledTimes(2);
+      expect(db.updateMedicalSyncSource).toHaveBeenCalledWith(3, { lastSyncAt: expect.any(Date) });
+    });
+
+    it("keeps valid records when others fail validation", async () => {
+      const result = await runMedicalSync(source, {
+        records: [
+          { licensePlate: "A123BC777", driverName: "Ivanov" },
+          { licensePlate: "B222BB22", driverName: "", expirationDate: "not a date" },
+        ],
+        deletes: [],
+      });
+
+      expect(result).toMatchObject({ status: "partial", created: 1, failed: 1 });
+      expect(result.results[1].action).toBe("error");
+      expect(result.results[1].licensePlate).toBe("B222BB22");
+      expect(result.results[1].errors).toHaveLength(2);
+    });
+
+    it("applies deletes", async () => {
+      vi.mocked(db.deleteMedicalRecordByPlate).mockImplementation(async (plate: string) => plate === "A123BC777");
+
+      const result = await runMedicalSync(source, { records: [], deletes: ["A123BC777", "X000XX00", 42] });
+
+      expect(result).toMatchObject({ deleted: 1, failed: 1, status: "partial" });
+      expect(result.results.map(r => r.action)).toEqual(["deleted", "not_found", "error"]);
+    });
+
+    it("logs the run with its changes", async () => {
+      await runMedicalSync(source, { records: [{ licensePlate: "A1", driverName: "Ivanov" }], deletes: [] }, "batch-1");
+
+      expect(db.createMedicalSyncRun).toHaveBeenCalledWith(expect.objectContaining({
+        sourceId: 3,
+        idempotencyKey: "batch-1",
+        status: "success",
+        created: 1,
+        changes: JSON.stringify([{ licensePlate: "A1", action: "created" }]),
+      }));
+    });
+
+    it("replays a repeated idempotency key without applying it again", async () => {
+      vi.mocked(db.getMedicalSyncRunByIdempotencyKey).mockResolvedValue({
+        id: 7,
+        status: "success",
+        created: 1,
+        updated: 0,
+        deleted: 0,
+        unchanged: 0,
+        failed: 0,
+        changes: JSON.stringify([{ licensePlate: "A1", action: "created" }]),
+      } as any);
+
+      const result = await runMedicalSync(source, { records: [{ licensePlate: "A1", driverName: "Ivanov" }], deletes: [] }, "batch-1");
+
+      expect(db.getMedicalSyncRunByIdempotencyKey).toHaveBeenCalledWith(3, "batch-1");
+      expect(result).toMatchObject({ runId: 7, created: 1, replayed: true });
+      expect(db.upsertMedicalRecord).not.toHaveBeenCalled();
+      expect(db.createMedicalSyncRun).not.toHaveBeenCalled();
+    });
+
+    it("reports database failures per record and applies the rest", async () => {
+      vi.mocked(db.upsertMedicalRecord)
+        .mockRejectedValueOnce(new Error("Data too long for column 'notes'"))
+        .mockResolvedValueOnce(undefined as any);
+
+      const result = await runMedicalSync(source, {
+        records: [
+          { licensePlate: "a1", driverName: "Ivanov" },
+          { licensePlate: "B2", driverName: "Petrov" },
+        ],
+        deletes: [],
+      });
+
+      expect(result).toMatchObject({ created: 1, failed: 1, status: "partial" });
+      expect(result.results[0]).toEqual({ licensePlate: "A1", action: "error", errors: ["Data too long for column 'notes'"] });
+      expect(db.createMedicalSyncRun).toHaveBeenCalled();
+    });
+
+    it("returns the concurrent run when its idempotency key is already logged", async () => {
+      const duplicate = Object.assign(new Error("Duplicate entry"), { code: "ER_DUP_ENTRY" });
+      vi.mocked(db.createMedicalSyncRun).mockRejectedValue(new Error("Failed query", { cause: duplicate }));
+      vi.mocked(db.getMedicalSyncRunByIdempotencyKey)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 8, status: "success", created: 1, updated: 0, deleted: 0, unchanged: 0, failed: 0, changes: null } as any);
+
+      const result = await runMedicalSync(source, { records: [{ licensePlate: "A1", driverName: "Ivanov" }], deletes: [] }, "batch-1");
+
+      expect(result).toMatchObject({ runId: 8, replayed: true });
+    });
+
+    it("returns the concurrent run of a legacy-key sync too", async () => {
+      const duplicate = Object.assign(new Error("Duplicate entry"), { code: "ER_DUP_ENTRY" });
+      vi.mocked(db.createMedicalSyncRun).mockRejectedValue(new Error("Failed query", { cause: duplicate }));
+      vi.mocked(db.getMedicalSyncRunByIdempotencyKey)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 9, sourceId: null, status: "success", created: 1, updated: 0, deleted: 0, unchanged: 0, failed: 0, changes: null } as any);
+
+      const result = await runMedicalSync(null, { records: [{ licensePlate: "A1", driverName: "Ivanov" }], deletes: [] }, "batch-1");
+
+      expect(result).toMatchObject({ runId: 9, replayed: true });
+      expect(db.createMedicalSyncRun).toHaveBeenCalledWith(expect.objectContaining({ sourceId: null, idempotencyKey: "batch-1" }));
+      expect(db.getMedicalSyncRunByIdempotencyKey).toHaveBeenLastCalledWith(null, "batch-1");
+      expect(db.updateMedicalSyncSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("REST endpoint", () => {
+    it("rejects requests without a valid key", async () => {
+      const res = mockResponse();
+
+      await handleMedicalSyncRequest(mockRequest({}, { records: [] }), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it("rejects malformed bodies", async () => {
+      vi.mocked(db.getMedicalSyncSourceByApiKey).mockResolvedValue(source);
+      const res = mockResponse();
+
+      await handleMedicalSyncRequest(mockRequest({ "x-api-key": "med_clinic" }, { records: "nope" }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it("syncs with a bearer token and idempotency key", async () => {
+      vi.mocked(db.getMedicalSyncSourceByApiKey).mockResolvedValue(source);
+      const res = mockResponse();
+
+      await handleMedicalSyncRequest(mockRequest(
+        { authorization: "Bearer med_clinic", "idempotency-key": "batch-2" },
+        { records: [{ licensePlate: "A1", driverName: "Ivanov" }] }
+      ), res);
+
+      expect(db.getMedicalSyncSourceByApiKey).toHaveBeenCalledWith("med_clinic");
+      expect(db.getMedicalSyncRunByIdempotencyKey).toHaveBeenCalledWith(3, "batch-2");
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ runId: 10, created: 1 }));
+    });
+  });
+
+  it("generates prefixed API keys", () => {
+    expect(generateSyncApiKey()).toMatch(/^med_[0-9a-f]{48}$/);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Medical Sync - incremental import of driver medical records from external
+ * systems. Each run applies upserts and deletes record by record, reports
+ * validation errors per record and is logged to the sync history.
+ */
+
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import {
+  getSetting,
+  getMedicalRecordByPlate,
+  upsertMedicalRecord,
+  deleteMedicalRecordByPlate,
+  getMedicalSyncSourceByApiKey,
+  updateMedicalSyncSource,
+  createMedicalSyncRun,
+  getMedicalSyncRunByIdempotencyKey,
+} from './db';
+import { canonicalizePlate } from './plateFormats';
+import type { MedicalRecord, MedicalSyncRun, MedicalSyncSource } from '../drizzle/schema';
+
+export const syncRecordSchema = z.object({
+  licensePlate: z.string().trim().min(1).max(20),
+  driverName: z.string().trim().min(1).max(255),
+  driverPhone: z.string().max(50).optional(),
+  medicalStatus: z.enum(['valid', 'expired', 'suspended', 'unknown']).optional(),
+  expirationDate: z.string()
+    .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+    .nullable()
+    .optional(),
+  notes: z.string().optional(),
+});
+
+export const syncPayloadSchema = z.object({
+  records: z.array(z.unknown()).max(5000).default([]),
+  deletes: z.array(z.unknown()).max(5000).default([]),
+});
+
+export type SyncPayload = z.infer<typeof syncPayloadSchema>;
+
+export type SyncAction = 'created' | 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'error';
+
+export interface SyncRecordResult {
+  licensePlate: string | null;
+  action: SyncAction;
+  errors?: string[];
+}
+
+export interface MedicalSyncResult {
+  runId: number;
+  status: MedicalSyncRun['status'];
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  failed: number;
+  results: SyncRecordResult[];
+  replayed: boolean;
+}
+
+export function generateSyncApiKey(): string {
+  return `med_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Resolve the source for an API key. Returns `{ source: null }` for the legacy
+ * shared `medical_api_key` and null when the key is not accepted.
+ */
+export async function authenticateSyncSource(apiKey: string): Promise<{ source: MedicalSyncSource | null } | null> {
+  if (!apiKey) return null;
+
+  const source = await getMedicalSyncSourceByApiKey(apiKey);
+  if (source) return source.isActive ? { source } : null;
+
+  const legacyKey = await getSetting('medical_api_key');
+  return legacyKey?.value && legacyKey.value === apiKey ? { source: null } : null;
+}
+
+function rawPlate(raw: unknown): string | null {
+  const plate = typeof raw === 'string' ? raw : (raw as { licensePlate?: unknown } | null)?.licensePlate;
+  return typeof plate === 'string' ? canonicalizePlate(plate) : null;
+}
+
+function hasChanges(existing: MedicalRecord, data: z.infer<typeof syncRecordSchema>, expirationDate: Date | null | undefined): boolean {
+  if (existing.driverName !== data.driverName) return true;
+  if (data.driverPhone !== undefined && existing.driverPhone !== data.driverPhone) return true;
+  if (data.medicalStatus !== undefined && existing.medicalStatus !== data.medicalStatus) return true;
+  if (data.notes !== undefined && existing.notes !== data.notes) return true;
+  if (expirationDate !== undefined &&
+    (existing.expirationDate?.getTime() ?? null) !== (expirationDate?.getTime() ?? null)) return true;
+  return false;
+}
+
+async function applyRecord(raw: unknown): Promise<SyncRecordResult> {
+  const parsed = syncRecordSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      licensePlate: rawPlate(raw),
+      action: 'error',
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+    };
+  }
+
+  const data = parsed.data;
+  const licensePlate = canonicalizePlate(data.licensePlate);
+  const expirationDate = data.expirationDate === undefined
+    ? undefined
+    : data.expirationDate === null ? null : new Date(data.expirationDate);
+
+  const existing = await getMedicalRecordByPlate(licensePlate);
+  if (existing && !hasChanges(existing, data, expirationDate)) {
+    return { licensePlate, action: 'unchanged' };
+  }
+
+  await upsertMedicalRecord({ ...data, licensePlate, expirationDate, lastCheckDate: new Date() });
+  return { licensePlate, action: existing ? 'updated' : 'created' };
+}
+
+async function applyDelete(raw: unknown): Promise<SyncRecordResult> {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return { licensePlate: null, action: 'error', errors: ['deletes: expected a license plate string'] };
+  }
+
+  const licensePlate = canonicalizePlate(raw);
+  const removed = await deleteMedicalRecordByPlate(licensePlate);
+  return { licensePlate, action: removed ? 'deleted' : 'not_found' };
+}
+
+/**
+ * Run one record through the database, reporting a failure as an error result
+ * so the rest of the batch still applies
+ */
+async function applySafely(raw: unknown, apply: (raw: unknown) => Promise<SyncRecordResult>): Promise<SyncRecordResult> {
+  try {
+    return await apply(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[MedicalSync] Failed to apply record:', message);
+    return { licensePlate: rawPlate(raw), action: 'error', errors: [message] };
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as { code?: unknown }).code === 'ER_DUP_ENTRY') return true;
+  }
+  return false;
+}
+
+/**
+ * Parse the per-record results stored on a sync run
+ */
+export function parseSyncChanges(value: string | null): SyncRecordResult[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function fromRun(run: MedicalSyncRun): MedicalSyncResult {
+  return {
+    runId: run.id,
+    status: run.status,
+    created: run.created,
+    updated: run.updated,
+    deleted: run.deleted,
+    unchanged: run.unchanged,
+    failed: run.failed,
+    results: parseSyncChanges(run.changes),
+    replayed: true,
+  };
+}
+
+/**
+ * Apply a sync payload. A repeated idempotency key returns the earlier run
+ * without applying anything again.
+ */
+export async function runMedicalSync(
+  source: MedicalSyncSource | null,
+  payload: SyncPayload,
+  idempotencyKey?: string
+): Promise<MedicalSyncResult> {
+  const sourceId = source?.id ?? null;
+
+  if (idempotencyKey) {
+    const previous = await getMedicalSyncRunByIdempotencyKey(sourceId, idempotencyKey);
+    if (previous) return fromRun(previous);
+  }
+
+  const results: SyncRecordResult[] = [];
+  for (const record of payload.records) {
+    results.push(await applySafely(record, applyRecord));
+  }
+  for (const plate of payload.deletes) {
+    results.push(await applySafely(plate, applyDelete));
+  }
+
+  const count = (action: SyncAction) => results.filter(r => r.action === action).length;
+  const failed = count('error');
+  const status: MedicalSyncRun['status'] = failed === 0
+    ? 'success'
+    : failed === results.length ? 'failed' : 'partial';
+
+  const summary = {
+    status,
+    created: count('created'),
+    updated: count('updated'),
+    deleted: count('deleted'),
+    unchanged: count('unchanged'),
+    failed,
+  };
+
+  let runId: number;
+  try {
+    runId = await createMedicalSyncRun({
+      sourceId,
+      idempotencyKey: idempotencyKey || null,
+      ...summary,
+      changes: JSON.stringify(results),
+    });
+  } catch (error) {
+    // A concurrent delivery of the same batch logged its run first
+    if (!idempotencyKey || !isDuplicateKeyError(error)) throw error;
+    const previous = await getMedicalSyncRunByIdempotencyKey(sourceId, idempotencyKey);
+    if (!previous) throw error;
+    return fromRun(previous);
+  }
+
+  if (source) {
+    await updateMedicalSyncSource(source.id, { lastSyncAt: new Date() });
+  }
+
+  return { runId, ...summary, results, replayed: false };
+}
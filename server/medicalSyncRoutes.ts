@@ -0,0 +1,50 @@
+import type { Express, Request, Response } from "express";
+import { authenticateSyncSource, runMedicalSync, syncPayloadSchema } from "./medicalSync";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+function getApiKey(req: Request): string {
+  const header = req.header("x-api-key");
+  if (header) return header;
+
+  const authorization = req.header("authorization");
+  return authorization?.startsWith("Bearer ") ? authorization.slice(7) : "";
+}
+
+/**
+ * POST /api/medical/sync - REST endpoint for external medical databases
+ */
+export async function handleMedicalSyncRequest(req: Request, res: Response) {
+  const auth = await authenticateSyncSource(getApiKey(req));
+  if (!auth) {
+    res.status(401).json({ error: "Invalid API key" });
+    return;
+  }
+
+  const idempotencyKey = req.header("idempotency-key") || undefined;
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+    return;
+  }
+
+  const payload = syncPayloadSchema.safeParse(req.body ?? {});
+  if (!payload.success) {
+    res.status(400).json({
+      error: "Invalid request body",
+      issues: payload.error.issues.map(issue => `${issue.path.join(".") || "body"}: ${issue.message}`),
+    });
+    return;
+  }
+
+  try {
+    const result = await runMedicalSync(auth.source, payload.data, idempotencyKey);
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("[MedicalSync] Sync failed", error);
+    res.status(500).json({ error: "Medical sync failed" });
+  }
+}
+
+export function registerMedicalSyncRoutes(app: Express) {
+  app.post("/api/medical/sync", handleMedicalSyncRequest);
+}
@@ -0,0 +1,313 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: vi.fn(),
+}));
+
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  createNotificationHistory: vi.fn(),
+  updateNotificationHistory: vi.fn(),
+  getAllWebhookEndpoints: vi.fn(),
+  getWebhookEndpointById: vi.fn(),
+  createWebhookAttempt: vi.fn(),
+}));
+
+vi.mock("./quietHours", () => ({
+  holdForQuietHours: vi.fn(),
+}));
+
+vi.mock("./telegramNotification", () => ({
+  deliverTelegramNotification: vi.fn(),
+  recordTelegramDeliveries: vi.fn(),
+}));
+
+import { notifyOwner } from "./_core/notification";
+import {
+  getSetting,
+  createNotificationHistory,
+  updateNotificationHistory,
+  getAllWebhookEndpoints,
+  getWebhookEndpointById,
+  createWebhookAttempt,
+} from "./db";
+import { holdForQuietHours } from "./quietHours";
+import { deliverTelegramNotification, recordTelegramDeliveries } from "./telegramNotification";
+import { dispatchNotification, retryNotification, getRetryDelay } from "./notificationDispatcher";
+import type { NotificationHistoryEntry, WebhookEndpoint } from "../drizzle/schema";
+
+const notification = {
+  type: "unknown_vehicle" as const,
+  severity: "medium" as const,
+  title: "Unknown vehicle: A123BC77",
+  content: "**Plate:** A123BC77",
+  licensePlate: "A123BC77",
+  passageId: 42,
+  telegram: { title: "Неизвестный автомобиль", content: "<b>A123BC77</b>" },
+};
+
+const target = { recipientId: 1, chatId: "111", name: "Guards" };
+const now = new Date("2025-01-15T12:00:00Z");
+
+const endpoint: WebhookEndpoint = {
+  id: 3,
+  name: "SIEM",
+  url: "https://siem.example.com/hook",
+  secret: "whsec_test",
+  eventTypes: null,
+  isActive: true,
+  createdAt: now,
+  updatedAt: now,
+};
+
+function entry(overrides: Partial<NotificationHistoryEntry> = {}): NotificationHistoryEntry {
+  return {
+    id: 9,
+    type: "unknown_vehicle",
+    title: "Unknown vehicle: A123BC77",
+    message: "**Plate:** A123BC77",
+    licensePlate: "A123BC77",
+    photoUrl: null,
+    severity: "medium",
+    channel: "email",
+    status: "failed",
+    errorMessage: "Notification service unavailable",
+    webhookId: null,
+    responseCode: null,
+    webhookPayload: null,
+    passageId: 42,
+    durationMs: 5,
+    retryCount: 0,
+    lastRetryAt: null,
+    nextRetryAt: now,
+    createdAt: now,
+    sentAt: null,
+    ...overrides,
+  };
+}
+
+function response(status: number) {
+  return { ok: status >= 200 && status < 300, status, statusText: "" };
+}
+
+describe("notificationDispatcher", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getSetting).mockResolvedValue(null);
+    vi.mocked(createNotificationHistory).mockResolvedValue({ id: 7 });
+    vi.mocked(notifyOwner).mockResolvedValue(true);
+    vi.mocked(deliverTelegramNotification).mockResolvedValue([]);
+    vi.mocked(getAllWebhookEndpoints).mockResolvedValue([]);
+    vi.mocked(holdForQuietHours).mockResolvedValue([]);
+  });
+
+  describe("dispatchNotification", () => {
+    it("records one history row per channel linked to the passage", async () => {
+      vi.mocked(deliverTelegramNotification).mockResolvedValue([{ target, status: "sent" }]);
+
+      const result = await dispatchNotification(notification);
+
+      expect(result.sent).toBe(true);
+      expect(result.channels.map(c => [c.channel, c.status])).toEqual([["email", "sent"], ["telegram", "sent"]]);
+      expect(vi.mocked(createNotificationHistory).mock.calls.map(([row]) => row)).toEqual([
+        expect.objectContaining({ channel: "email", status: "sent", title: notification.title, passageId: 42, durationMs: expect.any(Number) }),
+        expect.objectContaining({ channel: "telegram", status: "sent", message: "<b>A123BC77</b>", passageId: 42, durationMs: expect.any(Number) }),
+      ]);
+      expect(recordTelegramDeliveries).toHaveBeenCalledWith(7, [{ target, status: "sent" }]);
+    });
+
+    it("skips the channels holding the notification for quiet hours", async () => {
+      vi.mocked(holdForQuietHours).mockResolvedValue(["email", "telegram"]);
+
+      const result = await dispatchNotification(notification);
+
+      expect(holdForQuietHours).toHaveBeenCalledWith(notification, ["email", "telegram", "webhook"]);
+      expect(result).toEqual({ sent: true, held: ["email", "telegram"], channels: [] });
+      expect(notifyOwner).not.toHaveBeenCalled();
+      expect(deliverTelegramNotification).not.toHaveBeenCalled();
+      expect(getAllWebhookEndpoints).toHaveBeenCalled();
+    });
+
+    it("records failed channels with their error and schedules a retry", async () => {
+      vi.mocked(notifyOwner).mockRejectedValue(new Error("Service unavailable"));
+      vi.mocked(deliverTelegramNotification).mockResolvedValue([
+        { target, status: "failed", error: "chat not found" },
+      ]);
+
+      const result = await dispatchNotification(notification);
+
+      expect(result.sent).toBe(false);
+      expect(createNotificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        channel: "email", status: "failed", errorMessage: "Service unavailable", nextRetryAt: expect.any(Date),
+      }));
+      expect(createNotificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        channel: "telegram", status: "failed", errorMessage: "Guards: chat not found", nextRetryAt: expect.any(Date),
+      }));
+    });
+
+    it("records Telegram as skipped without a retry when every recipient is in quiet hours", async () => {
+      const skipped = [{ target, status: "skipped" as const, error: "Quiet hours" }];
+      vi.mocked(deliverTelegramNotification).mockResolvedValue(skipped);
+
+      const result = await dispatchNotification({ ...notification, channels: ["telegram"] });
+
+      expect(result.channels).toEqual([expect.objectContaining({ channel: "telegram", status: "skipped" })]);
+      expect(createNotificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        channel: "telegram", status: "skipped", errorMessage: "Every recipient is in quiet hours", nextRetryAt: null,
+      }));
+      expect(recordTelegramDeliveries).toHaveBeenCalledWith(7, skipped);
+    });
+
+    it("leaves out Telegram when it is not configured or there is no Telegram message", async () => {
+      await dispatchNotification(notification);
+      await dispatchNotification({ ...notification, telegram: undefined });
+
+      expect(deliverTelegramNotification).toHaveBeenCalledTimes(1);
+      expect(createNotificationHistory).toHaveBeenCalledTimes(2);
+      expect(createNotificationHistory).not.toHaveBeenCalledWith(expect.objectContaining({ channel: "telegram" }));
+    });
+
+    it("records each webhook with its response code and signed payload", async () => {
+      vi.mocked(getAllWebhookEndpoints).mockResolvedValue([endpoint]);
+      mockFetch.mockResolvedValue(response(503));
+
+      const result = await dispatchNotification({ ...notification, channels: ["webhook"] });
+
+      expect(notifyOwner).not.toHaveBeenCalled();
+      expect(result.channels).toEqual([expect.objectContaining({ channel: "webhook", status: "failed" })]);
+      expect(createNotificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        channel: "webhook",
+        status: "failed",
+        webhookId: 3,
+        responseCode: 503,
+        passageId: 42,
+        webhookPayload: mockFetch.mock.calls[0][1].body,
+        nextRetryAt: expect.any(Date),
+      }));
+      expect(createWebhookAttempt).toHaveBeenCalledWith(expect.objectContaining({
+        notificationId: 7, attempt: 1, status: "failed", responseCode: 503,
+      }));
+    });
+
+    it("dead-letters webhooks that rejected the payload", async () => {
+      vi.mocked(getAllWebhookEndpoints).mockResolvedValue([endpoint]);
+      mockFetch.mockResolvedValue(response(400));
+
+      await dispatchNotification({ ...notification, channels: ["webhook"] });
+
+      expect(createNotificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        status: "dead_letter", nextRetryAt: null,
+      }));
+    });
+  });
+
+  describe("retryNotification", () => {
+    it("backs off exponentially", () => {
+      expect(getRetryDelay(1)).toBe(30_000);
+      expect(getRetryDelay(3)).toBe(480_000);
+    });
+
+    it("updates the row in place when the retry succeeds", async () => {
+      const result = await retryNotification(entry(), now);
+
+      expect(result.status).toBe("sent");
+      expect(createNotificationHistory).not.toHaveBeenCalled();
+      expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: "sent",
+        nextRetryAt: null,
+        retryCount: 1,
+        lastRetryAt: now,
+        sentAt: now,
+        errorMessage: null,
+      }));
+    });
+
+    it("schedules the next attempt further out", async () => {
+      vi.mocked(notifyOwner).mockResolvedValue(false);
+
+      const result = await retryNotification(entry({ retryCount: 1 }), now);
+
+      expect(result.status).toBe("failed");
+      expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: "failed",
+        retryCount: 2,
+        nextRetryAt: new Date(now.getTime() + getRetryDelay(3)),
+        errorMessage: "Notification service unavailable",
+      }));
+    });
+
+    it("dead-letters the notification once the channel's attempts are used", async () => {
+      vi.mocked(getSetting).mockImplementation(async key =>
+        key === "notification_retry_max_attempts_telegram" ? { key, value: "2" } as any : null
+      );
+      vi.mocked(deliverTelegramNotification).mockResolvedValue([{ target, status: "failed", error: "Forbidden" }]);
+
+      const result = await retryNotification(entry({ channel: "telegram" }), now);
+
+      expect(result.status).toBe("dead_letter");
+      expect(recordTelegramDeliveries).toHaveBeenCalledWith(9, [{ target, status: "failed", error: "Forbidden" }]);
+      expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: "dead_letter",
+        nextRetryAt: null,
+        errorMessage: "Guards: Forbidden",
+      }));
+    });
+
+    it("stops retrying a Telegram message every recipient is now muting", async () => {
+      vi.mocked(deliverTelegramNotification).mockResolvedValue([{ target, status: "skipped", error: "Quiet hours" }]);
+
+      const result = await retryNotification(entry({ channel: "telegram" }), now);
+
+      expect(result.status).toBe("skipped");
+      expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: "skipped",
+        nextRetryAt: null,
+        retryCount: 1,
+        sentAt: undefined,
+        errorMessage: "Every recipient is in quiet hours",
+      }));
+    });
+
+    it("resends the recorded webhook payload with the same delivery ID", async () => {
+      const body = JSON.stringify({ id: "delivery-1", event: "unknown_vehicle" });
+      vi.mocked(getWebhookEndpointById).mockResolvedValue(endpoint);
+      mockFetch.mockResolvedValue(response(200));
+
+      await retryNotification(entry({ channel: "webhook", webhookId: 3, webhookPayload: body }), now);
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(endpoint.url);
+      expect(init.body).toBe(body);
+      expect(init.headers["X-Webhook-Id"]).toBe("delivery-1");
+      expect(init.headers["X-Webhook-Attempt"]).toBe("2");
+      expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({ status: "sent", responseCode: 200 }));
+    });
+
+    it("logs each webhook attempt with its response code", async () => {
+      vi.mocked(getWebhookEndpointById).mockResolvedValue(endpoint);
+      mockFetch.mockResolvedValueOnce(response(502)).mockResolvedValueOnce(response(200));
+
+      await retryNotification(entry({ channel: "webhook", webhookId: 3, retryCount: 0 }), now);
+      await retryNotification(entry({ channel: "webhook", webhookId: 3, retryCount: 1 }), now);
+
+      expect(vi.mocked(createWebhookAttempt).mock.calls.map(([attempt]) => attempt)).toEqual([
+        expect.objectContaining({ notificationId: 9, attempt: 2, status: "failed", responseCode: 502 }),
+        expect.objectContaining({ notificationId: 9, attempt: 3, status: "sent", responseCode: 200, errorMessage: null }),
+      ]);
+    });
+
+    it("dead-letters webhooks whose endpoint was deleted", async () => {
+      vi.mocked(getWebhookEndpointById).mockResolvedValue(null);
+
+      const result = await retryNotification(entry({ channel: "webhook", webhookId: 3 }), now);
+
+      expect(result.status).toBe("dead_letter");
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(createWebhookAttempt).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Notification Dispatcher - the single way notifications leave the system.
+ * Holds alerts on channels in quiet hours (see quietHours), sends the rest
+ * over email, Telegram and webhooks and records one notification history
+ * row per channel with its outcome, error and send time, linked to the
+ * passage that triggered it. Telegram messages every recipient muted with
+ * their own quiet hours are recorded as skipped. Failed rows are scheduled
+ * for the retry worker with exponential backoff until the channel's
+ * attempts run out, then moved to the dead-letter state. Every webhook
+ * attempt is also logged with its response code.
+ */
+
+import { notifyOwner } from './_core/notification';
+import {
+  getSetting,
+  createNotificationHistory,
+  updateNotificationHistory,
+  getWebhookEndpointById,
+  createWebhookAttempt,
+} from './db';
+import {
+  deliverTelegramNotification,
+  recordTelegramDeliveries,
+  type TelegramDeliveryResult,
+  type TelegramMessage,
+  type TelegramNotificationPayload,
+} from './telegramNotification';
+import {
+  notifyWebhooks,
+  postWebhook,
+  buildWebhookDelivery,
+  restoreWebhookDelivery,
+  isRetryableStatus,
+  type WebhookEvent,
+} from './webhookNotification';
+import { holdForQuietHours } from './quietHours';
+import type { NotificationEventType, NotificationSeverity } from './notificationTypes';
+import type { InsertNotificationHistoryEntry, NotificationHistoryEntry } from '../drizzle/schema';
+
+export type DispatchChannel = 'email' | 'telegram' | 'webhook';
+
+export const DISPATCH_CHANNELS: DispatchChannel[] = ['email', 'telegram', 'webhook'];
+
+export const DEFAULT_MAX_ATTEMPTS = 4;
+// Retries wait 30s, 2m, 8m, ...
+const RETRY_BASE_MS = 30_000;
+
+export type OutgoingNotification = {
+  type: NotificationEventType;
+  severity?: NotificationSeverity;
+  title: string;
+  /** Markdown body sent by email and to webhooks */
+  content: string;
+  licensePlate?: string;
+  photoUrl?: string;
+  passageId?: number;
+  /** Telegram gets its own HTML message; without one Telegram is skipped */
+  telegram?: TelegramMessage;
+  /** Event details included in webhook payloads */
+  data?: Record<string, unknown>;
+  /** Channels to use, all of them by default */
+  channels?: DispatchChannel[];
+};
+
+export type ChannelOutcome = {
+  channel: DispatchChannel;
+  /** Skipped when nobody was meant to receive it, e.g. every recipient is in quiet hours */
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+  durationMs: number;
+};
+
+export type DispatchResult = {
+  /** Went out on at least one channel or was held for a quiet hours summary */
+  sent: boolean;
+  /** Channels in quiet hours that hold the notification for their summary */
+  held: DispatchChannel[];
+  channels: ChannelOutcome[];
+};
+
+export type RetryResult = {
+  status: 'sent' | 'failed' | 'dead_letter' | 'skipped';
+  channels: ChannelOutcome[];
+  error?: string;
+};
+
+type FailureState = {
+  status: 'failed' | 'dead_letter';
+  nextRetryAt: Date | null;
+};
+
+/**
+ * Sends the notification over each channel in turn. Channels in quiet hours
+ * hold it for their summary instead. Channels that are disabled or have
+ * nobody to deliver to are left out of the result.
+ */
+export async function dispatchNotification(notification: OutgoingNotification): Promise<DispatchResult> {
+  const requested = notification.channels ?? DISPATCH_CHANNELS;
+  const held: DispatchChannel[] = await holdForQuietHours(notification, requested);
+  const channels = requested.filter(channel => !held.includes(channel));
+  const outcomes: ChannelOutcome[] = [];
+
+  if (channels.includes('email')) {
+    const outcome = await sendEmail(notification.title, notification.content);
+    if (outcome.status === 'failed') {
+      console.warn(`[Notification] Email for ${notification.type} failed: ${outcome.error}`);
+    }
+    await recordChannel(notification, outcome, {
+      title: notification.title,
+      message: notification.content,
+    });
+    outcomes.push(outcome);
+  }
+
+  if (channels.includes('telegram') && notification.telegram) {
+    const telegram = notification.telegram;
+    const delivery = await sendTelegram({
+      ...telegram,
+      type: notification.type,
+      severity: notification.severity,
+      licensePlate: notification.licensePlate,
+    });
+    if (delivery) {
+      const id = await recordChannel(notification, delivery.outcome, {
+        title: telegram.title,
+        message: telegram.content,
+        photoUrl: telegram.photoUrl,
+      });
+      if (id !== null) await recordDeliveries(id, delivery.results);
+      outcomes.push(delivery.outcome);
+    }
+  }
+
+  if (channels.includes('webhook')) {
+    const outcome = await sendWebhooks(notification);
+    if (outcome) outcomes.push(outcome);
+  }
+
+  return {
+    sent: held.length > 0 || outcomes.some(outcome => outcome.status === 'sent'),
+    held,
+    channels: outcomes,
+  };
+}
+
+/**
+ * Sends a recorded notification again over its channel and updates its
+ * history row in place
+ */
+export async function retryNotification(entry: NotificationHistoryEntry, now = new Date()): Promise<RetryResult> {
+  // The first send, the retries so far and this one
+  const attempts = entry.retryCount + 2;
+  const update: Partial<InsertNotificationHistoryEntry> = {};
+  const outcomes: ChannelOutcome[] = [];
+  let retryable = true;
+
+  if (entry.channel === 'webhook') {
+    const webhook = await retryWebhook(entry, attempts);
+    outcomes.push(webhook.outcome);
+    retryable = webhook.retryable;
+    update.responseCode = webhook.responseCode;
+    if (webhook.payload) {
+      update.webhookPayload = webhook.payload;
+      await recordWebhookAttempt(entry.id, attempts, webhook.outcome, webhook.responseCode);
+    }
+  } else {
+    if (entry.channel === 'email' || entry.channel === 'both') {
+      outcomes.push(await sendEmail(entry.title, entry.message));
+    }
+    if (entry.channel === 'telegram' || entry.channel === 'both') {
+      outcomes.push(await retryTelegram(entry));
+    }
+  }
+
+  const sent = outcomes.some(outcome => outcome.status === 'sent');
+  const skipped = !sent && outcomes.length > 0 && outcomes.every(outcome => outcome.status === 'skipped');
+  const error = sent ? undefined : describeFailures(outcomes);
+  const state = sent || skipped
+    ? { status: sent ? 'sent' as const : 'skipped' as const, nextRetryAt: null }
+    : await getFailureState(entry.channel, attempts, retryable, now);
+
+  if (state.status === 'dead_letter') {
+    console.warn(`[Notification] ${entry.type} over ${entry.channel} gave up after ${attempts} attempts: ${error}`);
+  }
+
+  await updateNotificationHistory(entry.id, {
+    ...update,
+    status: state.status,
+    nextRetryAt: state.nextRetryAt,
+    retryCount: entry.retryCount + 1,
+    lastRetryAt: now,
+    sentAt: sent ? now : undefined,
+    errorMessage: error ?? null,
+    durationMs: outcomes.reduce((total, outcome) => total + outcome.durationMs, 0),
+  });
+
+  return { status: state.status, channels: outcomes, error };
+}
+
+export function getRetryDelay(attempt: number): number {
+  return RETRY_BASE_MS * 4 ** (attempt - 1);
+}
+
+/**
+ * Attempts per channel, first send included, from notification_retry_max_attempts_<channel>
+ */
+export async function getMaxAttempts(channel: NotificationHistoryEntry['channel']): Promise<number> {
+  const key = channel === 'both' ? 'email' : channel;
+  const setting = await getSetting(`notification_retry_max_attempts_${key}`);
+  const value = parseInt(setting?.value ?? '', 10);
+  return Number.isFinite(value) && value >= 1 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Schedules the next attempt, or gives up when the attempts are used or
+ * the failure will not go away by retrying
+ */
+export async function getFailureState(
+  channel: NotificationHistoryEntry['channel'],
+  attempts: number,
+  retryable = true,
+  now = new Date()
+): Promise<FailureState> {
+  if (retryable && attempts < await getMaxAttempts(channel)) {
+    return { status: 'failed', nextRetryAt: new Date(now.getTime() + getRetryDelay(attempts)) };
+  }
+  return { status: 'dead_letter', nextRetryAt: null };
+}
+
+async function sendEmail(title: string, content: string): Promise<ChannelOutcome> {
+  const startedAt = Date.now();
+  try {
+    const sent = await notifyOwner({ title, content });
+    return sent
+      ? { channel: 'email', status: 'sent', durationMs: Date.now() - startedAt }
+      : { channel: 'email', status: 'failed', error: 'Notification service unavailable', durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return { channel: 'email', status: 'failed', error: describeError(error), durationMs: Date.now() - startedAt };
+  }
+}
+
+/**
+ * Returns null when Telegram is disabled or not configured
+ */
+async function sendTelegram(
+  payload: TelegramNotificationPayload
+): Promise<{ outcome: ChannelOutcome; results: TelegramDeliveryResult[] } | null> {
+  const startedAt = Date.now();
+  let results: TelegramDeliveryResult[];
+
+  try {
+    results = await deliverTelegramNotification(payload);
+  } catch (error) {
+    console.error('[Notification] Error sending Telegram message:', error);
+    return {
+      outcome: { channel: 'telegram', status: 'failed', error: describeError(error), durationMs: Date.now() - startedAt },
+      results: [],
+    };
+  }
+
+  if (results.length === 0) return null;
+
+  const durationMs = Date.now() - startedAt;
+  if (results.every(result => result.status === 'skipped')) {
+    return {
+      outcome: { channel: 'telegram', status: 'skipped', error: 'Every recipient is in quiet hours', durationMs },
+      results,
+    };
+  }
+
+  const sent = results.some(result => result.status === 'sent');
+  const errors = results
+    .filter(result => result.status === 'failed')
+    .map(result => `${result.target.name ?? result.target.chatId}: ${result.error}`);
+  return {
+    outcome: {
+      channel: 'telegram',
+      status: sent ? 'sent' : 'failed',
+      error: errors.length > 0 ? errors.join('; ') : (sent ? undefined : 'No recipient received the message'),
+      durationMs,
+    },
+    results,
+  };
+}
+
+async function retryTelegram(entry: NotificationHistoryEntry): Promise<ChannelOutcome> {
+  const delivery = await sendTelegram({
+    title: entry.title,
+    content: entry.message,
+    photoUrl: entry.photoUrl ?? undefined,
+    type: entry.type,
+    severity: entry.severity,
+    licensePlate: entry.licensePlate ?? undefined,
+  });
+  if (!delivery) {
+    return { channel: 'telegram', status: 'failed', error: 'Telegram is disabled or not configured', durationMs: 0 };
+  }
+  await recordDeliveries(entry.id, delivery.results);
+  return delivery.outcome;
+}
+
+/**
+ * Records a row per endpoint with its response code and the signed
+ * payload, which retries send again unchanged
+ */
+async function sendWebhooks(notification: OutgoingNotification): Promise<ChannelOutcome | null> {
+  const startedAt = Date.now();
+  const results = await notifyWebhooks({
+    type: notification.type,
+    severity: notification.severity,
+    title: notification.title,
+    message: notification.content,
+    licensePlate: notification.licensePlate,
+    photoUrl: notification.photoUrl,
+    passageId: notification.passageId,
+    data: notification.data,
+  });
+  if (results.length === 0) return null;
+
+  for (const result of results) {
+    const outcome: ChannelOutcome = {
+      channel: 'webhook',
+      status: result.ok ? 'sent' : 'failed',
+      error: result.ok ? undefined : `${result.endpoint.name}: ${result.error}`,
+      durationMs: result.durationMs,
+    };
+    const id = await recordChannel(
+      notification,
+      outcome,
+      { title: notification.title, message: notification.content },
+      {
+        webhookId: result.endpoint.id,
+        responseCode: result.responseCode,
+        webhookPayload: result.delivery.body,
+      },
+      isRetryableStatus(result.responseCode)
+    );
+    if (id !== null) await recordWebhookAttempt(id, 1, outcome, result.responseCode);
+  }
+
+  const sent = results.some(result => result.ok);
+  return {
+    channel: 'webhook',
+    status: sent ? 'sent' : 'failed',
+    error: sent ? undefined : results.map(result => result.error).join('; '),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+async function retryWebhook(entry: NotificationHistoryEntry, attempt: number) {
+  const endpoint = entry.webhookId ? await getWebhookEndpointById(entry.webhookId) : null;
+  if (!endpoint || !endpoint.isActive) {
+    return {
+      outcome: {
+        channel: 'webhook',
+        status: 'failed',
+        error: endpoint ? `${endpoint.name}: Webhook is disabled` : 'Webhook not found',
+        durationMs: 0,
+      } satisfies ChannelOutcome,
+      retryable: false,
+      responseCode: null,
+      payload: null,
+    };
+  }
+
+  const event: WebhookEvent = {
+    type: entry.type,
+    severity: entry.severity,
+    title: entry.title,
+    message: entry.message,
+    licensePlate: entry.licensePlate ?? undefined,
+    photoUrl: entry.photoUrl ?? undefined,
+    passageId: entry.passageId ?? undefined,
+  };
+  const delivery = entry.webhookPayload
+    ? restoreWebhookDelivery(event, entry.webhookPayload)
+    : buildWebhookDelivery(event);
+  const result = await postWebhook(endpoint, delivery, attempt);
+
+  return {
+    outcome: {
+      channel: 'webhook',
+      status: result.ok ? 'sent' : 'failed',
+      error: result.ok ? undefined : `${endpoint.name}: ${result.error}`,
+      durationMs: result.durationMs,
+    } satisfies ChannelOutcome,
+    retryable: isRetryableStatus(result.responseCode),
+    responseCode: result.responseCode,
+    payload: delivery.body,
+  };
+}
+
+/**
+ * Adds the channel's history row, returning its ID or null when it could not be stored
+ */
+async function recordChannel(
+  notification: OutgoingNotification,
+  outcome: ChannelOutcome,
+  message: { title: string; message: string; photoUrl?: string },
+  extra: Partial<InsertNotificationHistoryEntry> = {},
+  retryable = true
+): Promise<number | null> {
+  try {
+    const state = outcome.status === 'failed'
+      ? await getFailureState(outcome.channel, 1, retryable)
+      : { status: outcome.status, nextRetryAt: null };
+
+    const { id } = await createNotificationHistory({
+      type: notification.type,
+      title: message.title,
+      message: message.message,
+      licensePlate: notification.licensePlate,
+      photoUrl: message.photoUrl ?? notification.photoUrl,
+      severity: notification.severity ?? 'medium',
+      channel: outcome.channel,
+      status: state.status,
+      nextRetryAt: state.nextRetryAt,
+      errorMessage: outcome.error ?? null,
+      passageId: notification.passageId,
+      durationMs: outcome.durationMs,
+      sentAt: outcome.status === 'sent' ? new Date() : undefined,
+      ...extra,
+    });
+    return id;
+  } catch (error) {
+    console.error('[Notification] Failed to record notification history:', error);
+    return null;
+  }
+}
+
+async function recordDeliveries(notificationId: number, results: TelegramDeliveryResult[]) {
+  try {
+    await recordTelegramDeliveries(notificationId, results);
+  } catch (error) {
+    console.error('[Notification] Failed to record Telegram deliveries:', error);
+  }
+}
+
+async function recordWebhookAttempt(
+  notificationId: number,
+  attempt: number,
+  outcome: ChannelOutcome,
+  responseCode: number | null
+) {
+  try {
+    await createWebhookAttempt({
+      notificationId,
+      attempt,
+      status: outcome.status === 'sent' ? 'sent' : 'failed',
+      responseCode,
+      errorMessage: outcome.error ?? null,
+      durationMs: outcome.durationMs,
+    });
+  } catch (error) {
+    console.error('[Notification] Failed to record webhook attempt:', error);
+  }
+}
+
+function describeFailures(outcomes: ChannelOutcome[]): string {
+  if (outcomes.length === 1) return outcomes[0].error ?? 'Unknown error';
+  return outcomes.map(outcome => `${outcome.channel}: ${outcome.error}`).join('; ');
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
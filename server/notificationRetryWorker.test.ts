@@ -0,0 +1,162 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: vi.fn(),
+}));
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getNotificationsDueForRetry: vi.fn(),
+  createNotificationHistory: vi.fn(),
+  updateNotificationHistory: vi.fn(),
+  getAllWebhookEndpoints: vi.fn(),
+  getWebhookEndpointById: vi.fn(),
+  createWebhookAttempt: vi.fn(),
+}));
+
+vi.mock("./telegramNotification", () => ({
+  deliverTelegramNotification: vi.fn(),
+  recordTelegramDeliveries: vi.fn(),
+}));
+
+import { notifyOwner } from "./_core/notification";
+import { getSetting, getNotificationsDueForRetry, updateNotificationHistory, getWebhookEndpointById } from "./db";
+import { deliverTelegramNotification } from "./telegramNotification";
+import { processNotificationRetries } from "./notificationRetryWorker";
+import type { NotificationHistoryEntry } from "../drizzle/schema";
+
+const now = new Date("2025-01-15T12:00:00Z");
+const target = { recipientId: 1, chatId: "111", name: "Guards" };
+
+function entry(overrides: Partial<NotificationHistoryEntry> = {}): NotificationHistoryEntry {
+  return {
+    id: 9,
+    type: "unknown_vehicle",
+    title: "Unknown vehicle: A123BC77",
+    message: "**Plate:** A123BC77",
+    licensePlate: "A123BC77",
+    photoUrl: null,
+    severity: "medium",
+    channel: "email",
+    status: "failed",
+    errorMessage: "Notification service unavailable",
+    webhookId: null,
+    responseCode: null,
+    webhookPayload: null,
+    passageId: 42,
+    durationMs: 5,
+    retryCount: 0,
+    lastRetryAt: null,
+    nextRetryAt: now,
+    createdAt: now,
+    sentAt: null,
+    ...overrides,
+  };
+}
+
+function maxAttempts(values: Record<string, string>) {
+  vi.mocked(getSetting).mockImplementation(async key =>
+    key in values ? { key, value: values[key] } as any : null
+  );
+}
+
+describe("Notification Retry Worker", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getSetting).mockResolvedValue(null);
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([]);
+    vi.mocked(notifyOwner).mockResolvedValue(true);
+    vi.mocked(deliverTelegramNotification).mockResolvedValue([]);
+  });
+
+  it("retries only the notifications that are due", async () => {
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([entry({ id: 1 }), entry({ id: 2 })]);
+
+    const summary = await processNotificationRetries(now);
+
+    expect(getNotificationsDueForRetry).toHaveBeenCalledWith(now);
+    expect(summary).toEqual({ retried: 2, sent: 2, deadLettered: 0 });
+    expect(vi.mocked(updateNotificationHistory).mock.calls.map(([id]) => id)).toEqual([1, 2]);
+    expect(updateNotificationHistory).toHaveBeenCalledWith(1, expect.objectContaining({ status: "sent", retryCount: 1 }));
+  });
+
+  it("does nothing when no notification is due", async () => {
+    expect(await processNotificationRetries(now)).toEqual({ retried: 0, sent: 0, deadLettered: 0 });
+    expect(notifyOwner).not.toHaveBeenCalled();
+    expect(updateNotificationHistory).not.toHaveBeenCalled();
+  });
+
+  it("applies each channel's own attempt limit", async () => {
+    maxAttempts({ notification_retry_max_attempts_email: "2", notification_retry_max_attempts_telegram: "5" });
+    vi.mocked(notifyOwner).mockResolvedValue(false);
+    vi.mocked(deliverTelegramNotification).mockResolvedValue([{ target, status: "failed", error: "Forbidden" }]);
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([
+      entry({ id: 1, channel: "email" }),
+      entry({ id: 2, channel: "telegram" }),
+    ]);
+
+    const summary = await processNotificationRetries(now);
+
+    expect(summary).toEqual({ retried: 2, sent: 0, deadLettered: 1 });
+    expect(updateNotificationHistory).toHaveBeenCalledWith(1, expect.objectContaining({
+      status: "dead_letter",
+      nextRetryAt: null,
+    }));
+    expect(updateNotificationHistory).toHaveBeenCalledWith(2, expect.objectContaining({
+      status: "failed",
+      nextRetryAt: new Date(now.getTime() + 120_000),
+      errorMessage: "Guards: Forbidden",
+    }));
+  });
+
+  it("dead-letters a notification on its last attempt", async () => {
+    vi.mocked(notifyOwner).mockRejectedValue(new Error("Service unavailable"));
+    // Default of 4 attempts: the first send and two retries are used
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([entry({ retryCount: 2 })]);
+
+    const summary = await processNotificationRetries(now);
+
+    expect(summary).toEqual({ retried: 1, sent: 0, deadLettered: 1 });
+    expect(updateNotificationHistory).toHaveBeenCalledWith(9, expect.objectContaining({
+      status: "dead_letter",
+      nextRetryAt: null,
+      retryCount: 3,
+      errorMessage: "Service unavailable",
+    }));
+  });
+
+  it("keeps going when one notification cannot be retried", async () => {
+    vi.mocked(updateNotificationHistory).mockRejectedValueOnce(new Error("Database not available"));
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([entry({ id: 1 }), entry({ id: 2 })]);
+
+    const summary = await processNotificationRetries(now);
+
+    expect(summary).toEqual({ retried: 2, sent: 1, deadLettered: 0 });
+    expect(vi.mocked(updateNotificationHistory).mock.calls.map(([id]) => id)).toEqual([1, 1, 2]);
+  });
+
+  it("counts a retry that throws as a failed attempt", async () => {
+    vi.mocked(getWebhookEndpointById).mockRejectedValue(new Error("Database not available"));
+    vi.mocked(getNotificationsDueForRetry).mockResolvedValue([
+      entry({ id: 1, channel: "webhook", webhookId: 3 }),
+      entry({ id: 2, channel: "webhook", webhookId: 3, retryCount: 2 }),
+    ]);
+
+    const summary = await processNotificationRetries(now);
+
+    expect(summary).toEqual({ retried: 2, sent: 0, deadLettered: 1 });
+    expect(updateNotificationHistory).toHaveBeenCalledWith(1, {
+      status: "failed",
+      nextRetryAt: new Date(now.getTime() + 120_000),
+      retryCount: 1,
+      lastRetryAt: now,
+      errorMessage: "Database not available",
+    });
+    expect(updateNotificationHistory).toHaveBeenCalledWith(2, expect.objectContaining({
+      status: "dead_letter",
+      nextRetryAt: null,
+      retryCount: 3,
+    }));
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Notification Retry Worker - periodically resends failed notifications
+ * whose backoff has elapsed. Notifications that run out of attempts are
+ * moved to the dead-letter state and left for an admin to resend.
+ */
+
+import { getNotificationsDueForRetry, updateNotificationHistory } from './db';
+import { retryNotification, getFailureState } from './notificationDispatcher';
+import type { NotificationHistoryEntry } from '../drizzle/schema';
+
+const RETRY_CHECK_INTERVAL_MS = 30 * 1000;
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let isProcessing = false;
+
+/**
+ * Retries every notification that is due, one at a time
+ */
+export async function processNotificationRetries(now = new Date()): Promise<{ retried: number; sent: number; deadLettered: number }> {
+  const summary = { retried: 0, sent: 0, deadLettered: 0 };
+  if (isProcessing) return summary;
+  isProcessing = true;
+
+  try {
+    const due = await getNotificationsDueForRetry(now);
+    for (const entry of due) {
+      try {
+        const result = await retryNotification(entry, now);
+        summary.retried++;
+        if (result.status === 'sent') summary.sent++;
+        if (result.status === 'dead_letter') summary.deadLettered++;
+      } catch (error) {
+        console.error(`[NotificationRetry] Failed to retry notification ${entry.id}:`, error);
+        summary.retried++;
+        if (await recordFailedRetry(entry, error, now) === 'dead_letter') summary.deadLettered++;
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+
+  if (summary.retried > 0) {
+    console.log(`[NotificationRetry] Retried ${summary.retried}: ${summary.sent} sent, ${summary.deadLettered} dead-lettered`);
+  }
+  return summary;
+}
+
+/**
+ * Counts a retry that threw as a failed attempt, so the entry backs off or
+ * is dead-lettered instead of being picked again on the next check
+ */
+async function recordFailedRetry(entry: NotificationHistoryEntry, error: unknown, now: Date): Promise<NotificationHistoryEntry['status'] | null> {
+  try {
+    const state = await getFailureState(entry.channel, entry.retryCount + 2, true, now);
+    await updateNotificationHistory(entry.id, {
+      status: state.status,
+      nextRetryAt: state.nextRetryAt,
+      retryCount: entry.retryCount + 1,
+      lastRetryAt: now,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return state.status;
+  } catch (recordError) {
+    console.error(`[NotificationRetry] Failed to record the retry of notification ${entry.id}:`, recordError);
+    return null;
+  }
+}
+
+export function startNotificationRetryWorker(): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(() => {
+    processNotificationRetries().catch(error => {
+      console.error('[NotificationRetry] Retry run failed:', error);
+    });
+  }, RETRY_CHECK_INTERVAL_MS);
+}
+
+export function stopNotificationRetryWorker(): void {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
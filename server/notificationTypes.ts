@@ -0,0 +1,47 @@
+/**
+ * Notification Types - the events channels can subscribe to and their
+ * severities, shared by Telegram recipients and webhooks.
+ */
+
+import type { NotificationHistoryEntry } from '../drizzle/schema';
+
+export type NotificationEventType = NotificationHistoryEntry['type'];
+export type NotificationSeverity = NotificationHistoryEntry['severity'];
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'unknown_vehicle',
+  'blacklist_detected',
+  'unauthorized_access',
+  'manual_open',
+  'allowed_passage',
+  'overstay',
+  'medical_issue',
+  'medical_expiring',
+  'daily_summary',
+  'quiet_hours_summary',
+] as const satisfies readonly NotificationEventType[];
+
+export const SEVERITY_ORDER: NotificationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Event types a subscriber chose, empty meaning all of them
+ */
+export function parseEventTypes(value: string | null): NotificationEventType[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((type): type is NotificationEventType => (NOTIFICATION_EVENT_TYPES as readonly string[]).includes(type))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether an event passes a subscriber's event filter
+ */
+export function isSubscribedTo(eventTypes: string | null, type: NotificationEventType | undefined): boolean {
+  const subscribed = parseEventTypes(eventTypes);
+  return !type || subscribed.length === 0 || subscribed.includes(type);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getOnSitePassages: vi.fn(),
+  getLastDirectionalPassage: vi.fn(),
+  markOverstayNotified: vi.fn(),
+  getVehicleById: vi.fn(),
+}));
+
+vi.mock("./emailNotification", () => ({
+  notifyOverstay: vi.fn().mockResolvedValue(true),
+}));
+
+import * as db from "./db";
+import { notifyOverstay } from "./emailNotification";
+import { resolveDirection, getMaxStayMinutes, getOccupancy, checkOverstays } from "./occupancyService";
+
+const now = new Date("2026-03-02T12:00:00Z");
+
+function onSite(id: number, licensePlate: string, minutesAgo: number, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    licensePlate,
+    vehicleId: null,
+    photoUrl: null,
+    timestamp: new Date(now.getTime() - minutesAgo * 60000),
+    overstayNotifiedAt: null,
+    ...extra,
+  } as any;
+}
+
+describe("Occupancy Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getOnSitePassages).mockResolvedValue([]);
+  });
+
+  describe("resolveDirection", () => {
+    it("has no direction without a camera", async () => {
+      expect(await resolveDirection(null, "A123BC777")).toBeNull();
+    });
+
+    it("uses the lane of dedicated cameras", async () => {
+      expect(await resolveDirection({ lane: "entry" } as any, "A123BC777")).toBe("entry");
+      expect(await resolveDirection({ lane: "exit" } as any, "A123BC777")).toBe("exit");
+      expect(db.getLastDirectionalPassage).not.toHaveBeenCalled();
+    });
+
+    it("treats vehicles on site as leaving on bidirectional lanes", async () => {
+      vi.mocked(db.getLastDirectionalPassage).mockResolvedValue({ direction: "entry" } as any);
+      expect(await resolveDirection({ lane: "both" } as any, "A123BC777")).toBe("exit");
+    });
+
+    it("treats other vehicles as arriving on bidirectional lanes", async () => {
+      vi.mocked(db.getLastDirectionalPassage).mockResolvedValue({ direction: "exit" } as any);
+      expect(await resolveDirection({ lane: "both" } as any, "A123BC777")).toBe("entry");
+
+      vi.mocked(db.getLastDirectionalPassage).mockResolvedValue(null);
+      expect(await resolveDirection({ lane: "both" } as any, "A123BC777")).toBe("entry");
+    });
+  });
+
+  describe("getMaxStayMinutes", () => {
+    it("is disabled by default", async () => {
+      expect(await getMaxStayMinutes()).toBe(0);
+    });
+
+    it("reads the configured limit", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "max_stay_minutes", value: "240" } as any);
+      expect(await getMaxStayMinutes()).toBe(240);
+    });
+  });
+
+  describe("getOccupancy", () => {
+    it("computes dwell time and overstay", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "max_stay_minutes", value: "60" } as any);
+      vi.mocked(db.getOnSitePassages).mockResolvedValue([
+        onSite(1, "A123BC777", 90),
+        onSite(2, "B456DE99", 15),
+      ]);
+
+      const result = await getOccupancy(now);
+
+      expect(result.maxStayMinutes).toBe(60);
+      expect(result.vehicles).toEqual([
+        expect.objectContaining({ passageId: 1, dwellMinutes: 90, overstayed: true }),
+        expect.objectContaining({ passageId: 2, dwellMinutes: 15, overstayed: false }),
+      ]);
+    });
+
+    it("never flags overstay when the limit is off", async () => {
+      vi.mocked(db.getOnSitePassages).mockResolvedValue([onSite(1, "A123BC777", 10000)]);
+
+      const result = await getOccupancy(now);
+
+      expect(result.vehicles[0].overstayed).toBe(false);
+    });
+  });
+
+  describe("checkOverstays", () => {
+    it("alerts once per overstaying vehicle", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "max_stay_minutes", value: "60" } as any);
+      vi.mocked(db.getVehicleById).mockResolvedValue({ id: 3, ownerName: "Иванов" } as any);
+      vi.mocked(db.getOnSitePassages).mockResolvedValue([
+        onSite(1, "A123BC777", 90, { vehicleId: 3 }),
+        onSite(2, "B456DE99", 120, { overstayNotifiedAt: new Date() }),
+        onSite(3, "C789FG77", 30),
+      ]);
+
+      const result = await checkOverstays(now);
+
+      expect(result).toEqual({ notified: 1 });
+      expect(notifyOverstay).toHaveBeenCalledWith(expect.objectContaining({
+        licensePlate: "A123BC777",
+        ownerName: "Иванов",
+        dwellMinutes: 90,
+        maxStayMinutes: 60,
+      }));
+      expect(db.markOverstayNotified).toHaveBeenCalledWith(1);
+    });
+  });
+});
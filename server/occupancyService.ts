@@ -0,0 +1,120 @@
+/**
+ * Occupancy Service - entry/exit direction of passages, vehicles currently
+ * on site and maximum stay alerts
+ */
+
+import {
+  getSetting,
+  getOnSitePassages,
+  getLastDirectionalPassage,
+  markOverstayNotified,
+  getVehicleById,
+} from './db';
+import { notifyOverstay } from './emailNotification';
+import type { CameraIntegration } from '../drizzle/schema';
+
+export type Direction = 'entry' | 'exit';
+
+const OVERSTAY_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface OnSiteVehicle {
+  passageId: number;
+  licensePlate: string;
+  vehicleId: number | null;
+  photoUrl: string | null;
+  enteredAt: Date;
+  dwellMinutes: number;
+  overstayed: boolean;
+  overstayNotifiedAt: Date | null;
+}
+
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Direction of a read on the camera's lane. Bidirectional lanes toggle:
+ * a vehicle already on site is leaving, any other vehicle is arriving.
+ */
+export async function resolveDirection(camera: CameraIntegration | null, licensePlate: string): Promise<Direction | null> {
+  if (!camera) return null;
+  if (camera.lane === 'entry' || camera.lane === 'exit') return camera.lane;
+
+  const last = await getLastDirectionalPassage(licensePlate);
+  return last?.direction === 'entry' ? 'exit' : 'entry';
+}
+
+/**
+ * Maximum stay in minutes, 0 when alerts are disabled
+ */
+export async function getMaxStayMinutes(): Promise<number> {
+  const setting = await getSetting('max_stay_minutes');
+  const minutes = setting?.value ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+}
+
+/**
+ * Vehicles currently inside with their dwell time
+ */
+export async function getOccupancy(now = new Date()): Promise<{ vehicles: OnSiteVehicle[]; maxStayMinutes: number }> {
+  const maxStayMinutes = await getMaxStayMinutes();
+  const onSite = await getOnSitePassages();
+
+  const vehicles = onSite.map(passage => {
+    const dwellMinutes = Math.floor((now.getTime() - passage.timestamp.getTime()) / 60000);
+    return {
+      passageId: passage.id,
+      licensePlate: passage.licensePlate,
+      vehicleId: passage.vehicleId,
+      photoUrl: passage.photoUrl,
+      enteredAt: passage.timestamp,
+      dwellMinutes,
+      overstayed: maxStayMinutes > 0 && dwellMinutes > maxStayMinutes,
+      overstayNotifiedAt: passage.overstayNotifiedAt,
+    };
+  });
+
+  return { vehicles, maxStayMinutes };
+}
+
+/**
+ * Alert once for every vehicle that exceeded the maximum stay
+ */
+export async function checkOverstays(now = new Date()): Promise<{ notified: number }> {
+  const { vehicles, maxStayMinutes } = await getOccupancy(now);
+  let notified = 0;
+
+  for (const vehicle of vehicles) {
+    if (!vehicle.overstayed || vehicle.overstayNotifiedAt) continue;
+
+    const owner = vehicle.vehicleId ? await getVehicleById(vehicle.vehicleId) : null;
+    await notifyOverstay({
+      passageId: vehicle.passageId,
+      licensePlate: vehicle.licensePlate,
+      ownerName: owner?.ownerName || undefined,
+      enteredAt: vehicle.enteredAt,
+      dwellMinutes: vehicle.dwellMinutes,
+      maxStayMinutes,
+    });
+    await markOverstayNotified(vehicle.passageId);
+    notified++;
+  }
+
+  return { notified };
+}
+
+/**
+ * Periodically check for vehicles exceeding the maximum stay
+ */
+export function startOverstayMonitor(): void {
+  if (monitorTimer) return;
+
+  monitorTimer = setInterval(() => {
+    checkOverstays().catch(error => {
+      console.error('[Occupancy] Overstay check failed:', error);
+    });
+  }, OVERSTAY_CHECK_INTERVAL_MS);
+}
+
+export function stopOverstayMonitor(): void {
+  if (monitorTimer) clearInterval(monitorTimer);
+  monitorTimer = null;
+}
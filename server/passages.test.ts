@@ -20,7 +20,20 @@ vi.mock("./emailNotification", () => ({
   notifyManualBarrierOpen: vi.fn().mockResolvedValue(true),
 }));
 
+// Mock the barrier hardware integration
+vi.mock("./integrationService", () => ({
+  executeBarrierCommand: vi.fn(),
+  executePrimaryBarrierCommand: vi.fn(),
+  openBarrier: vi.fn(),
+  getCameraSnapshot: vi.fn(),
+  getCameraStreamInfo: vi.fn(),
+  getPrimaryCameraSnapshot: vi.fn(),
+  testBarrierConnection: vi.fn(),
+  testCameraConnection: vi.fn(),
+}));
+
 import * as db from "./db";
+import { openBarrier } from "./integrationService";
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
@@ -167,19 +180,52 @@ describe("barrier router", () => {
   describe("barrier.open", () => {
     it("opens barrier when confirmed", async () => {
       vi.mocked(db.logBarrierAction).mockResolvedValue(true);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true, status: "opening" });
 
       const ctx = createUserContext();
       const caller = appRouter.createCaller(ctx);
 
       const result = await caller.barrier.open({ confirm: true });
 
-      expect(result).toEqual({ success: true, message: "Barrier opened successfully" });
+      expect(result).toEqual({ success: true, message: "Barrier opened successfully", status: "opening" });
+      expect(openBarrier).toHaveBeenCalledWith(undefined);
       expect(db.logBarrierAction).toHaveBeenCalledWith({
         action: "open",
         triggeredBy: "manual",
         userId: 1,
         passageId: undefined,
         success: true,
+        errorMessage: undefined,
+      });
+    });
+
+    it("uses the selected barrier integration", async () => {
+      vi.mocked(db.logBarrierAction).mockResolvedValue(true);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const ctx = createUserContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await caller.barrier.open({ confirm: true, integrationId: 7 });
+
+      expect(openBarrier).toHaveBeenCalledWith(7);
+    });
+
+    it("logs and reports hardware failures", async () => {
+      vi.mocked(db.logBarrierAction).mockResolvedValue(true);
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "Connection timeout" });
+
+      const ctx = createUserContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.barrier.open({ confirm: true })).rejects.toThrow("Failed to open barrier: Connection timeout");
+      expect(db.logBarrierAction).toHaveBeenCalledWith({
+        action: "open",
+        triggeredBy: "manual",
+        userId: 1,
+        passageId: undefined,
+        success: false,
+        errorMessage: "Connection timeout",
       });
     });
 
@@ -192,6 +238,7 @@ describe("barrier router", () => {
 
     it("logs barrier action with passage id", async () => {
       vi.mocked(db.logBarrierAction).mockResolvedValue(true);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
 
       const ctx = createUserContext();
       const caller = appRouter.createCaller(ctx);
@@ -204,6 +251,7 @@ describe("barrier router", () => {
         userId: 1,
         passageId: 123,
         success: true,
+        errorMessage: undefined,
       });
     });
   });
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+}));
+
+import * as db from "./db";
+import {
+  canonicalizePlate,
+  detectPlateFormat,
+  getEnabledPlateGroups,
+  parsePlate,
+  PLATE_FORMATS,
+} from "./plateFormats";
+
+describe("Plate Formats", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+  });
+
+  describe("canonicalizePlate", () => {
+    it("removes separators and folds Cyrillic letters", () => {
+      expect(canonicalizePlate("а 123 вс-77")).toBe("A123BC77");
+      expect(canonicalizePlate("ab-123.cd")).toBe("AB123CD");
+    });
+  });
+
+  describe("detectPlateFormat", () => {
+    it("accepts every registered example", () => {
+      for (const format of PLATE_FORMATS) {
+        expect(detectPlateFormat(format.example, [format.group])?.format.id).toBe(format.id);
+      }
+    });
+
+    it("records the Russian subject code as region", () => {
+      expect(detectPlateFormat("А123ВС777")?.region).toBe("RU-777");
+      expect(detectPlateFormat("AB12350")?.region).toBe("RU-50");
+    });
+
+    it("uses the country for formats without a region", () => {
+      expect(detectPlateFormat("AB-123-CD")?.region).toBe("FR");
+      expect(detectPlateFormat("7ABC123")?.region).toBe("US-CA");
+    });
+
+    it("rejects impossible reads", () => {
+      expect(detectPlateFormat("A1")).toBeNull();
+      expect(detectPlateFormat("A123BC00")).toBeNull();
+      expect(detectPlateFormat("Ж123ЖЖ77")).toBeNull();
+    });
+
+    it("only considers the given groups", () => {
+      expect(detectPlateFormat("ABC1234", ["US"])?.format.id).toBe("us_standard");
+      expect(detectPlateFormat("A123BC77", ["EU", "US"])).toBeNull();
+    });
+  });
+
+  describe("getEnabledPlateGroups", () => {
+    it("is empty by default", async () => {
+      expect(await getEnabledPlateGroups()).toEqual([]);
+    });
+
+    it("reads the configured groups and ignores unknown ones", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "plate_regions", value: "ru, us,XX" } as any);
+
+      expect(await getEnabledPlateGroups()).toEqual(["RU", "US"]);
+    });
+  });
+
+  describe("parsePlate", () => {
+    it("accepts any plate when no group is enabled", () => {
+      expect(parsePlate("te st", [])).toEqual({ plate: "TEST", format: null, region: null, valid: true });
+    });
+
+    it("rejects empty plates", () => {
+      expect(parsePlate(" - ", []).valid).toBe(false);
+    });
+
+    it("validates against the enabled groups", () => {
+      expect(parsePlate("a123bc77", ["RU"])).toMatchObject({ plate: "A123BC77", region: "RU-77", valid: true });
+      expect(parsePlate("ABC1234", ["RU"])).toMatchObject({ valid: false, region: null });
+    });
+  });
+});
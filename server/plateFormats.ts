@@ -0,0 +1,177 @@
+/**
+ * Plate Formats - registry of national plate layouts used to validate and
+ * canonicalise plates entered by operators, imported from CSV or read by
+ * recognizers. Validation is limited to the regions enabled in settings;
+ * with none enabled any plate is accepted.
+ */
+
+import { getSetting } from './db';
+import { foldHomoglyphs } from './plateMatching';
+
+export type PlateRegionGroup = 'RU' | 'EU' | 'US';
+
+export const PLATE_REGION_GROUPS: PlateRegionGroup[] = ['RU', 'EU', 'US'];
+
+export interface PlateFormat {
+  id: string;
+  group: PlateRegionGroup;
+  country: string;
+  name: string;
+  example: string;
+  /** Matches the canonical plate; a `region` group is appended to the country code */
+  pattern: RegExp;
+}
+
+export interface ParsedPlate {
+  plate: string;
+  format: PlateFormat | null;
+  region: string | null;
+  valid: boolean;
+}
+
+// Letters with Latin look-alikes, the only ones allowed on Russian plates
+const RU_LETTER = '[ABEKMHOPCTYX]';
+// Subject code: 01-99 or a three-digit code
+const RU_REGION = '(?<region>0[1-9]|[1-9]\\d|[1-9]\\d{2})';
+
+export const PLATE_FORMATS: PlateFormat[] = [
+  {
+    id: 'ru_private',
+    group: 'RU',
+    country: 'RU',
+    name: 'Russia - private',
+    example: 'A123BC77',
+    pattern: new RegExp(`^${RU_LETTER}\\d{3}${RU_LETTER}{2}${RU_REGION}$`),
+  },
+  {
+    id: 'ru_taxi',
+    group: 'RU',
+    country: 'RU',
+    name: 'Russia - taxi',
+    example: 'AB12377',
+    pattern: new RegExp(`^${RU_LETTER}{2}\\d{3}${RU_REGION}$`),
+  },
+  {
+    id: 'ru_trailer',
+    group: 'RU',
+    country: 'RU',
+    name: 'Russia - trailer',
+    example: 'AB1234777',
+    pattern: new RegExp(`^${RU_LETTER}{2}\\d{4}${RU_REGION}$`),
+  },
+  {
+    id: 'ru_motorcycle',
+    group: 'RU',
+    country: 'RU',
+    name: 'Russia - motorcycle',
+    example: '1234AB77',
+    pattern: new RegExp(`^\\d{4}${RU_LETTER}{2}${RU_REGION}$`),
+  },
+  {
+    id: 'fr',
+    group: 'EU',
+    country: 'FR',
+    name: 'France',
+    example: 'AB123CD',
+    pattern: /^[A-HJ-NP-TV-Z]{2}\d{3}[A-HJ-NP-TV-Z]{2}$/,
+  },
+  {
+    id: 'es',
+    group: 'EU',
+    country: 'ES',
+    name: 'Spain',
+    example: '1234BCD',
+    pattern: /^\d{4}[BCDFGHJKLMNPRSTVWXYZ]{3}$/,
+  },
+  {
+    id: 'de',
+    group: 'EU',
+    country: 'DE',
+    name: 'Germany',
+    example: 'BMW1234',
+    pattern: /^[A-ZÄÖÜ]{1,3}[A-Z]{1,2}[1-9]\d{0,3}[EH]?$/,
+  },
+  {
+    id: 'us_ca',
+    group: 'US',
+    country: 'US-CA',
+    name: 'United States - California',
+    example: '7ABC123',
+    pattern: /^[1-9][A-Z]{3}\d{3}$/,
+  },
+  {
+    id: 'us_standard',
+    group: 'US',
+    country: 'US',
+    name: 'United States - ABC1234 / ABC123',
+    example: 'ABC1234',
+    pattern: /^[A-Z]{3}\d{3,4}$/,
+  },
+  {
+    id: 'us_numeric_first',
+    group: 'US',
+    country: 'US',
+    name: 'United States - 123ABC',
+    example: '123ABC',
+    pattern: /^\d{3}[A-Z]{3}$/,
+  },
+  {
+    id: 'us_florida',
+    group: 'US',
+    country: 'US',
+    name: 'United States - ABCD12',
+    example: 'ABCD12',
+    pattern: /^[A-Z]{4}\d{2}$/,
+  },
+];
+
+/**
+ * Uppercase plate without spaces or separators, Cyrillic look-alikes in Latin
+ */
+export function canonicalizePlate(plate: string): string {
+  return foldHomoglyphs(plate).replace(/[-.·_]/g, '');
+}
+
+/**
+ * First format of the given groups the plate fits, with the detected region
+ */
+export function detectPlateFormat(
+  plate: string,
+  groups: PlateRegionGroup[] = PLATE_REGION_GROUPS
+): { format: PlateFormat; region: string } | null {
+  const canonical = canonicalizePlate(plate);
+  for (const format of PLATE_FORMATS) {
+    if (!groups.includes(format.group)) continue;
+    const match = canonical.match(format.pattern);
+    if (match) {
+      const region = match.groups?.region;
+      return { format, region: region ? `${format.country}-${region}` : format.country };
+    }
+  }
+  return null;
+}
+
+/**
+ * Region groups plates are validated against, empty when validation is off
+ */
+export async function getEnabledPlateGroups(): Promise<PlateRegionGroup[]> {
+  const setting = await getSetting('plate_regions');
+  if (!setting?.value) return [];
+
+  const values = setting.value.split(',').map(value => value.trim().toUpperCase());
+  return PLATE_REGION_GROUPS.filter(group => values.includes(group));
+}
+
+/**
+ * Canonicalise a plate and check it against the enabled groups
+ */
+export function parsePlate(plate: string, groups: PlateRegionGroup[]): ParsedPlate {
+  const canonical = canonicalizePlate(plate);
+  const detected = detectPlateFormat(canonical, groups.length > 0 ? groups : PLATE_REGION_GROUPS);
+  return {
+    plate: canonical,
+    format: detected?.format ?? null,
+    region: detected?.region ?? null,
+    valid: canonical.length > 0 && (groups.length === 0 || detected !== null),
+  };
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getVehicleByPlate: vi.fn(),
+  getAllVehicles: vi.fn(),
+  isPlateBlacklisted: vi.fn(),
+  getAllBlacklistEntries: vi.fn(),
+  getUsableGuestPass: vi.fn(),
+  getGuestPassForExit: vi.fn(),
+  getGuestPasses: vi.fn(),
+}));
+
+import * as db from "./db";
+import {
+  foldHomoglyphs,
+  parseConfusablePairs,
+  getPlateMatchConfig,
+  editDistance,
+  comparePlates,
+  findBestPlateMatch,
+  findVehicleByPlate,
+  findBlacklistEntry,
+  findGuestPassForExit,
+  clearVehiclePlateCache,
+  DEFAULT_CONFUSABLE_PAIRS,
+  type PlateMatchConfig,
+} from "./plateMatching";
+
+const config: PlateMatchConfig = {
+  confusables: parseConfusablePairs(DEFAULT_CONFUSABLE_PAIRS),
+  maxEditDistance: 1,
+};
+
+describe("Plate Matching", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+    vi.mocked(db.isPlateBlacklisted).mockResolvedValue(null);
+    vi.mocked(db.getGuestPassForExit).mockResolvedValue(null);
+    clearVehiclePlateCache();
+  });
+
+  describe("foldHomoglyphs", () => {
+    it("maps Cyrillic plate letters to Latin", () => {
+      expect(foldHomoglyphs("а 123 вс 77")).toBe("A123BC77");
+    });
+
+    it("keeps other characters", () => {
+      expect(foldHomoglyphs("Ж123")).toBe("Ж123");
+    });
+  });
+
+  describe("parseConfusablePairs", () => {
+    it("groups characters sharing a pair", () => {
+      const groups = parseConfusablePairs("O0,D0,B8");
+
+      expect(groups.get("D")).toBe(groups.get("O"));
+      expect(groups.get("0")).toBe(groups.get("O"));
+      expect(groups.get("8")).toBe("B");
+    });
+
+    it("ignores malformed pairs", () => {
+      expect(parseConfusablePairs("O,XYZ,AA, ").size).toBe(0);
+    });
+  });
+
+  describe("getPlateMatchConfig", () => {
+    it("uses defaults without settings", async () => {
+      const result = await getPlateMatchConfig();
+
+      expect(result.maxEditDistance).toBe(0);
+      expect(result.confusables.get("0")).toBe(result.confusables.get("O"));
+    });
+
+    it("reads the configured pairs and distance", async () => {
+      vi.mocked(db.getSetting).mockImplementation(async (key: string) =>
+        ({ key, value: key === "plate_max_edit_distance" ? "2" : "B8" }) as any
+      );
+
+      const result = await getPlateMatchConfig();
+
+      expect(result.maxEditDistance).toBe(2);
+      expect(result.confusables.has("O")).toBe(false);
+      expect(result.confusables.get("8")).toBe("B");
+    });
+  });
+
+  describe("editDistance", () => {
+    it("counts insertions, deletions and substitutions", () => {
+      expect(editDistance("A123BC77", "A123BC77")).toBe(0);
+      expect(editDistance("A123BC77", "A123BC777")).toBe(1);
+      expect(editDistance("A123BC77", "A124BD77")).toBe(2);
+    });
+  });
+
+  describe("comparePlates", () => {
+    it("classifies exact, homoglyph and confusable matches", () => {
+      expect(comparePlates("a123bc77", "A123BC77", config)).toEqual({ plate: "A123BC77", type: "exact", distance: 0 });
+      expect(comparePlates("A123BC77", "А123ВС77", config)).toEqual({ plate: "А123ВС77", type: "homoglyph", distance: 0 });
+      expect(comparePlates("8123BC77", "B123BC77", config)).toEqual({ plate: "B123BC77", type: "confusable", distance: 1 });
+    });
+
+    it("accepts a small edit distance on long plates", () => {
+      expect(comparePlates("A123BC7", "A123BC77", config)).toEqual({ plate: "A123BC77", type: "fuzzy", distance: 1 });
+      expect(comparePlates("A12BC7", "A123BC77", config)).toBeNull();
+    });
+
+    it("does not edit short plates", () => {
+      expect(comparePlates("AB123", "AB124", config)).toBeNull();
+    });
+
+    it("can disable edit distance", () => {
+      expect(comparePlates("A123BC7", "A123BC77", { ...config, maxEditDistance: 0 })).toBeNull();
+    });
+  });
+
+  describe("findBestPlateMatch", () => {
+    const plates = (...values: string[]) => values.map(licensePlate => ({ licensePlate }));
+
+    it("prefers the closest match", () => {
+      const result = findBestPlateMatch("A123BC77", plates("A123BC78", "А123ВС77"), p => p.licensePlate, config);
+
+      expect(result?.match).toEqual({ plate: "А123ВС77", type: "homoglyph", distance: 0 });
+    });
+
+    it("rejects ambiguous inexact matches", () => {
+      expect(findBestPlateMatch("A123BC77", plates("A123BC78", "A123BC79"), p => p.licensePlate, config)).toBeNull();
+    });
+
+    it("does not treat the same plate twice as ambiguous", () => {
+      const result = findBestPlateMatch("A123BC7", plates("A123BC77", "А123ВС77"), p => p.licensePlate, config);
+
+      expect(result?.match.type).toBe("fuzzy");
+    });
+  });
+
+  describe("lookups", () => {
+    it("returns exact vehicle matches without scanning", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 1, licensePlate: "A123BC77" } as any);
+
+      const result = await findVehicleByPlate("A123BC77", config);
+
+      expect(result?.match.type).toBe("exact");
+      expect(db.getAllVehicles).not.toHaveBeenCalled();
+    });
+
+    it("falls back to inactive vehicles too", async () => {
+      const vehicle = { id: 2, licensePlate: "А123ВС77", isActive: false } as any;
+      vi.mocked(db.getAllVehicles).mockResolvedValue([vehicle]);
+      vi.mocked(db.getVehicleByPlate).mockImplementation(async (plate: string) => plate === "А123ВС77" ? vehicle : null);
+
+      const result = await findVehicleByPlate("A123BC77", config);
+
+      expect(db.getAllVehicles).toHaveBeenCalledWith(true);
+      expect(result?.item.id).toBe(2);
+    });
+
+    it("keeps the registered plates between reads and loads the matched vehicle fresh", async () => {
+      vi.mocked(db.getAllVehicles).mockResolvedValue([{ id: 2, licensePlate: "А123ВС77", isActive: true } as any]);
+      vi.mocked(db.getVehicleByPlate).mockImplementation(async (plate: string) =>
+        plate === "А123ВС77" ? { id: 2, licensePlate: plate, isActive: false } as any : null
+      );
+
+      await findVehicleByPlate("A123BC77", config);
+      const result = await findVehicleByPlate("A123BC77", config);
+
+      expect(db.getAllVehicles).toHaveBeenCalledTimes(1);
+      expect(result?.item.isActive).toBe(false);
+
+      clearVehiclePlateCache();
+      vi.mocked(db.getAllVehicles).mockResolvedValue([]);
+      expect(await findVehicleByPlate("A123BC77", config)).toBeNull();
+    });
+
+    it("skips expired blacklist entries", async () => {
+      vi.mocked(db.getAllBlacklistEntries).mockResolvedValue([
+        { id: 1, licensePlate: "А123ВС77", expiresAt: new Date(Date.now() - 1000) } as any,
+      ]);
+
+      expect(await findBlacklistEntry("A123BC77", config)).toBeNull();
+    });
+
+    it("finds the exit pass of the closest guest plate", async () => {
+      vi.mocked(db.getGuestPasses).mockResolvedValue([
+        { id: 4, licensePlate: "K456MM199", status: "exhausted", usedEntries: 1 } as any,
+      ]);
+      vi.mocked(db.getGuestPassForExit).mockImplementation(async (plate: string) =>
+        plate === "K456MM199" ? { id: 4, licensePlate: plate } as any : null
+      );
+
+      const result = await findGuestPassForExit("K456MMI99", config);
+
+      expect(db.getGuestPasses).toHaveBeenCalledWith(true);
+      expect(result).toMatchObject({ item: { id: 4 }, match: { type: "confusable", distance: 1 } });
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Plate Matching - tolerant comparison of OCR reads against stored plates.
+ * Cyrillic letters are folded to their Latin look-alikes, configurable
+ * confusable characters (O/0, B/8, ...) are treated as equal and, once
+ * configured, a small edit distance is accepted for longer plates.
+ */
+
+import {
+  getSetting,
+  getVehicleByPlate,
+  getAllVehicles,
+  isPlateBlacklisted,
+  getAllBlacklistEntries,
+  getUsableGuestPass,
+  getGuestPassForExit,
+  getGuestPasses,
+} from './db';
+import type { BlacklistEntry, GuestPass, Vehicle } from '../drizzle/schema';
+
+export type PlateMatchType = 'exact' | 'homoglyph' | 'confusable' | 'fuzzy';
+
+export interface PlateMatch {
+  plate: string;
+  type: PlateMatchType;
+  distance: number;
+}
+
+export interface PlateLookup<T> {
+  item: T;
+  match: PlateMatch;
+}
+
+export interface PlateMatchConfig {
+  confusables: Map<string, string>;
+  maxEditDistance: number;
+}
+
+export const DEFAULT_CONFUSABLE_PAIRS = 'O0,D0,Q0,B8,I1,S5,Z2,G6';
+// Off by default: a plate one character away from a registered one is another car
+const DEFAULT_MAX_EDIT_DISTANCE = 0;
+// Shorter plates differ in too few characters for an edit distance to be meaningful
+const MIN_FUZZY_LENGTH = 6;
+// Registered plates are scanned on every unmatched read, so the list is kept this long
+const VEHICLE_PLATES_TTL_MS = 30_000;
+
+let vehiclePlates: { plates: string[]; loadedAt: number } | null = null;
+
+const MATCH_RANK: Record<PlateMatchType, number> = { exact: 0, homoglyph: 1, confusable: 2, fuzzy: 3 };
+
+// Cyrillic letters used on Russian plates and their Latin look-alikes
+const HOMOGLYPHS: Record<string, string> = {
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H',
+  'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T', 'У': 'Y', 'Х': 'X',
+};
+
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/\s/g, '');
+}
+
+/**
+ * Normalized plate with Cyrillic homoglyphs replaced by Latin letters
+ */
+export function foldHomoglyphs(plate: string): string {
+  return Array.from(normalizePlate(plate), char => HOMOGLYPHS[char] ?? char).join('');
+}
+
+/**
+ * Parse "O0,B8" style pairs into a map from each character to the
+ * representative of its group; pairs sharing a character form one group.
+ */
+export function parseConfusablePairs(value: string): Map<string, string> {
+  const parent = new Map<string, string>();
+  const find = (char: string): string => {
+    const next = parent.get(char);
+    if (!next || next === char) return char;
+    const root = find(next);
+    parent.set(char, root);
+    return root;
+  };
+
+  for (const pair of value.split(',')) {
+    const chars = Array.from(foldHomoglyphs(pair));
+    if (chars.length !== 2 || chars[0] === chars[1]) continue;
+    for (const char of chars) {
+      if (!parent.has(char)) parent.set(char, char);
+    }
+    parent.set(find(chars[1]), find(chars[0]));
+  }
+
+  const groups = new Map<string, string>();
+  for (const char of Array.from(parent.keys())) {
+    groups.set(char, find(char));
+  }
+  return groups;
+}
+
+export async function getPlateMatchConfig(): Promise<PlateMatchConfig> {
+  const pairs = await getSetting('plate_confusable_pairs');
+  const distance = await getSetting('plate_max_edit_distance');
+  const maxEditDistance = distance?.value ? parseInt(distance.value, 10) : NaN;
+
+  return {
+    confusables: parseConfusablePairs(pairs?.value ?? DEFAULT_CONFUSABLE_PAIRS),
+    maxEditDistance: Number.isFinite(maxEditDistance) && maxEditDistance >= 0
+      ? maxEditDistance
+      : DEFAULT_MAX_EDIT_DISTANCE,
+  };
+}
+
+function foldConfusables(plate: string, confusables: Map<string, string>): string {
+  return Array.from(plate, char => confusables.get(char) ?? char).join('');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[right.length];
+}
+
+/**
+ * How a read matches a stored plate, null when they are too different
+ */
+export function comparePlates(read: string, stored: string, config: PlateMatchConfig): PlateMatch | null {
+  const plate = normalizePlate(stored);
+  if (normalizePlate(read) === plate) return { plate, type: 'exact', distance: 0 };
+
+  const foldedRead = foldHomoglyphs(read);
+  const foldedStored = foldHomoglyphs(stored);
+  if (foldedRead === foldedStored) return { plate, type: 'homoglyph', distance: 0 };
+
+  const canonicalRead = foldConfusables(foldedRead, config.confusables);
+  const canonicalStored = foldConfusables(foldedStored, config.confusables);
+  if (canonicalRead === canonicalStored) {
+    return { plate, type: 'confusable', distance: editDistance(foldedRead, foldedStored) };
+  }
+
+  if (config.maxEditDistance === 0 ||
+    Math.min(canonicalRead.length, canonicalStored.length) < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+  const distance = editDistance(canonicalRead, canonicalStored);
+  return distance <= config.maxEditDistance ? { plate, type: 'fuzzy', distance } : null;
+}
+
+/**
+ * The read names the stored plate itself, only differing in alphabet
+ */
+export function isExactMatch(match: PlateMatch): boolean {
+  return match.type === 'exact' || match.type === 'homoglyph';
+}
+
+/**
+ * Closest candidate for a read. Inexact matches tied with a different plate
+ * are ambiguous and return null rather than guessing.
+ */
+export function findBestPlateMatch<T>(
+  read: string,
+  candidates: T[],
+  getPlate: (candidate: T) => string,
+  config: PlateMatchConfig
+): PlateLookup<T> | null {
+  let best: PlateLookup<T> | null = null;
+  let ambiguous = false;
+
+  for (const item of candidates) {
+    const match = comparePlates(read, getPlate(item), config);
+    if (!match) continue;
+
+    const order = best
+      ? MATCH_RANK[match.type] - MATCH_RANK[best.match.type] || match.distance - best.match.distance
+      : -1;
+    if (order < 0) {
+      best = { item, match };
+      ambiguous = false;
+    } else if (order === 0 && best && foldHomoglyphs(match.plate) !== foldHomoglyphs(best.match.plate)) {
+      ambiguous = true;
+    }
+  }
+
+  return best && ambiguous && !isExactMatch(best.match) ? null : best;
+}
+
+/**
+ * Vehicle with the plate closest to the read, inactive ones included. Inexact
+ * reads are matched against a briefly cached list of plates and the vehicle
+ * is then loaded fresh.
+ */
+export async function findVehicleByPlate(read: string, config: PlateMatchConfig): Promise<PlateLookup<Vehicle> | null> {
+  const exact = await getVehicleByPlate(read);
+  if (exact) return { item: exact, match: { plate: exact.licensePlate, type: 'exact', distance: 0 } };
+
+  const closest = findBestPlateMatch(read, await getVehiclePlates(), plate => plate, config);
+  if (!closest) return null;
+
+  const vehicle = await getVehicleByPlate(closest.match.plate);
+  return vehicle ? { item: vehicle, match: closest.match } : null;
+}
+
+async function getVehiclePlates(): Promise<string[]> {
+  const now = Date.now();
+  if (!vehiclePlates || now - vehiclePlates.loadedAt >= VEHICLE_PLATES_TTL_MS) {
+    const vehicles = await getAllVehicles(true);
+    vehiclePlates = { plates: vehicles.map(vehicle => vehicle.licensePlate), loadedAt: now };
+  }
+  return vehiclePlates.plates;
+}
+
+/**
+ * Forget the cached plates, e.g. after vehicles were added or removed
+ */
+export function clearVehiclePlateCache(): void {
+  vehiclePlates = null;
+}
+
+/**
+ * Active blacklist entry closest to the read. Inexact matches are only a
+ * suspicion: a registered vehicle matching the same read takes precedence.
+ */
+export async function findBlacklistEntry(read: string, config: PlateMatchConfig): Promise<PlateLookup<BlacklistEntry> | null> {
+  const exact = await isPlateBlacklisted(read);
+  if (exact) return { item: exact, match: { plate: exact.licensePlate, type: 'exact', distance: 0 } };
+
+  const now = new Date();
+  const entries = (await getAllBlacklistEntries()).filter(entry => !entry.expiresAt || entry.expiresAt >= now);
+  return findBestPlateMatch(read, entries, entry => entry.licensePlate, config);
+}
+
+/**
+ * Usable guest pass for the plate closest to the read
+ */
+export async function findUsableGuestPass(read: string, at: Date, config: PlateMatchConfig): Promise<PlateLookup<GuestPass> | null> {
+  const exact = await getUsableGuestPass(read, at);
+  if (exact) return { item: exact, match: { plate: exact.licensePlate, type: 'exact', distance: 0 } };
+
+  const closest = findBestPlateMatch(read, await getGuestPasses(), pass => pass.licensePlate, config);
+  if (!closest || closest.match.type === 'exact') return null;
+
+  const pass = await getUsableGuestPass(closest.match.plate, at);
+  return pass ? { item: pass, match: closest.match } : null;
+}
+
+/**
+ * Guest pass used to enter, for the plate closest to the read
+ */
+export async function findGuestPassForExit(read: string, config: PlateMatchConfig): Promise<PlateLookup<GuestPass> | null> {
+  const exact = await getGuestPassForExit(read);
+  if (exact) return { item: exact, match: { plate: exact.licensePlate, type: 'exact', distance: 0 } };
+
+  const entered = (await getGuestPasses(true)).filter(pass => pass.status !== 'revoked' && pass.usedEntries > 0);
+  const closest = findBestPlateMatch(read, entered, pass => pass.licensePlate, config);
+  if (!closest || closest.match.type === 'exact') return null;
+
+  const pass = await getGuestPassForExit(closest.match.plate);
+  return pass ? { item: pass, match: closest.match } : null;
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the LLM client
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+// Mock axios
+vi.mock("axios", () => ({
+  default: vi.fn(),
+}));
+
+import axios from "axios";
+import { invokeLLM } from "./_core/llm";
+import {
+  createLlmRecognizer,
+  createLocalHttpRecognizer,
+  getRecognizersForCamera,
+  parseProviderOrder,
+  recognizePlate,
+  type PlateRecognizer,
+} from "./plateRecognition";
+
+function llmResponse(content: string) {
+  return { choices: [{ message: { content } }] } as any;
+}
+
+describe("Plate Recognition", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parseProviderOrder", () => {
+    it("parses a comma-separated provider list", () => {
+      expect(parseProviderOrder("local_http, llm")).toEqual(["local_http", "llm"]);
+    });
+
+    it("drops unknown and duplicate providers", () => {
+      expect(parseProviderOrder("llm,foo,llm")).toEqual(["llm"]);
+    });
+
+    it("defaults to the LLM provider", () => {
+      expect(parseProviderOrder(null)).toEqual(["llm"]);
+      expect(parseProviderOrder("")).toEqual(["llm"]);
+    });
+  });
+
+  describe("getRecognizersForCamera", () => {
+    it("uses the LLM when no camera is configured", () => {
+      const recognizers = getRecognizersForCamera(null);
+      expect(recognizers.map(r => r.provider)).toEqual(["llm"]);
+    });
+
+    it("builds the configured fallback chain", () => {
+      const recognizers = getRecognizersForCamera({
+        recognitionProviders: "local_http,llm",
+        recognitionEndpoint: "http://alpr.local/recognize",
+      } as any);
+      expect(recognizers.map(r => r.provider)).toEqual(["local_http", "llm"]);
+    });
+
+    it("skips the local provider when no endpoint is set", () => {
+      const recognizers = getRecognizersForCamera({
+        recognitionProviders: "local_http",
+        recognitionEndpoint: null,
+      } as any);
+      expect(recognizers.map(r => r.provider)).toEqual(["llm"]);
+    });
+  });
+
+  describe("createLlmRecognizer", () => {
+    it("parses the LLM JSON response", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse('{"plate":"A123BC777","confidence":91}'));
+
+      const result = await createLlmRecognizer().recognize("base64");
+
+      expect(result).toEqual({ plate: "A123BC777", confidence: 91 });
+    });
+
+    it("throws when the LLM returns no content", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(""));
+
+      await expect(createLlmRecognizer().recognize("base64")).rejects.toThrow("No response from recognition service");
+    });
+  });
+
+  describe("createLocalHttpRecognizer", () => {
+    it("reads a plain plate response", async () => {
+      vi.mocked(axios).mockResolvedValue({ data: { plate: "B456DE99", confidence: 87.6 } } as any);
+
+      const result = await createLocalHttpRecognizer("http://alpr.local/recognize").recognize("base64");
+
+      expect(result).toEqual({ plate: "B456DE99", confidence: 88 });
+      expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+        method: "POST",
+        url: "http://alpr.local/recognize",
+        data: { image: "base64" },
+      }));
+    });
+
+    it("reads an OpenALPR-style response", async () => {
+      vi.mocked(axios).mockResolvedValue({ data: { results: [{ plate: "C789FG77", confidence: 75 }] } } as any);
+
+      const result = await createLocalHttpRecognizer("http://alpr.local/recognize").recognize("base64");
+
+      expect(result).toEqual({ plate: "C789FG77", confidence: 75 });
+    });
+
+    it("returns no plate for empty results", async () => {
+      vi.mocked(axios).mockResolvedValue({ data: { results: [] } } as any);
+
+      const result = await createLocalHttpRecognizer("http://alpr.local/recognize").recognize("base64");
+
+      expect(result).toEqual({ plate: null, confidence: 0 });
+    });
+  });
+
+  describe("recognizePlate", () => {
+    const stub = (provider: "llm" | "local_http", impl: () => Promise<any>): PlateRecognizer => ({
+      provider,
+      recognize: vi.fn(impl),
+    });
+
+    it("returns the first provider that reads a plate", async () => {
+      const local = stub("local_http", async () => ({ plate: "A123BC777", confidence: 80 }));
+      const llm = stub("llm", async () => ({ plate: "A123BC777", confidence: 95 }));
+
+      const result = await recognizePlate("base64", [local, llm]);
+
+      expect(result.plate).toBe("A123BC777");
+      expect(result.provider).toBe("local_http");
+      expect(result.attempts).toHaveLength(1);
+      expect(llm.recognize).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the next provider on error", async () => {
+      const local = stub("local_http", async () => { throw new Error("ECONNREFUSED"); });
+      const llm = stub("llm", async () => ({ plate: "A123BC777", confidence: 95 }));
+
+      const result = await recognizePlate("base64", [local, llm]);
+
+      expect(result.provider).toBe("llm");
+      expect(result.attempts).toHaveLength(2);
+      expect(result.attempts[0]).toMatchObject({ provider: "local_http", plate: null, error: "ECONNREFUSED" });
+    });
+
+    it("falls back when a provider reads no plate", async () => {
+      const local = stub("local_http", async () => ({ plate: null, confidence: 0 }));
+      const llm = stub("llm", async () => ({ plate: "A123BC777", confidence: 95 }));
+
+      const result = await recognizePlate("base64", [local, llm]);
+
+      expect(result.provider).toBe("llm");
+      expect(result.attempts.map(a => a.provider)).toEqual(["local_http", "llm"]);
+    });
+
+    it("returns an empty read when no provider finds a plate", async () => {
+      const llm = stub("llm", async () => ({ plate: null, confidence: 0 }));
+
+      const result = await recognizePlate("base64", [llm]);
+
+      expect(result.plate).toBeNull();
+      expect(result.provider).toBe("llm");
+    });
+
+    it("skips reads the validator rejects", async () => {
+      const local = stub("local_http", async () => ({ plate: "A1", confidence: 60 }));
+      const llm = stub("llm", async () => ({ plate: "a 123 bc 777", confidence: 95 }));
+      const validate = (plate: string) => plate.length > 4 ? plate.toUpperCase().replace(/\s/g, "") : null;
+
+      const result = await recognizePlate("base64", [local, llm], validate);
+
+      expect(result).toMatchObject({ plate: "A123BC777", provider: "llm" });
+      expect(result.attempts[0]).toMatchObject({ plate: "A1", rejected: true });
+    });
+
+    it("returns an empty read when every read is rejected", async () => {
+      const llm = stub("llm", async () => ({ plate: "A1", confidence: 60 }));
+
+      const result = await recognizePlate("base64", [llm], () => null);
+
+      expect(result.plate).toBeNull();
+      expect(result.attempts[0].rejected).toBe(true);
+    });
+
+    it("throws when every provider fails", async () => {
+      const local = stub("local_http", async () => { throw new Error("timeout"); });
+      const llm = stub("llm", async () => { throw new Error("unreachable"); });
+
+      await expect(recognizePlate("base64", [local, llm])).rejects.toThrow("All recognition providers failed");
+    });
+  });
+});
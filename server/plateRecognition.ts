@@ -0,0 +1,224 @@
+/**
+ * Plate Recognition - pluggable license plate recognizers with fallback ordering
+ */
+
+import axios from 'axios';
+import { invokeLLM } from './_core/llm';
+import type { CameraIntegration } from '../drizzle/schema';
+
+// ============ RECOGNITION TYPES ============
+
+export type RecognitionProvider = 'llm' | 'local_http';
+
+export const RECOGNITION_PROVIDERS: RecognitionProvider[] = ['llm', 'local_http'];
+
+export interface PlateRead {
+  plate: string | null;
+  confidence: number;
+}
+
+export interface PlateRecognizer {
+  provider: RecognitionProvider;
+  recognize(imageBase64: string): Promise<PlateRead>;
+}
+
+export interface RecognitionAttempt extends PlateRead {
+  provider: RecognitionProvider;
+  latencyMs: number;
+  error?: string;
+  /** The read does not fit any accepted plate format */
+  rejected?: boolean;
+}
+
+/**
+ * Canonical form of a read, or null when no real plate can look like this
+ */
+export type PlateValidator = (plate: string) => string | null;
+
+export interface PlateRecognitionResult extends PlateRead {
+  provider: RecognitionProvider | null;
+  latencyMs: number;
+  attempts: RecognitionAttempt[];
+}
+
+// ============ RECOGNIZERS ============
+
+/**
+ * LLM vision recognizer
+ */
+export function createLlmRecognizer(): PlateRecognizer {
+  return {
+    provider: 'llm',
+    async recognize(imageBase64: string): Promise<PlateRead> {
+      const response = await invokeLLM({
+        messages: [
+          {
+            role: "system",
+            content: "You are a license plate recognition system. Analyze the image and extract the vehicle license plate number. Return ONLY a JSON object with the format: {\"plate\": \"LICENSE_PLATE_HERE\", \"confidence\": 0-100}. If no plate is visible, return {\"plate\": null, \"confidence\": 0}."
+          },
+          {
+            role: "user",
+            content: [
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:image/jpeg;base64,${imageBase64}`,
+                  detail: "high"
+                }
+              },
+              {
+                type: "text",
+                text: "Extract the license plate number from this image."
+              }
+            ]
+          }
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "plate_recognition",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                plate: { type: ["string", "null"], description: "The recognized license plate" },
+                confidence: { type: "integer", description: "Confidence level 0-100" }
+              },
+              required: ["plate", "confidence"],
+              additionalProperties: false
+            }
+          }
+        }
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No response from recognition service");
+      }
+
+      const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
+      return JSON.parse(contentStr) as PlateRead;
+    },
+  };
+}
+
+/**
+ * Local ALPR recognizer reachable over HTTP (e.g. an OpenALPR-compatible service on the LAN).
+ * Accepts either `{ plate, confidence }` or OpenALPR's `{ results: [{ plate, confidence }] }`.
+ */
+export function createLocalHttpRecognizer(endpoint: string, timeout = 5000): PlateRecognizer {
+  return {
+    provider: 'local_http',
+    async recognize(imageBase64: string): Promise<PlateRead> {
+      const response = await axios({
+        method: 'POST',
+        url: endpoint,
+        data: { image: imageBase64 },
+        timeout,
+      });
+
+      const data = response.data || {};
+      const candidate = Array.isArray(data.results) ? data.results[0] : data;
+      if (!candidate?.plate) {
+        return { plate: null, confidence: 0 };
+      }
+
+      return {
+        plate: String(candidate.plate),
+        confidence: Math.round(Number(candidate.confidence) || 0),
+      };
+    },
+  };
+}
+
+// ============ PROVIDER SELECTION ============
+
+/**
+ * Parse a comma-separated provider order, dropping unknown and duplicate entries
+ */
+export function parseProviderOrder(value: string | null | undefined): RecognitionProvider[] {
+  const providers: RecognitionProvider[] = [];
+  for (const item of (value || '').split(',')) {
+    const provider = item.trim() as RecognitionProvider;
+    if (RECOGNITION_PROVIDERS.includes(provider) && !providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+  return providers.length > 0 ? providers : ['llm'];
+}
+
+/**
+ * Build the recognizer chain configured for a camera, falling back to the LLM when none is set
+ */
+export function getRecognizersForCamera(camera: CameraIntegration | null): PlateRecognizer[] {
+  const recognizers: PlateRecognizer[] = [];
+
+  for (const provider of parseProviderOrder(camera?.recognitionProviders)) {
+    if (provider === 'llm') {
+      recognizers.push(createLlmRecognizer());
+    } else if (provider === 'local_http' && camera?.recognitionEndpoint) {
+      recognizers.push(createLocalHttpRecognizer(camera.recognitionEndpoint));
+    }
+  }
+
+  return recognizers.length > 0 ? recognizers : [createLlmRecognizer()];
+}
+
+// ============ MAIN RECOGNITION FUNCTION ============
+
+/**
+ * Run recognizers in order until one reads a valid plate.
+ * Throws only when every provider failed with an error.
+ */
+export async function recognizePlate(
+  imageBase64: string,
+  recognizers: PlateRecognizer[],
+  validate?: PlateValidator
+): Promise<PlateRecognitionResult> {
+  const attempts: RecognitionAttempt[] = [];
+
+  for (const recognizer of recognizers) {
+    const startedAt = Date.now();
+    try {
+      const read = await recognizer.recognize(imageBase64);
+      const attempt: RecognitionAttempt = {
+        provider: recognizer.provider,
+        plate: read.plate,
+        confidence: read.confidence,
+        latencyMs: Date.now() - startedAt,
+      };
+      attempts.push(attempt);
+
+      if (attempt.plate) {
+        const plate = validate ? validate(attempt.plate) : attempt.plate;
+        if (plate) {
+          return { ...attempt, plate, attempts };
+        }
+        attempt.rejected = true;
+      }
+    } catch (error: any) {
+      console.warn(`[Recognition] Provider ${recognizer.provider} failed:`, error?.message || error);
+      attempts.push({
+        provider: recognizer.provider,
+        plate: null,
+        confidence: 0,
+        latencyMs: Date.now() - startedAt,
+        error: error?.message || 'Recognition provider error',
+      });
+    }
+  }
+
+  const completed = attempts.filter(a => !a.error);
+  if (completed.length === 0) {
+    throw new Error(`All recognition providers failed: ${attempts.map(a => `${a.provider}: ${a.error}`).join('; ')}`);
+  }
+
+  const last = completed[completed.length - 1];
+  return {
+    plate: null,
+    confidence: last.confidence,
+    provider: last.provider,
+    latencyMs: last.latencyMs,
+    attempts,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { votePlate, type CandidateRead } from "./plateVoting";
+
+function read(frame: number, plate: string | null, confidence: number, error?: string): CandidateRead {
+  return { frame, plate, confidence, provider: plate ? "llm" : null, error };
+}
+
+describe("Plate Voting", () => {
+  it("picks the plate with the most confidence across frames", () => {
+    const result = votePlate([
+      read(0, "A123BC77", 80),
+      read(1, "A123BC71", 95),
+      read(2, "A123BC77", 70),
+    ]);
+
+    expect(result.plate).toBe("A123BC77");
+    expect(result.votes.map(v => [v.plate, v.votes])).toEqual([["A123BC77", 2], ["A123BC71", 1]]);
+  });
+
+  it("aggregates confidence over the frames that read a plate", () => {
+    const result = votePlate([
+      read(0, "A123BC77", 90),
+      read(1, "A123BC77", 80),
+      read(2, "A123BC71", 60),
+      read(3, null, 0),
+    ]);
+
+    // (90 + 80) / 3 frames with a plate
+    expect(result.confidence).toBe(57);
+  });
+
+  it("keeps the most confident frame of the consensus plate", () => {
+    const result = votePlate([
+      read(0, "A123BC77", 70),
+      read(1, "A123BC77", 92),
+      read(2, "B456CD99", 99),
+    ]);
+
+    expect(result.bestFrame).toBe(1);
+  });
+
+  it("counts Cyrillic and Latin reads as the same plate", () => {
+    const result = votePlate([read(0, "А123ВС77", 60), read(1, "A123BC77", 60), read(2, "A123BC71", 100)]);
+
+    expect(result.plate).toBe("A123BC77");
+    expect(result.votes[0].votes).toBe(2);
+  });
+
+  it("breaks ties by the number of votes", () => {
+    const result = votePlate([read(0, "A123BC77", 50), read(1, "A123BC77", 50), read(2, "A123BC71", 100)]);
+
+    expect(result.plate).toBe("A123BC77");
+  });
+
+  it("returns no plate when no frame read one", () => {
+    const result = votePlate([read(0, null, 0, "timeout"), read(1, null, 0)]);
+
+    expect(result).toEqual({ plate: null, confidence: 0, bestFrame: 1, votes: [] });
+  });
+});
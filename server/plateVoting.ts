@@ -0,0 +1,71 @@
+/**
+ * Plate Voting - combines the reads of a burst of frames of one vehicle into
+ * a consensus plate. Each read votes with its confidence; frames that read
+ * a different plate lower the aggregated confidence.
+ */
+
+import { foldHomoglyphs } from './plateMatching';
+import type { RecognitionProvider } from './plateRecognition';
+
+export interface CandidateRead {
+  frame: number;
+  plate: string | null;
+  confidence: number;
+  provider: RecognitionProvider | null;
+  error?: string;
+}
+
+export interface PlateVote {
+  plate: string;
+  votes: number;
+  totalConfidence: number;
+  maxConfidence: number;
+}
+
+export interface VoteResult {
+  plate: string | null;
+  confidence: number;
+  /** Frame with the most confident read of the consensus plate */
+  bestFrame: number;
+  votes: PlateVote[];
+}
+
+/**
+ * Consensus plate of a burst; ties go to more votes, then the single most confident read
+ */
+export function votePlate(reads: CandidateRead[]): VoteResult {
+  const tally = new Map<string, PlateVote>();
+  const readsWithPlate = reads.filter(read => read.plate);
+
+  for (const read of readsWithPlate) {
+    const key = foldHomoglyphs(read.plate!);
+    const vote = tally.get(key) ?? { plate: key, votes: 0, totalConfidence: 0, maxConfidence: 0 };
+    vote.votes++;
+    vote.totalConfidence += read.confidence;
+    vote.maxConfidence = Math.max(vote.maxConfidence, read.confidence);
+    tally.set(key, vote);
+  }
+
+  const votes = Array.from(tally.values()).sort((a, b) =>
+    b.totalConfidence - a.totalConfidence ||
+    b.votes - a.votes ||
+    b.maxConfidence - a.maxConfidence
+  );
+
+  const winner = votes[0];
+  if (!winner) {
+    const firstRead = reads.find(read => !read.error);
+    return { plate: null, confidence: 0, bestFrame: firstRead?.frame ?? 0, votes };
+  }
+
+  const best = readsWithPlate
+    .filter(read => foldHomoglyphs(read.plate!) === winner.plate)
+    .reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+  return {
+    plate: winner.plate,
+    confidence: Math.round(winner.totalConfidence / readsWithPlate.length),
+    bestFrame: best.frame,
+    votes,
+  };
+}
@@ -5,32 +5,62 @@ vi.mock("./db", () => ({
   getSetting: vi.fn(),
   createPendingNotification: vi.fn(),
   getPendingNotifications: vi.fn(),
+  getPendingNotificationChannels: vi.fn(),
   markNotificationsSent: vi.fn(),
 }));
 
-// Mock notification services
-vi.mock("./_core/notification", () => ({
-  notifyOwner: vi.fn(),
+// Mock the notification dispatcher
+vi.mock("./notificationDispatcher", () => ({
+  dispatchNotification: vi.fn(),
 }));
 
-vi.mock("./telegramNotification", () => ({
-  sendTelegramMessage: vi.fn(),
-}));
-
-import { getSetting, createPendingNotification, getPendingNotifications, markNotificationsSent } from "./db";
-import { notifyOwner } from "./_core/notification";
-import { sendTelegramMessage } from "./telegramNotification";
+import { getSetting, createPendingNotification, getPendingNotifications, getPendingNotificationChannels, markNotificationsSent } from "./db";
+import { dispatchNotification } from "./notificationDispatcher";
 import { 
   isQuietHoursActive, 
   shouldBypassQuietHours, 
   queueOrSendNotification,
+  holdForQuietHours,
   sendPendingSummary,
-  getQuietHoursConfig
+  getQuietHoursConfig,
+  buildQuietHoursSummary,
+  checkQuietHoursEnd,
+  stopQuietHoursWatcher,
+  isWithinQuietSchedule,
+  type QuietHoursSchedule
 } from "./quietHours";
+import type { PendingNotification } from "../drizzle/schema";
+
+function mockSettings(values: Record<string, string>) {
+  vi.mocked(getSetting).mockImplementation(async key =>
+    key in values ? { id: 1, key, value: values[key], description: null, updatedAt: new Date() } : null
+  );
+}
+
+function schedule(start: string, end: string): QuietHoursSchedule {
+  return { enabled: true, days: Array.from({ length: 7 }, () => ({ enabled: true, start, end })) };
+}
+
+function pending(overrides: Partial<PendingNotification>): PendingNotification {
+  return {
+    id: 1,
+    type: "unknown_vehicle",
+    title: "Неизвестный автомобиль",
+    message: "",
+    licensePlate: null,
+    photoUrl: null,
+    severity: "medium",
+    channel: "email",
+    isSent: false,
+    sentAt: null,
+    createdAt: new Date("2025-01-15T23:00:00"),
+    ...overrides,
+  };
+}
 
 describe("Quiet Hours Service", () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    vi.resetAllMocks();
     vi.useFakeTimers();
   });
 
@@ -119,79 +149,135 @@ describe("Quiet Hours Service", () => {
     });
   });
 
-  describe("queueOrSendNotification", () => {
-    it("sends notification immediately when not in quiet hours", async () => {
-      // Set time to 12:00 (outside quiet hours)
-      vi.setSystemTime(new Date("2025-01-15T12:00:00"));
-      
-      vi.mocked(getSetting)
-        .mockResolvedValueOnce({ id: 1, key: "quietHoursEnabled", value: "true", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 2, key: "quietHoursStart", value: "22:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 3, key: "quietHoursEnd", value: "07:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 4, key: "quietHoursBypassCritical", value: "false", description: null, updatedAt: new Date() });
-      
-      vi.mocked(notifyOwner).mockResolvedValue(true);
-      vi.mocked(getSetting).mockResolvedValueOnce({ id: 5, key: "telegram_enabled", value: "false", description: null, updatedAt: new Date() });
-      
-      const result = await queueOrSendNotification({
-        type: "unknown_vehicle",
-        title: "Test",
-        message: "Test message",
-        severity: "medium",
-      });
-      
-      expect(result.queued).toBe(false);
-      expect(result.sent).toBe(true);
-      expect(notifyOwner).toHaveBeenCalled();
+  describe("holdForQuietHours", () => {
+    const notification = {
+      type: "unknown_vehicle" as const,
+      severity: "medium" as const,
+      title: "Test",
+      content: "Test message",
+      licensePlate: "A123BC77",
+      telegram: { title: "Test", content: "<b>Test</b>" },
+    };
+
+    it("holds nothing outside quiet hours", async () => {
+      vi.setSystemTime(new Date("2025-01-15T12:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC", telegram_enabled: "true" });
+
+      expect(await holdForQuietHours(notification, ["email", "telegram", "webhook"])).toEqual([]);
+      expect(createPendingNotification).not.toHaveBeenCalled();
     });
 
-    it("queues notification during quiet hours", async () => {
-      // Set time to 03:00 (inside quiet hours)
-      vi.setSystemTime(new Date("2025-01-15T03:00:00"));
-      
-      vi.mocked(getSetting)
-        .mockResolvedValueOnce({ id: 1, key: "quietHoursEnabled", value: "true", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 2, key: "quietHoursStart", value: "22:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 3, key: "quietHoursEnd", value: "07:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 4, key: "quietHoursBypassCritical", value: "false", description: null, updatedAt: new Date() });
-      
-      vi.mocked(createPendingNotification).mockResolvedValue({ id: 1 });
-      
-      const result = await queueOrSendNotification({
-        type: "unknown_vehicle",
-        title: "Test",
-        message: "Test message",
-        severity: "medium",
+    it("holds the notification for every channel in quiet hours", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC", telegram_enabled: "true" });
+
+      // Webhooks are never held
+      expect(await holdForQuietHours(notification, ["email", "telegram", "webhook"])).toEqual(["email", "telegram"]);
+      expect(createPendingNotification).toHaveBeenCalledWith(expect.objectContaining({
+        title: "Test", message: "Test message", licensePlate: "A123BC77", channel: "email",
+      }));
+      expect(createPendingNotification).toHaveBeenCalledWith(expect.objectContaining({ title: "Test", channel: "telegram" }));
+    });
+
+    it("only holds the requested channels whose quiet hours are on", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({
+        quietHoursEnabled: "true",
+        quietHoursTimezone: "UTC",
+        quietHoursTelegramSchedule: JSON.stringify({ ...schedule("22:00", "07:00"), enabled: false }),
+        telegram_enabled: "true",
       });
-      
-      expect(result.queued).toBe(true);
-      expect(result.sent).toBe(false);
-      expect(createPendingNotification).toHaveBeenCalled();
+
+      expect(await holdForQuietHours(notification, ["email", "telegram", "webhook"])).toEqual(["email"]);
+      expect(await holdForQuietHours(notification, ["telegram"])).toEqual([]);
+      expect(createPendingNotification).toHaveBeenCalledTimes(1);
     });
 
-    it("sends critical notification immediately even during quiet hours", async () => {
-      // Set time to 03:00 (inside quiet hours)
-      vi.setSystemTime(new Date("2025-01-15T03:00:00"));
-      
-      vi.mocked(getSetting)
-        .mockResolvedValueOnce({ id: 1, key: "quietHoursEnabled", value: "true", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 2, key: "quietHoursStart", value: "22:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 3, key: "quietHoursEnd", value: "07:00", description: null, updatedAt: new Date() })
-        .mockResolvedValueOnce({ id: 4, key: "quietHoursBypassCritical", value: "true", description: null, updatedAt: new Date() });
-      
-      vi.mocked(notifyOwner).mockResolvedValue(true);
-      vi.mocked(getSetting).mockResolvedValueOnce({ id: 5, key: "telegram_enabled", value: "false", description: null, updatedAt: new Date() });
-      
-      const result = await queueOrSendNotification({
-        type: "blacklist_detected",
-        title: "Critical Alert",
-        message: "Blacklisted vehicle detected",
-        severity: "critical",
+    it("does not hold notifications for Telegram while it is off", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC", telegram_enabled: "false" });
+
+      expect(await holdForQuietHours(notification, ["email", "telegram"])).toEqual(["email"]);
+      expect(createPendingNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it("lets critical notifications through when bypass is on", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC", quietHoursBypassCritical: "true" });
+
+      expect(await holdForQuietHours({ ...notification, type: "blacklist_detected", severity: "critical" }, ["email"])).toEqual([]);
+      expect(createPendingNotification).not.toHaveBeenCalled();
+    });
+
+    it("never holds summaries", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC" });
+
+      expect(await holdForQuietHours({ ...notification, type: "daily_summary" }, ["email"])).toEqual([]);
+      expect(createPendingNotification).not.toHaveBeenCalled();
+    });
+
+    it("sends the notification when it cannot be held", async () => {
+      vi.setSystemTime(new Date("2025-01-15T03:00:00Z"));
+      mockSettings({ quietHoursEnabled: "true", quietHoursTimezone: "UTC" });
+      vi.mocked(createPendingNotification).mockRejectedValueOnce(new Error("Database not available"));
+
+      expect(await holdForQuietHours(notification, ["email"])).toEqual([]);
+    });
+  });
+
+  describe("queueOrSendNotification", () => {
+    it("reports the channels that held the notification", async () => {
+      mockSettings({ telegram_enabled: "false" });
+      vi.mocked(dispatchNotification).mockResolvedValue({
+        sent: true,
+        held: ["email"],
+        channels: [{ channel: "webhook", status: "sent", durationMs: 1 }],
       });
-      
-      expect(result.queued).toBe(false);
-      expect(result.sent).toBe(true);
-      expect(notifyOwner).toHaveBeenCalled();
+
+      const result = await queueOrSendNotification({ type: "unknown_vehicle", title: "Test", message: "Test message" });
+
+      expect(result).toEqual({ queued: true, sent: true });
+      expect(dispatchNotification).toHaveBeenCalledWith(expect.objectContaining({ type: "unknown_vehicle", content: "Test message", telegram: undefined }));
+    });
+  });
+
+  describe("isWithinQuietSchedule", () => {
+    it("follows the configured time zone rather than the server clock", () => {
+      // 23:00 in Moscow
+      const now = new Date("2025-01-15T20:00:00Z");
+
+      expect(isWithinQuietSchedule(schedule("22:00", "07:00"), [], "Europe/Moscow", now)).toBe(true);
+      expect(isWithinQuietSchedule(schedule("22:00", "07:00"), [], "UTC", now)).toBe(false);
+    });
+
+    it("uses each weekday's window, overnight windows running into the next day", () => {
+      const weekend = schedule("22:00", "07:00");
+      weekend.days[5] = { enabled: true, start: "23:00", end: "10:00" }; // Friday night
+      weekend.days[6] = { enabled: false, start: "22:00", end: "07:00" }; // Saturday off
+
+      // Saturday 2025-01-18
+      expect(isWithinQuietSchedule(weekend, [], "UTC", new Date("2025-01-18T09:30:00Z"))).toBe(true);
+      expect(isWithinQuietSchedule(weekend, [], "UTC", new Date("2025-01-18T23:00:00Z"))).toBe(false);
+      // Friday 2025-01-17
+      expect(isWithinQuietSchedule(weekend, [], "UTC", new Date("2025-01-17T22:30:00Z"))).toBe(false);
+    });
+
+    it("treats holidays as quiet all day", () => {
+      const now = new Date("2025-01-01T12:00:00Z");
+
+      expect(isWithinQuietSchedule(schedule("22:00", "07:00"), ["2025-01-01"], "UTC", now)).toBe(true);
+      expect(isWithinQuietSchedule({ ...schedule("22:00", "07:00"), enabled: false }, ["2025-01-01"], "UTC", now)).toBe(false);
+    });
+
+    it("carries a holiday's night past midnight", () => {
+      const weekdays = schedule("22:00", "07:00");
+      weekdays.days[3] = { enabled: false, start: "22:00", end: "07:00" }; // Wednesday off
+
+      // Thursday 2025-01-02, after the Wednesday holiday
+      expect(isWithinQuietSchedule(weekdays, ["2025-01-01"], "UTC", new Date("2025-01-02T06:30:00Z"))).toBe(true);
+      expect(isWithinQuietSchedule(weekdays, ["2025-01-01"], "UTC", new Date("2025-01-02T07:30:00Z"))).toBe(false);
+      expect(isWithinQuietSchedule(weekdays, [], "UTC", new Date("2025-01-02T06:30:00Z"))).toBe(false);
     });
   });
 
@@ -212,15 +298,151 @@ describe("Quiet Hours Service", () => {
       ];
       
       vi.mocked(getPendingNotifications).mockResolvedValue(mockNotifications);
-      vi.mocked(notifyOwner).mockResolvedValue(true);
+      vi.mocked(dispatchNotification).mockResolvedValue({ sent: true, held: [], channels: [{ channel: "email", status: "sent", durationMs: 1 }] });
       vi.mocked(getSetting).mockResolvedValue({ id: 1, key: "telegram_enabled", value: "false", description: null, updatedAt: new Date() });
       vi.mocked(markNotificationsSent).mockResolvedValue(true);
       
       const result = await sendPendingSummary();
       
-      expect(result.sent).toBeGreaterThan(0);
+      expect(result).toEqual({ sent: 1, failed: 0 });
+      expect(dispatchNotification).toHaveBeenCalledWith(expect.objectContaining({ type: "quiet_hours_summary", severity: "high" }));
       expect(markNotificationsSent).toHaveBeenCalledWith([1, 2]);
     });
+
+    it("shares one send between overlapping calls", async () => {
+      vi.mocked(getPendingNotifications).mockResolvedValue([pending({ id: 7 })]);
+      vi.mocked(dispatchNotification).mockResolvedValue({ sent: true, held: [], channels: [{ channel: "email", status: "sent", durationMs: 1 }] });
+      mockSettings({ telegram_enabled: "true" });
+
+      const [first, second] = await Promise.all([sendPendingSummary(["email"]), sendPendingSummary(["email"])]);
+
+      expect(first).toEqual(second);
+      expect(dispatchNotification).toHaveBeenCalledTimes(1);
+      expect(dispatchNotification).toHaveBeenCalledWith(expect.objectContaining({ channels: ["email"], telegram: undefined }));
+    });
+
+    it("sends the Telegram summary only to Telegram", async () => {
+      vi.mocked(getPendingNotifications).mockResolvedValue([pending({ id: 8, channel: "telegram" })]);
+      vi.mocked(dispatchNotification).mockResolvedValue({ sent: true, held: [], channels: [{ channel: "telegram", status: "sent", durationMs: 1 }] });
+      mockSettings({ telegram_enabled: "true" });
+
+      const result = await sendPendingSummary(["telegram"]);
+
+      expect(result).toEqual({ sent: 1, failed: 0 });
+      expect(getPendingNotifications).toHaveBeenCalledWith(true, "telegram");
+      expect(dispatchNotification).toHaveBeenCalledWith(expect.objectContaining({
+        channels: ["telegram"],
+        telegram: expect.objectContaining({ title: "📋 Сводка уведомлений (1)" }),
+      }));
+      expect(markNotificationsSent).toHaveBeenCalledWith([8]);
+    });
+
+    it("leaves a failed summary to the retry worker instead of summarising the notifications again", async () => {
+      vi.mocked(getPendingNotifications).mockResolvedValue([pending({ id: 9 })]);
+      vi.mocked(dispatchNotification).mockResolvedValue({
+        sent: false, held: [], channels: [{ channel: "email", status: "failed", error: "Service unavailable", durationMs: 1 }],
+      });
+
+      const result = await sendPendingSummary(["email"]);
+
+      expect(result).toEqual({ sent: 0, failed: 1 });
+      expect(markNotificationsSent).toHaveBeenCalledWith([9]);
+    });
+
+    it("drops held notifications when nobody receives the channel", async () => {
+      vi.mocked(getPendingNotifications).mockResolvedValue([pending({ id: 10, channel: "telegram" })]);
+      vi.mocked(dispatchNotification).mockResolvedValue({ sent: false, held: [], channels: [] });
+      mockSettings({ telegram_enabled: "true" });
+
+      const result = await sendPendingSummary(["telegram"]);
+
+      expect(result).toEqual({ sent: 0, failed: 0 });
+      expect(markNotificationsSent).toHaveBeenCalledWith([10]);
+    });
+  });
+
+  describe("buildQuietHoursSummary", () => {
+    const notifications = [
+      pending({ id: 1, licensePlate: "A123BC", photoUrl: "https://cdn.example.com/1.jpg", createdAt: new Date("2025-01-15T23:10:00") }),
+      pending({ id: 2, type: "blacklist_detected", title: "Чёрный список", licensePlate: "X789YZ", severity: "critical", createdAt: new Date("2025-01-16T01:00:00") }),
+      pending({ id: 3, licensePlate: "A123BC", severity: "low", photoUrl: "https://cdn.example.com/3.jpg", createdAt: new Date("2025-01-16T02:30:00") }),
+      pending({ id: 4, type: "manual_open", title: "Ручное открытие", severity: "low", createdAt: new Date("2025-01-16T03:00:00") }),
+    ];
+
+    it("groups notifications by type and then severity", () => {
+      const summary = buildQuietHoursSummary(notifications);
+
+      expect(summary.title).toBe("📋 Сводка уведомлений (4)");
+      expect(summary.content).toContain("🔴 Критические: 1 · 🟡 Средние: 1 · ⚪ Низкие: 2");
+      const unknown = summary.content.indexOf("**🚗 Неизвестные автомобили** (2)");
+      expect(unknown).toBeGreaterThanOrEqual(0);
+      expect(summary.content.indexOf("🟡 Средние (1)", unknown)).toBeLessThan(summary.content.indexOf("⚪ Низкие (1)", unknown));
+      expect(summary.data).toMatchObject({
+        count: 4,
+        byType: { unknown_vehicle: 2, blacklist_detected: 1, manual_open: 1 },
+        bySeverity: { medium: 1, critical: 1, low: 2 },
+      });
+    });
+
+    it("rolls up plates with their latest photo", () => {
+      const summary = buildQuietHoursSummary(notifications);
+
+      expect(summary.content).toContain("**🔢 По номерам** (2)");
+      expect(summary.content).toContain("• A123BC: 2 🚗, последний раз в 02:30 — [Фото](https://cdn.example.com/3.jpg)");
+      expect(summary.telegramContent).toContain("— 📷 https://cdn.example.com/3.jpg");
+      expect(summary.data.plates).toEqual([
+        expect.objectContaining({ licensePlate: "A123BC", count: 2, highestSeverity: "medium", photoUrl: "https://cdn.example.com/3.jpg" }),
+        expect.objectContaining({ licensePlate: "X789YZ", count: 1, highestSeverity: "critical", photoUrl: null }),
+      ]);
+    });
+
+    it("links each notification's photo", () => {
+      const summary = buildQuietHoursSummary(notifications);
+
+      expect(summary.content).toContain("• 23:10 [A123BC]: Неизвестный автомобиль — [Фото](https://cdn.example.com/1.jpg)");
+      expect(summary.content).toContain("• 03:00: Ручное открытие\n");
+    });
+  });
+
+  describe("checkQuietHoursEnd", () => {
+    beforeEach(() => {
+      stopQuietHoursWatcher();
+      vi.mocked(getPendingNotifications).mockResolvedValue([]);
+      vi.mocked(getPendingNotificationChannels).mockResolvedValue([]);
+      mockSettings({
+        quietHoursEnabled: "true",
+        quietHoursTimezone: "UTC",
+        quietHoursTelegramSchedule: JSON.stringify(schedule("22:00", "06:00")),
+      });
+    });
+
+    it("sends each channel's summary once its quiet hours are over", async () => {
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T05:59:00Z"))).toEqual([]);
+
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T06:00:00Z"))).toEqual(["telegram"]);
+      expect(getPendingNotifications).toHaveBeenCalledWith(true, "telegram");
+
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T07:00:00Z"))).toEqual(["email"]);
+      expect(getPendingNotifications).toHaveBeenCalledWith(true, "email");
+
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T07:01:00Z"))).toEqual([]);
+      expect(getPendingNotifications).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not send a summary when the server starts outside quiet hours", async () => {
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T12:00:00Z"))).toEqual([]);
+      expect(getPendingNotifications).not.toHaveBeenCalled();
+    });
+
+    it("sends what was held before a restart once quiet hours are over", async () => {
+      vi.mocked(getPendingNotificationChannels).mockResolvedValue(["email", "telegram"]);
+
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T06:30:00Z"))).toEqual(["telegram"]);
+      expect(getPendingNotifications).toHaveBeenCalledWith(true, "telegram");
+
+      expect(await checkQuietHoursEnd(new Date("2025-01-16T07:00:00Z"))).toEqual(["email"]);
+      expect(getPendingNotificationChannels).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("getQuietHoursConfig", () => {
@@ -249,5 +471,52 @@ describe("Quiet Hours Service", () => {
       expect(config.endTime).toBe("06:00");
       expect(config.bypassCritical).toBe(true);
     });
+
+    it("reads per-channel schedules, holidays and the time zone", async () => {
+      const telegram = { ...schedule("23:00", "08:00"), enabled: false };
+      mockSettings({
+        quietHoursStart: "21:00",
+        quietHoursEnd: "06:30",
+        quietHoursTimezone: "Asia/Yekaterinburg",
+        quietHoursHolidays: JSON.stringify(["2025-01-01", "not a date"]),
+        quietHoursTelegramSchedule: JSON.stringify(telegram),
+      });
+
+      const config = await getQuietHoursConfig();
+
+      expect(config.timezone).toBe("Asia/Yekaterinburg");
+      expect(config.holidays).toEqual(["2025-01-01"]);
+      expect(config.schedules.telegram).toEqual(telegram);
+      // Without a schedule of its own email uses the start and end time every day
+      expect(config.schedules.email).toEqual(schedule("21:00", "06:30"));
+    });
+
+    it("replaces malformed days of a stored schedule with the default window", async () => {
+      const stored = schedule("23:00", "08:00");
+      const days: unknown[] = [...stored.days];
+      days[1] = { enabled: true, start: "25:00", end: "08:00" };
+      days[2] = null;
+      days[3] = { enabled: "yes", start: "23:00", end: "08:00" };
+      mockSettings({
+        quietHoursStart: "21:00",
+        quietHoursEnd: "06:30",
+        quietHoursEmailSchedule: JSON.stringify({ enabled: true, days }),
+      });
+
+      const config = await getQuietHoursConfig();
+      const fallback = { enabled: true, start: "21:00", end: "06:30" };
+
+      expect(config.schedules.email.days).toEqual([stored.days[0], fallback, fallback, fallback, ...stored.days.slice(4)]);
+      // Monday 2025-01-13, 22:00 in UTC
+      expect(() => isWithinQuietSchedule(config.schedules.email, [], "UTC", new Date("2025-01-13T22:00:00Z"))).not.toThrow();
+    });
+
+    it("falls back to the server time zone when the stored one is unknown", async () => {
+      mockSettings({ quietHoursTimezone: "Mars/Olympus_Mons" });
+
+      const config = await getQuietHoursConfig();
+
+      expect(config.timezone).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    });
   });
 });
@@ -1,10 +1,28 @@
-import { getSetting, createPendingNotification, getPendingNotifications, markNotificationsSent } from "./db";
-import { notifyOwner } from "./_core/notification";
-import { sendTelegramMessage } from "./telegramNotification";
+import {
+  getSetting,
+  createPendingNotification,
+  getPendingNotifications,
+  getPendingNotificationChannels,
+  markNotificationsSent,
+} from "./db";
+import { dispatchNotification, type DispatchChannel, type OutgoingNotification } from "./notificationDispatcher";
+import type { PendingNotification } from "../drizzle/schema";
 
-export type NotificationType = "unknown_vehicle" | "blacklist_detected" | "manual_open" | "unauthorized_access";
+export type NotificationType = PendingNotification["type"];
 export type Severity = "low" | "medium" | "high" | "critical";
 
+// Alerts held during quiet hours; summaries always go out
+const HELD_TYPES: NotificationType[] = [
+  "unknown_vehicle",
+  "blacklist_detected",
+  "manual_open",
+  "unauthorized_access",
+  "allowed_passage",
+  "overstay",
+  "medical_issue",
+  "medical_expiring",
+];
+
 export interface NotificationData {
   type: NotificationType;
   title: string;
@@ -14,29 +32,158 @@ export interface NotificationData {
   severity?: Severity;
 }
 
-/**
- * Check if current time is within quiet hours
- */
-export async function isQuietHoursActive(): Promise<boolean> {
-  const enabled = await getSetting("quietHoursEnabled");
-  if (!enabled || enabled.value !== "true") {
+export const QUIET_HOURS_CHANNELS = ["email", "telegram"] as const;
+export type QuietHoursChannel = (typeof QUIET_HOURS_CHANNELS)[number];
+
+export type QuietHoursWindow = {
+  enabled: boolean;
+  /** HH:MM, a window ending before it starts runs past midnight */
+  start: string;
+  end: string;
+};
+
+export type QuietHoursSchedule = {
+  enabled: boolean;
+  /** One window per weekday, Sunday first */
+  days: QuietHoursWindow[];
+};
+
+export type QuietHoursConfig = {
+  enabled: boolean;
+  /** Window used on every day by channels without a schedule of their own */
+  startTime: string;
+  endTime: string;
+  bypassCritical: boolean;
+  /** IANA time zone the windows and holidays are in */
+  timezone: string;
+  /** YYYY-MM-DD dates that are quiet all day */
+  holidays: string[];
+  schedules: Record<QuietHoursChannel, QuietHoursSchedule>;
+};
+
+export const QUIET_HOURS_SCHEDULE_KEYS: Record<QuietHoursChannel, string> = {
+  email: "quietHoursEmailSchedule",
+  telegram: "quietHoursTelegramSchedule",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOLIDAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
     return false;
   }
+}
 
-  const startTime = await getSetting("quietHoursStart");
-  const endTime = await getSetting("quietHoursEnd");
+/**
+ * Wall clock date, weekday (Sunday = 0) and minute of the day in a time zone
+ */
+export function getZonedTime(now: Date, timeZone: string): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now).map(part => [part.type, part.value])
+  );
 
-  if (!startTime?.value || !endTime?.value) {
-    return false;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+export function defaultQuietHoursSchedule(start = "22:00", end = "07:00"): QuietHoursSchedule {
+  return {
+    enabled: true,
+    days: WEEKDAYS.map(() => ({ enabled: true, start, end })),
+  };
+}
+
+/**
+ * Check if a moment falls in a channel's quiet hours: on a holiday, in that
+ * day's window, or in the previous day's window running past midnight
+ */
+export function isWithinQuietSchedule(
+  schedule: QuietHoursSchedule,
+  holidays: string[],
+  timeZone: string,
+  now: Date
+): boolean {
+  if (!schedule.enabled) return false;
+
+  const { date, weekday, minutes } = getZonedTime(now, timeZone);
+  if (holidays.includes(date)) return true;
+
+  const today = schedule.days[weekday];
+  if (today?.enabled) {
+    const start = toMinutes(today.start);
+    const end = toMinutes(today.end);
+    if (start <= end ? minutes >= start && minutes < end : minutes >= start) return true;
+  }
+
+  // A holiday's night runs on to the end of that weekday's overnight window, even a disabled one
+  const yesterday = schedule.days[(weekday + 6) % 7];
+  const yesterdayQuiet = yesterday?.enabled || holidays.includes(previousDate(date));
+  if (yesterday && yesterdayQuiet && toMinutes(yesterday.start) > toMinutes(yesterday.end)) {
+    return minutes < toMinutes(yesterday.end);
   }
+  return false;
+}
+
+function previousDate(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
 
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentMinute = now.getMinutes();
-  const currentTimeMinutes = currentHour * 60 + currentMinute;
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+}
 
-  const [startHour, startMinute] = startTime.value.split(":").map(Number);
-  const [endHour, endMinute] = endTime.value.split(":").map(Number);
+/**
+ * Channels currently in quiet hours
+ */
+export async function getQuietChannels(now = new Date()): Promise<QuietHoursChannel[]> {
+  const config = await getQuietHoursConfig();
+  if (!config.enabled) return [];
+
+  return QUIET_HOURS_CHANNELS.filter(channel =>
+    isWithinQuietSchedule(config.schedules[channel], config.holidays, config.timezone, now)
+  );
+}
+
+/**
+ * Check if the channel, or without one any channel, is in quiet hours
+ */
+export async function isQuietHoursActive(channel?: QuietHoursChannel, now = new Date()): Promise<boolean> {
+  const quiet = await getQuietChannels(now);
+  return channel ? quiet.includes(channel) : quiet.length > 0;
+}
+
+/**
+ * Check if a time falls in an HH:MM - HH:MM window of a time zone, which may span midnight
+ */
+export function isWithinQuietWindow(start: string, end: string, now: Date, timeZone: string): boolean {
+  const currentTimeMinutes = getZonedTime(now, timeZone).minutes;
+
+  const [startHour, startMinute] = start.split(":").map(Number);
+  const [endHour, endMinute] = end.split(":").map(Number);
   const startTimeMinutes = startHour * 60 + startMinute;
   const endTimeMinutes = endHour * 60 + endMinute;
 
@@ -62,165 +209,442 @@ export async function shouldBypassQuietHours(severity: Severity): Promise<boolea
   return false;
 }
 
+function isHeldType(type: string): type is NotificationType {
+  return (HELD_TYPES as string[]).includes(type);
+}
+
 /**
- * Queue notification for later delivery or send immediately
+ * Store the notification for each of its channels in quiet hours, to go out
+ * with that channel's summary. Returns the channels it was held for, which
+ * the dispatcher then skips. Webhooks are never held.
  */
-export async function queueOrSendNotification(data: NotificationData): Promise<{ queued: boolean; sent: boolean }> {
-  const severity = data.severity || "medium";
-  const isQuietHours = await isQuietHoursActive();
-  const shouldBypass = await shouldBypassQuietHours(severity);
+export async function holdForQuietHours(
+  notification: OutgoingNotification,
+  channels: readonly DispatchChannel[]
+): Promise<QuietHoursChannel[]> {
+  const { type } = notification;
+  if (!isHeldType(type)) return [];
+
+  const severity = notification.severity ?? "medium";
+  const quietChannels = (await getQuietChannels()).filter(channel => channels.includes(channel));
+  if (quietChannels.length === 0 || await shouldBypassQuietHours(severity)) return [];
+
+  // Nothing is held for Telegram while it is turned off
+  const telegramEnabled = await getSetting("telegram_enabled");
+  const candidates = quietChannels.filter(channel =>
+    channel !== "telegram" || (notification.telegram && telegramEnabled?.value === "true")
+  );
+
+  const held: QuietHoursChannel[] = [];
+  for (const channel of candidates) {
+    try {
+      await createPendingNotification({
+        type,
+        title: notification.title,
+        message: notification.content,
+        licensePlate: notification.licensePlate,
+        photoUrl: notification.photoUrl ?? notification.telegram?.photoUrl,
+        severity,
+        channel,
+      });
+      held.push(channel);
+    } catch (error) {
+      // Better sent during quiet hours than lost
+      console.error(`[QuietHours] Could not hold ${channel} notification, sending it now:`, error);
+    }
+  }
 
-  // If not in quiet hours or should bypass, send immediately
-  if (!isQuietHours || shouldBypass) {
-    const sent = await sendNotificationImmediately(data);
-    return { queued: false, sent };
+  if (held.length > 0) {
+    console.log(`[QuietHours] Notification queued for ${held.join(", ")}: ${notification.title}`);
   }
+  return held;
+}
 
-  // Queue the notification
-  await createPendingNotification({
+/**
+ * Send a notification through the dispatcher, which holds it on the
+ * channels in quiet hours
+ */
+export async function queueOrSendNotification(data: NotificationData): Promise<{ queued: boolean; sent: boolean }> {
+  const telegramEnabled = await getSetting("telegram_enabled");
+  const message = { title: data.title, content: data.message, photoUrl: data.photoUrl };
+
+  const { held, channels } = await dispatchNotification({
     type: data.type,
-    title: data.title,
-    message: data.message,
+    severity: data.severity ?? "medium",
+    ...message,
     licensePlate: data.licensePlate,
-    photoUrl: data.photoUrl,
-    severity,
+    telegram: telegramEnabled?.value === "true" ? message : undefined,
   });
+  return { queued: held.length > 0, sent: channels.some(outcome => outcome.status === "sent") };
+}
+
+const TYPE_LABELS: Record<PendingNotification["type"], string> = {
+  unknown_vehicle: "🚗 Неизвестные автомобили",
+  blacklist_detected: "🚫 Обнаружены из чёрного списка",
+  manual_open: "🔓 Ручные открытия",
+  unauthorized_access: "⚠️ Попытки несанкционированного доступа",
+  allowed_passage: "✅ Разрешённые проезды",
+  overstay: "⏱️ Превышение времени стоянки",
+  medical_issue: "🩺 Проблемы с медосмотром",
+  medical_expiring: "📅 Истекающие медосмотры",
+};
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  critical: "🔴 Критические",
+  high: "🟠 Высокие",
+  medium: "🟡 Средние",
+  low: "⚪ Низкие",
+};
+
+// Most urgent first
+const SEVERITY_PRIORITY: Severity[] = ["critical", "high", "medium", "low"];
+const MAX_ITEMS_PER_GROUP = 5;
+const MAX_PLATES = 10;
+const QUIET_HOURS_CHECK_INTERVAL_MS = 60 * 1000;
+
+export type QuietHoursSummary = {
+  title: string;
+  /** Markdown for email and webhooks */
+  content: string;
+  /** Plain text for Telegram, photo links as bare URLs */
+  telegramContent: string;
+  data: Record<string, unknown>;
+};
 
-  console.log(`[QuietHours] Notification queued: ${data.title}`);
-  return { queued: true, sent: false };
+type PlateRollup = {
+  licensePlate: string;
+  count: number;
+  types: PendingNotification["type"][];
+  highestSeverity: Severity;
+  lastSeenAt: Date;
+  photoUrl: string | null;
+};
+
+type SummaryResult = { sent: number; failed: number };
+
+const summariesInFlight = new Map<QuietHoursChannel, Promise<SummaryResult>>();
+let watcherTimer: ReturnType<typeof setInterval> | null = null;
+let wasQuiet: QuietHoursChannel[] | null = null;
+
+function formatTime(date: Date): string {
+  return new Date(date).toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" });
+}
+
+function groupBy<T, K extends string>(items: T[], key: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
 }
 
 /**
- * Send notification immediately via all configured channels
+ * Plates seen during quiet hours, most frequent first, with the latest photo of each
  */
-async function sendNotificationImmediately(data: NotificationData): Promise<boolean> {
-  let success = false;
+export function buildPlateRollup(pending: PendingNotification[]): PlateRollup[] {
+  const rollup = new Map<string, PlateRollup>();
 
-  try {
-    // Send via owner notification (email)
-    const emailResult = await notifyOwner({
-      title: data.title,
-      content: data.message,
-    });
-    if (emailResult) success = true;
-  } catch (error) {
-    console.error("[QuietHours] Failed to send email notification:", error);
-  }
+  for (const n of pending) {
+    if (!n.licensePlate) continue;
+    const createdAt = new Date(n.createdAt);
+    const entry = rollup.get(n.licensePlate) ?? {
+      licensePlate: n.licensePlate,
+      count: 0,
+      types: [],
+      highestSeverity: n.severity,
+      lastSeenAt: createdAt,
+      photoUrl: null,
+    };
 
-  try {
-    // Send via Telegram
-    const telegramEnabled = await getSetting("telegram_enabled");
-    if (telegramEnabled?.value === "true") {
-      const telegramResult = await sendTelegramMessage({ title: data.title, content: data.message });
-      if (telegramResult) success = true;
+    entry.count++;
+    if (!entry.types.includes(n.type)) entry.types.push(n.type);
+    if (SEVERITY_PRIORITY.indexOf(n.severity) < SEVERITY_PRIORITY.indexOf(entry.highestSeverity)) {
+      entry.highestSeverity = n.severity;
+    }
+    if (createdAt >= entry.lastSeenAt) {
+      entry.lastSeenAt = createdAt;
+      entry.photoUrl = n.photoUrl ?? entry.photoUrl;
+    } else if (!entry.photoUrl && n.photoUrl) {
+      entry.photoUrl = n.photoUrl;
     }
-  } catch (error) {
-    console.error("[QuietHours] Failed to send Telegram notification:", error);
+    rollup.set(n.licensePlate, entry);
   }
 
-  return success;
+  return Array.from(rollup.values()).sort((a, b) =>
+    b.count - a.count || b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
+  );
 }
 
 /**
- * Send all pending notifications as a summary
+ * Builds the summary of notifications held during quiet hours: grouped by
+ * type and then severity, followed by a roll-up of the plates involved
  */
-export async function sendPendingSummary(): Promise<{ sent: number; failed: number }> {
-  const pending = await getPendingNotifications(true);
-  
-  if (pending.length === 0) {
-    console.log("[QuietHours] No pending notifications to send");
-    return { sent: 0, failed: 0 };
-  }
+export function buildQuietHoursSummary(pending: PendingNotification[]): QuietHoursSummary {
+  // Oldest first so each group reads in the order things happened
+  const ordered = [...pending].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const byType = groupBy(ordered, n => n.type);
+  const bySeverity = groupBy(ordered, n => n.severity);
+  const plates = buildPlateRollup(ordered);
 
-  // Group notifications by type
-  const grouped = pending.reduce((acc, notification) => {
-    const type = notification.type;
-    if (!acc[type]) acc[type] = [];
-    acc[type].push(notification);
-    return acc;
-  }, {} as Record<string, typeof pending>);
+  const severityCounts = SEVERITY_PRIORITY
+    .filter(severity => bySeverity.has(severity))
+    .map(severity => `${SEVERITY_LABELS[severity]}: ${bySeverity.get(severity)!.length}`);
 
-  // Build summary message
-  let summaryTitle = `📋 Сводка уведомлений (${pending.length})`;
-  let summaryMessage = `За время тихих часов накопилось ${pending.length} уведомлений:\n\n`;
+  const render = (photoLink: (url: string) => string) => {
+    let message = `За время тихих часов накопилось ${pending.length} уведомлений\n`;
+    message += `${severityCounts.join(" · ")}\n\n`;
 
-  const typeLabels: Record<string, string> = {
-    unknown_vehicle: "🚗 Неизвестные автомобили",
-    blacklist_detected: "🚫 Обнаружены из чёрного списка",
-    manual_open: "🔓 Ручные открытия",
-    unauthorized_access: "⚠️ Попытки несанкционированного доступа",
-  };
+    for (const [type, notifications] of Array.from(byType.entries())) {
+      message += `**${TYPE_LABELS[type] ?? type}** (${notifications.length}):\n`;
+      const severities = groupBy(notifications, n => n.severity);
 
-  for (const [type, notifications] of Object.entries(grouped)) {
-    const label = typeLabels[type] || type;
-    summaryMessage += `**${label}** (${notifications.length}):\n`;
-    
-    for (const n of notifications.slice(0, 5)) {
-      const time = new Date(n.createdAt).toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" });
-      const plate = n.licensePlate ? ` [${n.licensePlate}]` : "";
-      summaryMessage += `  • ${time}${plate}: ${n.title}\n`;
+      for (const severity of SEVERITY_PRIORITY) {
+        const group = severities.get(severity);
+        if (!group) continue;
+        message += `  ${SEVERITY_LABELS[severity]} (${group.length}):\n`;
+
+        for (const n of group.slice(0, MAX_ITEMS_PER_GROUP)) {
+          const plate = n.licensePlate ? ` [${n.licensePlate}]` : "";
+          const photo = n.photoUrl ? ` — ${photoLink(n.photoUrl)}` : "";
+          message += `    • ${formatTime(n.createdAt)}${plate}: ${n.title}${photo}\n`;
+        }
+        if (group.length > MAX_ITEMS_PER_GROUP) {
+          message += `    ... и ещё ${group.length - MAX_ITEMS_PER_GROUP}\n`;
+        }
+      }
+      message += "\n";
     }
-    
-    if (notifications.length > 5) {
-      summaryMessage += `  ... и ещё ${notifications.length - 5}\n`;
+
+    if (plates.length > 0) {
+      message += `**🔢 По номерам** (${plates.length}):\n`;
+      for (const plate of plates.slice(0, MAX_PLATES)) {
+        const types = plate.types.map(type => TYPE_LABELS[type].split(" ")[0]).join(" ");
+        const photo = plate.photoUrl ? ` — ${photoLink(plate.photoUrl)}` : "";
+        message += `  • ${plate.licensePlate}: ${plate.count} ${types}, последний раз в ${formatTime(plate.lastSeenAt)}${photo}\n`;
+      }
+      if (plates.length > MAX_PLATES) {
+        message += `  ... и ещё ${plates.length - MAX_PLATES}\n`;
+      }
     }
-    summaryMessage += "\n";
-  }
+    return message.trimEnd();
+  };
+
+  return {
+    title: `📋 Сводка уведомлений (${pending.length})`,
+    content: render(url => `[Фото](${url})`),
+    telegramContent: render(url => `📷 ${url}`),
+    data: {
+      count: pending.length,
+      byType: Object.fromEntries(Array.from(byType.entries()).map(([type, items]) => [type, items.length])),
+      bySeverity: Object.fromEntries(Array.from(bySeverity.entries()).map(([severity, items]) => [severity, items.length])),
+      plates: plates.map(plate => ({
+        licensePlate: plate.licensePlate,
+        count: plate.count,
+        types: plate.types,
+        highestSeverity: plate.highestSeverity,
+        lastSeenAt: plate.lastSeenAt,
+        photoUrl: plate.photoUrl,
+      })),
+      notifications: ordered.map(n => ({
+        type: n.type,
+        title: n.title,
+        licensePlate: n.licensePlate,
+        severity: n.severity,
+        photoUrl: n.photoUrl,
+        createdAt: n.createdAt,
+      })),
+    },
+  };
+}
 
-  // Send summary
-  let sent = 0;
-  let failed = 0;
+/**
+ * Send the notifications held for each channel as a summary. Overlapping
+ * calls share one send so a summary never goes out twice.
+ */
+export async function sendPendingSummary(
+  channels: readonly QuietHoursChannel[] = QUIET_HOURS_CHANNELS
+): Promise<SummaryResult> {
+  const results = await Promise.all(channels.map(sendChannelSummary));
+  return results.reduce(
+    (total, result) => ({ sent: total.sent + result.sent, failed: total.failed + result.failed }),
+    { sent: 0, failed: 0 }
+  );
+}
 
-  try {
-    const emailResult = await notifyOwner({
-      title: summaryTitle,
-      content: summaryMessage,
+function sendChannelSummary(channel: QuietHoursChannel): Promise<SummaryResult> {
+  let inFlight = summariesInFlight.get(channel);
+  if (!inFlight) {
+    inFlight = deliverChannelSummary(channel).finally(() => {
+      summariesInFlight.delete(channel);
     });
-    if (emailResult) sent++;
-  } catch (error) {
-    console.error("[QuietHours] Failed to send summary email:", error);
-    failed++;
+    summariesInFlight.set(channel, inFlight);
   }
+  return inFlight;
+}
 
-  try {
+async function deliverChannelSummary(channel: QuietHoursChannel): Promise<SummaryResult> {
+  const pending = await getPendingNotifications(true, channel);
+  
+  if (pending.length === 0) {
+    console.log(`[QuietHours] No pending ${channel} notifications to send`);
+    return { sent: 0, failed: 0 };
+  }
+  const ids = pending.map(n => n.id);
+
+  if (channel === "telegram") {
     const telegramEnabled = await getSetting("telegram_enabled");
-    if (telegramEnabled?.value === "true") {
-      const telegramResult = await sendTelegramMessage({ title: summaryTitle, content: summaryMessage });
-      if (telegramResult) sent++;
+    if (telegramEnabled?.value !== "true") {
+      await markNotificationsSent(ids);
+      console.log(`[QuietHours] Telegram is off, dropped ${ids.length} held notifications`);
+      return { sent: 0, failed: 0 };
     }
-  } catch (error) {
-    console.error("[QuietHours] Failed to send summary to Telegram:", error);
-    failed++;
   }
 
-  // Mark all as sent
-  if (sent > 0) {
-    const ids = pending.map(n => n.id);
-    await markNotificationsSent(ids);
-    console.log(`[QuietHours] Marked ${ids.length} notifications as sent`);
+  const summary = buildQuietHoursSummary(pending);
+  const severity = SEVERITY_PRIORITY.find(level => pending.some(n => n.severity === level)) ?? "medium";
+
+  const { channels } = await dispatchNotification({
+    type: "quiet_hours_summary",
+    severity,
+    title: summary.title,
+    content: summary.content,
+    telegram: channel === "telegram" ? { title: summary.title, content: summary.telegramContent } : undefined,
+    data: summary.data,
+    channels: [channel],
+  });
+  const sent = channels.filter(outcome => outcome.status === "sent").length;
+  const failed = channels.filter(outcome => outcome.status === "failed").length;
+
+  // The summary has its own history row, which the retry worker resends if it
+  // failed, so the held notifications must not be summarised again
+  await markNotificationsSent(ids);
+  if (channels.length === 0) {
+    console.log(`[QuietHours] Nobody receives ${channel} notifications, dropped ${ids.length} held notifications`);
+  } else {
+    console.log(`[QuietHours] Marked ${ids.length} ${channel} notifications as sent`);
   }
 
   return { sent, failed };
 }
 
 /**
- * Get quiet hours configuration
+ * Sends each channel's summary as soon as its quiet hours end.
+ * Returns the channels whose quiet hours just ended.
  */
-export async function getQuietHoursConfig(): Promise<{
-  enabled: boolean;
-  startTime: string;
-  endTime: string;
-  bypassCritical: boolean;
-}> {
+export async function checkQuietHoursEnd(now = new Date()): Promise<QuietHoursChannel[]> {
+  const quiet = await getQuietChannels(now);
+  // On the first check, e.g. after a restart, channels still holding
+  // notifications were in quiet hours before it
+  const before = wasQuiet ?? await getPendingNotificationChannels();
+  const ended = before.filter(channel => !quiet.includes(channel));
+  wasQuiet = quiet;
+  if (ended.length === 0) return [];
+
+  const { sent, failed } = await sendPendingSummary(ended);
+  console.log(`[QuietHours] Quiet hours ended for ${ended.join(", ")}, summary sent on ${sent} channels (${failed} failed)`);
+  return ended;
+}
+
+/**
+ * Periodically check whether quiet hours have just ended
+ */
+export function startQuietHoursWatcher(): void {
+  if (watcherTimer) return;
+
+  watcherTimer = setInterval(() => {
+    checkQuietHoursEnd().catch(error => {
+      console.error("[QuietHours] Quiet hours check failed:", error);
+    });
+  }, QUIET_HOURS_CHECK_INTERVAL_MS);
+}
+
+export function stopQuietHoursWatcher(): void {
+  if (watcherTimer) clearInterval(watcherTimer);
+  watcherTimer = null;
+  wasQuiet = null;
+}
+
+/**
+ * Time zone quiet hours are kept in, the server's own until a valid one is set
+ */
+export async function getQuietHoursTimeZone(): Promise<string> {
+  const timezone = await getSetting("quietHoursTimezone");
+  return timezone?.value && isValidTimeZone(timezone.value) ? timezone.value : getServerTimeZone();
+}
+
+/**
+ * Get quiet hours configuration. Channels without a schedule of their own
+ * use the start and end time on every day.
+ */
+export async function getQuietHoursConfig(): Promise<QuietHoursConfig> {
   const enabled = await getSetting("quietHoursEnabled");
   const startTime = await getSetting("quietHoursStart");
   const endTime = await getSetting("quietHoursEnd");
   const bypassCritical = await getSetting("quietHoursBypassCritical");
+  const timezone = await getQuietHoursTimeZone();
+  const holidays = await getSetting("quietHoursHolidays");
+
+  const fallback = defaultQuietHoursSchedule(startTime?.value || "22:00", endTime?.value || "07:00");
+  const schedules = {} as Record<QuietHoursChannel, QuietHoursSchedule>;
+  for (const channel of QUIET_HOURS_CHANNELS) {
+    const schedule = await getSetting(QUIET_HOURS_SCHEDULE_KEYS[channel]);
+    schedules[channel] = parseQuietHoursSchedule(schedule?.value ?? null, fallback) ?? fallback;
+  }
 
   return {
     enabled: enabled?.value === "true",
     startTime: startTime?.value || "22:00",
     endTime: endTime?.value || "07:00",
     bypassCritical: bypassCritical?.value === "true",
+    timezone,
+    holidays: parseHolidays(holidays?.value ?? null),
+    schedules,
   };
 }
+
+/**
+ * A stored schedule, or null when it is missing or malformed. Malformed days
+ * get the fallback's window for that day.
+ */
+export function parseQuietHoursSchedule(
+  value: string | null,
+  fallback = defaultQuietHoursSchedule()
+): QuietHoursSchedule | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed?.enabled !== "boolean" || !Array.isArray(parsed.days) || parsed.days.length !== WEEKDAYS.length) {
+      return null;
+    }
+    return {
+      enabled: parsed.enabled,
+      days: parsed.days.map((day: unknown, weekday: number) => parseQuietHoursWindow(day) ?? fallback.days[weekday]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function parseQuietHoursWindow(value: unknown): QuietHoursWindow | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { enabled, start, end } = value as Record<string, unknown>;
+  return typeof enabled === "boolean" &&
+    typeof start === "string" && TIME_PATTERN.test(start) &&
+    typeof end === "string" && TIME_PATTERN.test(end)
+    ? { enabled, start, end }
+    : null;
+}
+
+function parseHolidays(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((date): date is string => typeof date === "string" && HOLIDAY_PATTERN.test(date))
+      : [];
+  } catch {
+    return [];
+  }
+}
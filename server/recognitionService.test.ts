@@ -0,0 +1,635 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getVehicleByPlate: vi.fn(),
+  createPassage: vi.fn(),
+  logBarrierAction: vi.fn(),
+  isPlateBlacklisted: vi.fn(),
+  incrementBlacklistAttempt: vi.fn(),
+  getOpenVisit: vi.fn(),
+  touchPassage: vi.fn(),
+  updatePassage: vi.fn(),
+  getSetting: vi.fn(),
+  getBarrierIntegrationForLane: vi.fn(),
+  getUsableGuestPass: vi.fn(),
+  getGuestPassForExit: vi.fn(),
+  getGuestPasses: vi.fn(),
+  getAllVehicles: vi.fn(),
+  getAllBlacklistEntries: vi.fn(),
+  consumeGuestPassEntry: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn().mockResolvedValue({ key: "passages/photo.jpg", url: "https://s3/photo.jpg" }),
+}));
+
+vi.mock("./integrationService", () => ({
+  openBarrier: vi.fn(),
+}));
+
+vi.mock("./emailNotification", () => ({
+  notifyUnknownVehicle: vi.fn().mockResolvedValue(true),
+  notifyMedicalIssue: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("./blacklistNotification", () => ({
+  notifyBlacklistDetection: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("./occupancyService", () => ({
+  resolveDirection: vi.fn(),
+}));
+
+vi.mock("./vehicleGroups", () => ({
+  checkVehicleAccess: vi.fn(),
+}));
+
+vi.mock("./plateRecognition", () => ({
+  getRecognizersForCamera: vi.fn(() => []),
+  recognizePlate: vi.fn(),
+}));
+
+vi.mock("./medicalPolicy", () => ({
+  getMedicalCheckMode: vi.fn(),
+  checkMedicalStatus: vi.fn(),
+}));
+
+import * as db from "./db";
+import { openBarrier } from "./integrationService";
+import { notifyUnknownVehicle, notifyMedicalIssue } from "./emailNotification";
+import { notifyBlacklistDetection } from "./blacklistNotification";
+import { storagePut } from "./storage";
+import { resolveDirection } from "./occupancyService";
+import { checkVehicleAccess } from "./vehicleGroups";
+import { getMedicalCheckMode, checkMedicalStatus } from "./medicalPolicy";
+import { recognizePlate } from "./plateRecognition";
+import { processPlateRead, getPresenceWindowMs, readPlateBurst, analyzeBurst } from "./recognitionService";
+import { clearVehiclePlateCache } from "./plateMatching";
+
+function plateRead(plate: string | null, confidence = 90) {
+  return {
+    plate,
+    confidence,
+    provider: "llm" as const,
+    latencyMs: 120,
+    attempts: [{ provider: "llm" as const, plate, confidence, latencyMs: 120 }],
+  };
+}
+
+describe("Recognition Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.createPassage).mockResolvedValue({ id: 5 });
+    vi.mocked(db.isPlateBlacklisted).mockResolvedValue(null);
+    vi.mocked(db.getOpenVisit).mockResolvedValue(null);
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getBarrierIntegrationForLane).mockResolvedValue(null);
+    vi.mocked(resolveDirection).mockResolvedValue(null);
+    vi.mocked(checkVehicleAccess).mockResolvedValue({ allowed: true, reason: null });
+    vi.mocked(db.getUsableGuestPass).mockResolvedValue(null);
+    vi.mocked(db.getGuestPasses).mockResolvedValue([]);
+    vi.mocked(db.getAllVehicles).mockResolvedValue([]);
+    vi.mocked(db.getAllBlacklistEntries).mockResolvedValue([]);
+    vi.mocked(getMedicalCheckMode).mockResolvedValue("off");
+    clearVehiclePlateCache();
+  });
+
+  describe("getPresenceWindowMs", () => {
+    it("defaults to one minute", async () => {
+      expect(await getPresenceWindowMs()).toBe(60000);
+    });
+
+    it("reads the configured window", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "presence_window_seconds", value: "15" } as any);
+      expect(await getPresenceWindowMs()).toBe(15000);
+    });
+
+    it("ignores invalid values", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "presence_window_seconds", value: "soon" } as any);
+      expect(await getPresenceWindowMs()).toBe(60000);
+    });
+  });
+
+  describe("processPlateRead", () => {
+    it("auto-opens the barrier for allowed vehicles", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true, userId: 1 });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: true, barrierError: null, passageId: 5 });
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        licensePlate: "A123BC777",
+        barrierOpened: true,
+        vehicleId: 3,
+        openedBy: 1,
+        recognitionProvider: "llm",
+        recognitionLatency: 120,
+      }));
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({
+        triggeredBy: "auto",
+        passageId: 5,
+        success: true,
+      }));
+    });
+
+    it("records barrier failures on the passage", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "Timeout" });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: false, barrierError: "Timeout" });
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({
+        userId: null,
+        success: false,
+        errorMessage: "Timeout",
+      }));
+    });
+
+    it("notifies about unknown vehicles without opening", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+
+      const result = await processPlateRead(plateRead("X999XX99"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.isAllowed).toBe(false);
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(notifyUnknownVehicle).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "X999XX99" }));
+    });
+
+    it("denies registered vehicles outside their schedule", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true, scheduleId: 2 } as any);
+      vi.mocked(checkVehicleAccess).mockResolvedValue({ allowed: false, reason: 'Outside schedule "Contractors"' });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: false, barrierOpened: false, denialReason: 'Outside schedule "Contractors"' });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(notifyUnknownVehicle).not.toHaveBeenCalled();
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        isAllowed: false,
+        denialReason: 'Outside schedule "Contractors"',
+      }));
+    });
+
+    it("records why unknown vehicles were denied", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+
+      const result = await processPlateRead(plateRead("X999XX99"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.denialReason).toBe("Vehicle not registered");
+      expect(checkVehicleAccess).not.toHaveBeenCalled();
+    });
+
+    it("admits guests and consumes an entry", async () => {
+      const pass = { id: 11, licensePlate: "G555GG55", maxEntries: 2, usedEntries: 0 } as any;
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.getUsableGuestPass).mockResolvedValue(pass);
+      vi.mocked(db.consumeGuestPassEntry).mockResolvedValue({ ...pass, usedEntries: 1 });
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const result = await processPlateRead(plateRead("G555GG55"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: true, denialReason: null });
+      expect(result.guestPass?.usedEntries).toBe(1);
+      expect(db.consumeGuestPassEntry).toHaveBeenCalledWith(11);
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ guestPassId: 11, isAllowed: true }));
+      expect(notifyUnknownVehicle).not.toHaveBeenCalled();
+    });
+
+    it("lets guests leave without consuming an entry", async () => {
+      vi.mocked(resolveDirection).mockResolvedValue("exit");
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.getGuestPassForExit).mockResolvedValue({ id: 11, status: "exhausted" } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const result = await processPlateRead(plateRead("G555GG55"), "AAAA", { camera: { id: 2 } as any, autoOpen: true });
+
+      expect(result.isAllowed).toBe(true);
+      expect(db.getUsableGuestPass).not.toHaveBeenCalled();
+      expect(db.consumeGuestPassEntry).not.toHaveBeenCalled();
+    });
+
+    it("does not consume a pass when the barrier fails", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.getUsableGuestPass).mockResolvedValue({ id: 11 } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "Timeout" });
+
+      await processPlateRead(plateRead("G555GG55"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(db.consumeGuestPassEntry).not.toHaveBeenCalled();
+    });
+
+    it("blocks blacklisted vehicles", async () => {
+      const entry = { id: 9, licensePlate: "B666BB66", reason: "Theft", notifyOnDetection: true } as any;
+      vi.mocked(db.isPlateBlacklisted).mockResolvedValue(entry);
+
+      const result = await processPlateRead(plateRead("B666BB66"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isBlacklisted: true, isAllowed: false, barrierOpened: false });
+      expect(db.incrementBlacklistAttempt).toHaveBeenCalledWith(9);
+      expect(notifyBlacklistDetection).toHaveBeenCalled();
+      expect(openBarrier).not.toHaveBeenCalled();
+    });
+
+    it("records the direction and opens the lane barrier", async () => {
+      vi.mocked(resolveDirection).mockResolvedValue("exit");
+      vi.mocked(db.getBarrierIntegrationForLane).mockResolvedValue({ id: 12 } as any);
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: { id: 4, lane: "exit" } as any, autoOpen: true });
+
+      expect(result.direction).toBe("exit");
+      expect(db.getBarrierIntegrationForLane).toHaveBeenCalledWith("exit");
+      expect(openBarrier).toHaveBeenCalledWith(12);
+      expect(checkVehicleAccess).toHaveBeenCalledWith(expect.objectContaining({ id: 3 }), { cameraId: 4, barrierId: 12 });
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ direction: "exit" }));
+    });
+
+    it("keeps an explicitly chosen barrier", async () => {
+      vi.mocked(resolveDirection).mockResolvedValue("entry");
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true, barrierIntegrationId: 2 });
+
+      expect(db.getBarrierIntegrationForLane).not.toHaveBeenCalled();
+      expect(openBarrier).toHaveBeenCalledWith(2);
+    });
+
+    it("records the camera and first sighting on new passages", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+
+      const result = await processPlateRead(plateRead("X999XX99"), "AAAA", { camera: { id: 4 } as any, autoOpen: true });
+
+      expect(result).toMatchObject({ duplicate: false, frameCount: 1 });
+      expect(db.getOpenVisit).toHaveBeenCalledWith("X999XX99", 4, expect.any(Date));
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        cameraId: 4,
+        lastSeenAt: expect.any(Date),
+      }));
+    });
+
+    it("merges repeated reads into the open visit", async () => {
+      vi.mocked(db.getOpenVisit).mockResolvedValue({
+        id: 7, isAllowed: false, barrierOpened: false, photoUrl: "https://s3/first.jpg", frameCount: 3,
+      } as any);
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+
+      const result = await processPlateRead(plateRead("X999XX99"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ duplicate: true, passageId: 7, frameCount: 4, photoUrl: "https://s3/first.jpg" });
+      expect(db.touchPassage).toHaveBeenCalledWith(7, expect.any(Date));
+      expect(db.createPassage).not.toHaveBeenCalled();
+      expect(storagePut).not.toHaveBeenCalled();
+      expect(notifyUnknownVehicle).not.toHaveBeenCalled();
+    });
+
+    it("does not re-open the barrier during a visit", async () => {
+      vi.mocked(db.getOpenVisit).mockResolvedValue({
+        id: 7, isAllowed: true, barrierOpened: true, photoUrl: null, frameCount: 1,
+      } as any);
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ duplicate: true, isAllowed: true, barrierOpened: true });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.logBarrierAction).not.toHaveBeenCalled();
+    });
+
+    it("opens the barrier when a visit held below the threshold gets a confident read", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const held = await processPlateRead(plateRead("A123BC777", 50), "AAAA", { camera: null, autoOpen: false, holdForReview: true });
+      expect(held).toMatchObject({ isAllowed: true, barrierOpened: false, pendingReview: true });
+      expect(openBarrier).not.toHaveBeenCalled();
+
+      vi.mocked(db.getOpenVisit).mockResolvedValue({
+        id: 5, isAllowed: true, barrierOpened: false, reviewStatus: "pending", direction: null, photoUrl: null, frameCount: 1,
+      } as any);
+      const result = await processPlateRead(plateRead("A123BC777", 95), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ duplicate: true, passageId: 5, barrierOpened: true, pendingReview: false });
+      expect(openBarrier).toHaveBeenCalledTimes(1);
+      expect(db.updatePassage).toHaveBeenCalledWith(5, { barrierOpened: true, reviewStatus: null });
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({ triggeredBy: "auto", passageId: 5, success: true }));
+      expect(db.createPassage).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps a held visit closed on further low-confidence reads", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(db.getOpenVisit).mockResolvedValue({
+        id: 5, isAllowed: true, barrierOpened: false, reviewStatus: "pending", direction: null, photoUrl: null, frameCount: 1,
+      } as any);
+
+      const result = await processPlateRead(plateRead("A123BC777", 50), "AAAA", { camera: null, autoOpen: false, holdForReview: true });
+
+      expect(result).toMatchObject({ duplicate: true, barrierOpened: false, pendingReview: true });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.updatePassage).not.toHaveBeenCalled();
+    });
+
+    it("does not count blacklist attempts twice in one visit", async () => {
+      vi.mocked(db.isPlateBlacklisted).mockResolvedValue({ id: 9, reason: "Theft", notifyOnDetection: true } as any);
+      vi.mocked(db.getOpenVisit).mockResolvedValue({
+        id: 8, isAllowed: false, barrierOpened: false, photoUrl: null, frameCount: 2,
+      } as any);
+
+      const result = await processPlateRead(plateRead("B666BB66"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ duplicate: true, isBlacklisted: true });
+      expect(db.incrementBlacklistAttempt).not.toHaveBeenCalled();
+      expect(notifyBlacklistDetection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("review queue", () => {
+    it("queues reads of unknown vehicles", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+
+      const result = await processPlateRead(plateRead("X999XX99"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.pendingReview).toBe(true);
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ reviewStatus: "pending" }));
+    });
+
+    it("queues low-confidence reads of allowed vehicles the barrier did not open for", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "timeout" });
+
+      const result = await processPlateRead(plateRead("A123BC777", 60), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: false, pendingReview: true });
+    });
+
+    it("does not queue low-confidence reads that already opened the barrier", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const result = await processPlateRead(plateRead("A123BC777", 60), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: true, pendingReview: false });
+    });
+
+    it("holds reads for review without opening the barrier", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+
+      const result = await processPlateRead(plateRead("A123BC777", 50), "AAAA", { camera: null, autoOpen: false, holdForReview: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: false, pendingReview: true });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ reviewStatus: "pending" }));
+    });
+
+    it("leaves confident reads of registered vehicles alone", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      await processPlateRead(plateRead("A123BC777", 95), "AAAA", { camera: null, autoOpen: true });
+
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ reviewStatus: null }));
+    });
+
+    it("does not queue blacklisted plates", async () => {
+      vi.mocked(db.isPlateBlacklisted).mockResolvedValue({ id: 9, licensePlate: "B666BB66", reason: "Theft" } as any);
+
+      const result = await processPlateRead(plateRead("B666BB66", 40), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.pendingReview).toBe(false);
+    });
+  });
+
+  describe("medical status gate", () => {
+    const expiredRecord = { driverName: "Ivanov", expirationDate: new Date("2026-01-01") } as any;
+
+    beforeEach(() => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC777", isActive: true } as any);
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+    });
+
+    it("is skipped when the policy is off", async () => {
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(checkMedicalStatus).not.toHaveBeenCalled();
+      expect(result.medicalStatus).toBeNull();
+    });
+
+    it("blocks drivers with an expired check", async () => {
+      vi.mocked(getMedicalCheckMode).mockResolvedValue("block");
+      vi.mocked(checkMedicalStatus).mockResolvedValue({ status: "expired", passed: false, record: expiredRecord });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: false, barrierOpened: false, medicalStatus: "expired", denialReason: "Medical status: expired" });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ isAllowed: false, medicalStatus: "expired" }));
+      expect(notifyMedicalIssue).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "A123BC777", driverName: "Ivanov", blocked: true }));
+      expect(notifyUnknownVehicle).not.toHaveBeenCalled();
+    });
+
+    it("only flags entries in flag mode", async () => {
+      vi.mocked(getMedicalCheckMode).mockResolvedValue("flag");
+      vi.mocked(checkMedicalStatus).mockResolvedValue({ status: "suspended", passed: false, record: expiredRecord });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, barrierOpened: true, medicalStatus: "suspended", denialReason: null });
+      expect(notifyMedicalIssue).toHaveBeenCalledWith(expect.objectContaining({ blocked: false }));
+    });
+
+    it("records a valid check without notifying", async () => {
+      vi.mocked(getMedicalCheckMode).mockResolvedValue("block");
+      vi.mocked(checkMedicalStatus).mockResolvedValue({ status: "valid", passed: true, record: {} as any });
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, medicalStatus: "valid" });
+      expect(notifyMedicalIssue).not.toHaveBeenCalled();
+    });
+
+    it("does not check vehicles leaving", async () => {
+      vi.mocked(getMedicalCheckMode).mockResolvedValue("block");
+      vi.mocked(resolveDirection).mockResolvedValue("exit");
+
+      const result = await processPlateRead(plateRead("A123BC777"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(checkMedicalStatus).not.toHaveBeenCalled();
+      expect(result.isAllowed).toBe(true);
+    });
+
+    it("does not consume a guest entry when blocked", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.getUsableGuestPass).mockResolvedValue({ id: 11 } as any);
+      vi.mocked(getMedicalCheckMode).mockResolvedValue("block");
+      vi.mocked(checkMedicalStatus).mockResolvedValue({ status: "missing", passed: false, record: null });
+
+      const result = await processPlateRead(plateRead("G555GG55"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.isAllowed).toBe(false);
+      expect(db.consumeGuestPassEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("plate matching", () => {
+    beforeEach(() => {
+      // Vehicles are looked up by their stored plate once the read matched it
+      vi.mocked(db.getVehicleByPlate).mockImplementation(async (plate: string) =>
+        (await db.getAllVehicles(true)).find(vehicle => vehicle.licensePlate === plate) ?? null
+      );
+      vi.mocked(db.getSetting).mockImplementation(async key =>
+        key === "plate_max_edit_distance" ? { key, value: "1" } as any : undefined
+      );
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+    });
+
+    it("does not match a plate one character away unless an edit distance is configured", async () => {
+      vi.mocked(db.getSetting).mockResolvedValue(undefined);
+      vi.mocked(db.getAllVehicles).mockResolvedValue([
+        { id: 3, licensePlate: "A123BC777", isActive: true } as any,
+      ]);
+
+      const result = await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: false, barrierOpened: false, vehicle: null });
+      expect(openBarrier).not.toHaveBeenCalled();
+    });
+
+    it("matches a Latin read to a plate stored in Cyrillic", async () => {
+      vi.mocked(db.getAllVehicles).mockResolvedValue([
+        { id: 3, licensePlate: "А123ВС77", isActive: true } as any,
+      ]);
+
+      const result = await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isAllowed: true, plate: "А123ВС77", plateMatch: { type: "homoglyph", distance: 0 } });
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        licensePlate: "А123ВС77",
+        recognizedPlate: "A123BC77",
+        vehicleId: 3,
+        plateMatchType: "homoglyph",
+        plateMatchDistance: 0,
+      }));
+      expect(notifyUnknownVehicle).not.toHaveBeenCalled();
+    });
+
+    it("catches blacklisted plates read with confusable characters", async () => {
+      vi.mocked(db.getAllBlacklistEntries).mockResolvedValue([
+        { id: 7, licensePlate: "B777OO99", reason: "Theft", isActive: true, expiresAt: null, notifyOnDetection: false } as any,
+      ]);
+
+      const result = await processPlateRead(plateRead("8777O099"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isBlacklisted: true, plate: "B777OO99", plateMatch: { type: "confusable", distance: 2 } });
+      expect(db.incrementBlacklistAttempt).toHaveBeenCalledWith(7);
+    });
+
+    it("queues a registered vehicle loosely matching a blacklisted plate instead of denying it", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC77", isActive: true } as any);
+      vi.mocked(db.getAllBlacklistEntries).mockResolvedValue([
+        { id: 7, licensePlate: "A123BC78", reason: "Theft", isActive: true, expiresAt: null, notifyOnDetection: true } as any,
+      ]);
+
+      const result = await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isBlacklisted: false, isAllowed: true, barrierOpened: false, pendingReview: true, plate: "A123BC77" });
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.incrementBlacklistAttempt).not.toHaveBeenCalled();
+      expect(notifyBlacklistDetection).not.toHaveBeenCalled();
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        vehicleId: 3,
+        reviewStatus: "pending",
+        notes: "Possible blacklist match: A123BC78",
+      }));
+    });
+
+    it("denies a registered vehicle whose plate is blacklisted exactly", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC77", isActive: true } as any);
+      vi.mocked(db.isPlateBlacklisted).mockResolvedValue({ id: 7, licensePlate: "A123BC77", reason: "Theft" } as any);
+
+      const result = await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result).toMatchObject({ isBlacklisted: true, isAllowed: false, vehicle: null });
+      expect(openBarrier).not.toHaveBeenCalled();
+    });
+
+    it("merges reads of the matched plate into its visit", async () => {
+      vi.mocked(db.getAllVehicles).mockResolvedValue([
+        { id: 3, licensePlate: "A123BC777", isActive: true } as any,
+      ]);
+      vi.mocked(db.getOpenVisit).mockResolvedValue({ id: 9, isAllowed: true, barrierOpened: true, frameCount: 1 } as any);
+
+      const result = await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(db.getOpenVisit).toHaveBeenCalledWith("A123BC777", null, expect.any(Date));
+      expect(result).toMatchObject({ duplicate: true, passageId: 9, plateMatch: { type: "fuzzy", distance: 1 } });
+    });
+
+    it("records the region of the matched plate", async () => {
+      vi.mocked(db.getAllVehicles).mockResolvedValue([
+        { id: 3, licensePlate: "А123ВС77", isActive: true } as any,
+      ]);
+
+      await processPlateRead(plateRead("A123BC77"), "AAAA", { camera: null, autoOpen: false });
+
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({ plateRegion: "RU-77" }));
+    });
+
+    it("admits a guest whose pass plate differs by one character", async () => {
+      vi.mocked(checkVehicleAccess).mockResolvedValue({ allowed: false, reason: "Vehicle not registered" });
+      vi.mocked(db.getUsableGuestPass).mockImplementation(async (plate: string) =>
+        plate === "K456MM199" ? { id: 11, licensePlate: "K456MM199" } as any : null
+      );
+      vi.mocked(db.getGuestPasses).mockResolvedValue([{ id: 11, licensePlate: "K456MM199" } as any]);
+
+      const result = await processPlateRead(plateRead("K456MM190"), "AAAA", { camera: null, autoOpen: true });
+
+      expect(result.isAllowed).toBe(true);
+      expect(db.createPassage).toHaveBeenCalledWith(expect.objectContaining({
+        licensePlate: "K456MM199",
+        guestPassId: 11,
+        plateMatchType: "fuzzy",
+        plateMatchDistance: 1,
+      }));
+    });
+  });
+
+  describe("burst recognition", () => {
+    it("votes on the frames and keeps the details of the best one", async () => {
+      vi.mocked(recognizePlate)
+        .mockResolvedValueOnce(plateRead("A123BC77", 70))
+        .mockRejectedValueOnce(new Error("timeout"))
+        .mockResolvedValueOnce({ ...plateRead("A123BC77", 90), latencyMs: 300 });
+
+      const result = await readPlateBurst(["F0", "F1", "F2"], null);
+
+      expect(result).toMatchObject({ plate: "A123BC77", confidence: 80, bestFrame: 2, latencyMs: 300 });
+      expect(result.candidates[1]).toEqual({ frame: 1, plate: null, confidence: 0, provider: null, error: "timeout" });
+    });
+
+    it("throws when every frame fails", async () => {
+      vi.mocked(recognizePlate).mockRejectedValue(new Error("unreachable"));
+
+      await expect(readPlateBurst(["F0", "F1"], null)).rejects.toThrow("All frames failed");
+    });
+
+    it("stores the best frame and the candidate reads on the passage", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC77", isActive: true } as any);
+      vi.mocked(recognizePlate)
+        .mockResolvedValueOnce(plateRead("A123BC71", 60))
+        .mockResolvedValueOnce(plateRead("A123BC77", 90))
+        .mockResolvedValueOnce(plateRead("A123BC77", 85));
+
+      const result = await analyzeBurst(["RjA=", "RjE=", "RjI="], { camera: null, autoOpen: false });
+
+      expect(storagePut).toHaveBeenCalledWith(expect.any(String), Buffer.from("RjE=", "base64"), "image/jpeg");
+      expect(result.candidates).toHaveLength(3);
+      const passage = vi.mocked(db.createPassage).mock.calls[0][0];
+      expect(passage.confidence).toBe(58);
+      expect(JSON.parse(passage.candidateReads!)).toHaveLength(3);
+    });
+  });
+});
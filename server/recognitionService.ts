@@ -0,0 +1,478 @@
+/**
+ * Recognition Service - turns a camera frame into a passage decision
+ * (blacklist check, allowed-vehicle lookup, group policy and access schedule, guest passes,
+ * driver medical status, barrier auto-open, notifications).
+ * Reads that fit no enabled plate format are discarded (see plateFormats);
+ * the rest are matched to stored plates with OCR tolerance (see plateMatching).
+ * A burst of frames can be read at once and voted into one consensus plate.
+ * Unknown and low-confidence reads, and registered vehicles only loosely
+ * matching a blacklisted plate, are queued for operator review (see reviewQueue).
+ * Repeated reads of a plate on the same camera are merged into one visit.
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  createPassage,
+  logBarrierAction,
+  incrementBlacklistAttempt,
+  getOpenVisit,
+  touchPassage,
+  updatePassage,
+  getSetting,
+  getBarrierIntegrationForLane,
+  consumeGuestPassEntry,
+} from './db';
+import { storagePut } from './storage';
+import { openBarrier } from './integrationService';
+import { getRecognizersForCamera, recognizePlate, type PlateRecognitionResult } from './plateRecognition';
+import { notifyUnknownVehicle, notifyMedicalIssue } from './emailNotification';
+import { notifyBlacklistDetection } from './blacklistNotification';
+import { resolveDirection, type Direction } from './occupancyService';
+import type { AccessDecision } from './accessSchedule';
+import { checkVehicleAccess, type AccessTarget } from './vehicleGroups';
+import { getMedicalCheckMode, checkMedicalStatus, type MedicalDecision, type MedicalStatus } from './medicalPolicy';
+import {
+  getPlateMatchConfig,
+  findVehicleByPlate,
+  findBlacklistEntry,
+  findUsableGuestPass,
+  findGuestPassForExit,
+  isExactMatch,
+  type PlateLookup,
+  type PlateMatch,
+} from './plateMatching';
+import { getEnabledPlateGroups, parsePlate } from './plateFormats';
+import { votePlate, type CandidateRead } from './plateVoting';
+import { getReviewConfidenceThreshold, needsReview } from './reviewQueue';
+import type { BlacklistEntry, CameraIntegration, GuestPass, Vehicle } from '../drizzle/schema';
+
+const DEFAULT_PRESENCE_WINDOW_SECONDS = 60;
+export const MAX_BURST_FRAMES = 10;
+
+export interface RecognitionOptions {
+  camera: CameraIntegration | null;
+  autoOpen: boolean;
+  barrierIntegrationId?: number;
+  userId?: number | null;
+  /** Queue the read for review whatever its outcome, e.g. when it is below the camera threshold */
+  holdForReview?: boolean;
+}
+
+export interface RecognitionOutcome {
+  /** Stored plate the read matched, or the read itself */
+  plate: string | null;
+  confidence: number;
+  provider: string | null;
+  latencyMs: number;
+  isAllowed: boolean;
+  isBlacklisted: boolean;
+  blacklistEntry: BlacklistEntry | null;
+  vehicle: Vehicle | null;
+  passageId: number;
+  photoUrl: string;
+  barrierOpened: boolean;
+  barrierError: string | null;
+  duplicate: boolean;
+  frameCount: number;
+  direction: Direction | null;
+  denialReason: string | null;
+  guestPass: GuestPass | null;
+  medicalStatus: MedicalStatus | null;
+  plateMatch: PlateMatch | null;
+  /** Per-frame reads when a burst was voted on */
+  candidates: CandidateRead[] | null;
+  /** The read waits for an operator in the review queue */
+  pendingReview: boolean;
+}
+
+export interface BurstRecognitionResult extends PlateRecognitionResult {
+  candidates: CandidateRead[];
+  bestFrame: number;
+}
+
+/**
+ * How long a plate may go unseen on a camera before a new read starts a new visit
+ */
+export async function getPresenceWindowMs(): Promise<number> {
+  const setting = await getSetting('presence_window_seconds');
+  const seconds = setting?.value ? parseInt(setting.value, 10) : NaN;
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_PRESENCE_WINDOW_SECONDS) * 1000;
+}
+
+/**
+ * Decide whether a plate read grants access, with the reason when it does not
+ */
+async function checkAccess(plate: string | null, vehicle: Vehicle | null, target: AccessTarget): Promise<AccessDecision> {
+  if (!plate) return { allowed: false, reason: 'Plate not recognized' };
+  if (!vehicle) return { allowed: false, reason: 'Vehicle not registered' };
+  if (!vehicle.isActive) return { allowed: false, reason: 'Vehicle is inactive' };
+  return checkVehicleAccess(vehicle, target);
+}
+
+/**
+ * Run the camera's recognizer chain on a base64 JPEG frame
+ */
+export async function readPlate(imageBase64: string, camera: CameraIntegration | null): Promise<PlateRecognitionResult> {
+  const groups = await getEnabledPlateGroups();
+  return recognizePlate(imageBase64, getRecognizersForCamera(camera), plate => {
+    const parsed = parsePlate(plate, groups);
+    return parsed.valid ? parsed.plate : null;
+  });
+}
+
+/**
+ * Read every frame of a burst and vote on the plate. The result carries the
+ * recognizer details of the most confident frame agreeing with the consensus.
+ * Throws only when every frame failed.
+ */
+export async function readPlateBurst(frames: string[], camera: CameraIntegration | null): Promise<BurstRecognitionResult> {
+  const reads = await Promise.allSettled(frames.map(frame => readPlate(frame, camera)));
+
+  const candidates: CandidateRead[] = reads.map((read, frame) => read.status === 'fulfilled'
+    ? { frame, plate: read.value.plate, confidence: read.value.confidence, provider: read.value.provider }
+    : { frame, plate: null, confidence: 0, provider: null, error: read.reason?.message || 'Recognition failed' }
+  );
+
+  const completed = reads.flatMap(read => (read.status === 'fulfilled' ? [read.value] : []));
+  if (completed.length === 0) {
+    throw new Error(`All frames failed: ${candidates.map(c => c.error).join('; ')}`);
+  }
+
+  const vote = votePlate(candidates);
+  const best = reads[vote.bestFrame];
+  const bestRead = best.status === 'fulfilled' ? best.value : completed[0];
+
+  return {
+    ...bestRead,
+    plate: vote.plate,
+    confidence: vote.confidence,
+    latencyMs: Math.max(...completed.map(read => read.latencyMs)),
+    candidates,
+    bestFrame: vote.bestFrame,
+  };
+}
+
+/**
+ * Store the frame, record the passage and act on a plate read
+ */
+export async function processPlateRead(
+  result: PlateRecognitionResult | BurstRecognitionResult,
+  imageBase64: string,
+  options: RecognitionOptions
+): Promise<RecognitionOutcome> {
+  const userId = options.userId ?? null;
+  const cameraId = options.camera?.id ?? null;
+  const seenAt = new Date();
+  const candidates = 'candidates' in result ? result.candidates : null;
+  const recognitionDetails = {
+    recognitionProvider: result.provider,
+    recognitionLatency: result.latencyMs,
+    recognitionAttempts: JSON.stringify(result.attempts),
+    candidateReads: candidates ? JSON.stringify(candidates) : null,
+    cameraId,
+    lastSeenAt: seenAt,
+  };
+
+  const matchConfig = result.plate ? await getPlateMatchConfig() : null;
+  const plateGroups = result.plate ? await getEnabledPlateGroups() : [];
+
+  // Check if plate is in allowed list
+  const vehicleMatch = result.plate && matchConfig ? await findVehicleByPlate(result.plate, matchConfig) : null;
+
+  // Only an exact blacklist hit overrides a registered vehicle; an inexact one
+  // is more likely a misread of that vehicle and is left to an operator
+  const blacklistLookup = result.plate && matchConfig ? await findBlacklistEntry(result.plate, matchConfig) : null;
+  const blacklistSuspect = blacklistLookup && vehicleMatch && !isExactMatch(blacklistLookup.match)
+    ? blacklistLookup.item
+    : null;
+  const blacklistMatch = blacklistSuspect ? null : blacklistLookup;
+  const blacklistEntry = blacklistMatch?.item ?? null;
+  const vehicle = blacklistEntry ? null : vehicleMatch?.item ?? null;
+
+  // Act on the stored plate so OCR variations of one plate share a visit
+  const plate = blacklistMatch?.match.plate ?? vehicleMatch?.match.plate ?? result.plate;
+  const autoOpen = options.autoOpen && !blacklistSuspect;
+
+  // Same plate still at the same camera - extend the visit instead of acting again
+  if (plate) {
+    const since = new Date(seenAt.getTime() - await getPresenceWindowMs());
+    const visit = await getOpenVisit(plate, cameraId, since);
+    if (visit) {
+      await touchPassage(visit.id, seenAt);
+
+      // The visit may have started on a read that could not open the barrier,
+      // e.g. one below the camera threshold; a read that can opens it now
+      let barrierOpened = visit.barrierOpened;
+      let barrierError: string | null = null;
+      let pendingReview = visit.reviewStatus === 'pending';
+      if (visit.isAllowed && !visit.barrierOpened && autoOpen) {
+        const laneBarrier = options.barrierIntegrationId === undefined && visit.direction
+          ? await getBarrierIntegrationForLane(visit.direction)
+          : null;
+        const barrierResponse = await openBarrier(options.barrierIntegrationId ?? laneBarrier?.id);
+        barrierOpened = barrierResponse.success;
+        barrierError = barrierResponse.success ? null : (barrierResponse.error || 'Unknown hardware error');
+
+        await logBarrierAction({
+          action: 'open',
+          triggeredBy: 'auto',
+          userId,
+          passageId: visit.id,
+          success: barrierOpened,
+          errorMessage: barrierError,
+        });
+
+        // Nothing is left to review once the vehicle has been let through
+        if (barrierOpened) {
+          await updatePassage(visit.id, { barrierOpened: true, ...(pendingReview && { reviewStatus: null }) });
+          pendingReview = false;
+        }
+      }
+
+      return {
+        plate,
+        confidence: result.confidence,
+        provider: result.provider,
+        latencyMs: result.latencyMs,
+        isAllowed: visit.isAllowed,
+        isBlacklisted: blacklistEntry !== null,
+        blacklistEntry,
+        vehicle,
+        passageId: visit.id,
+        photoUrl: visit.photoUrl || '',
+        barrierOpened,
+        barrierError,
+        duplicate: true,
+        frameCount: visit.frameCount + 1,
+        direction: visit.direction,
+        denialReason: visit.denialReason,
+        guestPass: null,
+        medicalStatus: visit.medicalStatus,
+        plateMatch: blacklistMatch?.match ?? vehicleMatch?.match ?? null,
+        candidates,
+        pendingReview,
+      };
+    }
+  }
+
+  const direction = plate ? await resolveDirection(options.camera, plate) : null;
+
+  // Save the image to S3
+  const imageBuffer = Buffer.from(imageBase64, 'base64');
+  const imageKey = `passages/${Date.now()}-${nanoid(8)}.jpg`;
+  const { url: photoUrl } = await storagePut(imageKey, imageBuffer, 'image/jpeg');
+
+  // If blacklisted, handle immediately
+  if (blacklistMatch && blacklistEntry) {
+    const denialReason = `Blacklisted: ${blacklistEntry.reason || 'No reason specified'}`;
+
+    // Increment attempt count
+    await incrementBlacklistAttempt(blacklistEntry.id);
+
+    // Create passage record for blacklisted vehicle
+    const passage = await createPassage({
+      licensePlate: plate || 'UNKNOWN',
+      photoUrl,
+      recognizedPlate: result.plate,
+      confidence: result.confidence,
+      isAllowed: false,
+      wasManualOpen: false,
+      barrierOpened: false,
+      openedBy: userId,
+      notes: `BLACKLISTED: ${blacklistEntry.reason || 'No reason specified'}`,
+      direction,
+      denialReason,
+      plateMatchType: blacklistMatch.match.type,
+      plateMatchDistance: blacklistMatch.match.distance,
+      plateRegion: plate ? parsePlate(plate, plateGroups).region : null,
+      ...recognitionDetails,
+    });
+
+    // Send enhanced notification for blacklisted vehicle
+    if (blacklistEntry.notifyOnDetection) {
+      await notifyBlacklistDetection({
+        entry: blacklistEntry,
+        photoUrl,
+        timestamp: new Date(),
+        passageId: passage.id,
+      });
+    }
+
+    return {
+      plate,
+      confidence: result.confidence,
+      provider: result.provider,
+      latencyMs: result.latencyMs,
+      isAllowed: false,
+      isBlacklisted: true,
+      blacklistEntry,
+      vehicle: null,
+      passageId: passage.id,
+      photoUrl,
+      barrierOpened: false,
+      barrierError: null,
+      duplicate: false,
+      frameCount: 1,
+      direction,
+      denialReason,
+      guestPass: null,
+      medicalStatus: null,
+      plateMatch: blacklistMatch.match,
+      candidates,
+      pendingReview: false,
+    };
+  }
+
+  // Prefer the barrier serving this lane over the primary one
+  const laneBarrier = options.barrierIntegrationId === undefined && direction
+    ? await getBarrierIntegrationForLane(direction)
+    : null;
+  const barrierId = options.barrierIntegrationId ?? laneBarrier?.id;
+
+  // Registered vehicles may still be restricted by their group and access schedule
+  const access = await checkAccess(plate, vehicle, { cameraId, barrierId });
+
+  // Otherwise a guest pass can admit the plate
+  let guestMatch: PlateLookup<GuestPass> | null = null;
+  if (!access.allowed && result.plate && matchConfig) {
+    guestMatch = direction === 'exit'
+      ? await findGuestPassForExit(result.plate, matchConfig)
+      : await findUsableGuestPass(result.plate, seenAt, matchConfig);
+  }
+  let guestPass = guestMatch?.item ?? null;
+  const plateMatch = vehicleMatch?.match ?? guestMatch?.match ?? null;
+  const passagePlate = plateMatch?.plate ?? result.plate;
+  let isAllowed = access.allowed || guestPass !== null;
+  let denialReason = isAllowed ? null : access.reason;
+
+  // Drivers entering may also need a valid medical check
+  let medical: MedicalDecision | null = null;
+  const medicalMode = isAllowed && passagePlate && direction !== 'exit' ? await getMedicalCheckMode() : 'off';
+  if (medicalMode !== 'off' && passagePlate) {
+    medical = await checkMedicalStatus(passagePlate, seenAt);
+    if (!medical.passed && medicalMode === 'block') {
+      isAllowed = false;
+      denialReason = `Medical status: ${medical.status}`;
+    }
+  }
+
+  // Auto-open barrier if allowed
+  let barrierOpened = false;
+  let barrierError: string | null = null;
+  if (isAllowed && autoOpen) {
+    const barrierResponse = await openBarrier(barrierId);
+    barrierOpened = barrierResponse.success;
+    barrierError = barrierResponse.success ? null : (barrierResponse.error || 'Unknown hardware error');
+  }
+
+  const pendingReview = options.holdForReview === true || blacklistSuspect !== null || needsReview(
+    { plate: result.plate, confidence: result.confidence, isAllowed, known: vehicle !== null || guestPass !== null, barrierOpened },
+    await getReviewConfidenceThreshold()
+  );
+
+  // Create passage record
+  const passage = await createPassage({
+    licensePlate: passagePlate || 'UNKNOWN',
+    photoUrl,
+    recognizedPlate: result.plate,
+    confidence: result.confidence,
+    isAllowed,
+    wasManualOpen: false,
+    barrierOpened,
+    vehicleId: vehicle?.id,
+    openedBy: userId,
+    notes: barrierError
+      ? `Barrier error: ${barrierError}`
+      : blacklistSuspect ? `Possible blacklist match: ${blacklistSuspect.licensePlate}` : undefined,
+    direction,
+    denialReason,
+    guestPassId: guestPass?.id,
+    medicalStatus: medical?.status,
+    plateMatchType: plateMatch?.type,
+    plateMatchDistance: plateMatch?.distance,
+    plateRegion: passagePlate ? parsePlate(passagePlate, plateGroups).region : null,
+    reviewStatus: pendingReview ? 'pending' : null,
+    ...recognitionDetails,
+  });
+
+  // Entries count against the pass; leaving does not
+  if (guestPass && isAllowed && direction !== 'exit' && !barrierError) {
+    guestPass = await consumeGuestPassEntry(guestPass.id) ?? guestPass;
+  }
+
+  if (isAllowed && autoOpen) {
+    await logBarrierAction({
+      action: 'open',
+      triggeredBy: 'auto',
+      userId,
+      passageId: passage.id,
+      success: barrierOpened,
+      errorMessage: barrierError,
+    });
+  }
+
+  if (medical && !medical.passed && passagePlate) {
+    await notifyMedicalIssue({
+      passageId: passage.id,
+      licensePlate: passagePlate,
+      driverName: medical.record?.driverName,
+      medicalStatus: medical.status,
+      expirationDate: medical.record?.expirationDate,
+      blocked: !isAllowed,
+      photoUrl,
+      timestamp: new Date(),
+    });
+  }
+
+  // Notify owner for unknown plates (not for registered vehicles outside their schedule)
+  if (!isAllowed && result.plate && !vehicle?.isActive && !guestPass) {
+    await notifyUnknownVehicle({
+      licensePlate: result.plate,
+      confidence: result.confidence,
+      photoUrl,
+      timestamp: new Date(),
+      passageId: passage.id,
+    });
+  }
+
+  return {
+    plate: passagePlate,
+    confidence: result.confidence,
+    provider: result.provider,
+    latencyMs: result.latencyMs,
+    isAllowed,
+    isBlacklisted: false,
+    blacklistEntry: null,
+    vehicle,
+    passageId: passage.id,
+    photoUrl,
+    barrierOpened,
+    barrierError,
+    duplicate: false,
+    frameCount: 1,
+    direction,
+    denialReason,
+    guestPass,
+    medicalStatus: medical?.status ?? null,
+    plateMatch,
+    candidates,
+    pendingReview,
+  };
+}
+
+/**
+ * Recognize a frame and process the read in one step
+ */
+export async function analyzeFrame(imageBase64: string, options: RecognitionOptions): Promise<RecognitionOutcome> {
+  const result = await readPlate(imageBase64, options.camera);
+  return processPlateRead(result, imageBase64, options);
+}
+
+/**
+ * Recognize a burst of frames of one vehicle and process the consensus read,
+ * keeping the frame that best shows the plate
+ */
+export async function analyzeBurst(frames: string[], options: RecognitionOptions): Promise<RecognitionOutcome> {
+  const result = await readPlateBurst(frames, options.camera);
+  return processPlateRead(result, frames[result.bestFrame], options);
+}
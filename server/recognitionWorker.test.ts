@@ -0,0 +1,241 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getDb: vi.fn(),
+  getActiveCameraIntegrations: vi.fn(),
+  getCameraIntegrationById: vi.fn(),
+  getSetting: vi.fn(),
+}));
+
+vi.mock("./integrationService", () => ({
+  getCameraSnapshot: vi.fn(),
+}));
+
+vi.mock("./recognitionService", () => ({
+  readPlate: vi.fn(),
+  readPlateBurst: vi.fn(),
+  processPlateRead: vi.fn(),
+  MAX_BURST_FRAMES: 10,
+}));
+
+import { getDb, getActiveCameraIntegrations, getCameraIntegrationById, getSetting } from "./db";
+import { getCameraSnapshot } from "./integrationService";
+import { readPlate, readPlateBurst, processPlateRead } from "./recognitionService";
+import {
+  processCameraFrame,
+  startCameraRecognition,
+  stopCameraRecognition,
+  startRecognitionWorker,
+  stopRecognitionWorker,
+  getRecognitionWorkerStatus,
+  resumeRecognitionWorker,
+} from "./recognitionWorker";
+
+const camera = {
+  id: 1,
+  name: "Entry Camera",
+  isActive: true,
+  recognitionEnabled: true,
+  recognitionInterval: 2000,
+  recognitionConfidenceThreshold: 70,
+} as any;
+
+function plateRead(plate: string | null, confidence: number) {
+  return { plate, confidence, provider: "llm", latencyMs: 100, attempts: [] } as any;
+}
+
+describe("Recognition Worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(getCameraSnapshot).mockResolvedValue({ success: true, imageBase64: "data:image/jpeg;base64,AAAA" });
+    vi.mocked(getDb).mockResolvedValue({} as any);
+    vi.mocked(getCameraIntegrationById).mockResolvedValue(camera);
+    vi.mocked(processPlateRead).mockResolvedValue({ passageId: 10 } as any);
+  });
+
+  afterEach(() => {
+    stopRecognitionWorker();
+    vi.useRealTimers();
+  });
+
+  describe("processCameraFrame", () => {
+    it("strips the data URL prefix before recognition", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead("A123BC777", 90));
+
+      await processCameraFrame(camera);
+
+      expect(readPlate).toHaveBeenCalledWith("AAAA", camera);
+      expect(processPlateRead).toHaveBeenCalledWith(expect.anything(), "AAAA", { camera, autoOpen: true });
+    });
+
+    it("skips frames without a plate", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead(null, 0));
+
+      const result = await processCameraFrame(camera);
+
+      expect(result.status).toBe("no_plate");
+      expect(processPlateRead).not.toHaveBeenCalled();
+    });
+
+    it("queues reads below the camera confidence threshold for review", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead("A123BC777", 55));
+
+      const result = await processCameraFrame(camera);
+
+      expect(result.status).toBe("low_confidence");
+      expect(processPlateRead).toHaveBeenCalledWith(expect.anything(), "AAAA", { camera, autoOpen: false, holdForReview: true });
+    });
+
+    it("votes on a burst of snapshots and keeps the best frame", async () => {
+      vi.mocked(getCameraSnapshot)
+        .mockResolvedValueOnce({ success: true, imageBase64: "data:image/jpeg;base64,AAAA" })
+        .mockResolvedValueOnce({ success: true, imageBase64: "data:image/jpeg;base64,BBBB" })
+        .mockResolvedValueOnce({ success: false, error: "Busy" });
+      vi.mocked(readPlateBurst).mockResolvedValue({ ...plateRead("A123BC777", 85), candidates: [], bestFrame: 1 });
+
+      const pending = processCameraFrame({ ...camera, recognitionBurstFrames: 3 });
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await pending;
+
+      expect(readPlateBurst).toHaveBeenCalledWith(["AAAA", "BBBB"], expect.objectContaining({ id: 1 }));
+      expect(readPlate).not.toHaveBeenCalled();
+      expect(processPlateRead).toHaveBeenCalledWith(expect.anything(), "BBBB", expect.anything());
+      expect(result.status).toBe("processed");
+    });
+
+    it("throws when the snapshot fails", async () => {
+      vi.mocked(getCameraSnapshot).mockResolvedValue({ success: false, error: "Camera offline" });
+
+      await expect(processCameraFrame(camera)).rejects.toThrow("Camera offline");
+    });
+  });
+
+  describe("startCameraRecognition", () => {
+    it("refuses cameras with recognition disabled", async () => {
+      vi.mocked(getCameraIntegrationById).mockResolvedValue({ ...camera, recognitionEnabled: false });
+
+      const result = await startCameraRecognition(1);
+
+      expect(result).toEqual({ success: false, error: "Recognition is disabled for this camera" });
+      expect(getRecognitionWorkerStatus().running).toBe(false);
+    });
+
+    it("polls the camera at its configured interval", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead("A123BC777", 90));
+
+      await startCameraRecognition(1);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(getCameraSnapshot).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getCameraSnapshot).toHaveBeenCalledTimes(2);
+
+      const status = getRecognitionWorkerStatus();
+      expect(status.running).toBe(true);
+      expect(status.cameras[0]).toMatchObject({ cameraId: 1, framesProcessed: 2, passagesCreated: 2, lastPlate: "A123BC777" });
+    });
+
+    it("keeps running and records errors", async () => {
+      vi.mocked(getCameraSnapshot).mockResolvedValue({ success: false, error: "Timeout" });
+
+      await startCameraRecognition(1);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(getRecognitionWorkerStatus().cameras[0].lastError).toBe("Timeout");
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getCameraSnapshot).toHaveBeenCalledTimes(2);
+    });
+
+    it("counts merged frames separately from new passages", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead("A123BC777", 90));
+      vi.mocked(processPlateRead)
+        .mockResolvedValueOnce({ passageId: 10, duplicate: false } as any)
+        .mockResolvedValueOnce({ passageId: 10, duplicate: true } as any);
+
+      await startCameraRecognition(1);
+      await vi.advanceTimersByTimeAsync(0);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(getRecognitionWorkerStatus().cameras[0]).toMatchObject({ passagesCreated: 1, framesMerged: 1 });
+    });
+
+    it("stops when the camera is deactivated", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead(null, 0));
+
+      await startCameraRecognition(1);
+      vi.mocked(getCameraIntegrationById).mockResolvedValue({ ...camera, isActive: false });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(getRecognitionWorkerStatus().running).toBe(false);
+      expect(getCameraSnapshot).not.toHaveBeenCalled();
+    });
+
+    it("keeps running when the camera lookup fails", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead(null, 0));
+
+      await startCameraRecognition(1);
+      vi.mocked(getCameraIntegrationById).mockRejectedValueOnce(new Error("Connection lost"));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(getRecognitionWorkerStatus().cameras[0].lastError).toBe("Connection lost");
+      expect(getCameraSnapshot).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getCameraSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps running while the database is unavailable", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead(null, 0));
+
+      await startCameraRecognition(1);
+      vi.mocked(getDb).mockResolvedValueOnce(null);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(getRecognitionWorkerStatus().running).toBe(true);
+      expect(getRecognitionWorkerStatus().cameras[0].lastError).toBe("Database not available");
+    });
+  });
+
+  describe("stopCameraRecognition", () => {
+    it("stops polling", async () => {
+      vi.mocked(readPlate).mockResolvedValue(plateRead(null, 0));
+
+      await startCameraRecognition(1);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(stopCameraRecognition(1)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(getCameraSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns false for cameras that are not running", () => {
+      expect(stopCameraRecognition(42)).toBe(false);
+    });
+  });
+
+  describe("startRecognitionWorker", () => {
+    it("starts every active camera with recognition enabled", async () => {
+      vi.mocked(getActiveCameraIntegrations).mockResolvedValue([
+        camera,
+        { ...camera, id: 2, recognitionEnabled: false },
+      ]);
+
+      const result = await startRecognitionWorker();
+
+      expect(result).toEqual({ started: [1] });
+    });
+  });
+
+  describe("resumeRecognitionWorker", () => {
+    it("does nothing when the worker was not enabled", async () => {
+      vi.mocked(getSetting).mockResolvedValue(null);
+
+      await resumeRecognitionWorker();
+
+      expect(getActiveCameraIntegrations).not.toHaveBeenCalled();
+    });
+  });
+});
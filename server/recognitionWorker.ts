@@ -0,0 +1,279 @@
+/**
+ * Recognition Worker - polls camera snapshots on the server and runs the
+ * recognition flow unattended, using each camera's recognition settings.
+ * Cameras configured for bursts take several snapshots per tick and vote.
+ */
+
+import { getDb, getActiveCameraIntegrations, getCameraIntegrationById, getSetting } from './db';
+import { getCameraSnapshot } from './integrationService';
+import {
+  readPlate,
+  readPlateBurst,
+  processPlateRead,
+  MAX_BURST_FRAMES,
+  type RecognitionOutcome,
+} from './recognitionService';
+import type { PlateRecognitionResult } from './plateRecognition';
+import type { CameraIntegration } from '../drizzle/schema';
+
+const MIN_INTERVAL_MS = 500;
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_CONFIDENCE_THRESHOLD = 70;
+const BURST_SPACING_MS = 200;
+
+export interface CameraWorkerStatus {
+  cameraId: number;
+  cameraName: string;
+  intervalMs: number;
+  confidenceThreshold: number;
+  startedAt: Date;
+  lastRunAt: Date | null;
+  lastPlate: string | null;
+  lastConfidence: number | null;
+  lastError: string | null;
+  framesProcessed: number;
+  passagesCreated: number;
+  framesMerged: number;
+  /** Reads below the camera threshold, recorded for review without opening the barrier */
+  lowConfidenceQueued: number;
+}
+
+export interface FrameResult {
+  status: 'no_plate' | 'low_confidence' | 'processed';
+  plate: string | null;
+  confidence: number;
+  outcome?: RecognitionOutcome;
+}
+
+interface CameraWorker {
+  status: CameraWorkerStatus;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const workers = new Map<number, CameraWorker>();
+
+function getIntervalMs(camera: CameraIntegration): number {
+  return Math.max(camera.recognitionInterval || DEFAULT_INTERVAL_MS, MIN_INTERVAL_MS);
+}
+
+function getConfidenceThreshold(camera: CameraIntegration): number {
+  return camera.recognitionConfidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+}
+
+function getBurstFrames(camera: CameraIntegration): number {
+  return Math.min(Math.max(camera.recognitionBurstFrames ?? 1, 1), MAX_BURST_FRAMES);
+}
+
+/**
+ * Take consecutive snapshots from the camera as raw base64 JPEGs.
+ * Only the first snapshot is required; later failures shorten the burst.
+ */
+export async function captureCameraFrames(camera: CameraIntegration, count: number): Promise<string[]> {
+  const frames: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, BURST_SPACING_MS));
+
+    const snapshot = await getCameraSnapshot(camera.id);
+    if (!snapshot.success || !snapshot.imageBase64) {
+      if (frames.length === 0) throw new Error(snapshot.error || 'Camera returned no image');
+      break;
+    }
+    // Snapshots are data URLs; recognizers and storage expect raw base64
+    frames.push(snapshot.imageBase64.replace(/^data:image\/\w+;base64,/, ''));
+  }
+
+  return frames;
+}
+
+/**
+ * Grab a snapshot (or a burst) from the camera, recognize it and process the read.
+ * Reads below the camera's threshold are too uncertain to open the barrier on
+ * and go to the review queue instead.
+ */
+export async function processCameraFrame(camera: CameraIntegration): Promise<FrameResult> {
+  const frames = await captureCameraFrames(camera, getBurstFrames(camera));
+
+  let result: PlateRecognitionResult;
+  let imageBase64 = frames[0];
+  if (frames.length > 1) {
+    const burst = await readPlateBurst(frames, camera);
+    imageBase64 = frames[burst.bestFrame];
+    result = burst;
+  } else {
+    result = await readPlate(imageBase64, camera);
+  }
+  if (!result.plate) {
+    return { status: 'no_plate', plate: null, confidence: result.confidence };
+  }
+
+  if (result.confidence < getConfidenceThreshold(camera)) {
+    const outcome = await processPlateRead(result, imageBase64, { camera, autoOpen: false, holdForReview: true });
+    return { status: 'low_confidence', plate: result.plate, confidence: result.confidence, outcome };
+  }
+
+  const outcome = await processPlateRead(result, imageBase64, { camera, autoOpen: true });
+  return { status: 'processed', plate: result.plate, confidence: result.confidence, outcome };
+}
+
+function schedule(worker: CameraWorker, delay: number) {
+  worker.timer = setTimeout(() => {
+    void runTick(worker);
+  }, delay);
+}
+
+async function runTick(worker: CameraWorker) {
+  const { cameraId } = worker.status;
+  worker.timer = null;
+
+  let camera: CameraIntegration | null;
+  try {
+    // Without a database a missing camera cannot be told apart from a failed lookup
+    if (!await getDb()) throw new Error('Database not available');
+    camera = await getCameraIntegrationById(cameraId);
+  } catch (error: any) {
+    if (workers.get(cameraId) !== worker) return;
+
+    // A transient lookup failure must not stop the unattended loop, try again next tick
+    worker.status.lastError = error?.message || 'Camera lookup failed';
+    console.error(`[RecognitionWorker] Camera ${cameraId} lookup failed:`, worker.status.lastError);
+    schedule(worker, worker.status.intervalMs);
+    return;
+  }
+  if (workers.get(cameraId) !== worker) return;
+
+  if (!camera || !camera.isActive || !camera.recognitionEnabled) {
+    console.log(`[RecognitionWorker] Camera ${cameraId} is no longer eligible, stopping`);
+    stopCameraRecognition(cameraId);
+    return;
+  }
+
+  // Pick up configuration changes made while running
+  worker.status.cameraName = camera.name;
+  worker.status.intervalMs = getIntervalMs(camera);
+  worker.status.confidenceThreshold = getConfidenceThreshold(camera);
+
+  try {
+    const frame = await processCameraFrame(camera);
+    worker.status.framesProcessed++;
+    worker.status.lastError = null;
+    if (frame.plate) {
+      worker.status.lastPlate = frame.plate;
+      worker.status.lastConfidence = frame.confidence;
+    }
+    if (frame.status === 'low_confidence') worker.status.lowConfidenceQueued++;
+    if (frame.outcome?.duplicate) worker.status.framesMerged++;
+    else if (frame.outcome) worker.status.passagesCreated++;
+  } catch (error: any) {
+    worker.status.lastError = error?.message || 'Recognition failed';
+    console.error(`[RecognitionWorker] Camera ${cameraId} error:`, worker.status.lastError);
+  } finally {
+    worker.status.lastRunAt = new Date();
+  }
+
+  // Only reschedule if the worker was not stopped while this tick ran
+  if (workers.get(cameraId) === worker) {
+    schedule(worker, worker.status.intervalMs);
+  }
+}
+
+/**
+ * Start the recognition loop for a single camera
+ */
+export async function startCameraRecognition(cameraId: number): Promise<{ success: boolean; error?: string }> {
+  if (workers.has(cameraId)) {
+    return { success: true };
+  }
+
+  const camera = await getCameraIntegrationById(cameraId);
+  if (!camera) {
+    return { success: false, error: 'Integration not found' };
+  }
+  if (!camera.isActive) {
+    return { success: false, error: 'Integration is not active' };
+  }
+  if (!camera.recognitionEnabled) {
+    return { success: false, error: 'Recognition is disabled for this camera' };
+  }
+
+  const worker: CameraWorker = {
+    timer: null,
+    status: {
+      cameraId,
+      cameraName: camera.name,
+      intervalMs: getIntervalMs(camera),
+      confidenceThreshold: getConfidenceThreshold(camera),
+      startedAt: new Date(),
+      lastRunAt: null,
+      lastPlate: null,
+      lastConfidence: null,
+      lastError: null,
+      framesProcessed: 0,
+      passagesCreated: 0,
+      framesMerged: 0,
+      lowConfidenceQueued: 0,
+    },
+  };
+  workers.set(cameraId, worker);
+  schedule(worker, 0);
+
+  console.log(`[RecognitionWorker] Started camera ${cameraId} (${camera.name}) every ${worker.status.intervalMs}ms`);
+  return { success: true };
+}
+
+/**
+ * Stop the recognition loop for a single camera
+ */
+export function stopCameraRecognition(cameraId: number): boolean {
+  const worker = workers.get(cameraId);
+  if (!worker) return false;
+
+  if (worker.timer) clearTimeout(worker.timer);
+  workers.delete(cameraId);
+  console.log(`[RecognitionWorker] Stopped camera ${cameraId}`);
+  return true;
+}
+
+/**
+ * Start recognition loops for every active camera with recognition enabled
+ */
+export async function startRecognitionWorker(): Promise<{ started: number[] }> {
+  const cameras = await getActiveCameraIntegrations();
+  const started: number[] = [];
+
+  for (const camera of cameras) {
+    if (!camera.recognitionEnabled) continue;
+    const result = await startCameraRecognition(camera.id);
+    if (result.success) started.push(camera.id);
+  }
+
+  return { started };
+}
+
+/**
+ * Stop all recognition loops
+ */
+export function stopRecognitionWorker(): { stopped: number[] } {
+  const stopped = Array.from(workers.keys());
+  stopped.forEach(stopCameraRecognition);
+  return { stopped };
+}
+
+/**
+ * Current state of all running camera loops
+ */
+export function getRecognitionWorkerStatus(): { running: boolean; cameras: CameraWorkerStatus[] } {
+  const cameras = Array.from(workers.values()).map(w => ({ ...w.status }));
+  return { running: cameras.length > 0, cameras };
+}
+
+/**
+ * Resume the worker on server start if it was left enabled
+ */
+export async function resumeRecognitionWorker(): Promise<void> {
+  const enabled = await getSetting('recognition_worker_enabled');
+  if (enabled?.value !== 'true') return;
+
+  const { started } = await startRecognitionWorker();
+  console.log(`[RecognitionWorker] Resumed on ${started.length} camera(s)`);
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getPassageById: vi.fn(),
+  updatePassage: vi.fn(),
+  getReviewQueue: vi.fn(),
+  getPendingReviewCount: vi.fn(),
+  createPassageReview: vi.fn(),
+  getPassageReviews: vi.fn(),
+  getVehicleByPlate: vi.fn(),
+  createVehicle: vi.fn(),
+  getBlacklistEntryByPlate: vi.fn(),
+  createBlacklistEntry: vi.fn(),
+  getBarrierIntegrationForLane: vi.fn(),
+  logBarrierAction: vi.fn(),
+}));
+
+// Mock the email notification module
+vi.mock("./emailNotification", () => ({
+  notifyManualBarrierOpen: vi.fn().mockResolvedValue(true),
+}));
+
+// Mock the barrier hardware integration
+vi.mock("./integrationService", () => ({
+  executeBarrierCommand: vi.fn(),
+  executePrimaryBarrierCommand: vi.fn(),
+  openBarrier: vi.fn(),
+  getCameraSnapshot: vi.fn(),
+  getCameraStreamInfo: vi.fn(),
+  getPrimaryCameraSnapshot: vi.fn(),
+  testBarrierConnection: vi.fn(),
+  testCameraConnection: vi.fn(),
+}));
+
+import * as db from "./db";
+import { openBarrier } from "./integrationService";
+import { getReviewConfidenceThreshold, needsReview } from "./reviewQueue";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: "admin" | "user"): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: role === "admin" ? 1 : 2,
+    openId: `${role}-user`,
+    email: `${role}@example.com`,
+    name: role === "admin" ? "Admin User" : "Operator",
+    loginMethod: "manus",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const pendingPassage = {
+  id: 10,
+  licensePlate: "A123BC7",
+  recognizedPlate: "A123BC7",
+  confidence: 55,
+  isAllowed: false,
+  barrierOpened: false,
+  direction: "entry",
+  plateRegion: null,
+  reviewStatus: "pending",
+};
+
+describe("Review Queue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getPassageById).mockResolvedValue(pendingPassage as any);
+    vi.mocked(db.updatePassage).mockImplementation(async (id, data) => ({ ...pendingPassage, ...data, id }) as any);
+    vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+    vi.mocked(db.getBlacklistEntryByPlate).mockResolvedValue(null);
+    vi.mocked(db.getBarrierIntegrationForLane).mockResolvedValue({ id: 4 } as any);
+    vi.mocked(openBarrier).mockResolvedValue({ success: true, status: "open" } as any);
+  });
+
+  describe("needsReview", () => {
+    it("queues unknown and unread plates", () => {
+      expect(needsReview({ plate: "A123BC77", confidence: 95, isAllowed: false, known: false, barrierOpened: false }, 80)).toBe(true);
+      expect(needsReview({ plate: null, confidence: 0, isAllowed: false, known: false, barrierOpened: false }, 0)).toBe(true);
+    });
+
+    it("queues low-confidence reads even when allowed", () => {
+      expect(needsReview({ plate: "A123BC77", confidence: 70, isAllowed: true, known: true, barrierOpened: false }, 80)).toBe(true);
+      expect(needsReview({ plate: "A123BC77", confidence: 70, isAllowed: true, known: true, barrierOpened: false }, 0)).toBe(false);
+    });
+
+    it("skips reads whose barrier already opened", () => {
+      expect(needsReview({ plate: "A123BC77", confidence: 40, isAllowed: true, known: true, barrierOpened: true }, 80)).toBe(false);
+    });
+
+    it("skips confident reads of known vehicles, allowed or not", () => {
+      expect(needsReview({ plate: "A123BC77", confidence: 90, isAllowed: false, known: true, barrierOpened: false }, 80)).toBe(false);
+    });
+  });
+
+  describe("getReviewConfidenceThreshold", () => {
+    it("defaults to 80", async () => {
+      expect(await getReviewConfidenceThreshold()).toBe(80);
+    });
+
+    it("reads the setting", async () => {
+      vi.mocked(db.getSetting).mockResolvedValueOnce({ key: "review_confidence_threshold", value: "0" } as any);
+
+      expect(await getReviewConfidenceThreshold()).toBe(0);
+    });
+  });
+
+  describe("review.decide", () => {
+    it("corrects the plate, opens the lane barrier and records the decision", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 3, licensePlate: "A123BC77" } as any);
+      const caller = appRouter.createCaller(createContext("user"));
+
+      const result = await caller.review.decide({ passageId: 10, decision: "approve", licensePlate: "a123bc77" });
+
+      expect(result.barrierOpened).toBe(true);
+      expect(openBarrier).toHaveBeenCalledWith(4);
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: "open", triggeredBy: "manual", passageId: 10, success: true,
+      }));
+      expect(db.updatePassage).toHaveBeenCalledWith(10, expect.objectContaining({
+        licensePlate: "A123BC77",
+        vehicleId: 3,
+        isAllowed: true,
+        barrierOpened: true,
+        wasManualOpen: true,
+        reviewStatus: "approved",
+        reviewedBy: 2,
+      }));
+      expect(vi.mocked(db.createPassageReview).mock.calls.map(([review]) => review)).toEqual([
+        expect.objectContaining({ action: "correct_plate", previousPlate: "A123BC7", newPlate: "A123BC77" }),
+        expect.objectContaining({ action: "approve", barrierOpened: true }),
+      ]);
+    });
+
+    it("keeps the passage pending when the barrier fails", async () => {
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "timeout" } as any);
+      const caller = appRouter.createCaller(createContext("user"));
+
+      await expect(caller.review.decide({ passageId: 10, decision: "approve" })).rejects.toThrow("timeout");
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+      expect(db.updatePassage).not.toHaveBeenCalled();
+    });
+
+    it("writes nothing but the barrier log when the barrier fails", async () => {
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "timeout" } as any);
+      const caller = appRouter.createCaller(createContext("admin"));
+
+      await expect(
+        caller.review.decide({ passageId: 10, decision: "approve", licensePlate: "A123BC77", addTo: "allowed" })
+      ).rejects.toThrow("timeout");
+      expect(db.createPassageReview).not.toHaveBeenCalled();
+      expect(db.createVehicle).not.toHaveBeenCalled();
+    });
+
+    it("denies without touching the barrier", async () => {
+      const caller = appRouter.createCaller(createContext("user"));
+
+      await caller.review.decide({ passageId: 10, decision: "deny", notes: "No visit scheduled" });
+
+      expect(openBarrier).not.toHaveBeenCalled();
+      expect(db.updatePassage).toHaveBeenCalledWith(10, expect.objectContaining({
+        isAllowed: false,
+        denialReason: "Denied by operator",
+        reviewStatus: "denied",
+      }));
+    });
+
+    it("adds an approved plate to the allowed list", async () => {
+      vi.mocked(db.createVehicle).mockResolvedValue({ id: 9, licensePlate: "A123BC7" } as any);
+      const caller = appRouter.createCaller(createContext("admin"));
+
+      await caller.review.decide({ passageId: 10, decision: "approve", addTo: "allowed" });
+
+      expect(db.createVehicle).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "A123BC7", createdBy: 1 }));
+      expect(db.createPassageReview).toHaveBeenCalledWith(expect.objectContaining({ action: "add_allowed" }));
+      expect(db.updatePassage).toHaveBeenCalledWith(10, expect.objectContaining({ vehicleId: 9 }));
+    });
+
+    it("blacklists a denied plate", async () => {
+      const caller = appRouter.createCaller(createContext("admin"));
+
+      await caller.review.decide({ passageId: 10, decision: "deny", addTo: "blacklist", notes: "Tailgating" });
+
+      expect(db.createBlacklistEntry).toHaveBeenCalledWith({ licensePlate: "A123BC7", reason: "Tailgating", addedBy: 1 });
+      expect(db.updatePassage).toHaveBeenCalledWith(10, expect.objectContaining({ denialReason: "Blacklisted: Tailgating" }));
+    });
+
+    it("only lets admins blacklist", async () => {
+      const caller = appRouter.createCaller(createContext("user"));
+
+      await expect(
+        caller.review.decide({ passageId: 10, decision: "deny", addTo: "blacklist" })
+      ).rejects.toThrow("Admin access required");
+    });
+
+    it("rejects passages that were already reviewed", async () => {
+      vi.mocked(db.getPassageById).mockResolvedValue({ ...pendingPassage, reviewStatus: "approved" } as any);
+      const caller = appRouter.createCaller(createContext("user"));
+
+      await expect(caller.review.decide({ passageId: 10, decision: "deny" })).rejects.toThrow("already reviewed");
+    });
+
+    it("requires a plate before adding an unread passage to a list", async () => {
+      vi.mocked(db.getPassageById).mockResolvedValue({ ...pendingPassage, licensePlate: "UNKNOWN" } as any);
+      const caller = appRouter.createCaller(createContext("admin"));
+
+      await expect(
+        caller.review.decide({ passageId: 10, decision: "approve", addTo: "allowed" })
+      ).rejects.toThrow("Enter the plate");
+    });
+  });
+});
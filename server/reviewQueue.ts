@@ -0,0 +1,189 @@
+/**
+ * Review Queue - decides which reads an operator should confirm: reads of
+ * unknown vehicles and reads below the review confidence threshold that
+ * did not already open the barrier.
+ * Blacklist hits are final and never queued, unless the read matches a
+ * registered vehicle and the blacklisted plate only loosely. Decisions come
+ * from the Review Queue page and from Telegram buttons and are kept in an
+ * audit trail.
+ */
+
+import {
+  getSetting,
+  updatePassage,
+  createPassageReview,
+  getVehicleByPlate,
+  createVehicle,
+  getBlacklistEntryByPlate,
+  createBlacklistEntry,
+  getBarrierIntegrationForLane,
+  logBarrierAction,
+} from './db';
+import { openBarrier } from './integrationService';
+import { getEnabledPlateGroups, parsePlate } from './plateFormats';
+import type { Passage, User } from '../drizzle/schema';
+
+const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 80;
+
+export interface ReviewCandidate {
+  plate: string | null;
+  confidence: number;
+  isAllowed: boolean;
+  /** A registered vehicle or guest pass matched the read */
+  known: boolean;
+  /** The barrier already opened for the read */
+  barrierOpened: boolean;
+}
+
+export interface ReviewRequest {
+  decision: 'approve' | 'deny';
+  /** Canonical corrected plate */
+  licensePlate?: string;
+  addTo?: 'allowed' | 'blacklist';
+  openBarrier?: boolean;
+  notes?: string;
+}
+
+export interface Reviewer {
+  /** Null when acting from outside the app, e.g. a Telegram chat */
+  userId: number | null;
+  /** Group new allowed vehicles are added to */
+  groupId?: number | null;
+}
+
+/** Why a review request cannot be applied */
+export type ReviewRejection =
+  | 'already_reviewed'
+  | 'allow_requires_approval'
+  | 'blacklist_requires_denial'
+  | 'forbidden'
+  | 'plate_required';
+
+export interface ReviewResult {
+  passage: Passage | null;
+  plate: string;
+  barrierOpened: boolean;
+  /** The barrier failed to open; the passage is left undecided */
+  barrierError: string | null;
+}
+
+/**
+ * Confidence below which reads are queued for review, 0 disables the check
+ */
+export async function getReviewConfidenceThreshold(): Promise<number> {
+  const setting = await getSetting('review_confidence_threshold');
+  const threshold = setting?.value ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+export function needsReview(read: ReviewCandidate, threshold: number): boolean {
+  if (!read.isAllowed && (!read.plate || !read.known)) return true;
+  // Nothing is left to decide once the barrier has let the vehicle through
+  if (read.barrierOpened) return false;
+  return read.confidence < threshold;
+}
+
+/**
+ * Checks shared by every place a decision comes from. Adding to the allowed
+ * list needs an admin or group admin, blacklisting an admin, and unread
+ * passages need a plate before it can be added to a list.
+ */
+export function checkReviewRequest(
+  passage: Passage,
+  request: ReviewRequest,
+  user: Pick<User, 'role' | 'managedGroupId'>
+): ReviewRejection | null {
+  if (passage.reviewStatus !== 'pending') return 'already_reviewed';
+  if (request.addTo === 'allowed' && request.decision !== 'approve') return 'allow_requires_approval';
+  if (request.addTo === 'blacklist' && request.decision !== 'deny') return 'blacklist_requires_denial';
+  if (request.addTo === 'allowed' && user.role !== 'admin' && !user.managedGroupId) return 'forbidden';
+  if (request.addTo === 'blacklist' && user.role !== 'admin') return 'forbidden';
+  if (request.addTo && (request.licensePlate ?? passage.licensePlate) === 'UNKNOWN') return 'plate_required';
+  return null;
+}
+
+/**
+ * Correct the plate, optionally add it to a list, then approve (opening the
+ * barrier) or deny the passage. Every step is written to the audit trail.
+ * The barrier opens before anything is written, so a hardware failure leaves
+ * the passage pending with nothing to repeat on the next attempt.
+ */
+export async function applyReviewDecision(
+  passage: Passage,
+  request: ReviewRequest,
+  reviewer: Reviewer
+): Promise<ReviewResult> {
+  const audit = { passageId: passage.id, userId: reviewer.userId };
+  const plate = request.licensePlate || passage.licensePlate;
+
+  const approved = request.decision === 'approve';
+  let barrierOpened = false;
+  if (approved && (request.openBarrier ?? true) && !passage.barrierOpened) {
+    // Prefer the barrier serving the passage's lane over the primary one
+    const laneBarrier = passage.direction ? await getBarrierIntegrationForLane(passage.direction) : null;
+    const response = await openBarrier(laneBarrier?.id);
+
+    await logBarrierAction({
+      action: 'open',
+      triggeredBy: 'manual',
+      userId: reviewer.userId,
+      passageId: passage.id,
+      success: response.success,
+      errorMessage: response.error,
+    });
+
+    if (!response.success) {
+      return { passage, plate, barrierOpened: false, barrierError: response.error || 'Unknown hardware error' };
+    }
+    barrierOpened = true;
+  }
+
+  if (plate !== passage.licensePlate) {
+    await createPassageReview({ ...audit, action: 'correct_plate', previousPlate: passage.licensePlate, newPlate: plate });
+  }
+
+  let vehicle = await getVehicleByPlate(plate);
+  if (request.addTo === 'allowed' && !vehicle) {
+    vehicle = await createVehicle({
+      licensePlate: plate,
+      groupId: reviewer.groupId,
+      notes: request.notes,
+      createdBy: reviewer.userId,
+    });
+    await createPassageReview({ ...audit, action: 'add_allowed', newPlate: plate });
+  }
+
+  let denialReason = 'Denied by operator';
+  if (request.addTo === 'blacklist') {
+    const reason = request.notes || 'Added from review queue';
+    if (!await getBlacklistEntryByPlate(plate)) {
+      await createBlacklistEntry({ licensePlate: plate, reason, addedBy: reviewer.userId });
+      await createPassageReview({ ...audit, action: 'add_blacklist', newPlate: plate, notes: reason });
+    }
+    denialReason = `Blacklisted: ${reason}`;
+  }
+
+  const updated = await updatePassage(passage.id, {
+    licensePlate: plate,
+    vehicleId: vehicle?.id ?? null,
+    plateRegion: plate === passage.licensePlate
+      ? passage.plateRegion
+      : parsePlate(plate, await getEnabledPlateGroups()).region,
+    isAllowed: approved,
+    denialReason: approved ? null : denialReason,
+    ...(barrierOpened && { barrierOpened: true, wasManualOpen: true, openedBy: reviewer.userId }),
+    reviewStatus: approved ? 'approved' : 'denied',
+    reviewedBy: reviewer.userId,
+    reviewedAt: new Date(),
+  });
+
+  await createPassageReview({
+    ...audit,
+    action: request.decision,
+    newPlate: plate,
+    barrierOpened: approved ? barrierOpened : null,
+    notes: request.notes,
+  });
+
+  return { passage: updated, plate, barrierOpened, barrierError: null };
+}
@@ -12,36 +12,63 @@ import {
   logBarrierAction, getBarrierActions,
   getAllBlacklistEntries, getBlacklistEntryById, getBlacklistEntryByPlate, 
   createBlacklistEntry, updateBlacklistEntry, deleteBlacklistEntry,
-  isPlateBlacklisted, incrementBlacklistAttempt, getBlacklistStats
+  isPlateBlacklisted, getBlacklistStats, getPresentVehicles,
+  getAllAccessSchedules, getAccessScheduleById, createAccessSchedule, updateAccessSchedule, deleteAccessSchedule,
+  getGuestPasses, getGuestPassById, createGuestPass, updateGuestPass, expireGuestPasses,
+  getAllVehicleGroups, getVehicleGroupById, createVehicleGroup, updateVehicleGroup, deleteVehicleGroup,
+  getAllUsers, setUserManagedGroup, getUserByTelegramChatId, setUserTelegramChatId,
+  getMedicalSyncSources, getMedicalSyncSourceById, createMedicalSyncSource, updateMedicalSyncSource,
+  deleteMedicalSyncSource, getMedicalSyncRuns, getMedicalSyncRunById,
+  getReviewQueue, getPendingReviewCount, getPassageReviews,
+  getJobRuns
 } from "./db";
-import { invokeLLM } from "./_core/llm";
-import { notifyOwner } from "./_core/notification";
-import { notifyUnknownVehicle, notifyManualBarrierOpen } from "./emailNotification";
-import { storagePut } from "./storage";
-import { nanoid } from "nanoid";
+import { notifyManualBarrierOpen } from "./emailNotification";
 import { testTelegramConnection, getBotInfo } from "./telegramNotification";
-import { notifyBlacklistDetection } from "./blacklistNotification";
 import { 
-  isQuietHoursActive, 
+  getQuietChannels, 
   getQuietHoursConfig, 
   sendPendingSummary, 
-  queueOrSendNotification 
+  queueOrSendNotification,
+  isValidTimeZone,
+  QUIET_HOURS_CHANNELS,
+  QUIET_HOURS_SCHEDULE_KEYS
 } from "./quietHours";
 import { 
   getPendingNotifications, getPendingNotificationStats,
-  createNotificationHistory, getNotificationHistory, getNotificationHistoryById,
-  updateNotificationHistory, getNotificationHistoryStats, getNotificationHistoryByType,
+  getNotificationHistory, getNotificationHistoryById,
+  getNotificationHistoryStats, getNotificationHistoryByType, getNotificationRetrySummary,
   getAllBarrierIntegrations, getActiveBarrierIntegrations, getBarrierIntegrationById,
   createBarrierIntegration, updateBarrierIntegration, deleteBarrierIntegration,
   getAllCameraIntegrations, getActiveCameraIntegrations, getCameraIntegrationById,
-  createCameraIntegration, updateCameraIntegration, deleteCameraIntegration
+  getPrimaryCameraIntegration, createCameraIntegration, updateCameraIntegration, deleteCameraIntegration,
+  getAllTelegramRecipients, getTelegramRecipientById, getTelegramRecipientByChatId,
+  createTelegramRecipient, updateTelegramRecipient, deleteTelegramRecipient, getTelegramDeliveries, getWebhookAttempts,
+  getAllWebhookEndpoints, getWebhookEndpointById, createWebhookEndpoint, updateWebhookEndpoint, deleteWebhookEndpoint
 } from "./db";
 import {
-  executeBarrierCommand, executePrimaryBarrierCommand,
+  executeBarrierCommand, executePrimaryBarrierCommand, openBarrier,
   getCameraSnapshot, getCameraStreamInfo, getPrimaryCameraSnapshot,
   testBarrierConnection, testCameraConnection
 } from "./integrationService";
-import { sendTelegramMessage } from "./telegramNotification";
+import { retryNotification } from "./notificationDispatcher";
+import { NOTIFICATION_EVENT_TYPES, parseEventTypes } from "./notificationTypes";
+import { buildWebhookDelivery, generateWebhookSecret, postWebhook } from "./webhookNotification";
+import { analyzeFrame, analyzeBurst, getPresenceWindowMs, MAX_BURST_FRAMES } from "./recognitionService";
+import { getOccupancy } from "./occupancyService";
+import { parseTimeWindows, parseHolidays } from "./accessSchedule";
+import { parseIdList } from "./vehicleGroups";
+import { canonicalizePlate, getEnabledPlateGroups, parsePlate } from "./plateFormats";
+import { clearVehiclePlateCache } from "./plateMatching";
+import { getComplianceReport, runMedicalExpiryCheck } from "./medicalExpiry";
+import { applyReviewDecision, checkReviewRequest, type ReviewRejection } from "./reviewQueue";
+import { registerTelegramWebhook } from "./telegramBot";
+import { authenticateSyncSource, runMedicalSync, generateSyncApiKey, parseSyncChanges } from "./medicalSync";
+import { JOB_NAMES, getJobStates, isJobRunning, runJob } from "./jobScheduler";
+import { parseCron } from "./cron";
+import {
+  startRecognitionWorker, stopRecognitionWorker, getRecognitionWorkerStatus,
+  startCameraRecognition, stopCameraRecognition
+} from "./recognitionWorker";
 
 // Admin-only procedure
 const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
@@ -51,12 +78,43 @@ const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
   return next({ ctx });
 });
 
+// Admins, or group admins limited to their own group's vehicles
+const vehicleManagerProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'admin' && !ctx.user.managedGroupId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+  return next({ ctx });
+});
+
+async function assertCanManageVehicle(user: { role: string; managedGroupId: number | null }, vehicleId: number) {
+  if (user.role === 'admin') return;
+
+  const vehicle = await getVehicleById(vehicleId);
+  if (!vehicle || vehicle.groupId !== user.managedGroupId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Vehicle belongs to another group' });
+  }
+}
+
+/**
+ * Canonical form of an entered plate; plates fitting no enabled format are rejected
+ */
+async function requireValidPlate(licensePlate: string): Promise<string> {
+  const parsed = parsePlate(licensePlate, await getEnabledPlateGroups());
+  if (!parsed.valid) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Unrecognized plate format: ${parsed.plate || licensePlate}` });
+  }
+  return parsed.plate;
+}
+
 // Vehicle router - CRUD for allowed vehicles
 const vehicleRouter = router({
   list: protectedProcedure
-    .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+    .input(z.object({
+      includeInactive: z.boolean().optional(),
+      groupId: z.number().optional(),
+    }).optional())
     .query(async ({ input }) => {
-      return getAllVehicles(input?.includeInactive ?? false);
+      return getAllVehicles(input?.includeInactive ?? false, input?.groupId);
     }),
   
   getById: protectedProcedure
@@ -71,7 +129,7 @@ const vehicleRouter = router({
       return getVehicleByPlate(input.licensePlate);
     }),
   
-  create: adminProcedure
+  create: vehicleManagerProcedure
     .input(z.object({
       licensePlate: z.string().min(1).max(20),
       ownerName: z.string().optional(),
@@ -79,16 +137,23 @@ const vehicleRouter = router({
       vehicleModel: z.string().optional(),
       vehicleColor: z.string().optional(),
       notes: z.string().optional(),
+      scheduleId: z.number().nullable().optional(),
+      groupId: z.number().nullable().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      const existing = await getVehicleByPlate(input.licensePlate);
+      const licensePlate = await requireValidPlate(input.licensePlate);
+      const existing = await getVehicleByPlate(licensePlate);
       if (existing) {
         throw new TRPCError({ code: 'CONFLICT', message: 'Vehicle with this plate already exists' });
       }
-      return createVehicle({ ...input, createdBy: ctx.user.id });
+      // Group admins always add to their own group
+      const groupId = ctx.user.role === 'admin' ? input.groupId : ctx.user.managedGroupId;
+      const vehicle = await createVehicle({ ...input, licensePlate, groupId, createdBy: ctx.user.id });
+      clearVehiclePlateCache();
+      return vehicle;
     }),
   
-  update: adminProcedure
+  update: vehicleManagerProcedure
     .input(z.object({
       id: z.number(),
       licensePlate: z.string().min(1).max(20).optional(),
@@ -98,16 +163,208 @@ const vehicleRouter = router({
       vehicleColor: z.string().optional(),
       notes: z.string().optional(),
       isActive: z.boolean().optional(),
+      scheduleId: z.number().nullable().optional(),
+      groupId: z.number().nullable().optional(),
     }))
+    .mutation(async ({ input, ctx }) => {
+      await assertCanManageVehicle(ctx.user, input.id);
+      const { id, ...data } = input;
+      if (ctx.user.role !== 'admin' && data.groupId !== undefined && data.groupId !== ctx.user.managedGroupId) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Vehicle belongs to another group' });
+      }
+      if (data.licensePlate) {
+        data.licensePlate = await requireValidPlate(data.licensePlate);
+      }
+      const vehicle = await updateVehicle(id, data);
+      clearVehiclePlateCache();
+      return vehicle;
+    }),
+  
+  delete: vehicleManagerProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await assertCanManageVehicle(ctx.user, input.id);
+      const deleted = await deleteVehicle(input.id);
+      clearVehiclePlateCache();
+      return deleted;
+    }),
+});
+
+// Vehicle group router - tenants, departments, residents, staff
+const groupInput = {
+  name: z.string().min(1).max(100),
+  type: z.enum(['tenant', 'department', 'residents', 'staff']),
+  description: z.string().optional(),
+  scheduleId: z.number().nullable().optional(),
+  allowedBarrierIds: z.array(z.number().int()),
+  allowedCameraIds: z.array(z.number().int()),
+  isActive: z.boolean().optional(),
+};
+
+function withParsedGroup<T extends { allowedBarrierIds: string | null; allowedCameraIds: string | null }>(group: T) {
+  return {
+    ...group,
+    allowedBarrierIds: parseIdList(group.allowedBarrierIds),
+    allowedCameraIds: parseIdList(group.allowedCameraIds),
+  };
+}
+
+const groupRouter = router({
+  list: protectedProcedure.query(async () => {
+    const groups = await getAllVehicleGroups();
+    return groups.map(withParsedGroup);
+  }),
+  
+  getById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const group = await getVehicleGroupById(input.id);
+      return group ? withParsedGroup(group) : null;
+    }),
+  
+  create: adminProcedure
+    .input(z.object(groupInput))
+    .mutation(async ({ input }) => {
+      return createVehicleGroup({
+        ...input,
+        allowedBarrierIds: JSON.stringify(input.allowedBarrierIds),
+        allowedCameraIds: JSON.stringify(input.allowedCameraIds),
+      });
+    }),
+  
+  update: adminProcedure
+    .input(z.object({ id: z.number(), ...groupInput }))
+    .mutation(async ({ input }) => {
+      const { id, ...data } = input;
+      return updateVehicleGroup(id, {
+        ...data,
+        allowedBarrierIds: JSON.stringify(data.allowedBarrierIds),
+        allowedCameraIds: JSON.stringify(data.allowedCameraIds),
+      });
+    }),
+  
+  delete: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return deleteVehicleGroup(input.id);
+    }),
+  
+  users: adminProcedure.query(async () => {
+    const users = await getAllUsers();
+    return users.map(u => ({ id: u.id, name: u.name, email: u.email, role: u.role, managedGroupId: u.managedGroupId }));
+  }),
+  
+  setGroupAdmin: adminProcedure
+    .input(z.object({ userId: z.number(), groupId: z.number().nullable() }))
+    .mutation(async ({ input }) => {
+      if (input.groupId !== null && !(await getVehicleGroupById(input.groupId))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Group not found' });
+      }
+      return setUserManagedGroup(input.userId, input.groupId);
+    }),
+});
+
+// Access schedule router - time windows attached to vehicles
+const timeWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+});
+
+const scheduleInput = {
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  timeWindows: z.array(timeWindowSchema),
+  validFrom: z.date().nullable().optional(),
+  validUntil: z.date().nullable().optional(),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  isActive: z.boolean().optional(),
+};
+
+function withParsedSchedule<T extends { timeWindows: string | null; holidays: string | null }>(schedule: T) {
+  return {
+    ...schedule,
+    timeWindows: parseTimeWindows(schedule.timeWindows),
+    holidays: parseHolidays(schedule.holidays),
+  };
+}
+
+const scheduleRouter = router({
+  list: protectedProcedure.query(async () => {
+    const schedules = await getAllAccessSchedules();
+    return schedules.map(withParsedSchedule);
+  }),
+  
+  getById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const schedule = await getAccessScheduleById(input.id);
+      return schedule ? withParsedSchedule(schedule) : null;
+    }),
+  
+  create: adminProcedure
+    .input(z.object(scheduleInput))
+    .mutation(async ({ input }) => {
+      return createAccessSchedule({
+        ...input,
+        timeWindows: JSON.stringify(input.timeWindows),
+        holidays: JSON.stringify(input.holidays),
+      });
+    }),
+  
+  update: adminProcedure
+    .input(z.object({ id: z.number(), ...scheduleInput }))
     .mutation(async ({ input }) => {
       const { id, ...data } = input;
-      return updateVehicle(id, data);
+      return updateAccessSchedule(id, {
+        ...data,
+        timeWindows: JSON.stringify(data.timeWindows),
+        holidays: JSON.stringify(data.holidays),
+      });
     }),
   
   delete: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input }) => {
-      return deleteVehicle(input.id);
+      return deleteAccessSchedule(input.id);
+    }),
+});
+
+// Guest pass router - temporary visitor access
+const guestPassRouter = router({
+  list: protectedProcedure
+    .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+    .query(async ({ input }) => {
+      // Passes past validUntil expire on read
+      await expireGuestPasses();
+      return getGuestPasses(input?.includeInactive ?? false);
+    }),
+  
+  create: protectedProcedure
+    .input(z.object({
+      licensePlate: z.string().min(1).max(20),
+      guestName: z.string().optional(),
+      purpose: z.string().optional(),
+      validFrom: z.date(),
+      validUntil: z.date(),
+      maxEntries: z.number().int().min(1).max(1000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.validUntil <= input.validFrom) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Pass must end after it starts' });
+      }
+      const licensePlate = await requireValidPlate(input.licensePlate);
+      return createGuestPass({ ...input, licensePlate, issuedBy: ctx.user.id });
+    }),
+  
+  revoke: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const pass = await getGuestPassById(input.id);
+      if (!pass) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Guest pass not found' });
+      }
+      return updateGuestPass(input.id, { status: 'revoked' });
     }),
 });
 
@@ -121,6 +378,8 @@ const passageRouter = router({
       endDate: z.date().optional(),
       licensePlate: z.string().optional(),
       isAllowed: z.boolean().optional(),
+      direction: z.enum(['entry', 'exit']).optional(),
+      groupId: z.number().optional(),
     }).optional())
     .query(async ({ input }) => {
       return getPassages(input ?? {});
@@ -144,6 +403,17 @@ const passageRouter = router({
       return getDailyPassageStats(input?.days ?? 7);
     }),
   
+  // Vehicles seen within the presence window
+  present: protectedProcedure.query(async () => {
+    const windowMs = await getPresenceWindowMs();
+    return getPresentVehicles(new Date(Date.now() - windowMs));
+  }),
+  
+  // Vehicles currently inside with dwell time
+  occupancy: protectedProcedure.query(async () => {
+    return getOccupancy();
+  }),
+  
   create: protectedProcedure
     .input(z.object({
       licensePlate: z.string(),
@@ -170,7 +440,7 @@ const medicalRouter = router({
   lookup: protectedProcedure
     .input(z.object({ licensePlate: z.string() }))
     .query(async ({ input }) => {
-      return getMedicalRecordByPlate(input.licensePlate);
+      return getMedicalRecordByPlate(canonicalizePlate(input.licensePlate));
     }),
   
   upsert: adminProcedure
@@ -183,7 +453,7 @@ const medicalRouter = router({
       notes: z.string().optional(),
     }))
     .mutation(async ({ input }) => {
-      return upsertMedicalRecord(input);
+      return upsertMedicalRecord({ ...input, licensePlate: canonicalizePlate(input.licensePlate) });
     }),
   
   delete: adminProcedure
@@ -192,34 +462,83 @@ const medicalRouter = router({
       return deleteMedicalRecord(input.id);
     }),
   
-  // External API endpoint for medical database integration
+  compliance: adminProcedure.query(async () => {
+    return getComplianceReport();
+  }),
+  
+  runExpiryCheck: adminProcedure.mutation(async () => {
+    return runMedicalExpiryCheck();
+  }),
+  
+  // External API endpoint for medical database integration (REST: POST /api/medical/sync)
   sync: publicProcedure
     .input(z.object({
       apiKey: z.string(),
-      records: z.array(z.object({
-        licensePlate: z.string(),
-        driverName: z.string(),
-        driverPhone: z.string().optional(),
-        medicalStatus: z.enum(["valid", "expired", "suspended", "unknown"]).optional(),
-        expirationDate: z.string().optional(),
-      })),
+      idempotencyKey: z.string().max(128).optional(),
+      // Validated per record so one bad record does not reject the whole batch
+      records: z.array(z.unknown()).max(5000).default([]),
+      deletes: z.array(z.unknown()).max(5000).default([]),
     }))
     .mutation(async ({ input }) => {
-      // Validate API key from settings
-      const apiKeySetting = await getSetting('medical_api_key');
-      if (!apiKeySetting || apiKeySetting.value !== input.apiKey) {
+      const auth = await authenticateSyncSource(input.apiKey);
+      if (!auth) {
         throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid API key' });
       }
       
-      const results = [];
-      for (const record of input.records) {
-        const result = await upsertMedicalRecord({
-          ...record,
-          expirationDate: record.expirationDate ? new Date(record.expirationDate) : undefined,
-        });
-        results.push(result);
+      const result = await runMedicalSync(auth.source, input, input.idempotencyKey);
+      return { ...result, synced: result.created + result.updated + result.unchanged };
+    }),
+  
+  syncSources: adminProcedure.query(async () => {
+    return getMedicalSyncSources();
+  }),
+  
+  createSyncSource: adminProcedure
+    .input(z.object({ name: z.string().min(1).max(100) }))
+    .mutation(async ({ input }) => {
+      return createMedicalSyncSource({ name: input.name, apiKey: generateSyncApiKey() });
+    }),
+  
+  updateSyncSource: adminProcedure
+    .input(z.object({
+      id: z.number(),
+      isActive: z.boolean().optional(),
+      regenerateKey: z.boolean().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const source = await getMedicalSyncSourceById(input.id);
+      if (!source) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Sync source not found' });
+      }
+      return updateMedicalSyncSource(input.id, {
+        isActive: input.isActive,
+        apiKey: input.regenerateKey ? generateSyncApiKey() : undefined,
+      });
+    }),
+  
+  deleteSyncSource: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return deleteMedicalSyncSource(input.id);
+    }),
+  
+  syncHistory: adminProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(200).optional(),
+      sourceId: z.number().optional(),
+    }).optional())
+    .query(async ({ input }) => {
+      return getMedicalSyncRuns(input ?? {});
+    }),
+  
+  syncRun: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const run = await getMedicalSyncRunById(input.id);
+      if (!run) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Sync run not found' });
       }
-      return { synced: results.length, records: results };
+      return { ...run, changes: parseSyncChanges(run.changes) };
     }),
 });
 
@@ -252,6 +571,7 @@ const barrierRouter = router({
     .input(z.object({
       confirm: z.boolean(),
       passageId: z.number().optional(),
+      integrationId: z.number().optional(),
       notes: z.string().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
@@ -259,15 +579,26 @@ const barrierRouter = router({
         throw new TRPCError({ code: 'BAD_REQUEST', message: 'Confirmation required' });
       }
       
-      // Log the barrier action
+      // Send the open command to the barrier hardware
+      const response = await openBarrier(input.integrationId);
+      
+      // Log the barrier action with the real hardware outcome
       await logBarrierAction({
         action: 'open',
         triggeredBy: 'manual',
         userId: ctx.user.id,
         passageId: input.passageId,
-        success: true,
+        success: response.success,
+        errorMessage: response.error,
       });
       
+      if (!response.success) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: `Failed to open barrier: ${response.error || 'Unknown hardware error'}`,
+        });
+      }
+      
       // Send notification about manual barrier open
       await notifyManualBarrierOpen({
         userName: ctx.user.name || ctx.user.email || 'Unknown',
@@ -276,9 +607,7 @@ const barrierRouter = router({
         notes: input.notes,
       });
       
-      // Here you would integrate with actual barrier hardware
-      // For now, we simulate success
-      return { success: true, message: 'Barrier opened successfully' };
+      return { success: true, message: 'Barrier opened successfully', status: response.status };
     }),
   
   actions: protectedProcedure
@@ -288,6 +617,86 @@ const barrierRouter = router({
     }),
 });
 
+const REVIEW_REJECTIONS: Record<ReviewRejection, { code: 'CONFLICT' | 'BAD_REQUEST' | 'FORBIDDEN'; message: string }> = {
+  already_reviewed: { code: 'CONFLICT', message: 'Passage was already reviewed' },
+  allow_requires_approval: { code: 'BAD_REQUEST', message: 'Only approved plates can be added to the allowed list' },
+  blacklist_requires_denial: { code: 'BAD_REQUEST', message: 'Only denied plates can be blacklisted' },
+  forbidden: { code: 'FORBIDDEN', message: 'Admin access required' },
+  plate_required: { code: 'BAD_REQUEST', message: 'Enter the plate before adding it to a list' },
+};
+
+// Review router - operator decisions on unknown and low-confidence reads
+const reviewRouter = router({
+  queue: protectedProcedure
+    .input(z.object({ limit: z.number().min(1).max(200).optional() }).optional())
+    .query(async ({ input }) => {
+      return getReviewQueue(input?.limit ?? 50);
+    }),
+
+  pendingCount: protectedProcedure.query(async () => {
+    return getPendingReviewCount();
+  }),
+
+  history: protectedProcedure
+    .input(z.object({
+      passageId: z.number().optional(),
+      limit: z.number().min(1).max(500).optional(),
+    }).optional())
+    .query(async ({ input }) => {
+      return getPassageReviews({ passageId: input?.passageId, limit: input?.limit });
+    }),
+
+  // Correct the plate, optionally add it to a list, then approve (opening the barrier) or deny
+  decide: protectedProcedure
+    .input(z.object({
+      passageId: z.number(),
+      decision: z.enum(['approve', 'deny']),
+      licensePlate: z.string().min(1).max(20).optional(),
+      addTo: z.enum(['allowed', 'blacklist']).optional(),
+      openBarrier: z.boolean().optional(),
+      notes: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const passage = await getPassageById(input.passageId);
+      if (!passage) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Passage not found' });
+      }
+      const rejection = checkReviewRequest(passage, input, ctx.user);
+      if (rejection) {
+        throw new TRPCError(REVIEW_REJECTIONS[rejection]);
+      }
+
+      const licensePlate = input.licensePlate ? await requireValidPlate(input.licensePlate) : undefined;
+      if (input.addTo && licensePlate === 'UNKNOWN') {
+        throw new TRPCError(REVIEW_REJECTIONS.plate_required);
+      }
+
+      // Group admins always add to their own group
+      const result = await applyReviewDecision(passage, { ...input, licensePlate }, {
+        userId: ctx.user.id,
+        groupId: ctx.user.role === 'admin' ? undefined : ctx.user.managedGroupId,
+      });
+
+      if (result.barrierError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: `Failed to open barrier: ${result.barrierError}`,
+        });
+      }
+
+      if (result.barrierOpened) {
+        await notifyManualBarrierOpen({
+          userName: ctx.user.name || ctx.user.email || 'Unknown',
+          userId: ctx.user.id,
+          timestamp: new Date(),
+          notes: [`Review of ${result.plate}`, input.notes].filter(Boolean).join(': '),
+        });
+      }
+
+      return { passage: result.passage, barrierOpened: result.barrierOpened };
+    }),
+});
+
 // Telegram router - Telegram bot integration
 const telegramRouter = router({
   testConnection: adminProcedure
@@ -306,6 +715,184 @@ const telegramRouter = router({
     .mutation(async ({ input }) => {
       return getBotInfo(input.botToken);
     }),
+
+  // App users and the Telegram chat IDs their bot commands come from
+  users: adminProcedure.query(async () => {
+    const users = await getAllUsers();
+    return users.map(u => ({ id: u.id, name: u.name, email: u.email, role: u.role, telegramChatId: u.telegramChatId }));
+  }),
+
+  linkUser: adminProcedure
+    .input(z.object({
+      userId: z.number(),
+      telegramChatId: z.string().regex(/^-?\d{1,20}$/).nullable(),
+    }))
+    .mutation(async ({ input }) => {
+      if (input.telegramChatId) {
+        const linked = await getUserByTelegramChatId(input.telegramChatId);
+        if (linked && linked.id !== input.userId) {
+          throw new TRPCError({ code: 'CONFLICT', message: 'This Telegram chat ID is linked to another user' });
+        }
+      }
+      return setUserTelegramChatId(input.userId, input.telegramChatId);
+    }),
+
+  // Deliver button presses and commands to /api/telegram/webhook
+  setWebhook: adminProcedure
+    .input(z.object({ url: z.string().url() }))
+    .mutation(async ({ input }) => {
+      return registerTelegramWebhook(input.url);
+    }),
+});
+
+// Telegram recipient router - chats, groups and guards with their own routing rules
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const telegramRecipientInput = {
+  name: z.string().min(1).max(100),
+  chatId: z.string().regex(/^-?\d{1,20}$/),
+  kind: z.enum(['chat', 'group', 'guard']),
+  eventTypes: z.array(z.enum(NOTIFICATION_EVENT_TYPES)),
+  minSeverity: z.enum(['low', 'medium', 'high', 'critical']),
+  quietHoursEnabled: z.boolean(),
+  quietHoursStart: hhmm.nullable(),
+  quietHoursEnd: hhmm.nullable(),
+  isActive: z.boolean(),
+};
+
+function withParsedEventTypes<T extends { eventTypes: string | null }>(subscriber: T) {
+  return { ...subscriber, eventTypes: parseEventTypes(subscriber.eventTypes) };
+}
+
+async function assertChatIdFree(chatId: string, recipientId?: number) {
+  const existing = await getTelegramRecipientByChatId(chatId);
+  if (existing && existing.id !== recipientId) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'A recipient with this chat ID already exists' });
+  }
+}
+
+const telegramRecipientRouter = router({
+  list: adminProcedure.query(async () => {
+    const recipients = await getAllTelegramRecipients();
+    return recipients.map(withParsedEventTypes);
+  }),
+
+  create: adminProcedure
+    .input(z.object(telegramRecipientInput))
+    .mutation(async ({ input }) => {
+      await assertChatIdFree(input.chatId);
+      return createTelegramRecipient({ ...input, eventTypes: JSON.stringify(input.eventTypes) });
+    }),
+
+  update: adminProcedure
+    .input(z.object({ id: z.number(), ...telegramRecipientInput }))
+    .mutation(async ({ input }) => {
+      const { id, ...data } = input;
+      await assertChatIdFree(data.chatId, id);
+      return updateTelegramRecipient(id, { ...data, eventTypes: JSON.stringify(data.eventTypes) });
+    }),
+
+  setActive: adminProcedure
+    .input(z.object({ id: z.number(), isActive: z.boolean() }))
+    .mutation(async ({ input }) => {
+      return updateTelegramRecipient(input.id, { isActive: input.isActive });
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return deleteTelegramRecipient(input.id);
+    }),
+
+  test: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const recipient = await getTelegramRecipientById(input.id);
+      if (!recipient) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Recipient not found' });
+      }
+      const botToken = await getSetting('telegram_bot_token');
+      if (!botToken?.value) {
+        throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Bot token is not configured' });
+      }
+      return testTelegramConnection(botToken.value, recipient.chatId);
+    }),
+});
+
+// Webhook router - external endpoints notification events are posted to
+const webhookInput = {
+  name: z.string().min(1).max(100),
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Webhook URL must use http or https'),
+  eventTypes: z.array(z.enum(NOTIFICATION_EVENT_TYPES)),
+  isActive: z.boolean(),
+};
+
+async function requireWebhook(id: number) {
+  const endpoint = await getWebhookEndpointById(id);
+  if (!endpoint) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook not found' });
+  }
+  return endpoint;
+}
+
+const webhookRouter = router({
+  list: adminProcedure.query(async () => {
+    const endpoints = await getAllWebhookEndpoints();
+    return endpoints.map(withParsedEventTypes);
+  }),
+
+  create: adminProcedure
+    .input(z.object(webhookInput))
+    .mutation(async ({ input }) => {
+      return createWebhookEndpoint({
+        ...input,
+        eventTypes: JSON.stringify(input.eventTypes),
+        secret: generateWebhookSecret(),
+      });
+    }),
+
+  update: adminProcedure
+    .input(z.object({ id: z.number(), ...webhookInput }))
+    .mutation(async ({ input }) => {
+      const { id, ...data } = input;
+      await requireWebhook(id);
+      return updateWebhookEndpoint(id, { ...data, eventTypes: JSON.stringify(data.eventTypes) });
+    }),
+
+  setActive: adminProcedure
+    .input(z.object({ id: z.number(), isActive: z.boolean() }))
+    .mutation(async ({ input }) => {
+      return updateWebhookEndpoint(input.id, { isActive: input.isActive });
+    }),
+
+  regenerateSecret: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      await requireWebhook(input.id);
+      return updateWebhookEndpoint(input.id, { secret: generateWebhookSecret() });
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return deleteWebhookEndpoint(input.id);
+    }),
+
+  // Posts a signed sample event once, without retries or history
+  test: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const endpoint = await requireWebhook(input.id);
+      const delivery = buildWebhookDelivery({
+        type: 'unknown_vehicle',
+        severity: 'low',
+        title: 'Test webhook',
+        message: 'This is a test event from the barrier control system',
+        data: { test: true },
+      });
+      const result = await postWebhook(endpoint, delivery);
+      return { success: result.ok, responseCode: result.responseCode, error: result.error };
+    }),
 });
 
 // Blacklist router - manage blocked vehicles
@@ -351,11 +938,12 @@ const blacklistRouter = router({
       expiresAt: z.date().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      const existing = await getBlacklistEntryByPlate(input.licensePlate);
+      const licensePlate = await requireValidPlate(input.licensePlate);
+      const existing = await getBlacklistEntryByPlate(licensePlate);
       if (existing) {
         throw new TRPCError({ code: 'CONFLICT', message: 'This plate is already in the blacklist' });
       }
-      return createBlacklistEntry({ ...input, addedBy: ctx.user.id });
+      return createBlacklistEntry({ ...input, licensePlate, addedBy: ctx.user.id });
     }),
   
   update: adminProcedure
@@ -373,6 +961,9 @@ const blacklistRouter = router({
     }))
     .mutation(async ({ input }) => {
       const { id, ...data } = input;
+      if (data.licensePlate) {
+        data.licensePlate = await requireValidPlate(data.licensePlate);
+      }
       return updateBlacklistEntry(id, data);
     }),
   
@@ -466,6 +1057,7 @@ const blacklistRouter = router({
         skipped: 0,
         errors: [] as { row: number; plate: string; error: string }[]
       };
+      const plateGroups = await getEnabledPlateGroups();
       
       // Process each row
       for (let i = 1; i < lines.length; i++) {
@@ -479,11 +1071,16 @@ const blacklistRouter = router({
             rowData[header] = values[index] || '';
           });
           
-          const licensePlate = rowData.licensePlate?.toUpperCase().replace(/\s/g, '');
-          if (!licensePlate) {
+          if (!rowData.licensePlate?.trim()) {
             results.errors.push({ row: i + 1, plate: '', error: 'Empty license plate' });
             continue;
           }
+          const parsedPlate = parsePlate(rowData.licensePlate, plateGroups);
+          const licensePlate = parsedPlate.plate;
+          if (!parsedPlate.valid) {
+            results.errors.push({ row: i + 1, plate: licensePlate, error: 'Unrecognized plate format' });
+            continue;
+          }
           
           // Check if plate already exists
           const existing = await getBlacklistEntryByPlate(licensePlate);
@@ -555,8 +1152,10 @@ const blacklistRouter = router({
         sampleRows: [] as Record<string, string>[],
         duplicates: 0,
         newEntries: 0,
+        invalidPlates: 0,
         hasRequiredFields: headers.includes('licensePlate'),
       };
+      const plateGroups = await getEnabledPlateGroups();
       
       // Process sample rows (max 10)
       const sampleCount = Math.min(lines.length - 1, 10);
@@ -572,9 +1171,11 @@ const blacklistRouter = router({
         preview.sampleRows.push(rowData);
         
         // Check for duplicates
-        const plate = rowData.licensePlate?.toUpperCase().replace(/\s/g, '');
-        if (plate) {
-          const existing = await getBlacklistEntryByPlate(plate);
+        const parsedPlate = rowData.licensePlate ? parsePlate(rowData.licensePlate, plateGroups) : null;
+        if (parsedPlate && !parsedPlate.valid) {
+          preview.invalidPlates++;
+        } else if (parsedPlate) {
+          const existing = await getBlacklistEntryByPlate(parsedPlate.plate);
           if (existing) {
             preview.duplicates++;
           } else {
@@ -615,171 +1216,32 @@ function parseCSVLine(line: string): string[] {
   return result;
 }
 
-// Recognition router - plate recognition using OpenAI Vision
+// Recognition router - plate recognition through the configured recognizer chain
 const recognitionRouter = router({
+  // A single frame, or a burst of frames of one vehicle voted into a consensus plate
   analyze: protectedProcedure
     .input(z.object({
-      imageBase64: z.string(),
+      imageBase64: z.string().optional(),
+      frames: z.array(z.string()).min(1).max(MAX_BURST_FRAMES).optional(),
       autoOpen: z.boolean().optional(),
-    }))
+      cameraId: z.number().optional(),
+      barrierIntegrationId: z.number().optional(),
+    }).refine(input => input.imageBase64 || input.frames, { message: 'imageBase64 or frames is required' }))
     .mutation(async ({ input, ctx }) => {
       try {
-        // Use OpenAI Vision to recognize the license plate
-        const response = await invokeLLM({
-          messages: [
-            {
-              role: "system",
-              content: "You are a license plate recognition system. Analyze the image and extract the vehicle license plate number. Return ONLY a JSON object with the format: {\"plate\": \"LICENSE_PLATE_HERE\", \"confidence\": 0-100}. If no plate is visible, return {\"plate\": null, \"confidence\": 0}."
-            },
-            {
-              role: "user",
-              content: [
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:image/jpeg;base64,${input.imageBase64}`,
-                    detail: "high"
-                  }
-                },
-                {
-                  type: "text",
-                  text: "Extract the license plate number from this image."
-                }
-              ]
-            }
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "plate_recognition",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  plate: { type: ["string", "null"], description: "The recognized license plate" },
-                  confidence: { type: "integer", description: "Confidence level 0-100" }
-                },
-                required: ["plate", "confidence"],
-                additionalProperties: false
-              }
-            }
-          }
-        });
-        
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error("No response from recognition service");
-        }
-        
-        const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
-        const result = JSON.parse(contentStr) as { plate: string | null; confidence: number };
-        
-        // Save the image to S3
-        const imageBuffer = Buffer.from(input.imageBase64, 'base64');
-        const imageKey = `passages/${Date.now()}-${nanoid(8)}.jpg`;
-        const { url: photoUrl } = await storagePut(imageKey, imageBuffer, 'image/jpeg');
-        
-        // Check if plate is blacklisted first
-        let isBlacklisted = false;
-        let blacklistEntry = null;
-        if (result.plate) {
-          blacklistEntry = await isPlateBlacklisted(result.plate);
-          isBlacklisted = blacklistEntry !== null;
-        }
-        
-        // If blacklisted, handle immediately
-        if (isBlacklisted && blacklistEntry) {
-          // Increment attempt count
-          await incrementBlacklistAttempt(blacklistEntry.id);
-          
-          // Create passage record for blacklisted vehicle
-          const passage = await createPassage({
-            licensePlate: result.plate || 'UNKNOWN',
-            photoUrl,
-            recognizedPlate: result.plate,
-            confidence: result.confidence,
-            isAllowed: false,
-            wasManualOpen: false,
-            barrierOpened: false,
-            openedBy: ctx.user.id,
-            notes: `BLACKLISTED: ${blacklistEntry.reason || 'No reason specified'}`,
-          });
-          
-          // Send enhanced notification for blacklisted vehicle
-          if (blacklistEntry.notifyOnDetection) {
-            await notifyBlacklistDetection({
-              entry: blacklistEntry,
-              photoUrl,
-              timestamp: new Date(),
-            });
-          }
-          
-          return {
-            plate: result.plate,
-            confidence: result.confidence,
-            isAllowed: false,
-            isBlacklisted: true,
-            blacklistEntry,
-            vehicle: null,
-            passageId: passage.id,
-            photoUrl,
-            barrierOpened: false,
-          };
-        }
-        
-        // Check if plate is in allowed list
-        let isAllowed = false;
-        let vehicle = null;
-        if (result.plate) {
-          vehicle = await getVehicleByPlate(result.plate);
-          isAllowed = vehicle !== null && vehicle.isActive;
-        }
-        
-        // Create passage record
-        const passage = await createPassage({
-          licensePlate: result.plate || 'UNKNOWN',
-          photoUrl,
-          recognizedPlate: result.plate,
-          confidence: result.confidence,
-          isAllowed,
-          wasManualOpen: false,
-          barrierOpened: isAllowed && input.autoOpen,
-          vehicleId: vehicle?.id,
-          openedBy: ctx.user.id,
-        });
-        
-        // Auto-open barrier if allowed
-        if (isAllowed && input.autoOpen) {
-          await logBarrierAction({
-            action: 'open',
-            triggeredBy: 'auto',
-            userId: ctx.user.id,
-            passageId: passage.id,
-            success: true,
-          });
-        }
-        
-        // Notify owner for unknown plates
-        if (!isAllowed && result.plate) {
-          await notifyUnknownVehicle({
-            licensePlate: result.plate,
-            confidence: result.confidence,
-            photoUrl,
-            timestamp: new Date(),
-          });
-        }
-        
-        return {
-          plate: result.plate,
-          confidence: result.confidence,
-          isAllowed,
-          isBlacklisted: false,
-          blacklistEntry: null,
-          vehicle,
-          passageId: passage.id,
-          photoUrl,
-          barrierOpened: isAllowed && input.autoOpen,
+        const camera = input.cameraId !== undefined
+          ? await getCameraIntegrationById(input.cameraId)
+          : await getPrimaryCameraIntegration();
+        const options = {
+          camera,
+          autoOpen: input.autoOpen ?? false,
+          barrierIntegrationId: input.barrierIntegrationId,
+          userId: ctx.user.id,
         };
+        const frames = input.frames ?? [input.imageBase64!];
+        return frames.length > 1
+          ? await analyzeBurst(frames, options)
+          : await analyzeFrame(frames[0], options);
       } catch (error) {
         console.error("Recognition error:", error);
         throw new TRPCError({ 
@@ -790,6 +1252,18 @@ const recognitionRouter = router({
     }),
 });
 
+const quietHoursTimeSchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/);
+
+// Sunday first, a window ending before it starts runs past midnight
+const quietHoursScheduleSchema = z.object({
+  enabled: z.boolean(),
+  days: z.array(z.object({
+    enabled: z.boolean(),
+    start: quietHoursTimeSchema,
+    end: quietHoursTimeSchema,
+  })).length(7),
+});
+
 // Quiet Hours router
 const quietHoursRouter = router({
   // Get current quiet hours configuration
@@ -801,23 +1275,30 @@ const quietHoursRouter = router({
   updateConfig: adminProcedure
     .input(z.object({
       enabled: z.boolean(),
-      startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
-      endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
       bypassCritical: z.boolean(),
+      timezone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+      holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).max(366),
+      schedules: z.object({
+        email: quietHoursScheduleSchema,
+        telegram: quietHoursScheduleSchema,
+      }),
     }))
     .mutation(async ({ input }) => {
       await upsertSetting('quietHoursEnabled', String(input.enabled), 'Enable quiet hours for notifications');
-      await upsertSetting('quietHoursStart', input.startTime, 'Quiet hours start time (HH:MM)');
-      await upsertSetting('quietHoursEnd', input.endTime, 'Quiet hours end time (HH:MM)');
       await upsertSetting('quietHoursBypassCritical', String(input.bypassCritical), 'Allow critical notifications to bypass quiet hours');
+      await upsertSetting('quietHoursTimezone', input.timezone, 'IANA time zone of the quiet hours schedules');
+      await upsertSetting('quietHoursHolidays', JSON.stringify(Array.from(new Set(input.holidays)).sort()), 'Dates (YYYY-MM-DD) that are quiet all day');
+      for (const channel of QUIET_HOURS_CHANNELS) {
+        await upsertSetting(QUIET_HOURS_SCHEDULE_KEYS[channel], JSON.stringify(input.schedules[channel]), `Quiet hours per weekday for ${channel}`);
+      }
       return { success: true };
     }),
 
   // Check if quiet hours are currently active
   isActive: protectedProcedure.query(async () => {
-    const isActive = await isQuietHoursActive();
+    const channels = await getQuietChannels();
     const config = await getQuietHoursConfig();
-    return { isActive, config };
+    return { isActive: channels.length > 0, channels, config };
   }),
 
   // Get pending notifications
@@ -865,7 +1346,15 @@ const notificationHistoryRouter = router({
       licensePlate: z.string().optional(),
     }).optional())
     .query(async ({ input }) => {
-      return getNotificationHistory(input || {});
+      const notifications = await getNotificationHistory(input || {});
+      const ids = notifications.map(n => n.id);
+      const deliveries = await getTelegramDeliveries(ids);
+      const attempts = await getWebhookAttempts(ids);
+      return notifications.map(n => ({
+        ...n,
+        deliveries: deliveries.filter(d => d.notificationId === n.id),
+        attempts: attempts.filter(a => a.notificationId === n.id),
+      }));
     }),
 
   // Get single notification by ID
@@ -879,7 +1368,8 @@ const notificationHistoryRouter = router({
   stats: protectedProcedure.query(async () => {
     const stats = await getNotificationHistoryStats();
     const byType = await getNotificationHistoryByType();
-    return { stats, byType };
+    const retries = await getNotificationRetrySummary();
+    return { stats, byType, retries };
   }),
 
   // Resend a notification
@@ -891,70 +1381,17 @@ const notificationHistoryRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Notification not found' });
       }
 
-      let emailSent = false;
-      let telegramSent = false;
-      let errorMessage = '';
-
-      try {
-        // Try to send via email
-        const emailResult = await notifyOwner({
-          title: notification.title,
-          content: notification.message,
-        });
-        emailSent = emailResult;
-      } catch (error) {
-        errorMessage += `Email error: ${error instanceof Error ? error.message : 'Unknown error'}. `;
-      }
-
-      try {
-        // Try to send via Telegram if enabled
-        const telegramEnabled = await getSetting('telegram_enabled');
-        if (telegramEnabled?.value === 'true') {
-          telegramSent = await sendTelegramMessage({
-            title: notification.title,
-            content: notification.message,
-            photoUrl: notification.photoUrl || undefined,
-          });
-          if (!telegramSent) {
-            errorMessage += 'Telegram: Failed to send message. ';
-          }
-        }
-      } catch (error) {
-        errorMessage += `Telegram error: ${error instanceof Error ? error.message : 'Unknown error'}. `;
-      }
-
-      const success = emailSent || telegramSent;
-      const channel = emailSent && telegramSent ? 'both' : (emailSent ? 'email' : (telegramSent ? 'telegram' : 'email'));
-
-      // Update the notification history
-      await updateNotificationHistory(notification.id, {
-        status: success ? 'sent' : 'failed',
-        retryCount: (notification.retryCount || 0) + 1,
-        lastRetryAt: new Date(),
-        sentAt: success ? new Date() : undefined,
-        errorMessage: success ? null : errorMessage,
-        channel: channel as any,
-      });
-
-      // Create a new history entry for the resend attempt
-      await createNotificationHistory({
-        type: notification.type,
-        title: `[Resend] ${notification.title}`,
-        message: notification.message,
-        licensePlate: notification.licensePlate,
-        photoUrl: notification.photoUrl,
-        severity: notification.severity,
-        channel: channel as any,
-        status: success ? 'sent' : 'failed',
-        errorMessage: success ? null : errorMessage,
-        sentAt: success ? new Date() : undefined,
-      });
+      // Counts as another attempt on the original entry, so a dead-lettered
+      // notification that fails again stays dead-lettered
+      const result = await retryNotification(notification);
+      const success = result.status === 'sent';
 
       return {
         success,
-        emailSent,
-        telegramSent,
-        errorMessage: success ? null : errorMessage,
+        status: result.status,
+        emailSent: result.channels.some(outcome => outcome.channel === 'email' && outcome.status === 'sent'),
+        telegramSent: result.channels.some(outcome => outcome.channel === 'telegram' && outcome.status === 'sent'),
+        errorMessage: success ? null : result.error ?? null,
       };
     }),
 
@@ -973,7 +1410,7 @@ const notificationHistoryRouter = router({
       });
 
       // Generate CSV
-      const headers = ['ID', 'Type', 'Title', 'Message', 'License Plate', 'Severity', 'Channel', 'Status', 'Error', 'Retry Count', 'Created At', 'Sent At'];
+      const headers = ['ID', 'Type', 'Title', 'Message', 'License Plate', 'Severity', 'Channel', 'Status', 'Response Code', 'Error', 'Retry Count', 'Created At', 'Sent At'];
       const rows = notifications.map(n => [
         n.id,
         n.type,
@@ -983,6 +1420,7 @@ const notificationHistoryRouter = router({
         n.severity,
         n.channel,
         n.status,
+        n.responseCode ?? '',
         `"${(n.errorMessage || '').replace(/"/g, '""')}"`,
         n.retryCount,
         n.createdAt?.toISOString() || '',
@@ -994,6 +1432,52 @@ const notificationHistoryRouter = router({
     }),
 });
 
+// Scheduled jobs router - schedules, run history and manual runs
+const jobsRouter = router({
+  list: adminProcedure.query(async () => {
+    return getJobStates();
+  }),
+
+  history: adminProcedure
+    .input(z.object({
+      name: z.enum(JOB_NAMES),
+      limit: z.number().min(1).max(100).optional(),
+    }))
+    .query(async ({ input }) => {
+      return getJobRuns({ jobName: input.name, limit: input.limit ?? 20 });
+    }),
+
+  update: adminProcedure
+    .input(z.object({
+      name: z.enum(JOB_NAMES),
+      cron: z.string().trim().min(1),
+      enabled: z.boolean(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        parseCron(input.cron);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Invalid cron expression',
+        });
+      }
+
+      await upsertSetting(`job_${input.name}_cron`, input.cron, `Cron schedule for the ${input.name} job`);
+      await upsertSetting(`job_${input.name}_enabled`, String(input.enabled), `Run the ${input.name} job on its schedule`);
+      return { success: true };
+    }),
+
+  run: adminProcedure
+    .input(z.object({ name: z.enum(JOB_NAMES) }))
+    .mutation(async ({ input }) => {
+      if (isJobRunning(input.name)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'Job is already running' });
+      }
+      return runJob(input.name, 'manual');
+    }),
+});
+
 // Barrier Integrations router
 const barrierIntegrationsRouter = router({
   list: protectedProcedure.query(async () => {
@@ -1029,6 +1513,7 @@ const barrierIntegrationsRouter = router({
       gpioActiveHigh: z.boolean().optional(),
       openDuration: z.number().optional(),
       timeout: z.number().optional(),
+      lane: z.enum(['entry', 'exit', 'both']).optional(),
     }))
     .mutation(async ({ input }) => {
       return createBarrierIntegration(input);
@@ -1054,6 +1539,7 @@ const barrierIntegrationsRouter = router({
       gpioActiveHigh: z.boolean().optional(),
       openDuration: z.number().optional(),
       timeout: z.number().optional(),
+      lane: z.enum(['entry', 'exit', 'both']).optional(),
     }))
     .mutation(async ({ input }) => {
       const { id, ...data } = input;
@@ -1121,6 +1607,10 @@ const cameraIntegrationsRouter = router({
       recognitionEnabled: z.boolean().optional(),
       recognitionInterval: z.number().optional(),
       recognitionConfidenceThreshold: z.number().optional(),
+      recognitionBurstFrames: z.number().min(1).max(MAX_BURST_FRAMES).optional(),
+      recognitionProviders: z.string().max(100).optional(),
+      recognitionEndpoint: z.string().optional(),
+      lane: z.enum(['entry', 'exit', 'both']).optional(),
     }))
     .mutation(async ({ input }) => {
       return createCameraIntegration(input);
@@ -1144,6 +1634,10 @@ const cameraIntegrationsRouter = router({
       recognitionEnabled: z.boolean().optional(),
       recognitionInterval: z.number().optional(),
       recognitionConfidenceThreshold: z.number().optional(),
+      recognitionBurstFrames: z.number().min(1).max(MAX_BURST_FRAMES).optional(),
+      recognitionProviders: z.string().max(100).optional(),
+      recognitionEndpoint: z.string().optional(),
+      lane: z.enum(['entry', 'exit', 'both']).optional(),
     }))
     .mutation(async ({ input }) => {
       const { id, ...data } = input;
@@ -1177,6 +1671,35 @@ const cameraIntegrationsRouter = router({
     .query(async ({ input }) => {
       return getCameraStreamInfo(input.id);
     }),
+
+  // Server-side continuous recognition
+  startRecognition: adminProcedure
+    .input(z.object({ id: z.number().optional() }).optional())
+    .mutation(async ({ input }) => {
+      if (input?.id !== undefined) {
+        const result = await startCameraRecognition(input.id);
+        if (!result.success) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: result.error });
+        }
+        return { started: [input.id] };
+      }
+      await upsertSetting('recognition_worker_enabled', 'true', 'Run server-side recognition on all cameras');
+      return startRecognitionWorker();
+    }),
+
+  stopRecognition: adminProcedure
+    .input(z.object({ id: z.number().optional() }).optional())
+    .mutation(async ({ input }) => {
+      if (input?.id !== undefined) {
+        return { stopped: stopCameraRecognition(input.id) ? [input.id] : [] };
+      }
+      await upsertSetting('recognition_worker_enabled', 'false', 'Run server-side recognition on all cameras');
+      return stopRecognitionWorker();
+    }),
+
+  recognitionStatus: protectedProcedure.query(async () => {
+    return getRecognitionWorkerStatus();
+  }),
 });
 
 export const appRouter = router({
@@ -1191,15 +1714,22 @@ export const appRouter = router({
   }),
   
   vehicles: vehicleRouter,
+  groups: groupRouter,
+  schedules: scheduleRouter,
+  guestPasses: guestPassRouter,
   passages: passageRouter,
   medical: medicalRouter,
   settings: settingsRouter,
   barrier: barrierRouter,
+  review: reviewRouter,
   recognition: recognitionRouter,
   telegram: telegramRouter,
+  telegramRecipients: telegramRecipientRouter,
+  webhooks: webhookRouter,
   blacklist: blacklistRouter,
   quietHours: quietHoursRouter,
   notificationHistory: notificationHistoryRouter,
+  jobs: jobsRouter,
   barrierIntegrations: barrierIntegrationsRouter,
   cameraIntegrations: cameraIntegrationsRouter,
 });
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getPassageById: vi.fn(),
+  upsertSetting: vi.fn(),
+  getUserByTelegramChatId: vi.fn(),
+  getTelegramRecipientByChatId: vi.fn(),
+}));
+
+vi.mock("./reviewQueue", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./reviewQueue")>(),
+  applyReviewDecision: vi.fn(),
+}));
+
+vi.mock("./telegramCommands", () => ({
+  runTelegramCommand: vi.fn(),
+}));
+
+import * as db from "./db";
+import { applyReviewDecision } from "./reviewQueue";
+import { runTelegramCommand } from "./telegramCommands";
+import {
+  parseCallbackData,
+  handleTelegramUpdate,
+  registerTelegramWebhook,
+} from "./telegramBot";
+
+const settings: Record<string, string> = {
+  telegram_bot_token: "token",
+  telegram_chat_id: "-100500",
+};
+
+const linkedUsers: Record<string, any> = {
+  "111": { id: 5, role: "user", managedGroupId: null },
+  "222": { id: 1, role: "admin", managedGroupId: null },
+};
+
+function callbackUpdate(data: string, fromId = 111) {
+  return {
+    update_id: 1,
+    callback_query: {
+      id: "cb1",
+      from: { id: fromId, username: "guard" },
+      data,
+      message: {
+        message_id: 77,
+        chat: { id: -100500 },
+        text: "🚨 Неизвестный автомобиль: A123BC77",
+        reply_markup: { inline_keyboard: [] },
+      },
+    },
+  };
+}
+
+function apiCalls(method: string) {
+  return mockFetch.mock.calls
+    .filter(([url]) => String(url).endsWith(`/${method}`))
+    .map(([, init]) => JSON.parse(init.body));
+}
+
+describe("Telegram Bot", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockImplementation(async (key: string) =>
+      settings[key] !== undefined ? ({ key, value: settings[key] } as any) : undefined
+    );
+    vi.mocked(db.getUserByTelegramChatId).mockImplementation(async (chatId: string) => linkedUsers[chatId] ?? null);
+    vi.mocked(db.getPassageById).mockResolvedValue({ id: 42, licensePlate: "A123BC77", reviewStatus: "pending" } as any);
+    vi.mocked(applyReviewDecision).mockResolvedValue({
+      passage: null, plate: "A123BC77", barrierOpened: true, barrierError: null,
+    });
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ ok: true, result: true }) });
+  });
+
+  describe("parseCallbackData", () => {
+    it("reads the action and passage", () => {
+      expect(parseCallbackData("allow:42")).toEqual({ action: "allow", passageId: 42 });
+    });
+
+    it("rejects anything else", () => {
+      expect(parseCallbackData("drop:42")).toBeNull();
+      expect(parseCallbackData("open:")).toBeNull();
+      expect(parseCallbackData(undefined)).toBeNull();
+    });
+  });
+
+  describe("handleTelegramUpdate", () => {
+    it("opens the barrier and edits the alert", async () => {
+      await handleTelegramUpdate(callbackUpdate("open:42"));
+
+      expect(applyReviewDecision).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 42 }),
+        { decision: "approve", notes: "Telegram: @guard" },
+        { userId: 5, groupId: null }
+      );
+      const [edit] = apiCalls("editMessageText");
+      expect(edit).toMatchObject({ chat_id: -100500, message_id: 77 });
+      expect(edit.text).toContain("Шлагбаум открыт — @guard");
+      expect(edit.reply_markup).toBeUndefined();
+    });
+
+    it("lets admins add the plate to the allowed list", async () => {
+      await handleTelegramUpdate(callbackUpdate("allow:42", 222));
+
+      expect(applyReviewDecision).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ decision: "approve", addTo: "allowed" }),
+        { userId: 1, groupId: undefined }
+      );
+    });
+
+    it("only reports the barrier opened when it did", async () => {
+      vi.mocked(applyReviewDecision).mockResolvedValue({
+        passage: null, plate: "A123BC77", barrierOpened: false, barrierError: null,
+      });
+
+      await handleTelegramUpdate(callbackUpdate("allow:42", 222));
+      await handleTelegramUpdate(callbackUpdate("open:42"));
+
+      const [allowed, opened] = apiCalls("answerCallbackQuery").map(call => call.text);
+      expect(allowed).toBe("✅ A123BC77 добавлен в разрешённые — @guard");
+      expect(opened).toBe("✅ Въезд разрешён — @guard");
+    });
+
+    it("does not let regular users add vehicles", async () => {
+      await handleTelegramUpdate(callbackUpdate("allow:42", 111));
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+      expect(apiCalls("answerCallbackQuery")[0].text).toContain("администраторы");
+    });
+
+    it("ignores presses by unlinked users", async () => {
+      await handleTelegramUpdate(callbackUpdate("open:42", 999));
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+      expect(apiCalls("answerCallbackQuery")[0].text).toContain("Нет прав");
+    });
+
+    it("ignores presses outside the alert chat", async () => {
+      const update = callbackUpdate("open:42");
+      update.callback_query.message.chat.id = 12345;
+
+      await handleTelegramUpdate(update);
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+    });
+
+    it("replies to commands as the linked user", async () => {
+      vi.mocked(runTelegramCommand).mockResolvedValue("🔓 Шлагбаум открыт");
+
+      await handleTelegramUpdate({
+        update_id: 2,
+        message: { message_id: 9, chat: { id: 111 }, from: { id: 111 }, text: "/open" },
+      });
+
+      expect(runTelegramCommand).toHaveBeenCalledWith("/open", linkedUsers["111"], "111");
+      expect(apiCalls("sendMessage")[0]).toMatchObject({ chat_id: 111, text: "🔓 Шлагбаум открыт", reply_to_message_id: 9 });
+    });
+
+    it("edits the caption of photo alerts", async () => {
+      const update = callbackUpdate("deny:42");
+      const message: any = update.callback_query.message;
+      message.caption = message.text;
+      message.photo = [{ file_id: "photo" }];
+      delete message.text;
+
+      await handleTelegramUpdate(update);
+
+      expect(apiCalls("editMessageText")).toHaveLength(0);
+      const [edit] = apiCalls("editMessageCaption");
+      expect(edit.caption).toContain("A123BC77");
+      expect(edit.caption).toContain("Въезд запрещён — @guard");
+    });
+
+    it("does not decide twice", async () => {
+      vi.mocked(db.getPassageById).mockResolvedValue({ id: 42, reviewStatus: "denied" } as any);
+
+      await handleTelegramUpdate(callbackUpdate("open:42"));
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+      expect(apiCalls("editMessageText")).toHaveLength(0);
+    });
+
+    it("ignores presses on passages that are not waiting for review", async () => {
+      vi.mocked(db.getPassageById).mockResolvedValue({ id: 42, licensePlate: "A123BC77", reviewStatus: null } as any);
+
+      await handleTelegramUpdate(callbackUpdate("open:42"));
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+      expect(apiCalls("answerCallbackQuery")[0].text).toBe("Решение уже принято");
+    });
+
+    it("does not add unread plates to the allowed list", async () => {
+      vi.mocked(db.getPassageById).mockResolvedValue({ id: 42, licensePlate: "UNKNOWN", reviewStatus: "pending" } as any);
+
+      await handleTelegramUpdate(callbackUpdate("allow:42", 222));
+
+      expect(applyReviewDecision).not.toHaveBeenCalled();
+      expect(apiCalls("answerCallbackQuery")[0].text).toContain("Номер не распознан");
+    });
+
+    it("keeps the buttons when the barrier fails", async () => {
+      vi.mocked(applyReviewDecision).mockResolvedValue({
+        passage: null, plate: "A123BC77", barrierOpened: false, barrierError: "Timeout",
+      });
+
+      await handleTelegramUpdate(callbackUpdate("open:42"));
+
+      const [edit] = apiCalls("editMessageText");
+      expect(edit.text).toContain("Timeout");
+      expect(edit.reply_markup).toEqual({ inline_keyboard: [] });
+    });
+  });
+
+  describe("registerTelegramWebhook", () => {
+    it("sets the webhook and stores its secret", async () => {
+      const result = await registerTelegramWebhook("https://barrier.example.com/api/telegram/webhook");
+
+      expect(result).toEqual({ success: true });
+      const [call] = apiCalls("setWebhook");
+      expect(call.url).toBe("https://barrier.example.com/api/telegram/webhook");
+      expect(db.upsertSetting).toHaveBeenCalledWith("telegram_webhook_secret", call.secret_token, expect.any(String));
+    });
+
+    it("keeps the old secret when Telegram rejects the URL", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400, json: () => Promise.resolve({ ok: false, description: "bad webhook" }) });
+
+      const result = await registerTelegramWebhook("http://localhost/api/telegram/webhook");
+
+      expect(result).toEqual({ success: false, error: "bad webhook" });
+      expect(db.upsertSetting).not.toHaveBeenCalled();
+    });
+  });
+});
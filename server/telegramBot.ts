@@ -0,0 +1,214 @@
+/**
+ * Telegram Bot - handles updates Telegram delivers to the webhook.
+ * Senders act as the app user their Telegram chat ID is linked to.
+ * Inline buttons on unknown vehicle alerts let linked members of the alert
+ * chats open the barrier, deny entry or add the plate to the allowed list;
+ * the alert is then edited to show who decided what.
+ * Text commands are handled by telegramCommands.
+ */
+
+import { nanoid } from 'nanoid';
+import { getSetting, getPassageById, upsertSetting, getUserByTelegramChatId, getTelegramRecipientByChatId } from './db';
+import { callTelegramApi, escapeHtml } from './telegramNotification';
+import { applyReviewDecision, checkReviewRequest, type ReviewRejection, type ReviewRequest } from './reviewQueue';
+import { runTelegramCommand } from './telegramCommands';
+import type { User } from '../drizzle/schema';
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  from?: TelegramUser;
+  text?: string;
+  /** Text of alerts sent as a photo */
+  caption?: string;
+  photo?: unknown[];
+  reply_markup?: unknown;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+type CallbackAction = 'open' | 'deny' | 'allow';
+
+const CALLBACK_REQUESTS: Record<CallbackAction, Pick<ReviewRequest, 'decision' | 'addTo'>> = {
+  open: { decision: 'approve' },
+  deny: { decision: 'deny' },
+  allow: { decision: 'approve', addTo: 'allowed' },
+};
+
+const REVIEW_REJECTIONS: Record<ReviewRejection, string> = {
+  already_reviewed: 'Решение уже принято',
+  allow_requires_approval: 'Неизвестное действие',
+  blacklist_requires_denial: 'Неизвестное действие',
+  forbidden: '⛔ Добавлять автомобили могут только администраторы',
+  plate_required: 'Номер не распознан — добавьте автомобиль на странице проверки',
+};
+
+/**
+ * Parse `action:passageId` callback data of the approval buttons
+ */
+export function parseCallbackData(data: string | undefined): { action: CallbackAction; passageId: number } | null {
+  const match = data?.match(/^(open|deny|allow):(\d+)$/);
+  if (!match) return null;
+  return { action: match[1] as CallbackAction, passageId: parseInt(match[2], 10) };
+}
+
+/**
+ * App user a Telegram sender is linked to
+ */
+export async function getTelegramAppUser(telegramUser: TelegramUser): Promise<User | null> {
+  return getUserByTelegramChatId(String(telegramUser.id));
+}
+
+/**
+ * Buttons only work in chats alerts are sent to
+ */
+async function isAlertChat(chatId: number | undefined): Promise<boolean> {
+  if (chatId === undefined) return false;
+  const recipient = await getTelegramRecipientByChatId(String(chatId));
+  if (recipient) return recipient.isActive;
+
+  const chatSetting = await getSetting('telegram_chat_id');
+  return !!chatSetting?.value && String(chatId) === chatSetting.value.trim();
+}
+
+function describeTelegramUser(user: TelegramUser): string {
+  return user.username ? `@${user.username}` : user.first_name || `id ${user.id}`;
+}
+
+/**
+ * Process one update from the webhook
+ */
+export async function handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+  if (update.callback_query) {
+    await handleCallbackQuery(update.callback_query);
+  } else if (update.message?.text && update.message.from) {
+    await handleCommandMessage(update.message, update.message.from);
+  }
+}
+
+async function handleCommandMessage(message: TelegramMessage, from: TelegramUser): Promise<void> {
+  const botToken = (await getSetting('telegram_bot_token'))?.value;
+  if (!botToken) return;
+
+  const user = await getTelegramAppUser(from);
+  const reply = await runTelegramCommand(message.text ?? '', user, String(from.id));
+  if (!reply) return;
+
+  await callTelegramApi(botToken, 'sendMessage', {
+    chat_id: message.chat.id,
+    text: reply,
+    parse_mode: 'HTML',
+    reply_to_message_id: message.message_id,
+  });
+}
+
+async function handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+  const botToken = (await getSetting('telegram_bot_token'))?.value;
+  if (!botToken) return;
+
+  const answer = (text: string) =>
+    callTelegramApi(botToken, 'answerCallbackQuery', { callback_query_id: query.id, text });
+
+  const parsed = parseCallbackData(query.data);
+  if (!parsed) {
+    await answer('Неизвестное действие');
+    return;
+  }
+
+  const user = await isAlertChat(query.message?.chat.id) ? await getTelegramAppUser(query.from) : null;
+  if (!user) {
+    await answer('⛔ Нет прав на это действие');
+    return;
+  }
+
+  const passage = await getPassageById(parsed.passageId);
+  if (!passage) {
+    await answer('Проезд не найден');
+    return;
+  }
+
+  // Same checks as on the Review Queue page
+  const who = describeTelegramUser(query.from);
+  const request: ReviewRequest = { ...CALLBACK_REQUESTS[parsed.action], notes: `Telegram: ${who}` };
+  const rejection = checkReviewRequest(passage, request, user);
+  if (rejection) {
+    await answer(REVIEW_REJECTIONS[rejection]);
+    return;
+  }
+
+  const result = await applyReviewDecision(
+    passage,
+    request,
+    { userId: user.id, groupId: user.role === 'admin' ? undefined : user.managedGroupId }
+  );
+
+  // The barrier stays shut when it had already opened for the passage
+  let outcome: string;
+  if (result.barrierError) {
+    outcome = `❌ Не удалось открыть шлагбаум: ${result.barrierError}`;
+  } else if (parsed.action === 'deny') {
+    outcome = `⛔ Въезд запрещён — ${who}`;
+  } else if (parsed.action === 'allow') {
+    const barrier = result.barrierOpened ? ', шлагбаум открыт' : '';
+    outcome = `✅ ${result.plate} добавлен в разрешённые${barrier} — ${who}`;
+  } else {
+    outcome = result.barrierOpened ? `🔓 Шлагбаум открыт — ${who}` : `✅ Въезд разрешён — ${who}`;
+  }
+
+  await answer(outcome);
+
+  if (query.message) {
+    // Alerts with a photo carry their text in the caption
+    const isPhoto = !!query.message.photo;
+    const original = (isPhoto ? query.message.caption : query.message.text) ?? '';
+    // Keep the buttons after a barrier failure so the action can be retried
+    await callTelegramApi(botToken, isPhoto ? 'editMessageCaption' : 'editMessageText', {
+      chat_id: query.message.chat.id,
+      message_id: query.message.message_id,
+      [isPhoto ? 'caption' : 'text']: `${escapeHtml(original)}\n\n<b>${escapeHtml(outcome)}</b>`,
+      parse_mode: 'HTML',
+      reply_markup: result.barrierError ? query.message.reply_markup : undefined,
+    });
+  }
+}
+
+/**
+ * Point the bot's webhook at this server with a fresh secret token
+ */
+export async function registerTelegramWebhook(url: string): Promise<{ success: boolean; error?: string }> {
+  const botToken = (await getSetting('telegram_bot_token'))?.value;
+  if (!botToken) {
+    return { success: false, error: 'Bot token is not configured' };
+  }
+
+  const secret = nanoid(32);
+  try {
+    await callTelegramApi(botToken, 'setWebhook', {
+      url,
+      secret_token: secret,
+      allowed_updates: ['message', 'callback_query'],
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to set webhook' };
+  }
+
+  await upsertSetting('telegram_webhook_secret', secret, 'Secret token Telegram sends with webhook updates');
+  return { success: true };
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getPassages: vi.fn(),
+  getPassageStats: vi.fn(),
+  getPendingReviewCount: vi.fn(),
+  getPrimaryBarrierIntegration: vi.fn(),
+  getVehicleGroupById: vi.fn(),
+  getUsableGuestPass: vi.fn(),
+  getBlacklistEntryByPlate: vi.fn(),
+  createBlacklistEntry: vi.fn(),
+  createGuestPass: vi.fn(),
+  logBarrierAction: vi.fn(),
+}));
+
+vi.mock("./integrationService", () => ({
+  openBarrier: vi.fn(),
+}));
+
+vi.mock("./emailNotification", () => ({
+  notifyManualBarrierOpen: vi.fn(),
+}));
+
+vi.mock("./occupancyService", () => ({
+  getOccupancy: vi.fn(),
+}));
+
+vi.mock("./quietHours", () => ({
+  isQuietHoursActive: vi.fn(),
+}));
+
+import * as db from "./db";
+import { openBarrier } from "./integrationService";
+import { notifyManualBarrierOpen } from "./emailNotification";
+import { parseCommand, parseDuration, runTelegramCommand } from "./telegramCommands";
+
+const guard = { id: 5, name: "Guard", email: "guard@example.com", role: "user", managedGroupId: null } as any;
+const admin = { id: 1, name: "Admin", email: "admin@example.com", role: "admin", managedGroupId: null } as any;
+
+describe("Telegram Commands", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getSetting).mockResolvedValue(undefined);
+    vi.mocked(db.getPassages).mockResolvedValue([]);
+  });
+
+  describe("parseCommand", () => {
+    it("splits the command and its arguments", () => {
+      expect(parseCommand("/guest a123bc77  2h Ivan")).toEqual({ name: "guest", args: ["a123bc77", "2h", "Ivan"] });
+    });
+
+    it("drops the bot name suffix used in groups", () => {
+      expect(parseCommand("/Status@BarrierBot")).toEqual({ name: "status", args: [] });
+    });
+
+    it("ignores plain text", () => {
+      expect(parseCommand("open the gate")).toBeNull();
+    });
+  });
+
+  describe("parseDuration", () => {
+    it("reads minutes, hours and days", () => {
+      expect(parseDuration("30m")).toBe(30 * 60 * 1000);
+      expect(parseDuration("2h")).toBe(2 * 60 * 60 * 1000);
+      expect(parseDuration("1D")).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it("rejects malformed and zero durations", () => {
+      expect(parseDuration("2 hours")).toBeNull();
+      expect(parseDuration("0h")).toBeNull();
+      expect(parseDuration(undefined)).toBeNull();
+    });
+  });
+
+  describe("runTelegramCommand", () => {
+    it("ignores messages that are not commands", async () => {
+      expect(await runTelegramCommand("hello", guard, "111")).toBeNull();
+    });
+
+    it("tells unlinked senders their chat ID", async () => {
+      const reply = await runTelegramCommand("/open", null, "111");
+
+      expect(reply).toContain("<code>111</code>");
+      expect(openBarrier).not.toHaveBeenCalled();
+    });
+
+    it("hides admin commands from regular users", async () => {
+      const help = await runTelegramCommand("/help", guard, "111");
+
+      expect(help).toContain("/open");
+      expect(help).not.toContain("/blacklist");
+    });
+
+    it("rejects admin commands for regular users", async () => {
+      const reply = await runTelegramCommand("/blacklist A123BC77 speeding", guard, "111");
+
+      expect(reply).toContain("только администраторам");
+      expect(db.createBlacklistEntry).not.toHaveBeenCalled();
+    });
+
+    it("blacklists a plate for admins", async () => {
+      vi.mocked(db.getBlacklistEntryByPlate).mockResolvedValue(null as any);
+
+      await runTelegramCommand("/blacklist a123bc77 drove through the gate", admin, "222");
+
+      expect(db.createBlacklistEntry).toHaveBeenCalledWith({
+        licensePlate: "A123BC77",
+        reason: "drove through the gate",
+        addedBy: 1,
+      });
+    });
+
+    it("opens the barrier and logs who did it", async () => {
+      vi.mocked(openBarrier).mockResolvedValue({ success: true });
+
+      const reply = await runTelegramCommand("/open", guard, "111");
+
+      expect(reply).toContain("Шлагбаум открыт");
+      expect(db.logBarrierAction).toHaveBeenCalledWith(expect.objectContaining({ triggeredBy: "manual", userId: 5, success: true }));
+      expect(notifyManualBarrierOpen).toHaveBeenCalledWith(expect.objectContaining({ userId: 5, notes: "Telegram /open" }));
+    });
+
+    it("reports barrier failures", async () => {
+      vi.mocked(openBarrier).mockResolvedValue({ success: false, error: "Timeout" });
+
+      const reply = await runTelegramCommand("/open", guard, "111");
+
+      expect(reply).toContain("Timeout");
+      expect(notifyManualBarrierOpen).not.toHaveBeenCalled();
+    });
+
+    it("issues a single-entry guest pass", async () => {
+      const before = Date.now();
+
+      await runTelegramCommand("/guest a123bc77 2h Ivan Petrov", guard, "111");
+
+      const pass = vi.mocked(db.createGuestPass).mock.calls[0][0];
+      expect(pass).toMatchObject({ licensePlate: "A123BC77", guestName: "Ivan Petrov", maxEntries: 1, issuedBy: 5 });
+      expect(pass.validUntil.getTime() - before).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+    });
+
+    it("rejects guest passes without a valid duration", async () => {
+      const reply = await runTelegramCommand("/guest A123BC77 60d", guard, "111");
+
+      expect(reply).toContain("30d");
+      expect(db.createGuestPass).not.toHaveBeenCalled();
+    });
+
+    it("clamps the number of recent passages", async () => {
+      await runTelegramCommand("/last 500", guard, "111");
+
+      expect(db.getPassages).toHaveBeenCalledWith({ limit: 20 });
+    });
+
+    it("answers unknown commands with help", async () => {
+      const reply = await runTelegramCommand("/reboot", guard, "111");
+
+      expect(reply).toContain("Неизвестная команда /reboot");
+      expect(reply).toContain("/status");
+    });
+
+    it("does not treat object members as commands", async () => {
+      for (const name of ["constructor", "__proto__"]) {
+        expect(await runTelegramCommand(`/${name}`, guard, "111")).toContain(`Неизвестная команда /${name}`);
+      }
+    });
+  });
+});
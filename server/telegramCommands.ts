@@ -0,0 +1,275 @@
+/**
+ * Telegram Commands - text commands guards send to the bot. Senders are
+ * mapped to app users by their Telegram chat ID, and each command requires
+ * the same role as the matching tRPC procedure.
+ * Replies are Telegram HTML.
+ */
+
+import {
+  getPassages,
+  getPassageStats,
+  getPendingReviewCount,
+  getPrimaryBarrierIntegration,
+  getVehicleGroupById,
+  getUsableGuestPass,
+  getBlacklistEntryByPlate,
+  createBlacklistEntry,
+  createGuestPass,
+  logBarrierAction,
+} from './db';
+import { openBarrier } from './integrationService';
+import { notifyManualBarrierOpen } from './emailNotification';
+import { getOccupancy } from './occupancyService';
+import { isQuietHoursActive } from './quietHours';
+import { getEnabledPlateGroups, parsePlate } from './plateFormats';
+import { getPlateMatchConfig, findVehicleByPlate, findBlacklistEntry } from './plateMatching';
+import { escapeHtml } from './telegramNotification';
+import type { User } from '../drizzle/schema';
+
+const DEFAULT_LAST_PASSAGES = 5;
+const MAX_LAST_PASSAGES = 20;
+const MAX_GUEST_PASS_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+interface TelegramCommand {
+  usage: string;
+  description: string;
+  adminOnly?: boolean;
+  run(user: User, args: string[]): Promise<string>;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Split `/command@BotName arg1 arg2` into the command name and its arguments
+ */
+export function parseCommand(text: string): { name: string; args: string[] } | null {
+  const match = text.trim().match(/^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+  return {
+    name: match[1].toLowerCase(),
+    args: match[2] ? match[2].trim().split(/\s+/) : [],
+  };
+}
+
+/**
+ * Duration like 30m, 2h or 1d in milliseconds, null when malformed
+ */
+export function parseDuration(value: string | undefined): number | null {
+  const match = value?.trim().toLowerCase().match(/^(\d+)([mhd])$/);
+  if (!match) return null;
+  const ms = parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+  return ms > 0 ? ms : null;
+}
+
+async function parsePlateArgument(value: string | undefined): Promise<string | { error: string }> {
+  if (!value) return { error: 'Укажите номер' };
+  const parsed = parsePlate(value, await getEnabledPlateGroups());
+  return parsed.valid ? parsed.plate : { error: `Неизвестный формат номера: ${escapeHtml(parsed.plate || value)}` };
+}
+
+const COMMANDS: Record<string, TelegramCommand> = {
+  open: {
+    usage: '/open',
+    description: 'открыть шлагбаум',
+    async run(user) {
+      const response = await openBarrier();
+      await logBarrierAction({
+        action: 'open',
+        triggeredBy: 'manual',
+        userId: user.id,
+        success: response.success,
+        errorMessage: response.error,
+      });
+
+      if (!response.success) {
+        return `❌ Не удалось открыть шлагбаум: ${escapeHtml(response.error || 'Unknown hardware error')}`;
+      }
+
+      await notifyManualBarrierOpen({
+        userName: user.name || user.email || 'Unknown',
+        userId: user.id,
+        timestamp: new Date(),
+        notes: 'Telegram /open',
+      });
+      return '🔓 Шлагбаум открыт';
+    },
+  },
+
+  status: {
+    usage: '/status',
+    description: 'состояние системы',
+    async run() {
+      const [barrier, occupancy, pendingReviews, stats, quietHours] = await Promise.all([
+        getPrimaryBarrierIntegration(),
+        getOccupancy(),
+        getPendingReviewCount(),
+        getPassageStats(1),
+        isQuietHoursActive(),
+      ]);
+
+      const lines = [
+        '<b>📊 Состояние системы</b>',
+        barrier
+          ? `🚧 Шлагбаум: ${escapeHtml(barrier.name)} (${barrier.lastStatus ?? 'unknown'})`
+          : '🚧 Шлагбаум: не настроен',
+        `🅿️ На территории: ${occupancy.vehicles.length}`,
+        `📋 Ожидают проверки: ${pendingReviews}`,
+        `🚗 За сутки: ${Number(stats.total) || 0} (разрешено ${Number(stats.allowed) || 0}, отказано ${Number(stats.denied) || 0})`,
+        `🌙 Тихие часы: ${quietHours ? 'активны' : 'нет'}`,
+      ];
+      return lines.join('\n');
+    },
+  },
+
+  last: {
+    usage: '/last [N]',
+    description: 'последние проезды',
+    async run(_user, args) {
+      const requested = args[0] ? parseInt(args[0], 10) : DEFAULT_LAST_PASSAGES;
+      const limit = Math.min(Math.max(Number.isFinite(requested) ? requested : DEFAULT_LAST_PASSAGES, 1), MAX_LAST_PASSAGES);
+      const passages = await getPassages({ limit });
+      if (passages.length === 0) return 'Проездов пока нет';
+
+      const lines = passages.map(p => {
+        const direction = p.direction === 'entry' ? '⬅️' : p.direction === 'exit' ? '➡️' : '';
+        return `${formatTime(p.timestamp)} <code>${escapeHtml(p.licensePlate)}</code> ${p.isAllowed ? '✅' : '⛔'} ${direction}`.trim();
+      });
+      return [`<b>🕐 Последние проезды (${passages.length})</b>`, ...lines].join('\n');
+    },
+  },
+
+  who: {
+    usage: '/who <номер>',
+    description: 'информация о номере',
+    async run(_user, args) {
+      const plate = await parsePlateArgument(args[0]);
+      if (typeof plate !== 'string') return plate.error;
+
+      const config = await getPlateMatchConfig();
+      const [vehicleMatch, blacklistMatch, guestPass, [lastPassage]] = await Promise.all([
+        findVehicleByPlate(plate, config),
+        findBlacklistEntry(plate, config),
+        getUsableGuestPass(plate, new Date()),
+        getPassages({ licensePlate: plate, limit: 1 }),
+      ]);
+
+      const lines = [`<b>🔎 ${escapeHtml(plate)}</b>`];
+      const vehicle = vehicleMatch?.item;
+      if (vehicle) {
+        const group = vehicle.groupId ? await getVehicleGroupById(vehicle.groupId) : null;
+        lines.push(`🚗 Зарегистрирован${vehicle.isActive ? '' : ' (неактивен)'}: ${escapeHtml(vehicle.licensePlate)}`);
+        if (vehicle.ownerName) lines.push(`👤 Владелец: ${escapeHtml(vehicle.ownerName)}`);
+        if (vehicle.vehicleModel) lines.push(`🚙 Модель: ${escapeHtml(vehicle.vehicleModel)}`);
+        if (group) lines.push(`👥 Группа: ${escapeHtml(group.name)}`);
+      } else {
+        lines.push('🚗 Не зарегистрирован');
+      }
+      if (blacklistMatch) {
+        lines.push(`🚫 В чёрном списке: ${escapeHtml(blacklistMatch.item.reason || 'без причины')}`);
+      }
+      if (guestPass) {
+        lines.push(`🎫 Гостевой пропуск до ${formatTime(guestPass.validUntil)}`);
+      }
+      if (lastPassage) {
+        lines.push(`🕐 Последний проезд: ${formatTime(lastPassage.timestamp)} ${lastPassage.isAllowed ? '✅' : '⛔'}`);
+      }
+      return lines.join('\n');
+    },
+  },
+
+  blacklist: {
+    usage: '/blacklist <номер> <причина>',
+    description: 'добавить в чёрный список',
+    adminOnly: true,
+    async run(user, args) {
+      const plate = await parsePlateArgument(args[0]);
+      if (typeof plate !== 'string') return plate.error;
+
+      if (await getBlacklistEntryByPlate(plate)) {
+        return `${escapeHtml(plate)} уже в чёрном списке`;
+      }
+      const reason = args.slice(1).join(' ') || undefined;
+      await createBlacklistEntry({ licensePlate: plate, reason, addedBy: user.id });
+      return `🚫 ${escapeHtml(plate)} добавлен в чёрный список${reason ? `: ${escapeHtml(reason)}` : ''}`;
+    },
+  },
+
+  guest: {
+    usage: '/guest <номер> <срок, напр. 2h> [имя]',
+    description: 'выдать гостевой пропуск на один въезд',
+    async run(user, args) {
+      const plate = await parsePlateArgument(args[0]);
+      if (typeof plate !== 'string') return plate.error;
+
+      const duration = parseDuration(args[1]);
+      if (!duration || duration > MAX_GUEST_PASS_MS) {
+        return 'Укажите срок действия: 30m, 2h или 1d (не больше 30d)';
+      }
+
+      const validFrom = new Date();
+      const validUntil = new Date(validFrom.getTime() + duration);
+      await createGuestPass({
+        licensePlate: plate,
+        guestName: args.slice(2).join(' ') || undefined,
+        validFrom,
+        validUntil,
+        maxEntries: 1,
+        issuedBy: user.id,
+      });
+      return `🎫 Гостевой пропуск для ${escapeHtml(plate)} действует до ${formatTime(validUntil)}`;
+    },
+  },
+};
+
+function helpText(user: User): string {
+  const lines = Object.values(COMMANDS)
+    .filter(command => !command.adminOnly || user.role === 'admin')
+    .map(command => `${escapeHtml(command.usage)} — ${command.description}`);
+  return ['<b>Команды</b>', ...lines].join('\n');
+}
+
+/**
+ * Run a command for the user the sender is mapped to and return the reply.
+ * Unmapped senders get their chat ID so an admin can link it.
+ */
+export async function runTelegramCommand(text: string, user: User | null, telegramChatId: string): Promise<string | null> {
+  const parsed = parseCommand(text);
+  if (!parsed) return null;
+
+  if (!user) {
+    return `⛔ Этот Telegram не привязан к пользователю системы.\nВаш chat ID: <code>${escapeHtml(telegramChatId)}</code> — передайте его администратору.`;
+  }
+
+  if (parsed.name === 'start' || parsed.name === 'help') {
+    return helpText(user);
+  }
+
+  // Names like `constructor` must not resolve to Object.prototype members
+  const command = Object.hasOwn(COMMANDS, parsed.name) ? COMMANDS[parsed.name] : undefined;
+  if (!command) {
+    return `Неизвестная команда /${escapeHtml(parsed.name)}\n\n${helpText(user)}`;
+  }
+  if (command.adminOnly && user.role !== 'admin') {
+    return '⛔ Команда доступна только администраторам';
+  }
+
+  try {
+    return await command.run(user, parsed.args);
+  } catch (error) {
+    console.error(`[TelegramBot] Command /${parsed.name} failed:`, error);
+    return '❌ Не удалось выполнить команду';
+  }
+}
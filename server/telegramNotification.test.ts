@@ -7,21 +7,26 @@ global.fetch = mockFetch;
 // Mock the db module
 vi.mock("./db", () => ({
   getSetting: vi.fn(),
+  getAllTelegramRecipients: vi.fn(),
+  createTelegramDeliveries: vi.fn(),
 }));
 
-import { getSetting } from "./db";
+import { getSetting, getAllTelegramRecipients, createTelegramDeliveries } from "./db";
 import { 
   sendTelegramMessage, 
+  deliverTelegramNotification,
+  recordTelegramDeliveries,
   testTelegramConnection, 
   getBotInfo,
-  telegramNotifyUnknownVehicle,
-  telegramNotifyManualOpen,
-  telegramNotifyUnauthorizedAccess
+  telegramUnknownVehicleMessage,
+  telegramManualOpenMessage,
+  telegramUnauthorizedAccessMessage
 } from "./telegramNotification";
 
 describe("telegramNotification service", () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    vi.resetAllMocks();
+    vi.mocked(getAllTelegramRecipients).mockResolvedValue([]);
   });
 
   describe("sendTelegramMessage", () => {
@@ -102,6 +107,162 @@ describe("telegramNotification service", () => {
     });
   });
 
+  describe("recipients", () => {
+    const recipient = (id: number, chatId: string, overrides: Record<string, unknown> = {}) => ({
+      id, name: `Recipient ${id}`, chatId, kind: "chat", eventTypes: null, minSeverity: "low",
+      quietHoursEnabled: false, quietHoursStart: null, quietHoursEnd: null, isActive: true, ...overrides,
+    } as any);
+
+    beforeEach(() => {
+      vi.mocked(getSetting)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ key: "telegram_bot_token", value: "token" } as any);
+    });
+
+    it("sends to every subscribed recipient and reports each delivery", async () => {
+      vi.mocked(getAllTelegramRecipients).mockResolvedValue([
+        recipient(1, "111"),
+        recipient(2, "222"),
+        recipient(3, "333", { minSeverity: "critical" }),
+      ]);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ok: true }) })
+        .mockResolvedValueOnce({ ok: false, text: () => Promise.resolve("chat not found") });
+
+      const results = await deliverTelegramNotification({
+        title: "Unknown",
+        content: "A123BC777",
+        type: "unknown_vehicle",
+        severity: "medium",
+        licensePlate: "A123BC777",
+      });
+
+      expect(mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).chat_id)).toEqual(["111", "222"]);
+      expect(results).toEqual([
+        expect.objectContaining({ target: expect.objectContaining({ recipientId: 1 }), status: "sent" }),
+        expect.objectContaining({ target: expect.objectContaining({ recipientId: 2 }), status: "failed", error: "chat not found" }),
+      ]);
+
+      await recordTelegramDeliveries(7, results);
+      expect(createTelegramDeliveries).toHaveBeenCalledWith([
+        expect.objectContaining({ notificationId: 7, recipientId: 1, status: "sent", errorMessage: null }),
+        expect.objectContaining({ notificationId: 7, recipientId: 2, status: "failed", errorMessage: "chat not found" }),
+      ]);
+    });
+
+    it("skips recipients in their quiet hours", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2024, 0, 15, 23, 30));
+      vi.mocked(getAllTelegramRecipients).mockResolvedValue([
+        recipient(1, "111", { quietHoursEnabled: true, quietHoursStart: "22:00", quietHoursEnd: "07:00" }),
+      ]);
+
+      const results = await deliverTelegramNotification({ title: "Manual", content: "open", type: "manual_open", severity: "low" });
+      vi.useRealTimers();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(results).toEqual([
+        expect.objectContaining({ target: expect.objectContaining({ recipientId: 1 }), status: "skipped", error: "Quiet hours" }),
+      ]);
+    });
+  });
+
+  describe("photo messages", () => {
+    beforeEach(() => {
+      vi.mocked(getSetting)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ key: "telegram_bot_token", value: "token" } as any)
+        .mockResolvedValueOnce({ key: "telegram_chat_id", value: "123" } as any);
+    });
+
+    const calledMethods = () => mockFetch.mock.calls.map(([url]) => String(url).split("/").pop());
+    const body = (index: number) => JSON.parse(mockFetch.mock.calls[index][1].body);
+
+    it("sends the message as the photo caption with its buttons", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ok: true }) });
+
+      const result = await sendTelegramMessage({
+        title: "Неизвестный <авто>",
+        content: "A123BC777",
+        photoUrl: "https://example.com/frame.jpg",
+        buttons: [[{ text: "Открыть", callback_data: "open:1" }]],
+      });
+
+      expect(result).toBe(true);
+      expect(calledMethods()).toEqual(["sendPhoto"]);
+      expect(body(0)).toMatchObject({
+        photo: "https://example.com/frame.jpg",
+        caption: "<b>Неизвестный &lt;авто&gt;</b>\n\nA123BC777",
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: [[{ text: "Открыть", callback_data: "open:1" }]] },
+      });
+    });
+
+    it("sends several photos as an album captioned on the first", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ok: true }) });
+
+      await sendTelegramMessage({
+        title: "Test",
+        content: "Test",
+        photoUrl: "https://example.com/frame.jpg",
+        extraPhotoUrls: ["https://example.com/plate.jpg"],
+      });
+
+      expect(calledMethods()).toEqual(["sendMediaGroup"]);
+      const { media } = body(0);
+      expect(media.map((m: any) => m.media)).toEqual(["https://example.com/frame.jpg", "https://example.com/plate.jpg"]);
+      expect(media[0].caption).toContain("Test");
+      expect(media[1].caption).toBeUndefined();
+    });
+
+    it("follows an album with a text message when there are buttons", async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ ok: true }) });
+
+      await sendTelegramMessage({
+        title: "Test",
+        content: "Test",
+        photoUrl: "https://example.com/frame.jpg",
+        extraPhotoUrls: ["https://example.com/plate.jpg"],
+        buttons: [[{ text: "Открыть", callback_data: "open:1" }]],
+      });
+
+      expect(calledMethods()).toEqual(["sendMediaGroup", "sendMessage"]);
+      expect(body(0).media[0].caption).toBeUndefined();
+      expect(body(1).reply_markup.inline_keyboard).toHaveLength(1);
+    });
+
+    it("sends long messages as text after an uncaptioned photo", async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ ok: true }) });
+
+      await sendTelegramMessage({
+        title: "Test",
+        content: "x".repeat(2000),
+        photoUrl: "https://example.com/frame.jpg",
+      });
+
+      expect(calledMethods()).toEqual(["sendPhoto", "sendMessage"]);
+      expect(body(0).caption).toBeUndefined();
+    });
+
+    it("falls back to text with a photo link when the photo fails", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 400, json: () => Promise.resolve({ ok: false, description: "wrong file identifier" }) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ok: true }) });
+
+      const result = await sendTelegramMessage({
+        title: "Test",
+        content: "Test",
+        photoUrl: "https://example.com/frame.jpg",
+        buttons: [[{ text: "Открыть", callback_data: "open:1" }]],
+      });
+
+      expect(result).toBe(true);
+      expect(calledMethods()).toEqual(["sendPhoto", "sendMessage"]);
+      expect(body(1).text).toContain('<a href="https://example.com/frame.jpg">');
+      expect(body(1).reply_markup).toBeDefined();
+    });
+  });
+
   describe("testTelegramConnection", () => {
     it("returns success when connection is valid", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -165,7 +326,7 @@ describe("telegramNotification service", () => {
     });
   });
 
-  describe("telegramNotifyUnknownVehicle", () => {
+  describe("telegramUnknownVehicleMessage", () => {
     it("sends notification with correct format", async () => {
       vi.mocked(getSetting)
         .mockResolvedValueOnce(null)
@@ -177,21 +338,45 @@ describe("telegramNotification service", () => {
         json: () => Promise.resolve({ ok: true }),
       });
 
-      const result = await telegramNotifyUnknownVehicle({
+      const result = await sendTelegramMessage(telegramUnknownVehicleMessage({
         licensePlate: "A123BC777",
         confidence: 95,
         timestamp: new Date("2024-01-15T10:30:00"),
-      });
+      }));
 
       expect(result).toBe(true);
       
       const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(callBody.text).toContain("A123BC777");
       expect(callBody.text).toContain("95%");
+      expect(callBody.reply_markup).toBeUndefined();
+    });
+
+    it("adds approval buttons for the passage", async () => {
+      vi.mocked(getSetting)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ key: "telegram_bot_token", value: "token" } as any)
+        .mockResolvedValueOnce({ key: "telegram_chat_id", value: "123" } as any);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ ok: true }),
+      });
+
+      await sendTelegramMessage(telegramUnknownVehicleMessage({
+        licensePlate: "A123BC777",
+        confidence: 95,
+        timestamp: new Date("2024-01-15T10:30:00"),
+        passageId: 42,
+      }));
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody.reply_markup.inline_keyboard.flat().map((b: any) => b.callback_data))
+        .toEqual(["open:42", "deny:42", "allow:42"]);
     });
   });
 
-  describe("telegramNotifyManualOpen", () => {
+  describe("telegramManualOpenMessage", () => {
     it("sends notification with user info", async () => {
       vi.mocked(getSetting)
         .mockResolvedValueOnce(null)
@@ -203,12 +388,12 @@ describe("telegramNotification service", () => {
         json: () => Promise.resolve({ ok: true }),
       });
 
-      const result = await telegramNotifyManualOpen({
+      const result = await sendTelegramMessage(telegramManualOpenMessage({
         userName: "Admin User",
         userId: 1,
         timestamp: new Date("2024-01-15T10:30:00"),
         notes: "Emergency",
-      });
+      }));
 
       expect(result).toBe(true);
       
@@ -218,7 +403,7 @@ describe("telegramNotification service", () => {
     });
   });
 
-  describe("telegramNotifyUnauthorizedAccess", () => {
+  describe("telegramUnauthorizedAccessMessage", () => {
     it("sends notification with attempt count", async () => {
       vi.mocked(getSetting)
         .mockResolvedValueOnce(null)
@@ -230,11 +415,11 @@ describe("telegramNotification service", () => {
         json: () => Promise.resolve({ ok: true }),
       });
 
-      const result = await telegramNotifyUnauthorizedAccess({
+      const result = await sendTelegramMessage(telegramUnauthorizedAccessMessage({
         licensePlate: "X999YY777",
         attemptCount: 3,
         timestamp: new Date("2024-01-15T10:30:00"),
-      });
+      }));
 
       expect(result).toBe(true);
       
@@ -1,118 +1,219 @@
-import { getSetting } from "./db";
+import { getSetting, createTelegramDeliveries } from "./db";
+import { resolveTelegramTargets, type TelegramEventType, type TelegramSeverity, type TelegramTarget } from "./telegramRecipients";
+
+export type TelegramInlineButton = {
+  text: string;
+  callback_data: string;
+};
 
 export type TelegramNotificationPayload = {
   title: string;
   content: string;
   photoUrl?: string;
+  /** More images sent in one album with photoUrl, e.g. a plate crop */
+  extraPhotoUrls?: string[];
+  /** Rows of inline keyboard buttons under the message */
+  buttons?: TelegramInlineButton[][];
+  /** Routes the message to the recipients subscribed to it */
+  type?: TelegramEventType;
+  severity?: TelegramSeverity;
+  licensePlate?: string;
+};
+
+/** The text of a notification; the dispatcher adds its routing fields */
+export type TelegramMessage = Omit<TelegramNotificationPayload, 'type' | 'severity' | 'licensePlate'>;
+
+export type TelegramDeliveryResult = {
+  target: TelegramTarget;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
 };
 
+// Telegram rejects photo captions longer than this
+const TELEGRAM_CAPTION_LIMIT = 1024;
+const TELEGRAM_MEDIA_GROUP_LIMIT = 10;
+
 /**
- * Sends a message to Telegram using the Bot API.
- * Requires TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID settings to be configured.
+ * Sends a message to every Telegram recipient subscribed to it.
+ * Requires the TELEGRAM_BOT_TOKEN setting and at least one recipient.
+ * Notifications go through the dispatcher, which also records them.
  */
 export async function sendTelegramMessage(payload: TelegramNotificationPayload): Promise<boolean> {
   try {
-    // Check if Telegram notifications are enabled
-    const telegramEnabled = await getSetting('telegram_enabled');
-    if (telegramEnabled?.value === 'false') {
-      console.log('[Telegram] Telegram notifications are disabled');
-      return false;
-    }
+    const results = await deliverTelegramNotification(payload);
+    return results.some(result => result.status === 'sent');
+  } catch (error) {
+    console.error('[Telegram] Error sending message:', error);
+    return false;
+  }
+}
 
-    // Get bot token and chat ID from settings
-    const botTokenSetting = await getSetting('telegram_bot_token');
-    const chatIdSetting = await getSetting('telegram_chat_id');
+/**
+ * Sends the message to each recipient and reports the outcome per recipient
+ */
+export async function deliverTelegramNotification(payload: TelegramNotificationPayload): Promise<TelegramDeliveryResult[]> {
+  // Check if Telegram notifications are enabled
+  const telegramEnabled = await getSetting('telegram_enabled');
+  if (telegramEnabled?.value === 'false') {
+    console.log('[Telegram] Telegram notifications are disabled');
+    return [];
+  }
 
-    if (!botTokenSetting?.value || !chatIdSetting?.value) {
-      console.warn('[Telegram] Bot token or chat ID not configured');
-      return false;
-    }
+  const botTokenSetting = await getSetting('telegram_bot_token');
+  if (!botTokenSetting?.value) {
+    console.warn('[Telegram] Bot token not configured');
+    return [];
+  }
 
-    const botToken = botTokenSetting.value;
-    const chatId = chatIdSetting.value;
+  const routing = await resolveTelegramTargets(payload);
+  if (routing.targets.length === 0 && routing.quiet.length === 0) {
+    console.warn('[Telegram] No recipients for this notification');
+    return [];
+  }
 
-    // Format the message with HTML
-    const message = formatTelegramMessage(payload);
+  // Format the message with HTML
+  const message = formatTelegramMessage(payload);
+
+  const results: TelegramDeliveryResult[] = [];
+  for (const target of routing.targets) {
+    try {
+      await sendToChat(botTokenSetting.value, target.chatId, payload, message);
+      console.log(`[Telegram] Message sent successfully to chat ${target.chatId}`);
+      results.push({ target, status: 'sent' });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Telegram] Failed to send message to chat ${target.chatId}:`, errorMessage);
+      results.push({ target, status: 'failed', error: errorMessage });
+    }
+  }
+  for (const target of routing.quiet) {
+    results.push({ target, status: 'skipped', error: 'Quiet hours' });
+  }
+  return results;
+}
 
-    // Send the message
-    const response = await fetch(
-      `https://api.telegram.org/bot${botToken}/sendMessage`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chat_id: chatId,
-          text: message,
-          parse_mode: 'HTML',
-          disable_web_page_preview: false,
-        }),
-      }
-    );
+export async function recordTelegramDeliveries(notificationId: number, results: TelegramDeliveryResult[]) {
+  await createTelegramDeliveries(results.map(result => ({
+    notificationId,
+    recipientId: result.target.recipientId,
+    chatId: result.target.chatId,
+    recipientName: result.target.name,
+    status: result.status,
+    errorMessage: result.error ?? null,
+  })));
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('[Telegram] Failed to send message:', error);
-      return false;
+/**
+ * Sends the message to one chat, throwing when Telegram rejects it.
+ * Messages with a photo go out as the photo's caption; when the photo
+ * cannot be sent the message falls back to text with a link to it.
+ */
+async function sendToChat(
+  botToken: string,
+  chatId: string,
+  payload: TelegramNotificationPayload,
+  message: string
+): Promise<void> {
+  const photoUrls = [payload.photoUrl, ...(payload.extraPhotoUrls ?? [])].filter((url): url is string => !!url);
+  if (photoUrls.length > 0) {
+    try {
+      const sentAsCaption = await sendTelegramPhotos(botToken, chatId, photoUrls, message, payload.buttons);
+      if (sentAsCaption) return;
+    } catch (error) {
+      console.error('[Telegram] Failed to send photo, falling back to text:', error);
+      message += `\n\n📷 <a href="${escapeHtml(photoUrls[0])}">Фото</a>`;
     }
+  }
 
-    const result = await response.json();
-    if (!result.ok) {
-      console.error('[Telegram] API error:', result.description);
-      return false;
+  const response = await fetch(
+    `https://api.telegram.org/bot${botToken}/sendMessage`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chat_id: chatId,
+        text: message,
+        parse_mode: 'HTML',
+        disable_web_page_preview: false,
+        reply_markup: payload.buttons ? { inline_keyboard: payload.buttons } : undefined,
+      }),
     }
+  );
 
-    console.log(`[Telegram] Message sent successfully to chat ${chatId}`);
-
-    // If there's a photo, send it separately
-    if (payload.photoUrl) {
-      await sendTelegramPhoto(botToken, chatId, payload.photoUrl, payload.title);
-    }
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
 
-    return true;
-  } catch (error) {
-    console.error('[Telegram] Error sending message:', error);
-    return false;
+  const result = await response.json();
+  if (!result.ok) {
+    throw new Error(result.description || 'Telegram API error');
   }
 }
 
 /**
- * Sends a photo to Telegram.
+ * Sends the photos with the message as their caption: one photo via
+ * sendPhoto, several as a media group. Returns false when the message still
+ * has to be sent as text: captions over the limit, or buttons under an album,
+ * which Telegram does not allow. Throws when Telegram rejects the photos.
  */
-async function sendTelegramPhoto(
+async function sendTelegramPhotos(
   botToken: string,
   chatId: string,
-  photoUrl: string,
-  caption?: string
+  photoUrls: string[],
+  caption: string,
+  buttons?: TelegramInlineButton[][]
 ): Promise<boolean> {
-  try {
-    const response = await fetch(
-      `https://api.telegram.org/bot${botToken}/sendPhoto`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chat_id: chatId,
-          photo: photoUrl,
-          caption: caption ? `📷 ${caption}` : undefined,
-        }),
-      }
-    );
+  const fitsCaption = caption.length <= TELEGRAM_CAPTION_LIMIT;
+
+  if (photoUrls.length === 1) {
+    await callTelegramApi(botToken, 'sendPhoto', {
+      chat_id: chatId,
+      photo: photoUrls[0],
+      caption: fitsCaption ? caption : undefined,
+      parse_mode: 'HTML',
+      reply_markup: fitsCaption && buttons ? { inline_keyboard: buttons } : undefined,
+    });
+    return fitsCaption;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('[Telegram] Failed to send photo:', error);
-      return false;
+  const withCaption = fitsCaption && !buttons;
+  await callTelegramApi(botToken, 'sendMediaGroup', {
+    chat_id: chatId,
+    media: photoUrls.slice(0, TELEGRAM_MEDIA_GROUP_LIMIT).map((url, index) => ({
+      type: 'photo',
+      media: url,
+      ...(withCaption && index === 0 && { caption, parse_mode: 'HTML' }),
+    })),
+  });
+  return withCaption;
+}
+
+/**
+ * Calls a Bot API method and returns its result, throwing on API errors.
+ */
+export async function callTelegramApi<T = unknown>(
+  botToken: string,
+  method: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(
+    `https://api.telegram.org/bot${botToken}/${method}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
     }
+  );
 
-    return true;
-  } catch (error) {
-    console.error('[Telegram] Error sending photo:', error);
-    return false;
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.ok) {
+    throw new Error(result?.description || `Telegram API error: ${response.status}`);
   }
+  return result.result as T;
 }
 
 /**
@@ -127,7 +228,7 @@ function formatTelegramMessage(payload: TelegramNotificationPayload): string {
 /**
  * Escapes HTML special characters for Telegram.
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -215,17 +316,18 @@ export async function getBotInfo(botToken: string): Promise<{ success: boolean;
   }
 }
 
-// Notification helper functions that integrate with the existing notification system
+// Telegram messages for each notification type, sent by the notification dispatcher
 
 /**
- * Sends unknown vehicle notification to Telegram.
+ * Unknown vehicle alert with the approval buttons.
  */
-export async function telegramNotifyUnknownVehicle(data: {
+export function telegramUnknownVehicleMessage(data: {
   licensePlate: string;
   confidence: number;
   photoUrl?: string;
   timestamp: Date;
-}): Promise<boolean> {
+  passageId?: number;
+}): TelegramMessage {
   const formattedTime = data.timestamp.toLocaleString('ru-RU', {
     day: '2-digit',
     month: '2-digit',
@@ -235,22 +337,30 @@ export async function telegramNotifyUnknownVehicle(data: {
     second: '2-digit',
   });
 
-  return sendTelegramMessage({
+  return {
     title: `🚨 Неизвестный автомобиль: ${data.licensePlate}`,
     content: `📋 Номер: ${data.licensePlate}\n📊 Уверенность: ${data.confidence}%\n🕐 Время: ${formattedTime}\n\n⚠️ Автомобиль не зарегистрирован в базе данных`,
     photoUrl: data.photoUrl,
-  });
+    // Authorised chat members can decide on the passage right from the chat
+    buttons: data.passageId ? [
+      [
+        { text: '🔓 Открыть', callback_data: `open:${data.passageId}` },
+        { text: '⛔ Отказать', callback_data: `deny:${data.passageId}` },
+      ],
+      [{ text: '✅ В разрешённые', callback_data: `allow:${data.passageId}` }],
+    ] : undefined,
+  };
 }
 
 /**
- * Sends manual barrier open notification to Telegram.
+ * Manual barrier open message.
  */
-export async function telegramNotifyManualOpen(data: {
+export function telegramManualOpenMessage(data: {
   userName: string;
   userId: number;
   timestamp: Date;
   notes?: string;
-}): Promise<boolean> {
+}): TelegramMessage {
   const formattedTime = data.timestamp.toLocaleString('ru-RU', {
     day: '2-digit',
     month: '2-digit',
@@ -265,21 +375,21 @@ export async function telegramNotifyManualOpen(data: {
     content += `\n📝 Примечание: ${data.notes}`;
   }
 
-  return sendTelegramMessage({
+  return {
     title: '🚧 Ручное открытие шлагбаума',
     content,
-  });
+  };
 }
 
 /**
- * Sends unauthorized access notification to Telegram.
+ * Unauthorized access message.
  */
-export async function telegramNotifyUnauthorizedAccess(data: {
+export function telegramUnauthorizedAccessMessage(data: {
   licensePlate: string;
   attemptCount: number;
   timestamp: Date;
   photoUrl?: string;
-}): Promise<boolean> {
+}): TelegramMessage {
   const formattedTime = data.timestamp.toLocaleString('ru-RU', {
     day: '2-digit',
     month: '2-digit',
@@ -289,27 +399,21 @@ export async function telegramNotifyUnauthorizedAccess(data: {
     second: '2-digit',
   });
 
-  return sendTelegramMessage({
+  return {
     title: '⚠️ Попытка несанкционированного доступа',
     content: `📋 Номер: ${data.licensePlate}\n🔢 Попыток: ${data.attemptCount}\n🕐 Время: ${formattedTime}\n\n🔴 Рекомендуется проверить камеру`,
     photoUrl: data.photoUrl,
-  });
+  };
 }
 
 /**
- * Sends allowed vehicle passage notification to Telegram.
+ * Allowed vehicle passage message.
  */
-export async function telegramNotifyAllowedPassage(data: {
+export function telegramAllowedPassageMessage(data: {
   licensePlate: string;
   ownerName?: string;
   timestamp: Date;
-}): Promise<boolean> {
-  // Check if allowed passage notifications are enabled
-  const notifyAllowed = await getSetting('telegram_notify_allowed');
-  if (notifyAllowed?.value !== 'true') {
-    return false;
-  }
-
+}): TelegramMessage {
   const formattedTime = data.timestamp.toLocaleString('ru-RU', {
     day: '2-digit',
     month: '2-digit',
@@ -324,8 +428,90 @@ export async function telegramNotifyAllowedPassage(data: {
     content += `\n👤 Владелец: ${data.ownerName}`;
   }
 
-  return sendTelegramMessage({
+  return {
     title: '✅ Разрешённый проезд',
     content,
+  };
+}
+
+/**
+ * Maximum stay exceeded message.
+ */
+export function telegramOverstayMessage(data: {
+  licensePlate: string;
+  ownerName?: string;
+  enteredAt: Date;
+  dwellMinutes: number;
+  maxStayMinutes: number;
+}): TelegramMessage {
+  const formattedTime = data.enteredAt.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  let content = `📋 Номер: ${data.licensePlate}\n🕐 Въезд: ${formattedTime}\n⏱ На территории: ${data.dwellMinutes} мин (лимит ${data.maxStayMinutes} мин)`;
+  if (data.ownerName) {
+    content += `\n👤 Владелец: ${data.ownerName}`;
+  }
+
+  return {
+    title: '⏰ Превышено время стоянки',
+    content,
+  };
+}
+
+/**
+ * Driver medical status alert
+ */
+export function telegramMedicalIssueMessage(data: {
+  licensePlate: string;
+  driverName?: string;
+  medicalStatus: string;
+  expirationDate?: Date | null;
+  blocked: boolean;
+  photoUrl?: string;
+  timestamp: Date;
+}): TelegramMessage {
+  const formattedTime = data.timestamp.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
   });
+
+  let content = `📋 Номер: ${data.licensePlate}\n🩺 Статус медосмотра: ${data.medicalStatus}\n🕐 Время: ${formattedTime}`;
+  if (data.driverName) {
+    content += `\n👤 Водитель: ${data.driverName}`;
+  }
+  if (data.expirationDate) {
+    content += `\n📅 Действителен до: ${data.expirationDate.toLocaleDateString('ru-RU')}`;
+  }
+
+  return {
+    title: data.blocked ? '🩺 Въезд запрещён: медосмотр' : '🩺 Медосмотр требует внимания',
+    content,
+    photoUrl: data.photoUrl,
+  };
+}
+
+/**
+ * Medical check expiry reminder
+ */
+export function telegramMedicalExpiringMessage(data: {
+  records: { licensePlate: string; driverName: string; expirationDate: Date; daysLeft: number }[];
+}): TelegramMessage {
+  const content = data.records
+    .map(r => `👤 ${r.driverName} (${r.licensePlate}): до ${r.expirationDate.toLocaleDateString('ru-RU')}, осталось ${r.daysLeft} дн.`)
+    .join('\n');
+
+  return {
+    title: '🩺 Истекает медосмотр',
+    content,
+  };
 }
@@ -0,0 +1,186 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getSetting: vi.fn(),
+  getAllTelegramRecipients: vi.fn(),
+  getTelegramRecipientByChatId: vi.fn(),
+  createTelegramRecipient: vi.fn(),
+  updateTelegramRecipient: vi.fn(),
+}));
+
+import * as db from "./db";
+import { parseEventTypes } from "./notificationTypes";
+import {
+  recipientWantsNotification,
+  isRecipientInQuietHours,
+  resolveTelegramTargets,
+} from "./telegramRecipients";
+import type { TelegramRecipient } from "../drizzle/schema";
+
+function recipient(overrides: Partial<TelegramRecipient> = {}): TelegramRecipient {
+  return {
+    id: 1,
+    name: "Guards",
+    chatId: "-100500",
+    kind: "group",
+    eventTypes: null,
+    minSeverity: "low",
+    quietHoursEnabled: false,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createAdminContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "admin-user",
+      email: "admin@example.com",
+      name: "Admin",
+      loginMethod: "manus",
+      role: "admin",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+// 23:30 in Moscow
+const night = new Date("2024-01-15T20:30:00Z");
+
+describe("Telegram recipients", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parseEventTypes", () => {
+    it("keeps known notification types", () => {
+      expect(parseEventTypes('["unknown_vehicle","bogus","overstay"]')).toEqual(["unknown_vehicle", "overstay"]);
+    });
+
+    it("treats missing or malformed lists as all events", () => {
+      expect(parseEventTypes(null)).toEqual([]);
+      expect(parseEventTypes("not json")).toEqual([]);
+    });
+  });
+
+  describe("recipientWantsNotification", () => {
+    it("filters by subscribed event types", () => {
+      const r = recipient({ eventTypes: '["blacklist_detected"]' });
+
+      expect(recipientWantsNotification(r, { type: "blacklist_detected", severity: "high" })).toBe(true);
+      expect(recipientWantsNotification(r, { type: "unknown_vehicle", severity: "high" })).toBe(false);
+    });
+
+    it("filters by minimum severity", () => {
+      const r = recipient({ minSeverity: "high" });
+
+      expect(recipientWantsNotification(r, { type: "unknown_vehicle", severity: "medium" })).toBe(false);
+      expect(recipientWantsNotification(r, { type: "blacklist_detected", severity: "critical" })).toBe(true);
+    });
+
+    it("lets notifications without a severity through", () => {
+      expect(recipientWantsNotification(recipient({ minSeverity: "critical" }), { type: "quiet_hours_summary" })).toBe(true);
+    });
+
+    it("skips disabled recipients", () => {
+      expect(recipientWantsNotification(recipient({ isActive: false }), {})).toBe(false);
+    });
+  });
+
+  describe("isRecipientInQuietHours", () => {
+    it("handles windows spanning midnight", () => {
+      const r = recipient({ quietHoursEnabled: true, quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+      expect(isRecipientInQuietHours(r, new Date("2024-01-15T23:30:00Z"), "UTC")).toBe(true);
+      expect(isRecipientInQuietHours(r, new Date("2024-01-15T12:00:00Z"), "UTC")).toBe(false);
+    });
+
+    it("follows the quiet hours time zone rather than the server clock", () => {
+      const r = recipient({ quietHoursEnabled: true, quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+      // 20:30 UTC is 23:30 in Moscow
+      expect(isRecipientInQuietHours(r, new Date("2024-01-15T20:30:00Z"), "Europe/Moscow")).toBe(true);
+      expect(isRecipientInQuietHours(r, new Date("2024-01-15T20:30:00Z"), "UTC")).toBe(false);
+    });
+
+    it("is off unless enabled", () => {
+      const r = recipient({ quietHoursEnabled: false, quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+      expect(isRecipientInQuietHours(r, new Date("2024-01-15T23:30:00Z"), "UTC")).toBe(false);
+    });
+  });
+
+  describe("resolveTelegramTargets", () => {
+    it("falls back to the configured chat without recipients", async () => {
+      vi.mocked(db.getAllTelegramRecipients).mockResolvedValue([]);
+      vi.mocked(db.getSetting).mockResolvedValue({ key: "telegram_chat_id", value: " 123 " } as any);
+
+      const routing = await resolveTelegramTargets({ type: "unknown_vehicle", severity: "medium" });
+
+      expect(routing).toEqual({ targets: [{ recipientId: null, chatId: "123", name: null }], quiet: [] });
+    });
+
+    it("holds back recipients in their quiet hours unless critical", async () => {
+      vi.mocked(db.getAllTelegramRecipients).mockResolvedValue([
+        recipient({ id: 1, chatId: "1", name: "Day shift", quietHoursEnabled: true, quietHoursStart: "22:00", quietHoursEnd: "07:00" }),
+        recipient({ id: 2, chatId: "2", name: "Security" }),
+        recipient({ id: 3, chatId: "3", name: "Manager", minSeverity: "critical" }),
+      ]);
+      vi.mocked(db.getSetting).mockImplementation(async key =>
+        key === "quietHoursTimezone" ? { key, value: "Europe/Moscow" } as any : undefined
+      );
+
+      const routine = await resolveTelegramTargets({ type: "unknown_vehicle", severity: "medium" }, night);
+      expect(routine.targets.map(t => t.chatId)).toEqual(["2"]);
+      expect(routine.quiet.map(t => t.chatId)).toEqual(["1"]);
+
+      const critical = await resolveTelegramTargets({ type: "blacklist_detected", severity: "critical" }, night);
+      expect(critical.targets.map(t => t.chatId)).toEqual(["1", "2", "3"]);
+      expect(critical.quiet).toEqual([]);
+      expect(db.getSetting).not.toHaveBeenCalledWith("telegram_chat_id");
+    });
+  });
+
+  describe("telegramRecipients router", () => {
+    const input = {
+      name: "Night guard",
+      chatId: "123456",
+      kind: "guard" as const,
+      eventTypes: ["unknown_vehicle" as const],
+      minSeverity: "medium" as const,
+      quietHoursEnabled: false,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      isActive: true,
+    };
+
+    it("stores subscribed event types as JSON", async () => {
+      vi.mocked(db.getTelegramRecipientByChatId).mockResolvedValue(null);
+
+      const caller = appRouter.createCaller(createAdminContext());
+      await caller.telegramRecipients.create(input);
+
+      expect(db.createTelegramRecipient).toHaveBeenCalledWith({ ...input, eventTypes: '["unknown_vehicle"]' });
+    });
+
+    it("rejects a chat ID used by another recipient", async () => {
+      vi.mocked(db.getTelegramRecipientByChatId).mockResolvedValue(recipient({ id: 9, chatId: "123456" }));
+
+      const caller = appRouter.createCaller(createAdminContext());
+      await expect(caller.telegramRecipients.update({ id: 2, ...input })).rejects.toThrow("already exists");
+      expect(db.updateTelegramRecipient).not.toHaveBeenCalled();
+    });
+  });
+});
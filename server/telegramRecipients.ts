@@ -0,0 +1,92 @@
+/**
+ * Telegram Recipients - routes notifications to the chats, groups and guards
+ * subscribed to their type and severity. Each recipient can have its own
+ * quiet hours, which critical notifications ignore. Until recipients are
+ * configured, notifications go to the single telegram_chat_id chat.
+ */
+
+import { getSetting, getAllTelegramRecipients } from './db';
+import { getQuietHoursTimeZone, isWithinQuietWindow } from './quietHours';
+import {
+  SEVERITY_ORDER,
+  isSubscribedTo,
+  type NotificationEventType as TelegramEventType,
+  type NotificationSeverity as TelegramSeverity,
+} from './notificationTypes';
+import type { TelegramRecipient } from '../drizzle/schema';
+
+export type { TelegramEventType, TelegramSeverity };
+
+export interface TelegramTarget {
+  /** Null for the legacy telegram_chat_id chat */
+  recipientId: number | null;
+  chatId: string;
+  name: string | null;
+}
+
+export interface TelegramRouting {
+  targets: TelegramTarget[];
+  /** Subscribed recipients held back by their quiet hours */
+  quiet: TelegramTarget[];
+}
+
+/**
+ * Notifications without a severity, such as summaries, pass the severity filter
+ */
+export function recipientWantsNotification(
+  recipient: TelegramRecipient,
+  notification: { type?: TelegramEventType; severity?: TelegramSeverity }
+): boolean {
+  if (!recipient.isActive) return false;
+
+  if (!isSubscribedTo(recipient.eventTypes, notification.type)) return false;
+
+  if (notification.severity &&
+      SEVERITY_ORDER.indexOf(notification.severity) < SEVERITY_ORDER.indexOf(recipient.minSeverity)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Recipient windows are kept in the quiet hours time zone, like the channel schedules
+ */
+export function isRecipientInQuietHours(recipient: TelegramRecipient, now: Date, timeZone: string): boolean {
+  if (!recipient.quietHoursEnabled || !recipient.quietHoursStart || !recipient.quietHoursEnd) {
+    return false;
+  }
+  return isWithinQuietWindow(recipient.quietHoursStart, recipient.quietHoursEnd, now, timeZone);
+}
+
+/**
+ * Chats a notification should be delivered to right now
+ */
+export async function resolveTelegramTargets(
+  notification: { type?: TelegramEventType; severity?: TelegramSeverity },
+  now = new Date()
+): Promise<TelegramRouting> {
+  const recipients = await getAllTelegramRecipients();
+
+  if (recipients.length === 0) {
+    const chatIdSetting = await getSetting('telegram_chat_id');
+    const chatId = chatIdSetting?.value?.trim();
+    return {
+      targets: chatId ? [{ recipientId: null, chatId, name: null }] : [],
+      quiet: [],
+    };
+  }
+
+  const timeZone = await getQuietHoursTimeZone();
+  const routing: TelegramRouting = { targets: [], quiet: [] };
+  for (const recipient of recipients) {
+    if (!recipientWantsNotification(recipient, notification)) continue;
+
+    const target = { recipientId: recipient.id, chatId: recipient.chatId, name: recipient.name };
+    if (notification.severity !== 'critical' && isRecipientInQuietHours(recipient, now, timeZone)) {
+      routing.quiet.push(target);
+    } else {
+      routing.targets.push(target);
+    }
+  }
+  return routing;
+}
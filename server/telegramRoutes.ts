@@ -0,0 +1,26 @@
+import type { Express, Request, Response } from "express";
+import { getSetting } from "./db";
+import { handleTelegramUpdate } from "./telegramBot";
+
+/**
+ * POST /api/telegram/webhook - updates pushed by the Telegram Bot API
+ */
+export async function handleTelegramWebhook(req: Request, res: Response) {
+  const secret = await getSetting("telegram_webhook_secret");
+  if (!secret?.value || req.header("x-telegram-bot-api-secret-token") !== secret.value) {
+    res.status(401).json({ error: "Invalid secret token" });
+    return;
+  }
+
+  try {
+    await handleTelegramUpdate(req.body ?? {});
+  } catch (error) {
+    console.error("[TelegramBot] Failed to handle update", error);
+  }
+  // Telegram redelivers updates answered with an error, so failures are only logged
+  res.status(200).json({ ok: true });
+}
+
+export function registerTelegramRoutes(app: Express) {
+  app.post("/api/telegram/webhook", handleTelegramWebhook);
+}
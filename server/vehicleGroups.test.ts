@@ -0,0 +1,122 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getVehicleGroupById: vi.fn(),
+  getAccessScheduleById: vi.fn(),
+  getPrimaryBarrierIntegration: vi.fn(),
+}));
+
+import * as db from "./db";
+import { parseIdList, checkGroupPermissions, checkVehicleAccess } from "./vehicleGroups";
+
+function group(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: "Office 3",
+    type: "tenant",
+    description: null,
+    scheduleId: null,
+    allowedBarrierIds: null,
+    allowedCameraIds: null,
+    isActive: true,
+    ...overrides,
+  } as any;
+}
+
+const weekdaySchedule = (id: number) => ({
+  id,
+  name: `Schedule ${id}`,
+  timeWindows: JSON.stringify([{ days: [1, 2, 3, 4, 5], start: "08:00", end: "18:00" }]),
+  validFrom: null,
+  validUntil: null,
+  holidays: null,
+  isActive: true,
+}) as any;
+
+// 2026-03-07 is a Saturday
+const saturday = new Date("2026-03-07T10:00:00");
+
+describe("Vehicle Groups", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("parseIdList", () => {
+    it("keeps integer ids only", () => {
+      expect(parseIdList("[1, \"2\", 3.5, 4]")).toEqual([1, 4]);
+    });
+
+    it("treats missing or malformed values as empty", () => {
+      expect(parseIdList(null)).toEqual([]);
+      expect(parseIdList("{")).toEqual([]);
+    });
+  });
+
+  describe("checkGroupPermissions", () => {
+    it("permits everything when no lists are set", async () => {
+      expect(await checkGroupPermissions(group(), { cameraId: null })).toEqual({ allowed: true, reason: null });
+    });
+
+    it("denies disabled groups", async () => {
+      const result = await checkGroupPermissions(group({ isActive: false }), { cameraId: 1 });
+
+      expect(result).toEqual({ allowed: false, reason: 'Group "Office 3" is disabled' });
+    });
+
+    it("restricts lanes to permitted cameras", async () => {
+      const g = group({ allowedCameraIds: "[4]" });
+
+      expect((await checkGroupPermissions(g, { cameraId: 4 })).allowed).toBe(true);
+      expect(await checkGroupPermissions(g, { cameraId: 5 })).toEqual({
+        allowed: false,
+        reason: 'Lane not permitted for group "Office 3"',
+      });
+    });
+
+    it("checks the primary barrier when none is chosen", async () => {
+      vi.mocked(db.getPrimaryBarrierIntegration).mockResolvedValue({ id: 7 } as any);
+      const g = group({ allowedBarrierIds: "[2]" });
+
+      expect((await checkGroupPermissions(g, { cameraId: null, barrierId: 2 })).allowed).toBe(true);
+      expect((await checkGroupPermissions(g, { cameraId: null })).reason).toBe('Barrier not permitted for group "Office 3"');
+    });
+  });
+
+  describe("checkVehicleAccess", () => {
+    it("falls back to the group schedule", async () => {
+      vi.mocked(db.getVehicleGroupById).mockResolvedValue(group({ scheduleId: 2 }));
+      vi.mocked(db.getAccessScheduleById).mockResolvedValue(weekdaySchedule(2));
+
+      const result = await checkVehicleAccess({ groupId: 1, scheduleId: null } as any, { cameraId: null }, saturday);
+
+      expect(db.getAccessScheduleById).toHaveBeenCalledWith(2);
+      expect(result).toEqual({ allowed: false, reason: 'Outside schedule "Schedule 2"' });
+    });
+
+    it("prefers the vehicle's own schedule", async () => {
+      vi.mocked(db.getVehicleGroupById).mockResolvedValue(group({ scheduleId: 2 }));
+      vi.mocked(db.getAccessScheduleById).mockResolvedValue(weekdaySchedule(9));
+
+      await checkVehicleAccess({ groupId: 1, scheduleId: 9 } as any, { cameraId: null }, saturday);
+
+      expect(db.getAccessScheduleById).toHaveBeenCalledWith(9);
+    });
+
+    it("stops at the group permissions", async () => {
+      vi.mocked(db.getVehicleGroupById).mockResolvedValue(group({ allowedCameraIds: "[4]", scheduleId: 2 }));
+
+      const result = await checkVehicleAccess({ groupId: 1, scheduleId: null } as any, { cameraId: 5 }, saturday);
+
+      expect(result.reason).toBe('Lane not permitted for group "Office 3"');
+      expect(db.getAccessScheduleById).not.toHaveBeenCalled();
+    });
+
+    it("allows ungrouped vehicles without a schedule", async () => {
+      const result = await checkVehicleAccess({ groupId: null, scheduleId: null } as any, { cameraId: null });
+
+      expect(result.allowed).toBe(true);
+      expect(db.getVehicleGroupById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Vehicle Groups - tenant/department/resident/staff access policy shared by
+ * the group's vehicles: default schedule and permitted barriers and lanes
+ */
+
+import { getVehicleGroupById, getAccessScheduleById, getPrimaryBarrierIntegration } from './db';
+import { evaluateSchedule, type AccessDecision } from './accessSchedule';
+import type { Vehicle, VehicleGroup } from '../drizzle/schema';
+
+export interface AccessTarget {
+  cameraId: number | null;
+  barrierId?: number; // undefined = primary barrier
+}
+
+/**
+ * Parse a stored list of integration ids, dropping malformed entries
+ */
+export function parseIdList(value: string | null): number[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isInteger(id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check the group's barrier and lane permissions; empty lists permit everything
+ */
+export async function checkGroupPermissions(group: VehicleGroup, target: AccessTarget): Promise<AccessDecision> {
+  if (!group.isActive) return { allowed: false, reason: `Group "${group.name}" is disabled` };
+
+  const cameraIds = parseIdList(group.allowedCameraIds);
+  if (cameraIds.length > 0 && (target.cameraId === null || !cameraIds.includes(target.cameraId))) {
+    return { allowed: false, reason: `Lane not permitted for group "${group.name}"` };
+  }
+
+  const barrierIds = parseIdList(group.allowedBarrierIds);
+  if (barrierIds.length > 0) {
+    const barrierId = target.barrierId ?? (await getPrimaryBarrierIntegration())?.id;
+    if (barrierId === undefined || !barrierIds.includes(barrierId)) {
+      return { allowed: false, reason: `Barrier not permitted for group "${group.name}"` };
+    }
+  }
+
+  return { allowed: true, reason: null };
+}
+
+/**
+ * Apply the vehicle's group policy and schedule. The vehicle's own schedule
+ * takes precedence over the group default.
+ */
+export async function checkVehicleAccess(
+  vehicle: Vehicle,
+  target: AccessTarget,
+  at: Date = new Date()
+): Promise<AccessDecision> {
+  const group = vehicle.groupId ? await getVehicleGroupById(vehicle.groupId) : null;
+
+  if (group) {
+    const permissions = await checkGroupPermissions(group, target);
+    if (!permissions.allowed) return permissions;
+  }
+
+  const scheduleId = vehicle.scheduleId ?? group?.scheduleId;
+  if (!scheduleId) return { allowed: true, reason: null };
+
+  const schedule = await getAccessScheduleById(scheduleId);
+  if (!schedule) return { allowed: true, reason: null };
+
+  return evaluateSchedule(schedule, at);
+}
@@ -4,6 +4,7 @@ import type { TrpcContext } from "./_core/context";
 
 // Mock the database functions
 vi.mock("./db", () => ({
+  getSetting: vi.fn(),
   getAllVehicles: vi.fn(),
   getVehicleById: vi.fn(),
   getVehicleByPlate: vi.fn(),
@@ -56,6 +57,27 @@ function createUserContext(): TrpcContext {
   };
 }
 
+function createGroupAdminContext(): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 3,
+    openId: "group-admin",
+    email: "office3@example.com",
+    name: "Office 3 Manager",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+    managedGroupId: 7,
+  };
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
 describe("vehicles router", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -75,7 +97,7 @@ describe("vehicles router", () => {
       const result = await caller.vehicles.list();
 
       expect(result).toEqual(mockVehicles);
-      expect(db.getAllVehicles).toHaveBeenCalledWith(false);
+      expect(db.getAllVehicles).toHaveBeenCalledWith(false, undefined);
     });
 
     it("includes inactive vehicles when requested by admin", async () => {
@@ -91,7 +113,7 @@ describe("vehicles router", () => {
       const result = await caller.vehicles.list({ includeInactive: true });
 
       expect(result).toEqual(mockVehicles);
-      expect(db.getAllVehicles).toHaveBeenCalledWith(true);
+      expect(db.getAllVehicles).toHaveBeenCalledWith(true, undefined);
     });
   });
 
@@ -156,6 +178,25 @@ describe("vehicles router", () => {
       ).rejects.toThrow("Admin access required");
     });
 
+    it("stores the canonical plate", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.createVehicle).mockResolvedValue({ id: 1 } as any);
+
+      const caller = appRouter.createCaller(createAdminContext());
+      await caller.vehicles.create({ licensePlate: "а 123 вс-77" });
+
+      expect(db.createVehicle).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "A123BC77" }));
+    });
+
+    it("rejects plates outside the enabled formats", async () => {
+      vi.mocked(db.getSetting).mockResolvedValueOnce({ key: "plate_regions", value: "RU" } as any);
+
+      const caller = appRouter.createCaller(createAdminContext());
+
+      await expect(caller.vehicles.create({ licensePlate: "ABC1234" })).rejects.toThrow("Unrecognized plate format");
+      expect(db.createVehicle).not.toHaveBeenCalled();
+    });
+
     it("throws error when plate already exists", async () => {
       vi.mocked(db.getVehicleByPlate).mockResolvedValue({ id: 1 } as any);
 
@@ -226,4 +267,44 @@ describe("vehicles router", () => {
       await expect(caller.vehicles.delete({ id: 1 })).rejects.toThrow("Admin access required");
     });
   });
+
+  describe("group admins", () => {
+    it("add vehicles to their own group only", async () => {
+      vi.mocked(db.getVehicleByPlate).mockResolvedValue(null);
+      vi.mocked(db.createVehicle).mockResolvedValue({ id: 4 } as any);
+
+      const caller = appRouter.createCaller(createGroupAdminContext());
+      await caller.vehicles.create({ licensePlate: "K100KK77", groupId: 1 });
+
+      expect(db.createVehicle).toHaveBeenCalledWith(expect.objectContaining({ licensePlate: "K100KK77", groupId: 7 }));
+    });
+
+    it("update vehicles of their group", async () => {
+      vi.mocked(db.getVehicleById).mockResolvedValue({ id: 4, groupId: 7 } as any);
+      vi.mocked(db.updateVehicle).mockResolvedValue({ id: 4 } as any);
+
+      const caller = appRouter.createCaller(createGroupAdminContext());
+      await caller.vehicles.update({ id: 4, ownerName: "Tenant" });
+
+      expect(db.updateVehicle).toHaveBeenCalledWith(4, { ownerName: "Tenant" });
+    });
+
+    it("cannot touch vehicles of another group", async () => {
+      vi.mocked(db.getVehicleById).mockResolvedValue({ id: 5, groupId: 8 } as any);
+
+      const caller = appRouter.createCaller(createGroupAdminContext());
+
+      await expect(caller.vehicles.delete({ id: 5 })).rejects.toThrow("Vehicle belongs to another group");
+      expect(db.deleteVehicle).not.toHaveBeenCalled();
+    });
+
+    it("cannot move vehicles out of their group", async () => {
+      vi.mocked(db.getVehicleById).mockResolvedValue({ id: 4, groupId: 7 } as any);
+
+      const caller = appRouter.createCaller(createGroupAdminContext());
+
+      await expect(caller.vehicles.update({ id: 4, groupId: 8 })).rejects.toThrow("Vehicle belongs to another group");
+      expect(db.updateVehicle).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { createHmac } from "crypto";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Mock the database functions
+vi.mock("./db", () => ({
+  getAllWebhookEndpoints: vi.fn(),
+  getWebhookEndpointById: vi.fn(),
+  createWebhookEndpoint: vi.fn(),
+  updateWebhookEndpoint: vi.fn(),
+}));
+
+import * as db from "./db";
+import {
+  signWebhookPayload,
+  isRetryableStatus,
+  buildWebhookDelivery,
+  restoreWebhookDelivery,
+  postWebhook,
+  notifyWebhooks,
+} from "./webhookNotification";
+import type { WebhookEndpoint } from "../drizzle/schema";
+
+function endpoint(overrides: Partial<WebhookEndpoint> = {}): WebhookEndpoint {
+  return {
+    id: 1,
+    name: "SIEM",
+    url: "https://siem.example.com/hook",
+    secret: "whsec_test",
+    eventTypes: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function response(status: number) {
+  return { ok: status >= 200 && status < 300, status, statusText: "" };
+}
+
+function createAdminContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "admin-user",
+      email: "admin@example.com",
+      name: "Admin",
+      loginMethod: "manus",
+      role: "admin",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const event = {
+  type: "unknown_vehicle" as const,
+  severity: "medium" as const,
+  title: "Unknown vehicle: A123BC77",
+  message: "Unknown vehicle at the gate",
+  licensePlate: "A123BC77",
+};
+
+describe("Webhook notifications", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("signWebhookPayload", () => {
+    it("signs the timestamp and body with the secret", () => {
+      const expected = createHmac("sha256", "secret").update('1700000000.{"a":1}').digest("hex");
+
+      expect(signWebhookPayload("secret", 1700000000, '{"a":1}')).toBe(expected);
+    });
+  });
+
+  describe("isRetryableStatus", () => {
+    it("retries network errors, rate limits and server errors", () => {
+      expect(isRetryableStatus(null)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it("gives up on other client errors", () => {
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(410)).toBe(false);
+    });
+  });
+
+  describe("restoreWebhookDelivery", () => {
+    it("keeps the delivery ID and body for retries", async () => {
+      const delivery = buildWebhookDelivery(event);
+      mockFetch.mockResolvedValue(response(200));
+
+      await postWebhook(endpoint(), restoreWebhookDelivery(event, delivery.body), 2);
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.body).toBe(delivery.body);
+      expect(init.headers["X-Webhook-Id"]).toBe(delivery.id);
+      expect(init.headers["X-Webhook-Attempt"]).toBe("2");
+    });
+  });
+
+  describe("notifyWebhooks", () => {
+    it("posts a signed payload and returns the response code", async () => {
+      vi.mocked(db.getAllWebhookEndpoints).mockResolvedValue([endpoint()]);
+      mockFetch.mockResolvedValue(response(204));
+
+      const [result] = await notifyWebhooks(event);
+      expect(result).toMatchObject({ ok: true, responseCode: 204, endpoint: { id: 1 } });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://siem.example.com/hook");
+      expect(init.body).toBe(result.delivery.body);
+      const body = JSON.parse(init.body);
+      expect(body).toMatchObject({ event: "unknown_vehicle", severity: "medium", licensePlate: "A123BC77" });
+      expect(init.headers["X-Webhook-Id"]).toBe(body.id);
+      expect(init.headers["X-Webhook-Signature"]).toBe(
+        `sha256=${signWebhookPayload("whsec_test", Number(init.headers["X-Webhook-Timestamp"]), init.body)}`
+      );
+    });
+
+    it("skips disabled and unsubscribed endpoints", async () => {
+      vi.mocked(db.getAllWebhookEndpoints).mockResolvedValue([
+        endpoint({ id: 1, isActive: false }),
+        endpoint({ id: 2, eventTypes: '["blacklist_detected"]' }),
+      ]);
+
+      expect(await notifyWebhooks(event)).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("reports network errors without a response code", async () => {
+      vi.mocked(db.getAllWebhookEndpoints).mockResolvedValue([endpoint()]);
+      mockFetch.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      const [result] = await notifyWebhooks(event);
+
+      expect(result).toMatchObject({ ok: false, responseCode: null, error: "ECONNREFUSED" });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("webhooks router", () => {
+    it("generates a signing secret for new webhooks", async () => {
+      const caller = appRouter.createCaller(createAdminContext());
+      await caller.webhooks.create({
+        name: "SIEM",
+        url: "https://siem.example.com/hook",
+        eventTypes: ["blacklist_detected"],
+        isActive: true,
+      });
+
+      expect(db.createWebhookEndpoint).toHaveBeenCalledWith(expect.objectContaining({
+        eventTypes: '["blacklist_detected"]',
+        secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+      }));
+    });
+
+    it("rejects non-HTTP URLs", async () => {
+      const caller = appRouter.createCaller(createAdminContext());
+
+      await expect(caller.webhooks.create({
+        name: "Local",
+        url: "ftp://example.com/hook",
+        eventTypes: [],
+        isActive: true,
+      })).rejects.toThrow();
+      expect(db.createWebhookEndpoint).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Webhook Notifications - posts notification events as signed JSON to the
+ * webhook endpoints subscribed to them. Every attempt is kept in the
+ * notification history with the HTTP status the endpoint answered with
+ * (see notificationDispatcher), and the retry worker resends failed
+ * deliveries with the same payload.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { getAllWebhookEndpoints } from './db';
+import { isSubscribedTo, type NotificationEventType, type NotificationSeverity } from './notificationTypes';
+import type { WebhookEndpoint } from '../drizzle/schema';
+
+export type WebhookEvent = {
+  type: NotificationEventType;
+  severity?: NotificationSeverity;
+  title: string;
+  message: string;
+  licensePlate?: string;
+  photoUrl?: string;
+  passageId?: number;
+  /** Event-specific details, sent as-is */
+  data?: Record<string, unknown>;
+};
+
+export type WebhookDelivery = {
+  /** Stays the same across retries so receivers can drop duplicates */
+  id: string;
+  event: WebhookEvent;
+  body: string;
+};
+
+export type WebhookAttemptResult = {
+  ok: boolean;
+  responseCode: number | null;
+  error?: string;
+  durationMs: number;
+};
+
+export type WebhookEndpointResult = WebhookAttemptResult & {
+  endpoint: WebhookEndpoint;
+  delivery: WebhookDelivery;
+};
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", sent as X-Webhook-Signature: sha256=<hex>
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Network errors, timeouts, rate limits and server errors are retried;
+ * other client errors mean the endpoint rejected the payload for good
+ */
+export function isRetryableStatus(responseCode: number | null): boolean {
+  if (responseCode === null) return true;
+  return responseCode >= 500 || responseCode === 408 || responseCode === 429;
+}
+
+export function buildWebhookDelivery(event: WebhookEvent, now = new Date()): WebhookDelivery {
+  const id = randomUUID();
+  const body = JSON.stringify({
+    id,
+    event: event.type,
+    severity: event.severity ?? null,
+    title: event.title,
+    message: event.message,
+    licensePlate: event.licensePlate ?? null,
+    photoUrl: event.photoUrl ?? null,
+    passageId: event.passageId ?? null,
+    timestamp: now.toISOString(),
+    data: event.data ?? {},
+  });
+  return { id, event, body };
+}
+
+/**
+ * Rebuilds a recorded delivery so a retry sends the identical body and ID
+ */
+export function restoreWebhookDelivery(event: WebhookEvent, body: string): WebhookDelivery {
+  const { id } = JSON.parse(body) as { id: string };
+  return { id, event, body };
+}
+
+/**
+ * Makes one signed POST without recording it
+ */
+export async function postWebhook(
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  delivery: WebhookDelivery,
+  attempt = 1
+): Promise<WebhookAttemptResult> {
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000);
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'BarrierControl-Webhook/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event.type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Attempt': String(attempt),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, delivery.body)}`,
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    const durationMs = Date.now() - startedAt;
+    if (response.ok) {
+      return { ok: true, responseCode: response.status, durationMs };
+    }
+    return { ok: false, responseCode: response.status, error: `HTTP ${response.status} ${response.statusText}`.trim(), durationMs };
+  } catch (error) {
+    return {
+      ok: false,
+      responseCode: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Posts the event once to every active endpoint subscribed to its type
+ */
+export async function notifyWebhooks(event: WebhookEvent): Promise<WebhookEndpointResult[]> {
+  try {
+    const endpoints = (await getAllWebhookEndpoints())
+      .filter(endpoint => endpoint.isActive && isSubscribedTo(endpoint.eventTypes, event.type));
+
+    return await Promise.all(endpoints.map(async endpoint => {
+      const delivery = buildWebhookDelivery(event);
+      const result = await postWebhook(endpoint, delivery);
+
+      if (result.ok) {
+        console.log(`[Webhook] ${event.type} delivered to ${endpoint.name} (${result.responseCode})`);
+      } else {
+        console.warn(`[Webhook] Delivery to ${endpoint.name} failed: ${result.error}`);
+      }
+      return { ...result, endpoint, delivery };
+    }));
+  } catch (error) {
+    console.error('[Webhook] Error sending notifications:', error);
+    return [];
+  }
+}